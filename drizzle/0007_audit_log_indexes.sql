@@ -0,0 +1,5 @@
+-- Indexes backing the audit log browser (time-ordered cursor pagination and actor filter)
+-- Migration: 0007_audit_log_indexes
+
+CREATE INDEX IF NOT EXISTS `audit_logs_created_idx` ON `audit_logs` (`created_at`, `id`);
+CREATE INDEX IF NOT EXISTS `audit_logs_actor_idx` ON `audit_logs` (`actor_id`, `created_at`);
@@ -0,0 +1,22 @@
+-- Server-side visit tracking: daily aggregates rolled up into websites.visit_count, plus a dedup window table
+-- Migration: 0008_website_visits
+
+CREATE TABLE IF NOT EXISTS `website_visits_daily` (
+  `website_id` text NOT NULL,
+  `day` text NOT NULL,
+  `visits` integer DEFAULT 0 NOT NULL,
+  `rolled_up` integer DEFAULT 0 NOT NULL,
+  `updated_at` text NOT NULL,
+  PRIMARY KEY (`website_id`, `day`),
+  FOREIGN KEY (`website_id`) REFERENCES `websites`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE INDEX IF NOT EXISTS `website_visits_daily_day_idx` ON `website_visits_daily` (`day`);
+
+CREATE TABLE IF NOT EXISTS `website_visit_fingerprints` (
+  `fingerprint` text PRIMARY KEY NOT NULL,
+  `website_id` text NOT NULL,
+  `expires_at` text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS `website_visit_fingerprints_expires_idx` ON `website_visit_fingerprints` (`expires_at`);
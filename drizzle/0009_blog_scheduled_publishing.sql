@@ -0,0 +1,4 @@
+-- Scheduled blog publishing: the cron worker scans scheduled posts by publish time, the public API filters by status + publish time
+-- Migration: 0009_blog_scheduled_publishing
+
+CREATE INDEX IF NOT EXISTS `blog_posts_status_published_idx` ON `blog_posts` (`status`, `published_at`);
@@ -0,0 +1,17 @@
+-- Link health checks: latest probe result per website, written by the link-check cron and the manual "check now" action
+-- Migration: 0010_website_link_health
+
+CREATE TABLE IF NOT EXISTS `website_link_health` (
+  `website_id` text PRIMARY KEY NOT NULL,
+  `checked_at` text NOT NULL,
+  `is_healthy` integer NOT NULL,
+  `status_code` integer,
+  `final_url` text,
+  `response_time_ms` integer,
+  `error` text,
+  `consecutive_failures` integer DEFAULT 0 NOT NULL,
+  FOREIGN KEY (`website_id`) REFERENCES `websites`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE INDEX IF NOT EXISTS `website_link_health_checked_at_idx` ON `website_link_health` (`checked_at`);
+CREATE INDEX IF NOT EXISTS `website_link_health_failures_idx` ON `website_link_health` (`consecutive_failures`);
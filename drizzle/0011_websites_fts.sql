@@ -0,0 +1,42 @@
+-- Full-text search over websites: title, description, URL host, tag names and category name, ranked with bm25
+-- Migration: 0011_websites_fts
+
+CREATE VIRTUAL TABLE IF NOT EXISTS `websites_fts` USING fts5(
+  `website_id` UNINDEXED,
+  `title`,
+  `description`,
+  `host`,
+  `tags`,
+  `category`,
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+-- Backfill; afterwards the index is maintained by the admin services (src/lib/services/websiteSearchIndex.ts)
+DELETE FROM `websites_fts`;
+
+INSERT INTO `websites_fts` (`website_id`, `title`, `description`, `host`, `tags`, `category`)
+SELECT
+  w.`id`,
+  w.`title`,
+  coalesce(w.`description`, ''),
+  CASE WHEN w.`host` LIKE 'www.%' THEN substr(w.`host`, 5) ELSE w.`host` END,
+  coalesce((
+    SELECT group_concat(t.`name`, ' ')
+    FROM `website_tags` wt
+    INNER JOIN `tags` t ON t.`id` = wt.`tag_id`
+    WHERE wt.`website_id` = w.`id`
+  ), ''),
+  coalesce(c.`name`, '')
+FROM (
+  SELECT
+    `id`,
+    `title`,
+    `description`,
+    `category_id`,
+    lower(CASE WHEN instr(`rest`, '/') > 0 THEN substr(`rest`, 1, instr(`rest`, '/') - 1) ELSE `rest` END) AS `host`
+  FROM (
+    SELECT *, CASE WHEN instr(`url`, '://') > 0 THEN substr(`url`, instr(`url`, '://') + 3) ELSE `url` END AS `rest`
+    FROM `websites`
+  )
+) w
+LEFT JOIN `categories` c ON c.`id` = w.`category_id`;
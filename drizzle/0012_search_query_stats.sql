@@ -0,0 +1,13 @@
+-- Daily aggregates of public search queries, used to rank query suggestions by recent popularity
+-- Migration: 0012_search_query_stats
+
+CREATE TABLE IF NOT EXISTS `search_query_stats` (
+  `query` text NOT NULL,
+  `day` text NOT NULL,
+  `hits` integer DEFAULT 0 NOT NULL,
+  `result_count` integer DEFAULT 0 NOT NULL,
+  `updated_at` text NOT NULL,
+  PRIMARY KEY (`query`, `day`)
+);
+
+CREATE INDEX IF NOT EXISTS `search_query_stats_day_idx` ON `search_query_stats` (`day`);
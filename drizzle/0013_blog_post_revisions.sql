@@ -0,0 +1,17 @@
+-- Blog post revision history: a title/summary/content snapshot per save, listed newest first per post
+-- Migration: 0013_blog_post_revisions
+
+CREATE TABLE IF NOT EXISTS `blog_post_revisions` (
+  `id` text PRIMARY KEY NOT NULL,
+  `post_id` text NOT NULL,
+  `title` text NOT NULL,
+  `summary` text,
+  `content` text NOT NULL,
+  `author_id` text,
+  `reason` text NOT NULL,
+  `restored_from_id` text,
+  `created_at` text NOT NULL,
+  FOREIGN KEY (`post_id`) REFERENCES `blog_posts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE INDEX IF NOT EXISTS `blog_post_revisions_post_created_idx` ON `blog_post_revisions` (`post_id`, `created_at`);
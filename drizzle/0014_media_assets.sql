@@ -0,0 +1,23 @@
+-- Media library: metadata for images stored in the R2 bucket, deduplicated by content hash
+-- Migration: 0014_media_assets
+
+CREATE TABLE IF NOT EXISTS `media_assets` (
+  `id` text PRIMARY KEY NOT NULL,
+  `storage_key` text NOT NULL,
+  `filename` text NOT NULL,
+  `content_type` text NOT NULL,
+  `size` integer NOT NULL,
+  `width` integer,
+  `height` integer,
+  `sha256` text NOT NULL,
+  `alt_text` text,
+  `thumbnail_key` text,
+  `thumbnail_width` integer,
+  `thumbnail_height` integer,
+  `uploaded_by` text,
+  `created_at` text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS `media_assets_storage_key_unique` ON `media_assets` (`storage_key`);
+CREATE UNIQUE INDEX IF NOT EXISTS `media_assets_sha256_unique` ON `media_assets` (`sha256`);
+CREATE INDEX IF NOT EXISTS `media_assets_created_idx` ON `media_assets` (`created_at`);
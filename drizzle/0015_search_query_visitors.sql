@@ -0,0 +1,12 @@
+-- Distinct visitors per search query and day (salted IP hash), so a query only becomes a suggestion
+-- after several different visitors have searched for it
+-- Migration: 0015_search_query_visitors
+
+CREATE TABLE IF NOT EXISTS `search_query_visitors` (
+  `query` text NOT NULL,
+  `day` text NOT NULL,
+  `visitor_hash` text NOT NULL,
+  PRIMARY KEY (`query`, `day`, `visitor_hash`)
+);
+
+CREATE INDEX IF NOT EXISTS `search_query_visitors_day_idx` ON `search_query_visitors` (`day`);
@@ -0,0 +1,179 @@
+/**
+ * Category Tree Query Benchmark
+ *
+ * 在本地 D1（.wrangler/state）中生成一棵临时分类树，统计子分类查询实际发出的 D1 查询次数：
+ * - 旧实现：每个节点一次查询的递归遍历
+ * - 新实现：递归 CTE + 启用分类树缓存（请求内缓存、KV 缓存）
+ * 运行结束后删除临时分类。
+ * 用法：npm run bench:category-tree
+ */
+
+import { getPlatformProxy } from 'wrangler';
+import { drizzle } from 'drizzle-orm/d1';
+import { and, eq, like } from 'drizzle-orm';
+import { categories } from '@/lib/db/schema/categories';
+
+const PREFIX = 'bench-cat-';
+const DEPTH = 4;
+const BRANCHING = 4;
+
+type Db = ReturnType<typeof drizzle>;
+type Kv = NonNullable<CloudflareEnv['KV']>;
+
+interface BenchRow {
+  scenario: string;
+  queries: number;
+  ids: number;
+  ms: number;
+}
+
+/** 统计 prepare 次数的 D1 绑定，drizzle 每条语句调用一次 prepare */
+function countingD1(d1: CloudflareEnv['DB']) {
+  const counter = { queries: 0 };
+  const proxy = new Proxy(d1, {
+    get(target, prop, receiver) {
+      if (prop === 'prepare') {
+        return (query: string) => {
+          counter.queries += 1;
+          return target.prepare(query);
+        };
+      }
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  return { d1: proxy, counter };
+}
+
+/** 进程内 KV，模拟跨请求共享的缓存；本地 wrangler.toml 未绑定 KV */
+function memoryKv(): Kv {
+  const store = new Map<string, string>();
+  return {
+    async get(key: string, type?: string) {
+      const value = store.get(key);
+      if (value === undefined) return null;
+      return type === 'json' ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string) {
+      store.set(key, value);
+    },
+    async delete(key: string) {
+      store.delete(key);
+    },
+  } as unknown as Kv;
+}
+
+/** 每次调用模拟一个新请求：新的 ExecutionContext 即新的请求内缓存作用域 */
+function enterRequest(env: Record<string, unknown>) {
+  (globalThis as Record<symbol, unknown>)[Symbol.for('__cloudflare-request-context__')] = {
+    env,
+    cf: {},
+    ctx: { waitUntil() {}, passThroughOnException() {} },
+  };
+}
+
+/** 旧实现：逐层递归，每个节点一次查询 */
+async function legacySubcategoryIds(db: Db, categoryId: string): Promise<string[]> {
+  const allIds = [categoryId];
+
+  const getChildren = async (parentId: string) => {
+    const children = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(and(eq(categories.parentId, parentId), eq(categories.status, 'active')));
+
+    for (const child of children) {
+      allIds.push(child.id);
+      await getChildren(child.id);
+    }
+  };
+
+  await getChildren(categoryId);
+  return allIds;
+}
+
+async function seedTree(db: Db) {
+  const now = new Date().toISOString();
+  const rows: (typeof categories.$inferInsert)[] = [];
+
+  const grow = (id: string, parentId: string | null, depth: number) => {
+    rows.push({ id, name: id, slug: id, parentId, status: 'active', createdAt: now, updatedAt: now });
+    if (depth === DEPTH) return;
+    for (let index = 0; index < BRANCHING; index += 1) {
+      grow(`${id}-${index}`, id, depth + 1);
+    }
+  };
+  grow(`${PREFIX}root`, null, 0);
+
+  // 一个隐藏分支，验证两种实现都跳过未启用的子树
+  rows.push({ id: `${PREFIX}hidden`, name: 'hidden', slug: `${PREFIX}hidden`, parentId: `${PREFIX}root`, status: 'hidden', createdAt: now, updatedAt: now });
+  rows.push({ id: `${PREFIX}hidden-0`, name: 'hidden-0', slug: `${PREFIX}hidden-0`, parentId: `${PREFIX}hidden`, status: 'active', createdAt: now, updatedAt: now });
+
+  for (let start = 0; start < rows.length; start += 10) {
+    await db.insert(categories).values(rows.slice(start, start + 10));
+  }
+  return rows.length;
+}
+
+async function measure(scenario: string, counter: { queries: number }, run: () => Promise<string[]>): Promise<[BenchRow, string[]]> {
+  counter.queries = 0;
+  const started = performance.now();
+  const ids = await run();
+  return [{ scenario, queries: counter.queries, ids: ids.length, ms: Math.round(performance.now() - started) }, ids];
+}
+
+async function main() {
+  // next-on-pages 只在 edge 运行时提供请求上下文
+  Object.defineProperty(process, 'release', { value: { name: 'edge' } });
+
+  const proxy = await getPlatformProxy<CloudflareEnv>({ configPath: 'wrangler.toml', persist: true });
+  const { d1, counter } = countingD1(proxy.env.DB);
+  const db = drizzle(d1);
+  const kv = memoryKv();
+
+  const { getActiveSubcategoryIds, loadSubcategoryIds } = await import('@/lib/services/categoryTree');
+
+  try {
+    await db.delete(categories).where(like(categories.id, `${PREFIX}%`));
+    const total = await seedTree(db);
+    const root = `${PREFIX}root`;
+    const results: BenchRow[] = [];
+
+    const [legacy, legacyIds] = await measure('旧实现：逐节点递归', counter, () => legacySubcategoryIds(db, root));
+    results.push(legacy);
+
+    enterRequest({ ...proxy.env, DB: d1 });
+    const [cte] = await measure('递归 CTE（不限状态）', counter, () => loadSubcategoryIds(db, [root]));
+    results.push(cte);
+
+    enterRequest({ ...proxy.env, DB: d1, KV: kv });
+    const [cold, coldIds] = await measure('启用分类树：冷缓存', counter, () => getActiveSubcategoryIds(db, [root]));
+    results.push(cold);
+    const [warmRequest] = await measure('启用分类树：同一请求', counter, () => getActiveSubcategoryIds(db, [`${root}-0`, `${root}-1`]));
+    results.push(warmRequest);
+
+    enterRequest({ ...proxy.env, DB: d1, KV: kv });
+    const [warmKv, warmIds] = await measure('启用分类树：新请求命中 KV', counter, () => getActiveSubcategoryIds(db, [root]));
+    results.push(warmKv);
+
+    const [outside] = await measure('树外分类：隐藏分支回退 CTE', counter, () => getActiveSubcategoryIds(db, [`${PREFIX}hidden`]));
+    results.push(outside);
+
+    console.log(`分类节点：${total}（深度 ${DEPTH}，每层 ${BRANCHING} 个子分类，含 1 个隐藏分支）`);
+    console.table(results);
+
+    const expected = [...legacyIds].sort().join(',');
+    if ([coldIds, warmIds].some((ids) => [...ids].sort().join(',') !== expected)) {
+      throw new Error('新旧实现返回的分类 ID 不一致');
+    }
+    console.log('✅ 新旧实现结果一致');
+  } finally {
+    await db.delete(categories).where(like(categories.id, `${PREFIX}%`));
+    await proxy.dispose();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Benchmark failed:', error);
+  process.exit(1);
+});
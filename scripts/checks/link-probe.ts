@@ -0,0 +1,194 @@
+/**
+ * Link Probe Check
+ *
+ * 在本机启动一个临时 HTTP 桩服务，校验链接探测（src/lib/utils/link-probe.ts）的行为：
+ * HEAD 失败回退 GET、超时不再回退、跟随重定向后的 finalUrl、错误状态与连接失败。
+ * 使用默认 fetcher，请求真实地经过本地网络栈。另校验自动下线阈值的解析与判定（阈值 0 只记录）。
+ * 用法：npm run check:link-probe
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  LINK_CHECK_FAILURE_THRESHOLD,
+  parseLinkCheckThreshold,
+  probeLink,
+  shouldAutoUnpublish,
+  type LinkProbeResult,
+} from '@/lib/utils/link-probe';
+
+const TIMEOUT_MS = 300;
+
+type Route = (request: IncomingMessage, response: ServerResponse) => void;
+
+/** 桩服务的路由：路径 → 处理函数 */
+const ROUTES: Record<string, Route> = {
+  '/ok': (_request, response) => response.writeHead(200).end('ok'),
+  // 部分站点不支持 HEAD，GET 正常
+  '/head-not-allowed': (request, response) => response.writeHead(request.method === 'HEAD' ? 405 : 200).end(),
+  '/old': (_request, response) => response.writeHead(301, { location: '/moved/new' }).end(),
+  '/moved/new': (_request, response) => response.writeHead(200).end('new'),
+  '/missing': (_request, response) => response.writeHead(404).end(),
+  '/forbidden': (_request, response) => response.writeHead(403).end(),
+  '/slow': (_request, response) => {
+    setTimeout(() => response.writeHead(200).end(), TIMEOUT_MS * 4);
+  },
+};
+
+interface ProbeCase {
+  name: string;
+  path: string;
+  /** 期望依次收到的请求，如 ['HEAD /old', 'HEAD /moved/new'] */
+  requests: string[];
+  expect: (result: LinkProbeResult, baseUrl: string) => string[];
+}
+
+const CASES: ProbeCase[] = [
+  {
+    name: 'HEAD 成功时不再发 GET',
+    path: '/ok',
+    requests: ['HEAD /ok'],
+    expect: (result) => [
+      expectEqual(result.ok, true, 'ok'),
+      expectEqual(result.method, 'HEAD', 'method'),
+      expectEqual(result.statusCode, 200, 'statusCode'),
+    ],
+  },
+  {
+    name: 'HEAD 返回 405 时回退 GET',
+    path: '/head-not-allowed',
+    requests: ['HEAD /head-not-allowed', 'GET /head-not-allowed'],
+    expect: (result) => [
+      expectEqual(result.ok, true, 'ok'),
+      expectEqual(result.method, 'GET', 'method'),
+      expectEqual(result.error, null, 'error'),
+    ],
+  },
+  {
+    name: '跟随重定向并记录最终地址',
+    path: '/old',
+    requests: ['HEAD /old', 'HEAD /moved/new'],
+    expect: (result, baseUrl) => [
+      expectEqual(result.ok, true, 'ok'),
+      expectEqual(result.statusCode, 200, 'statusCode'),
+      expectEqual(result.finalUrl, `${baseUrl}/moved/new`, 'finalUrl'),
+    ],
+  },
+  {
+    name: '超时后不再回退 GET',
+    path: '/slow',
+    requests: ['HEAD /slow'],
+    expect: (result) => [
+      expectEqual(result.ok, false, 'ok'),
+      expectEqual(result.error, 'timeout', 'error'),
+      expectEqual(result.method, 'HEAD', 'method'),
+      expectEqual(result.statusCode, null, 'statusCode'),
+      result.responseTimeMs < TIMEOUT_MS * 3 ? '' : `responseTimeMs 过长：${result.responseTimeMs}`,
+    ],
+  },
+  {
+    name: 'HEAD 与 GET 均为 404 时判为失效',
+    path: '/missing',
+    requests: ['HEAD /missing', 'GET /missing'],
+    expect: (result) => [
+      expectEqual(result.ok, false, 'ok'),
+      expectEqual(result.statusCode, 404, 'statusCode'),
+      expectEqual(result.error, 'HTTP 404', 'error'),
+    ],
+  },
+  {
+    name: '403 视为站点在线',
+    path: '/forbidden',
+    requests: ['HEAD /forbidden'],
+    expect: (result) => [expectEqual(result.ok, true, 'ok'), expectEqual(result.statusCode, 403, 'statusCode')],
+  },
+];
+
+interface ThresholdCase {
+  name: string;
+  /** LINK_CHECK_FAILURE_THRESHOLD 的原始取值 */
+  value: string | undefined;
+  threshold: number;
+  /** 依次为连续失败 1、3、10 次时已发布网站是否下线 */
+  unpublish: [boolean, boolean, boolean];
+}
+
+const THRESHOLD_CASES: ThresholdCase[] = [
+  { name: '未配置阈值', value: undefined, threshold: LINK_CHECK_FAILURE_THRESHOLD, unpublish: [false, true, true] },
+  { name: '阈值为 0 只记录不下线', value: '0', threshold: 0, unpublish: [false, false, false] },
+  { name: '阈值为 1', value: '1', threshold: 1, unpublish: [true, true, true] },
+  { name: '非法阈值回退默认值', value: '-2', threshold: LINK_CHECK_FAILURE_THRESHOLD, unpublish: [false, true, true] },
+  { name: '空字符串回退默认值', value: ' ', threshold: LINK_CHECK_FAILURE_THRESHOLD, unpublish: [false, true, true] },
+];
+
+async function main() {
+  const received: string[] = [];
+  const server = createServer((request, response) => {
+    const pathname = new URL(request.url ?? '/', 'http://localhost').pathname;
+    received.push(`${request.method} ${pathname}`);
+    (ROUTES[pathname] ?? ((_req, res) => res.writeHead(404).end()))(request, response);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const failures: string[] = [];
+
+  try {
+    for (const probeCase of CASES) {
+      received.length = 0;
+      const result = await probeLink(`${baseUrl}${probeCase.path}`, { timeoutMs: TIMEOUT_MS });
+      const problems = [
+        ...probeCase.expect(result, baseUrl),
+        expectEqual(received, probeCase.requests, '桩服务收到的请求'),
+      ].filter(Boolean);
+      failures.push(...problems.map((problem) => `${probeCase.name}：${problem}`));
+    }
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // 服务关闭后端口不再监听，探测应返回连接错误而不是抛出
+  const refused = await probeLink(`${baseUrl}/ok`, { timeoutMs: TIMEOUT_MS });
+  failures.push(
+    ...[
+      expectEqual(refused.ok, false, 'ok'),
+      expectEqual(refused.statusCode, null, 'statusCode'),
+      refused.error && refused.error !== 'timeout' ? '' : `error 应为连接错误，实际 ${refused.error}`,
+    ]
+      .filter(Boolean)
+      .map((problem) => `连接被拒绝：${problem}`)
+  );
+
+  for (const thresholdCase of THRESHOLD_CASES) {
+    const threshold = parseLinkCheckThreshold(thresholdCase.value);
+    const unpublish = [1, 3, 10].map((failureCount) => shouldAutoUnpublish(failureCount, threshold, 'published'));
+    failures.push(
+      ...[
+        expectEqual(threshold, thresholdCase.threshold, '阈值'),
+        expectEqual(unpublish, thresholdCase.unpublish, '是否下线'),
+        expectEqual(shouldAutoUnpublish(10, threshold, 'draft'), false, '草稿不重复下线'),
+      ]
+        .filter(Boolean)
+        .map((problem) => `${thresholdCase.name}：${problem}`)
+    );
+  }
+
+  if (failures.length) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log(`✅ ${CASES.length + 1 + THRESHOLD_CASES.length} 个链接检测用例全部通过`);
+}
+
+function expectEqual(actual: unknown, expected: unknown, label: string): string {
+  const [a, b] = [JSON.stringify(actual), JSON.stringify(expected)];
+  return a === b ? '' : `${label}：期望 ${b}，实际 ${a}`;
+}
+
+main().catch((error) => {
+  console.error('❌ Link probe check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+/**
+ * Markdown Rendering Fixtures
+ *
+ * 用 scripts/checks/fixtures/markdown 下的文档校验正文渲染管线（src/lib/utils/markdown.ts）：
+ * - render/：嵌套列表、表格、任务列表、脚注、自动链接、中日韩标题等 GFM 语法的输出
+ * - xss/：已知的 XSS 载荷，Markdown 文档同时经过 Markdown 与 HTML 两条管线
+ * 输出 HTML 会重新解析为语法树再检查，不依赖字符串匹配判断是否安全。
+ * 用法：npm run check:markdown
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Element, Root, RootContent } from 'hast';
+import rehypeParse from 'rehype-parse';
+import { unified } from 'unified';
+import { renderContent, type RenderableContentType, type RenderedContent } from '@/lib/utils/markdown';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'markdown');
+
+/** 净化后不应出现的元素：脚本、嵌入内容、表单、文档级元素以及 SVG / MathML 命名空间 */
+const FORBIDDEN_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'button', 'textarea',
+  'select', 'base', 'meta', 'link', 'noscript', 'template', 'svg', 'math', 'use',
+]);
+
+/** 会被浏览器当作地址解析的属性（hast 属性名） */
+const URL_PROPERTIES = ['href', 'src', 'action', 'formAction', 'xLinkHref', 'poster', 'cite', 'srcSet', 'data'];
+
+const UNSAFE_SCHEME = /^(javascript|vbscript|data):/;
+
+/** 允许直接使用标题 id 的元素之外，正文中的 id / name 必须带净化前缀 */
+const CLOBBER_PREFIX = 'user-content-';
+
+type Expectation = (result: RenderedContent) => string[];
+
+const RENDER_EXPECTATIONS: Record<string, Expectation> = {
+  'nested-lists.md': ({ html }) => [
+    expectMatch(html, /<li>前端\s*<ul>\s*<li>React\s*<ol>\s*<li>Hooks<\/li>/, '三层嵌套列表'),
+    expectMatch(html, /<li>Node\.js\s*<ul>\s*<li>Express<\/li>/, '有序列表中嵌套无序列表'),
+  ],
+  'tables.md': ({ html }) => [
+    expectMatch(html, /<table><thead><tr><th align="left">名称<\/th>/, '表头与左对齐'),
+    expectMatch(html, /<th align="center">类型<\/th>/, '居中对齐'),
+    expectMatch(html, /<td align="right">5<\/td>/, '右对齐'),
+    expectMatch(html, /<td align="left"><code>code<\/code><\/td>/, '单元格内的行内代码'),
+    expectMatch(html, /<td align="center"><strong>粗体<\/strong><\/td>/, '单元格内的粗体'),
+  ],
+  'task-lists.md': ({ html }) => [
+    expectMatch(html, /<ul class="contains-task-list">/, '任务列表容器'),
+    expectCount(html, /<input type="checkbox"[^>]*>/g, 3, '复选框数量'),
+    expectCount(html, /<input type="checkbox" checked disabled>/g, 2, '已勾选且不可编辑的复选框'),
+    expectMatch(html, /<li class="task-list-item"><input type="checkbox" disabled> 未完成的任务/, '未勾选的任务'),
+  ],
+  'footnotes.md': ({ html, headings }) => [
+    expectMatch(html, /<a href="#user-content-fn-note" id="user-content-fnref-note" data-footnote-ref/, '脚注引用'),
+    expectMatch(html, /<li id="user-content-fn-note">/, '脚注内容 id 只带一次前缀'),
+    expectMatch(html, /<h2 class="sr-only" id="user-content-footnote-label">脚注<\/h2>/, '脚注区标题'),
+    expectMatch(html, /href="#user-content-fnref-2"[^>]*aria-label="返回正文"/, '返回正文链接'),
+    headings.length === 0 ? '' : '脚注区标题不应进入大纲',
+  ],
+  'autolinks.md': ({ html }) => [
+    expectMatch(html, /<a href="https:\/\/example\.com\/path\?q=1" target="_blank" rel="noopener noreferrer">/, 'URL 自动链接'),
+    expectMatch(html, /<a href="http:\/\/www\.example\.org" target="_blank"/, 'www 自动链接'),
+    expectMatch(html, /<a href="https:\/\/example\.net" target="_blank"/, '尖括号链接'),
+    expectMatch(html, /<a href="mailto:contact@example\.com">contact@example\.com<\/a>/, '邮箱自动链接'),
+  ],
+  'cjk-headings.md': ({ html, headings }) => [
+    expectEqual(
+      headings.map((heading) => `${heading.level}:${heading.id}`),
+      ['1:快速开始', '2:安装与配置', '2:安装与配置-1', '3:日本語の見出し', '3:한국어-제목', '2:café-crème-quotes'],
+      '标题大纲与锚点'
+    ),
+    expectEqual(headings[5]?.text, 'Café & Crème — “Quotes”!', '大纲保留原始标题文本'),
+    expectMatch(html, /<a href="#安装与配置">跳到安装<\/a>/, '指向标题的页内链接不加前缀'),
+  ],
+};
+
+/** XSS 载荷之外应保留下来的正文，防止净化规则过宽把内容整体删掉 */
+const XSS_KEPT_TEXT: Record<string, string[]> = {
+  'img-onerror.md': ['alt="ok"'],
+  'javascript-urls.md': ['点击', '引用式'],
+  'embedded-content.md': ['<details open><summary>展开</summary>内容</details>'],
+  'style.md': ['带样式的段落', '覆盖整个页面'],
+  'dom-clobbering.md': ['id="user-content-location"', 'name="user-content-cookie"'],
+  'raw-html.html': ['<p>HTML 正文</p>', '<h2 id="html-标题">HTML 标题</h2>', 'rel="noopener noreferrer"'],
+};
+
+async function main() {
+  const failures: string[] = [];
+  let cases = 0;
+
+  for (const file of listFixtures('render')) {
+    const expectation = RENDER_EXPECTATIONS[file];
+    if (!expectation) {
+      failures.push(`render/${file}: 缺少断言`);
+      continue;
+    }
+    const result = await renderContent(readFixture('render', file), contentTypeOf(file));
+    const problems = [...expectation(result), ...findUnsafeMarkup(result.html)].filter(Boolean);
+    failures.push(...problems.map((problem) => `render/${file}: ${problem}`));
+    cases++;
+  }
+
+  for (const file of listFixtures('xss')) {
+    const source = readFixture('xss', file);
+    const contentTypes: RenderableContentType[] = file.endsWith('.md') ? ['markdown', 'html'] : ['html'];
+    for (const contentType of contentTypes) {
+      const { html } = await renderContent(source, contentType);
+      const problems = findUnsafeMarkup(html);
+      if (contentType === contentTypeOf(file)) {
+        for (const text of XSS_KEPT_TEXT[file] ?? []) {
+          if (!html.includes(text)) problems.push(`正文被误删：${text}`);
+        }
+      }
+      failures.push(...problems.map((problem) => `xss/${file} (${contentType}): ${problem}`));
+      cases++;
+    }
+  }
+
+  if (failures.length) {
+    failures.forEach((failure) => console.error(`❌ ${failure}`));
+    console.error(`\n${failures.length} 项失败，共 ${cases} 个用例`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${cases} 个渲染用例全部通过`);
+}
+
+/**
+ * 重新解析输出的 HTML，检查危险元素、事件属性、内联样式、危险协议与未加前缀的 id / name
+ */
+function findUnsafeMarkup(html: string): string[] {
+  const tree = unified().use(rehypeParse, { fragment: true }).parse(html) as Root;
+  const problems: string[] = [];
+
+  walkElements(tree.children, (node) => {
+    if (FORBIDDEN_TAGS.has(node.tagName)) problems.push(`出现 <${node.tagName}>`);
+
+    for (const [name, value] of Object.entries(node.properties)) {
+      if (/^on/i.test(name)) problems.push(`<${node.tagName}> 带事件属性 ${name}`);
+      if (name === 'style') problems.push(`<${node.tagName}> 带 style 属性`);
+      if (URL_PROPERTIES.includes(name) && UNSAFE_SCHEME.test(normalizeUrl(value))) {
+        problems.push(`<${node.tagName} ${name}> 使用危险协议：${String(value)}`);
+      }
+      if ((name === 'id' || name === 'name') && !isHeadingAnchor(node, name)) {
+        const text = String(value);
+        if (!text.startsWith(CLOBBER_PREFIX)) problems.push(`<${node.tagName}> 的 ${name}="${text}" 缺少前缀`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+function walkElements(nodes: RootContent[], visit: (node: Element) => void) {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+    visit(node);
+    walkElements(node.children, visit);
+  }
+}
+
+/** 浏览器解析地址时会忽略控制字符与空白，比较前同样去掉 */
+function normalizeUrl(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(' ') : String(value ?? '');
+  return text.replace(/[\u0000- \u007f]/g, '').toLowerCase();
+}
+
+function isHeadingAnchor(node: Element, property: string): boolean {
+  return property === 'id' && /^h[1-6]$/.test(node.tagName);
+}
+
+function expectMatch(html: string, pattern: RegExp, label: string): string {
+  return pattern.test(html) ? '' : `${label}：未匹配 ${pattern}`;
+}
+
+function expectCount(html: string, pattern: RegExp, expected: number, label: string): string {
+  const actual = html.match(pattern)?.length ?? 0;
+  return actual === expected ? '' : `${label}：期望 ${expected}，实际 ${actual}`;
+}
+
+function expectEqual(actual: unknown, expected: unknown, label: string): string {
+  const [a, b] = [JSON.stringify(actual), JSON.stringify(expected)];
+  return a === b ? '' : `${label}：期望 ${b}，实际 ${a}`;
+}
+
+function listFixtures(group: 'render' | 'xss'): string[] {
+  return readdirSync(path.join(FIXTURE_DIR, group))
+    .filter((file) => /\.(md|html)$/.test(file))
+    .sort();
+}
+
+function readFixture(group: 'render' | 'xss', file: string): string {
+  return readFileSync(path.join(FIXTURE_DIR, group, file), 'utf8');
+}
+
+function contentTypeOf(file: string): RenderableContentType {
+  return file.endsWith('.html') ? 'html' : 'markdown';
+}
+
+main().catch((error) => {
+  console.error('❌ Markdown fixture check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * Check Website Links
+ *
+ * 在本地启动定时任务 Worker 并触发一次链接检测的 scheduled 事件，
+ * 与线上 Cron Trigger 走同一段逻辑，结果写入本地 D1（.wrangler/state）。
+ * 用法：npm run cron:check-links
+ */
+
+import { unstable_dev } from 'wrangler';
+
+const CRON = '0 * * * *';
+
+async function main() {
+  const worker = await unstable_dev('workers/blog-scheduler.ts', {
+    config: 'wrangler.scheduler.toml',
+    logLevel: 'info',
+    experimental: { disableExperimentalWarning: true, testScheduled: true },
+  });
+
+  try {
+    const response = await worker.fetch(`/__scheduled?cron=${encodeURIComponent(CRON)}`);
+    if (!response.ok) {
+      throw new Error(`scheduled handler responded with ${response.status}`);
+    }
+    console.log('✅ Link check triggered');
+  } finally {
+    await worker.stop();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Link check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * Publish Scheduled Blog Posts
+ *
+ * 在本地启动定时任务 Worker 并触发一次 scheduled 事件，
+ * 与线上 Cron Trigger 走同一段逻辑，数据写入本地 D1（.wrangler/state）。
+ * 用法：npm run cron:publish-scheduled
+ */
+
+import { unstable_dev } from 'wrangler';
+
+const CRON = '*/5 * * * *';
+
+async function main() {
+  const worker = await unstable_dev('workers/blog-scheduler.ts', {
+    config: 'wrangler.scheduler.toml',
+    logLevel: 'info',
+    experimental: { disableExperimentalWarning: true, testScheduled: true },
+  });
+
+  try {
+    const response = await worker.fetch(`/__scheduled?cron=${encodeURIComponent(CRON)}`);
+    if (!response.ok) {
+      throw new Error(`scheduled handler responded with ${response.status}`);
+    }
+    console.log('✅ Scheduled publish triggered');
+  } finally {
+    await worker.stop();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Scheduled publish failed:', error);
+  process.exit(1);
+});
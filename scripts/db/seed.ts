@@ -11,6 +11,7 @@
  */
 
 import { drizzle } from 'drizzle-orm/d1';
+import { sql } from 'drizzle-orm';
 import Database from 'better-sqlite3';
 import { categories } from '@/lib/db/schema/categories';
 import { tags } from '@/lib/db/schema/tags';
@@ -19,6 +20,7 @@ import { websites } from '@/lib/db/schema/websites';
 import { websiteTags } from '@/lib/db/schema/website-tags';
 import { collectionItems } from '@/lib/db/schema/collection-items';
 import { blogPosts } from '@/lib/db/schema/blog-posts';
+import { syncWebsiteSearchIndex } from '@/lib/services/websiteSearchIndex';
 
 // Helper: Generate ID
 function generateId(prefix: string): string {
@@ -1383,6 +1385,11 @@ async function seed() {
     await db.insert(blogPosts).values(blogPostsData);
     console.log(`✅ Inserted ${blogPostsData.length} blog posts\n`);
 
+    // 8. Rebuild full-text search index
+    console.log('🔎 Rebuilding search index...');
+    await syncWebsiteSearchIndex(db, sql`SELECT id FROM websites`);
+    console.log(`✅ Indexed ${websitesData.length} websites\n`);
+
     // Summary
     console.log('🎉 Seed completed successfully!\n');
     console.log('📊 Summary:');
@@ -0,0 +1,21 @@
+import { AuditLogsPage } from "@/features/audit-logs/components/audit-logs-page"
+
+export const runtime = "edge"
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+export default async function AdminAuditLogsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams
+  const pick = (key: string) => (typeof params[key] === "string" ? (params[key] as string) : undefined)
+
+  return (
+    <AuditLogsPage
+      initialFilters={{
+        actorId: pick("actorId"),
+        entityType: pick("entityType"),
+        entityId: pick("entityId"),
+        action: pick("action"),
+      }}
+    />
+  )
+}
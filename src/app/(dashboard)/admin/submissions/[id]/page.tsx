@@ -0,0 +1,12 @@
+import { SubmissionReviewPage } from "@/features/submissions/components/admin/submission-review-page"
+
+export const runtime = "edge"
+
+interface Params {
+  id: string
+}
+
+export default async function AdminSubmissionReviewRoute({ params }: { params: Promise<Params> }) {
+  const { id } = await params
+  return <SubmissionReviewPage submissionId={id} />
+}
@@ -0,0 +1,5 @@
+import { SubmissionsAdminPage } from "@/features/submissions/components/admin/submissions-page"
+
+export default function AdminSubmissionsPage() {
+  return <SubmissionsAdminPage />
+}
@@ -1,7 +1,7 @@
 import { Metadata } from 'next'
 import { notFound } from 'next/navigation'
 import dynamicImport from 'next/dynamic'
-import { getBlogBySlug } from '@/features/blog/data/blogDetailService'
+import { blogPostsService } from '@/lib/services/blogPostsService'
 import { BlogDetailData } from '@/features/blog/types'
 import { generateBlogMetadata, generateStructuredData } from '@/features/blog/utils/seoUtils'
 import type { BlogPostingStructuredData } from '@/features/blog/utils'
@@ -103,12 +103,9 @@ export async function generateMetadata({ params }: BlogDetailPageProps): Promise
     // 等待异步参数
     const { slug } = await params
 
-    // 获取博客详情数据
-    let blogData: BlogDetailData
-    try {
-      blogData = await getBlogBySlug(slug)
-    } catch (error) {
-      console.warn(`Blog not found for slug "${slug}":`, error)
+    // 获取博客详情数据（仅已发布文章）
+    const detail = await blogPostsService.getPublishedBySlug(slug, { relatedLimit: 0 })
+    if (!detail) {
       // 如果文章不存在，返回默认元数据
       return {
         title: '文章未找到 - WebVault',
@@ -118,7 +115,7 @@ export async function generateMetadata({ params }: BlogDetailPageProps): Promise
     }
 
     // 使用SEO工具生成完整的元数据
-    const { metadata } = generateBlogMetadata(blogData)
+    const { metadata } = generateBlogMetadata(detail.post)
     
     return metadata
 
@@ -183,14 +180,13 @@ export default async function BlogDetailPageRoute({ params }: BlogDetailPageProp
     notFound()
   }
 
-  // 获取博客详情数据
-  let blogData: BlogDetailData
-  try {
-    blogData = await getBlogBySlug(slug)
-  } catch (error) {
-    console.warn(`Blog not found for slug "${slug}":`, error)
+  // 获取博客详情数据（仅已发布文章）
+  const detail = await blogPostsService.getPublishedBySlug(slug, { relatedLimit: 0 })
+  if (!detail) {
+    console.warn(`Blog not found for slug "${slug}"`)
     notFound()
   }
+  const blogData: BlogDetailData = detail.post
 
   // 检查文章是否已发布
   if (!blogData.isPublished) {
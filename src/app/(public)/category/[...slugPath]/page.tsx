@@ -0,0 +1,151 @@
+import { Metadata } from 'next'
+import { notFound, permanentRedirect } from 'next/navigation'
+import dynamicImport from 'next/dynamic'
+import { categoriesService } from '@/lib/services/categoriesService'
+import { buildCategoryPath, parseCategoryPathSegments } from '@/features/categories/utils/path'
+
+// 强制动态渲染，确保分类层级和状态为最新
+export const dynamic = 'force-dynamic'
+// Cloudflare Pages 需要 Edge Runtime
+export const runtime = 'edge'
+
+const CategoryBrowsePage = dynamicImport(
+  () => import('@/features/browsable-pages/components').then(mod => ({ default: mod.CategoryBrowsePage })),
+  {
+    loading: () => (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center space-y-4">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary/30 border-t-primary" />
+          <p className="text-sm text-muted-foreground">加载分类页面...</p>
+        </div>
+      </div>
+    )
+  }
+)
+
+/**
+ * 分类详情页面属性类型
+ */
+interface CategoryDetailPageProps {
+  params: Promise<{ slugPath: string[] }>
+}
+
+/**
+ * 动态生成分类页元数据：标题、描述、规范URL和面包屑结构化数据均基于服务端解析出的分类路径
+ */
+export async function generateMetadata({ params }: CategoryDetailPageProps): Promise<Metadata> {
+  try {
+    const { slugPath } = await params
+    const resolved = await categoriesService.resolvePath(parseCategoryPathSegments(slugPath))
+
+    if (!resolved) {
+      return {
+        title: '分类未找到 - WebVault',
+        description: '抱歉，您访问的分类不存在或已停用。',
+        robots: { index: false, follow: false }
+      }
+    }
+
+    const { category, path, children } = resolved
+    const names = path.map(item => item.name)
+    const categoryUrl = new URL(buildCategoryPath(path.map(item => item.slug)), 'https://webvault.cn').toString()
+
+    const title = `分类：${names.join(' / ')} - WebVault`
+    const description = category.description
+      || `浏览${category.name}分类下的优质网站资源，发现该领域专业的工具和服务。WebVault为您精选该分类的最佳网站推荐。`
+
+    return {
+      title,
+      description,
+      keywords: ['WebVault', '分类浏览', '网站分类', ...names, ...children.map(child => child.name)].join(', '),
+      robots: { index: true, follow: true },
+      openGraph: {
+        title,
+        description,
+        type: 'website',
+        url: categoryUrl,
+        siteName: 'WebVault',
+        locale: 'zh_CN',
+        images: [{ url: '/logo.svg', width: 1200, height: 630, alt: `WebVault - ${category.name}` }],
+      },
+      twitter: {
+        card: 'summary_large_image',
+        title,
+        description,
+        creator: '@WebVault',
+        images: ['/logo.svg'],
+      },
+      alternates: {
+        canonical: categoryUrl,
+      },
+      other: {
+        'application/ld+json': JSON.stringify({
+          '@context': 'https://schema.org',
+          '@type': 'CollectionPage',
+          name: title,
+          description,
+          url: categoryUrl,
+          about: { '@type': 'Thing', name: category.name },
+          mainEntity: {
+            '@type': 'ItemList',
+            name: `${category.name}分类网站`,
+            numberOfItems: category.websiteCount ?? 0,
+          },
+          hasPart: children.map(child => ({
+            '@type': 'CollectionPage',
+            name: child.name,
+            url: new URL(buildCategoryPath([...path.map(item => item.slug), child.slug]), 'https://webvault.cn').toString(),
+          })),
+          breadcrumb: {
+            '@type': 'BreadcrumbList',
+            itemListElement: [
+              { '@type': 'ListItem', position: 1, name: 'WebVault', item: 'https://webvault.cn' },
+              ...path.map((item, index) => ({
+                '@type': 'ListItem',
+                position: index + 2,
+                name: item.name,
+                item: new URL(buildCategoryPath(path.slice(0, index + 1).map(node => node.slug)), 'https://webvault.cn').toString(),
+              })),
+            ]
+          }
+        }),
+      },
+    }
+  } catch (error) {
+    console.error('Failed to generate metadata for category page:', error)
+
+    return {
+      title: '分类浏览 - WebVault',
+      description: 'Browse and discover websites organized by categories.',
+      robots: { index: false, follow: true }
+    }
+  }
+}
+
+/**
+ * 分类规范路由
+ *
+ * URL格式示例:
+ * - `/category/dev` - 顶级分类
+ * - `/category/dev/frontend` - 子分类，路径包含全部父级分类
+ *
+ * 路径沿 categories.parentId 在服务端解析，分类不存在或路径上任一分类未启用时返回 404；
+ * 仅给出末级 slug、父级不匹配或以分类 ID 访问时永久跳转到规范路径
+ */
+export default async function CategoryDetailPageRoute({ params }: CategoryDetailPageProps) {
+  const { slugPath } = await params
+
+  const resolved = await categoriesService.resolvePath(parseCategoryPathSegments(slugPath))
+  if (!resolved) {
+    notFound()
+  }
+
+  const path = resolved.path.map(({ id, name, slug }) => ({ id, name, slug }))
+  if (!resolved.isCanonical) {
+    permanentRedirect(buildCategoryPath(path.map(item => item.slug)))
+  }
+
+  const subcategories = resolved.children.map(({ id, name, slug, websiteCount }) => ({ id, name, slug, websiteCount }))
+
+  return <CategoryBrowsePage categoryPath={path} subcategories={subcategories} />
+}
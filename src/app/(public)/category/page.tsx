@@ -22,8 +22,8 @@ const CategoryBrowsePage = dynamicImport(
 )
 
 /**
- * 动态生成元数据，支持分类筛选的SEO优化
- * 通过searchParams获取分类、标签和其他查询参数
+ * 动态生成元数据，支持标签和搜索筛选的SEO优化
+ * 分类筛选已迁移到 /category/[...slugPath]，旧的 ?category= 链接由 middleware 301 跳转
  */
 export async function generateMetadata({ 
   searchParams 
@@ -34,16 +34,13 @@ export async function generateMetadata({
   const params = await searchParams
   
   // 从URL参数中获取筛选条件
-  const category = typeof params.category === 'string' ? params.category : ''
   const tags = typeof params.tags === 'string' ? params.tags : ''
   const query = typeof params.q === 'string' ? params.q : ''
   const page = typeof params.page === 'string' ? parseInt(params.page) : 1
   
   // 构建动态标题
   let title = 'CATEGORY - Explore by categories - WebVault'
-  if (category) {
-    title = `分类：${category} - WebVault`
-  } else if (tags) {
+  if (tags) {
     const tagList = tags.split(',').slice(0, 3).join('、')
     title = `标签：${tagList} - 分类浏览 - WebVault`
   } else if (query) {
@@ -57,9 +54,7 @@ export async function generateMetadata({
   
   // 构建动态描述
   let description = 'Browse and discover websites organized by categories. WebVault为您提供按分类整理的优质网站资源，快速找到符合特定业务需求的工具和服务。'
-  if (category) {
-    description = `浏览${category}分类下的优质网站资源，发现该领域专业的工具和服务。WebVault为您精选该分类的最佳网站推荐。`
-  } else if (tags) {
+  if (tags) {
     const tagList = tags.split(',').slice(0, 3).join('、')
     description = `探索带有"${tagList}"标签的网站资源，在分类浏览中发现相关的优质工具和服务。`
   } else if (query) {
@@ -76,13 +71,11 @@ export async function generateMetadata({
     '按分类筛选'
   ]
   
-  if (category) keywords.push(category)
   if (tags) keywords.push(...tags.split(',').slice(0, 5))
   if (query) keywords.push(query)
   
   // 构建URL
   const categoryUrl = new URL('/category', 'https://webvault.cn')
-  if (category) categoryUrl.searchParams.set('category', category)
   if (tags) categoryUrl.searchParams.set('tags', tags)
   if (query) categoryUrl.searchParams.set('q', query)
   if (page > 1) categoryUrl.searchParams.set('page', page.toString())
@@ -141,16 +134,9 @@ export async function generateMetadata({
         url: categoryUrl.toString(),
         mainEntity: {
           '@type': 'ItemList',
-          name: category ? `${category}分类网站` : tags ? `${tags.split(',').slice(0, 3).join('、')}标签网站` : 'WebVault 分类网站',
+          name: tags ? `${tags.split(',').slice(0, 3).join('、')}标签网站` : 'WebVault 分类网站',
           description: description,
           numberOfItems: '多个优质网站',
-          ...(category && {
-            about: {
-              '@type': 'Thing',
-              name: category,
-              description: `${category}分类相关的网站资源`
-            }
-          })
         },
         breadcrumb: {
           '@type': 'BreadcrumbList',
@@ -167,12 +153,6 @@ export async function generateMetadata({
               name: '分类浏览',
               item: 'https://webvault.cn/category'
             },
-            ...(category ? [{
-              '@type': 'ListItem',
-              position: 3,
-              name: category,
-              item: `https://webvault.cn/category?category=${encodeURIComponent(category)}`
-            }] : [])
           ]
         }
       }),
@@ -195,7 +175,7 @@ export async function generateMetadata({
  * - 性能优化的动态加载
  * 
  * SEO 优化特性：
- * - 动态标题包含分类筛选、标签筛选、搜索关键词和页码
+ * - 动态标题包含标签筛选、搜索关键词和页码
  * - 描述文案针对不同筛选场景优化
  * - 关键词自动聚合当前筛选条件
  * - Schema.org 结构化数据支持搜索引擎理解
@@ -204,7 +184,7 @@ export async function generateMetadata({
  * - 面包屑导航结构化数据
  * 
  * URL 参数支持：
- * - category: 分类筛选条件 (例如: business, development)
+ * - category: 已废弃，301 跳转到 /category/{slug}（见 middleware）
  * - tags: 标签筛选，多个标签用逗号分隔 (例如: react,nextjs)
  * - q: 搜索查询关键词
  * - sort: 排序方式 (created_at, updated_at, title, rating, visit_count)
@@ -0,0 +1,27 @@
+import { Metadata } from 'next'
+
+import { SubmitPage } from '@/features/submissions/components/SubmitPage'
+
+// Cloudflare Pages 需要 Edge Runtime
+export const runtime = 'edge'
+
+export const metadata: Metadata = {
+  title: '提交网站 - WebVault',
+  description: '向 WebVault 推荐优质网站，审核通过后将收录到网站目录中。',
+  robots: {
+    index: true,
+    follow: true,
+  },
+  alternates: {
+    canonical: 'https://webvault.cn/submit',
+  },
+}
+
+/**
+ * 网站提交页面路由
+ *
+ * 访客无需登录即可提交，数据进入 submission_requests 待审核队列
+ */
+export default function SubmitPageRoute() {
+  return <SubmitPage />
+}
@@ -0,0 +1,59 @@
+import React from 'react'
+import Link from 'next/link'
+import { Metadata } from 'next'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Hash, Search } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: '标签未找到 - WebVault',
+  description: '抱歉，您访问的标签不存在或已停用。',
+  robots: { index: false, follow: false }
+}
+
+/**
+ * 标签页404：路径中的任一标签不存在或已停用时显示
+ */
+export default function TagNotFound() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto text-center">
+          <div className="mb-8">
+            <div className="relative mx-auto w-32 h-32 mb-6">
+              <div className="absolute inset-0 bg-muted/30 rounded-full animate-pulse" />
+              <div className="relative flex items-center justify-center w-full h-full">
+                <Hash className="w-16 h-16 text-muted-foreground" strokeWidth={1.5} />
+              </div>
+            </div>
+
+            <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-4">
+              标签未找到
+            </h1>
+
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto mb-8">
+              抱歉，您访问的标签不存在或已停用。
+              <br />
+              请检查链接是否正确，或浏览全部标签。
+            </p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Link href="/tag">
+              <Button size="lg" className="min-w-40 flex items-center gap-2">
+                <ArrowLeft className="w-4 h-4" />
+                浏览全部标签
+              </Button>
+            </Link>
+
+            <Link href="/search">
+              <Button variant="outline" size="lg" className="min-w-40 flex items-center gap-2">
+                <Search className="w-4 h-4" />
+                搜索网站
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { Metadata } from 'next'
+import { notFound, permanentRedirect } from 'next/navigation'
+import dynamicImport from 'next/dynamic'
+import { tagsService } from '@/lib/services/tagsService'
+import {
+  buildTagPath,
+  parseTagModeParam,
+  parseTagPathSegment,
+  TAG_PATH_SEPARATOR,
+} from '@/features/browsable-pages/utils/url-params'
+
+// 强制动态渲染，确保标签状态为最新
+export const dynamic = 'force-dynamic'
+// Cloudflare Pages 需要 Edge Runtime
+export const runtime = 'edge'
+
+/** 单个路径最多组合的标签数，与标签页配置的 maxCombinedTags 一致 */
+const MAX_COMBINED_TAGS = 5
+
+const TagBrowsePage = dynamicImport(
+  () => import('@/features/browsable-pages/components').then(mod => ({ default: mod.TagBrowsePage })),
+  {
+    loading: () => (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center space-y-4">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary/30 border-t-primary" />
+          <p className="text-sm text-muted-foreground">加载标签页面...</p>
+        </div>
+      </div>
+    )
+  }
+)
+
+/**
+ * 标签详情页面属性类型
+ */
+interface TagDetailPageProps {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+/**
+ * 解析路径中的标签；超出组合上限、任一标签不存在或已停用时返回 null
+ */
+async function resolveRouteTags(segment: string) {
+  const slugs = parseTagPathSegment(segment)
+  if (slugs.length === 0 || slugs.length > MAX_COMBINED_TAGS) return null
+
+  const { items, missing } = await tagsService.resolveActive(slugs)
+  if (missing.length > 0 || items.length === 0) return null
+
+  return items
+}
+
+/**
+ * 动态生成标签页元数据：标题、描述和规范URL均基于服务端解析出的标签名称
+ */
+export async function generateMetadata({ params, searchParams }: TagDetailPageProps): Promise<Metadata> {
+  try {
+    const { slug } = await params
+    const query = await searchParams
+    const tags = await resolveRouteTags(slug)
+
+    if (!tags) {
+      return {
+        title: '标签未找到 - WebVault',
+        description: '抱歉，您访问的标签不存在或已停用。',
+        robots: { index: false, follow: false }
+      }
+    }
+
+    const tagMode = parseTagModeParam(query.tagMode)
+    const names = tags.map(tag => tag.name)
+    const joinedNames = names.join(tagMode === 'any' ? ' 或 ' : ' + ')
+    const tagUrl = new URL(buildTagPath(tags.map(tag => tag.slug), tagMode), 'https://webvault.cn').toString()
+
+    const title = `标签：${joinedNames} - WebVault`
+    const description = tags.length === 1 && tags[0].description
+      ? tags[0].description
+      : `浏览带有"${names.join('、')}"标签的优质网站资源，发现相关的专业工具和服务。WebVault为您精选该标签的最佳网站推荐。`
+
+    return {
+      title,
+      description,
+      keywords: ['WebVault', '标签浏览', '网站标签', ...names].join(', '),
+      robots: { index: true, follow: true },
+      openGraph: {
+        title,
+        description,
+        type: 'website',
+        url: tagUrl,
+        siteName: 'WebVault',
+        locale: 'zh_CN',
+        images: [{ url: '/logo.svg', width: 1200, height: 630, alt: `WebVault - ${joinedNames}` }],
+      },
+      twitter: {
+        card: 'summary_large_image',
+        title,
+        description,
+        creator: '@WebVault',
+        images: ['/logo.svg'],
+      },
+      alternates: {
+        canonical: tagUrl,
+      },
+      other: {
+        'application/ld+json': JSON.stringify({
+          '@context': 'https://schema.org',
+          '@type': 'CollectionPage',
+          name: title,
+          description,
+          url: tagUrl,
+          about: tags.map(tag => ({ '@type': 'Thing', name: tag.name })),
+          breadcrumb: {
+            '@type': 'BreadcrumbList',
+            itemListElement: [
+              { '@type': 'ListItem', position: 1, name: 'WebVault', item: 'https://webvault.cn' },
+              { '@type': 'ListItem', position: 2, name: '标签浏览', item: 'https://webvault.cn/tag' },
+              { '@type': 'ListItem', position: 3, name: joinedNames, item: tagUrl },
+            ]
+          }
+        }),
+      },
+    }
+  } catch (error) {
+    console.error('Failed to generate metadata for tag page:', error)
+
+    return {
+      title: '标签浏览 - WebVault',
+      description: 'Browse and discover websites organized by tags.',
+      robots: { index: false, follow: true }
+    }
+  }
+}
+
+/**
+ * 标签规范路由
+ *
+ * URL格式示例:
+ * - `/tag/react` - 单标签
+ * - `/tag/react+nextjs` - 多标签，默认同时包含所有标签
+ * - `/tag/react+nextjs?tagMode=any` - 多标签，包含任一标签
+ *
+ * 标签 slug 在服务端解析，不存在或已停用时返回 404；
+ * 以标签 ID 等非规范形式访问时永久跳转到规范路径
+ */
+export default async function TagDetailPageRoute({ params, searchParams }: TagDetailPageProps) {
+  const { slug } = await params
+  const query = await searchParams
+
+  const tags = await resolveRouteTags(slug)
+  if (!tags) {
+    notFound()
+  }
+
+  const tagMode = parseTagModeParam(query.tagMode)
+  const slugs = tags.map(tag => tag.slug)
+  const requested = parseTagPathSegment(slug)
+  if (requested.join(TAG_PATH_SEPARATOR) !== slugs.join(TAG_PATH_SEPARATOR)) {
+    permanentRedirect(buildTagPath(slugs, tagMode))
+  }
+
+  return <TagBrowsePage selectedTags={slugs} tagMode={tagMode} />
+}
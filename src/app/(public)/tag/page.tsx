@@ -235,9 +235,8 @@ export async function generateMetadata({
  * 
  * URL格式示例:
  * - `/tag` - 默认标签浏览页
- * - `/tag?tags=react,nextjs,typescript&sort=created_at&page=1` - 多标签筛选
- * - `/tag?tags=react&category=development&q=framework` - 标签+分类+搜索组合筛选
+ * - `/tag?tags=react,nextjs` - 旧格式，由 middleware 301 跳转到规范路径 `/tag/react+nextjs`
  */
 export default function TagPageRoute() {
   return <TagBrowsePage />
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+import { auditLogQuerySchema } from "@/features/audit-logs/schemas"
+import { auditLogsService } from "@/lib/services/auditLogsService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
+  const { searchParams } = new URL(request.url)
+  const raw = Object.fromEntries(searchParams.entries())
+
+  try {
+    const parsed = auditLogQuerySchema.safeParse(raw)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "查询参数校验失败",
+          timestamp: new Date().toISOString(),
+          errors: formatZodErrors(parsed.error),
+        },
+        { status: 422 }
+      )
+    }
+
+    const result = await auditLogsService.list(parsed.data)
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: result.items,
+      meta: {
+        limit: parsed.data.limit ?? 50,
+        nextCursor: result.nextCursor,
+        hasMore: Boolean(result.nextCursor),
+      },
+      filters: parsed.data,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("GET /api/admin/audit-logs", error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "获取审计日志失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const pathKey = issue.path[0] ? String(issue.path[0]) : "root"
+    if (!fieldErrors[pathKey]) {
+      fieldErrors[pathKey] = []
+    }
+    fieldErrors[pathKey].push(issue.message)
+  }
+  return fieldErrors
+}
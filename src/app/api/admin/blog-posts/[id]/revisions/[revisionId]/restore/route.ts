@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+
+import { blogPostsService } from "@/lib/services/blogPostsService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function POST(_request: Request, context: { params: Promise<{ id: string; revisionId: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
+  const { id, revisionId } = await context.params
+  try {
+    const restored = await blogPostsService.restoreRevision(id, revisionId, { actorId: guard.session.userId })
+
+    return NextResponse.json({
+      code: 0,
+      message: "restored",
+      data: restored,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    const notFound = error instanceof Error && /未找到(博客文章|文章版本)/.test(error.message)
+    if (!notFound) {
+      console.error(`POST /api/admin/blog-posts/${id}/revisions/${revisionId}/restore`, error)
+    }
+    return NextResponse.json(
+      {
+        code: notFound ? "not_found" : "internal_error",
+        message: notFound ? (error as Error).message : "恢复文章版本失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: notFound ? 404 : 500 }
+    )
+  }
+}
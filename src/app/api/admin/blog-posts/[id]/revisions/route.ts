@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+import { blogPostRevisionQuerySchema } from "@/features/blog/schemas"
+import { blogPostRevisionsService } from "@/lib/services/blogPostRevisionsService"
+import { blogPostsService } from "@/lib/services/blogPostsService"
+import { InvalidCursorError } from "@/lib/utils/keyset"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function GET(request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
+  const { id } = await context.params
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const parsed = blogPostRevisionQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "查询参数校验失败",
+          errors: formatZodErrors(parsed.error),
+          timestamp: new Date().toISOString(),
+        },
+        { status: 422 }
+      )
+    }
+
+    const post = await blogPostsService.getById(id)
+    if (!post) {
+      return NextResponse.json(
+        {
+          code: "not_found",
+          message: "未找到对应的博客文章",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      )
+    }
+
+    const result = await blogPostRevisionsService.list(id, parsed.data)
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: result.items,
+      meta: {
+        per_page: parsed.data.limit ?? 20,
+        has_more: result.nextCursor !== null,
+        next_cursor: result.nextCursor,
+      },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        {
+          code: "invalid_cursor",
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      )
+    }
+    console.error(`GET /api/admin/blog-posts/${id}/revisions`, error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "获取文章历史版本失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const pathKey = issue.path[0] ? String(issue.path[0]) : "root"
+    if (!fieldErrors[pathKey]) {
+      fieldErrors[pathKey] = []
+    }
+    fieldErrors[pathKey].push(issue.message)
+  }
+  return fieldErrors
+}
@@ -6,10 +6,14 @@ import {
   blogPostStatusSchema,
 } from "@/features/blog/schemas"
 import { blogPostsService } from "@/lib/services/blogPostsService"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
   try {
     const post = await blogPostsService.getById(id)
@@ -44,6 +48,9 @@ export async function GET(_request: Request, context: { params: Promise<{ id: st
 }
 
 export async function PUT(request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
   try {
     const json = await request.json()
@@ -61,7 +68,7 @@ export async function PUT(request: Request, context: { params: Promise<{ id: str
       )
     }
 
-    const updated = await blogPostsService.update(id, parsed.data)
+    const updated = await blogPostsService.update(id, parsed.data, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -83,6 +90,9 @@ export async function PUT(request: Request, context: { params: Promise<{ id: str
 }
 
 export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
   try {
     const json = await request.json()
@@ -100,7 +110,7 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
       )
     }
 
-    const updated = await blogPostsService.updateStatus(id, parsed.data)
+    const updated = await blogPostsService.updateStatus(id, parsed.data, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -122,9 +132,12 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
 }
 
 export async function DELETE(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("admin")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
   try {
-    await blogPostsService.remove(id)
+    await blogPostsService.remove(id, { actorId: guard.session.userId })
     return NextResponse.json(
       {
         code: 0,
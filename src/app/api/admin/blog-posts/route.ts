@@ -5,10 +5,14 @@ import { blogPostCreateSchema } from "@/features/blog/schemas"
 import type { BlogPostListFilters, BlogPostStatus } from "@/features/blog/types"
 import { BLOG_POST_STATUSES } from "@/features/blog/types"
 import { blogPostsService } from "@/lib/services/blogPostsService"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const { searchParams } = new URL(request.url)
 
   const filters: BlogPostListFilters = {
@@ -46,6 +50,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   try {
     const json = await request.json()
     const parsed = blogPostCreateSchema.safeParse(json)
@@ -62,7 +69,7 @@ export async function POST(request: Request) {
       )
     }
 
-    const created = await blogPostsService.create(parsed.data)
+    const created = await blogPostsService.create(parsed.data, { actorId: guard.session.userId })
 
     return NextResponse.json(
       {
@@ -3,10 +3,14 @@ import { NextResponse } from "next/server"
 import { categoriesService, type CategoryUpdateInput } from "@/lib/services/categoriesService"
 import { categoryUpdateSchema } from "@/features/categories/schemas"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function PUT(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const id = extractCategoryId(request.url)
 
   if (!id) {
@@ -47,7 +51,7 @@ export async function PUT(request: Request) {
     if (data.icon !== undefined) payload.icon = data.icon ?? null
     if (data.status !== undefined) payload.status = data.status as CategoryUpdateInput["status"]
 
-    const result = await categoriesService.update(id, payload)
+    const result = await categoriesService.update(id, payload, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -72,6 +76,9 @@ export async function PUT(request: Request) {
 }
 
 export async function DELETE(request: Request) {
+  const guard = await requireAdmin("admin")
+  if (!guard.ok) return guard.response
+
   const id = extractCategoryId(request.url)
 
   if (!id) {
@@ -86,7 +93,7 @@ export async function DELETE(request: Request) {
   }
 
   try {
-    await categoriesService.remove(id)
+    await categoriesService.remove(id, { actorId: guard.session.userId })
     return NextResponse.json({
       code: 0,
       message: "deleted",
@@ -4,10 +4,14 @@ import { categoriesService, type CategoryCreateInput } from "@/lib/services/cate
 import { categoryCreateSchema } from "@/features/categories/schemas"
 import type { CategoryStatus } from "@/features/categories/types"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const { searchParams } = new URL(request.url)
   const search = searchParams.get("search") ?? undefined
   const statusParam = (searchParams.get("status") ?? "all") as CategoryStatus | "all"
@@ -35,6 +39,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   try {
     const json = await request.json()
     const parsed = categoryCreateSchema.safeParse(json)
@@ -63,7 +70,7 @@ export async function POST(request: Request) {
     if (data.description !== undefined) payload.description = data.description ?? undefined
     if (data.icon !== undefined) payload.icon = data.icon ?? undefined
 
-    const result = await categoriesService.create(payload)
+    const result = await categoriesService.create(payload, { actorId: guard.session.userId })
 
     return NextResponse.json(
       {
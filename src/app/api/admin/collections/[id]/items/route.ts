@@ -4,10 +4,14 @@ import { collectionItemsReplaceSchema } from "@/features/collections/schemas"
 import type { CollectionItemInput } from "@/features/collections/types"
 import { collectionsService } from "@/lib/services/collectionsService"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   let contextId: string | undefined
   try {
     const resolved = await params
@@ -34,7 +38,7 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
       position: item.position,
     }))
 
-    const updated = await collectionsService.replaceItems(resolved.id, items)
+    const updated = await collectionsService.replaceItems(resolved.id, items, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -4,10 +4,14 @@ import { collectionUpdateSchema } from "@/features/collections/schemas"
 import type { CollectionUpdateInput } from "@/features/collections/types"
 import { collectionsService } from "@/lib/services/collectionsService"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   let contextId: string | undefined
   try {
     const resolved = await params
@@ -44,6 +48,9 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
 }
 
 export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   let contextId: string | undefined
   try {
     const resolved = await params
@@ -73,7 +80,7 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
       displayOrder: payload.displayOrder,
     }
 
-    const updated = await collectionsService.update(resolved.id, input)
+    const updated = await collectionsService.update(resolved.id, input, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -106,11 +113,14 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
 }
 
 export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("admin")
+  if (!guard.ok) return guard.response
+
   let contextId: string | undefined
   try {
     const resolved = await params
     contextId = resolved.id
-    await collectionsService.delete(resolved.id)
+    await collectionsService.delete(resolved.id, { actorId: guard.session.userId })
     return new NextResponse(null, { status: 204 })
   } catch (error) {
     if (isNotFoundError(error)) {
@@ -4,10 +4,15 @@ import { collectionCreateSchema, collectionQuerySchema } from "@/features/collec
 import type { CollectionCreateInput, CollectionListParams } from "@/features/collections/types"
 import { collectionsService } from "@/lib/services/collectionsService"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
+import { InvalidCursorError } from "@/lib/utils/keyset"
 
 export const runtime = "edge"
 
 export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const { searchParams } = new URL(request.url)
   const raw = Object.fromEntries(searchParams.entries())
 
@@ -32,6 +37,7 @@ export async function GET(request: Request) {
       search: query.search,
       featured: query.featured,
       orderBy: query.orderBy,
+      cursor: query.cursor,
     }
 
     const result = await collectionsService.list(params)
@@ -45,10 +51,21 @@ export async function GET(request: Request) {
         pageSize: result.pageSize,
         total: result.total,
         hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
       },
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        {
+          code: "invalid_cursor",
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      )
+    }
     console.error("GET /api/admin/collections", error)
     return NextResponse.json(
       {
@@ -62,6 +79,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   try {
     const body = await request.json()
     const parsed = collectionCreateSchema.safeParse(body)
@@ -93,7 +113,7 @@ export async function POST(request: Request) {
       })),
     }
 
-    const created = await collectionsService.create(input)
+    const created = await collectionsService.create(input, { actorId: guard.session.userId })
 
     return NextResponse.json(
       {
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+import { mediaAltTextSchema, mediaQuerySchema } from "@/features/media/schemas"
+import { MediaStorageUnavailableError, MediaValidationError, mediaService } from "@/lib/services/mediaService"
+import { InvalidCursorError } from "@/lib/utils/keyset"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const parsed = mediaQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "查询参数校验失败",
+          errors: formatZodErrors(parsed.error),
+          timestamp: new Date().toISOString(),
+        },
+        { status: 422 }
+      )
+    }
+
+    const result = await mediaService.list(parsed.data)
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: result.items,
+      meta: {
+        per_page: parsed.data.limit ?? 24,
+        has_more: result.nextCursor !== null,
+        next_cursor: result.nextCursor,
+      },
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        {
+          code: "invalid_cursor",
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      )
+    }
+    console.error("GET /api/admin/media", error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "获取媒体库失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * multipart/form-data：file 为原图，thumbnail 为可选缩略图，alt 为可选替代文本
+ */
+export async function POST(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
+  try {
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get("file")
+    const thumbnail = formData?.get("thumbnail")
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "请选择要上传的图片",
+          errors: { file: ["请选择要上传的图片"] },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 422 }
+      )
+    }
+
+    const alt = mediaAltTextSchema.safeParse(formData?.get("alt") ?? undefined)
+    if (!alt.success) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "媒体字段校验失败",
+          errors: { alt: alt.error.issues.map((issue) => issue.message) },
+          timestamp: new Date().toISOString(),
+        },
+        { status: 422 }
+      )
+    }
+
+    const result = await mediaService.upload(
+      { file, thumbnail: thumbnail instanceof File ? thumbnail : null, altText: alt.data },
+      { actorId: guard.session.userId }
+    )
+
+    return NextResponse.json(
+      {
+        code: 0,
+        message: result.reused ? "ok" : "created",
+        data: result.asset,
+        meta: { reused: result.reused },
+        timestamp: new Date().toISOString(),
+      },
+      { status: result.reused ? 200 : 201 }
+    )
+  } catch (error) {
+    if (error instanceof MediaValidationError) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: error.message,
+          errors: { [error.field]: [error.message] },
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.status }
+      )
+    }
+    if (error instanceof MediaStorageUnavailableError) {
+      return NextResponse.json(
+        {
+          code: "storage_unavailable",
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 503 }
+      )
+    }
+    console.error("POST /api/admin/media", error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "上传图片失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const pathKey = issue.path[0] ? String(issue.path[0]) : "root"
+    if (!fieldErrors[pathKey]) {
+      fieldErrors[pathKey] = []
+    }
+    fieldErrors[pathKey].push(issue.message)
+  }
+  return fieldErrors
+}
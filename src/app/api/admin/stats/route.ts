@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+import { adminStatsQuerySchema } from "@/features/admin-stats/schemas"
+import { adminStatsService } from "@/lib/services/adminStatsService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
+  const { searchParams } = new URL(request.url)
+  const raw = Object.fromEntries(searchParams.entries())
+
+  try {
+    const parsed = adminStatsQuerySchema.safeParse(raw)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "查询参数校验失败",
+          timestamp: new Date().toISOString(),
+          errors: formatZodErrors(parsed.error),
+        },
+        { status: 422 }
+      )
+    }
+
+    const data = await adminStatsService.getOverview(parsed.data.range)
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("GET /api/admin/stats", error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "获取统计数据失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const pathKey = issue.path[0] ? String(issue.path[0]) : "root"
+    if (!fieldErrors[pathKey]) {
+      fieldErrors[pathKey] = []
+    }
+    fieldErrors[pathKey].push(issue.message)
+  }
+  return fieldErrors
+}
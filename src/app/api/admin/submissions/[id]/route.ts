@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+import { submissionReviewSchema } from "@/features/submissions/schemas"
+import { submissionsService } from "@/lib/services/submissionsService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
+  const { id } = await context.params
+
+  try {
+    const submission = await submissionsService.getById(id)
+    if (!submission) {
+      return NextResponse.json(
+        {
+          code: "not_found",
+          message: "未找到对应的提交记录",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: submission,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error(`GET /api/admin/submissions/${id}`, error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "获取提交详情失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 审核操作：approve / reject / merge，由 body.action 区分
+ */
+export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
+  const { id } = await context.params
+
+  try {
+    const json = await request.json()
+    const parsed = submissionReviewSchema.safeParse(json)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          code: "validation_failed",
+          message: "审核参数校验失败",
+          errors: formatZodErrors(parsed.error),
+          timestamp: new Date().toISOString(),
+        },
+        { status: 422 }
+      )
+    }
+
+    const options = { actorId: guard.session.userId }
+    const input = parsed.data
+    const result =
+      input.action === "approve"
+        ? await submissionsService.approve(id, input, options)
+        : input.action === "reject"
+          ? await submissionsService.reject(id, input, options)
+          : await submissionsService.merge(id, input, options)
+
+    return NextResponse.json({
+      code: 0,
+      message: input.action === "approve" ? "approved" : input.action === "reject" ? "rejected" : "merged",
+      data: result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error(`PATCH /api/admin/submissions/${id}`, error)
+    return NextResponse.json(
+      {
+        code: resolveErrorCode(error),
+        message: errorMessage(error, "审核操作失败"),
+        timestamp: new Date().toISOString(),
+      },
+      { status: resolveStatus(error) }
+    )
+  }
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const pathKey = issue.path[0] ? String(issue.path[0]) : "root"
+    if (!fieldErrors[pathKey]) {
+      fieldErrors[pathKey] = []
+    }
+    fieldErrors[pathKey].push(issue.message)
+  }
+  return fieldErrors
+}
+
+function resolveStatus(error: unknown): number {
+  if (error instanceof Error) {
+    if (/未找到/.test(error.message)) return 404
+    if (/分类不存在/.test(error.message)) return 400
+    if (/已审核|已存在相同网址|slug|唯一|unique|constraint/i.test(error.message)) return 409
+  }
+  return 500
+}
+
+function resolveErrorCode(error: unknown): string {
+  if (error instanceof Error) {
+    if (/未找到/.test(error.message)) return "not_found"
+    if (/分类不存在/.test(error.message)) return "invalid_category"
+    if (/已审核|已存在相同网址/.test(error.message)) return "operation_conflict"
+    if (/slug|唯一|unique|constraint/i.test(error.message)) return "duplicate_resource"
+  }
+  return "internal_error"
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) {
+    if (/未找到网站/.test(error.message)) return "未找到要合并的网站"
+    if (/未找到提交记录/.test(error.message)) return "未找到对应的提交记录"
+    if (/分类不存在/.test(error.message)) return "建议的分类已不存在，请调整后再通过"
+    if (/已审核|已存在相同网址/.test(error.message)) return error.message
+    if (/slug|唯一|unique|constraint/i.test(error.message)) return "slug 已存在，无法创建"
+  }
+  return fallback
+}
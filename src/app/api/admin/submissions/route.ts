@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+
+import { SUBMISSION_STATUSES, type SubmissionListParams, type SubmissionStatus } from "@/features/submissions/types"
+import { submissionsService } from "@/lib/services/submissionsService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
+  const params = parseListParams(request.url)
+
+  try {
+    const [result, counts] = await Promise.all([
+      submissionsService.list(params),
+      submissionsService.countByStatus(),
+    ])
+    const totalPages = Math.ceil(result.total / result.pageSize) || 1
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: result.items,
+      meta: {
+        page: result.page,
+        per_page: result.pageSize,
+        total: result.total,
+        total_pages: totalPages,
+        has_more: result.hasMore,
+        counts,
+      },
+      filters: params,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("GET /api/admin/submissions", error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "获取提交列表失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+function parseListParams(url: string): SubmissionListParams {
+  const { searchParams } = new URL(url)
+
+  return {
+    status: parseStatus(searchParams.get("status")),
+    search: normalize(searchParams.get("search")),
+    page: parseNumber(searchParams.get("page"), 1) ?? 1,
+    pageSize: parseNumber(searchParams.get("perPage"), 20) ?? 20,
+  }
+}
+
+function parseStatus(value: string | null): SubmissionStatus | "all" {
+  if (!value) return "pending"
+  const normalized = value.trim().toLowerCase()
+  if (SUBMISSION_STATUSES.includes(normalized as SubmissionStatus)) {
+    return normalized as SubmissionStatus
+  }
+  return "all"
+}
+
+function parseNumber(value: string | null, fallback?: number): number | undefined {
+  if (!value || value === "") return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) return fallback
+  return parsed
+}
+
+function normalize(value: string | null): string | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  return trimmed.length ? trimmed : undefined
+}
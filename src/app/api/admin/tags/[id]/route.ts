@@ -4,10 +4,14 @@ import { tagsService } from "@/lib/services/tagsService"
 import { tagUpdateSchema } from "@/features/tags/schemas"
 import type { TagUpdateInput } from "@/features/tags/types/tag"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function PUT(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const id = extractTagId(request.url)
 
   if (!id) {
@@ -46,7 +50,7 @@ export async function PUT(request: Request) {
     if (data.color !== undefined) payload.color = data.color ?? null
     if (data.status !== undefined) payload.status = data.status
 
-    const result = await tagsService.update(id, payload)
+    const result = await tagsService.update(id, payload, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -71,6 +75,9 @@ export async function PUT(request: Request) {
 }
 
 export async function DELETE(request: Request) {
+  const guard = await requireAdmin("admin")
+  if (!guard.ok) return guard.response
+
   const id = extractTagId(request.url)
 
   if (!id) {
@@ -85,7 +92,7 @@ export async function DELETE(request: Request) {
   }
 
   try {
-    await tagsService.remove(id)
+    await tagsService.remove(id, { actorId: guard.session.userId })
     return NextResponse.json({
       code: 0,
       message: "deleted",
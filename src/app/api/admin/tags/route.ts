@@ -4,10 +4,14 @@ import { tagsService, type TagListParams } from "@/lib/services/tagsService"
 import { tagCreateSchema } from "@/features/tags/schemas"
 import type { TagCreateInput, TagStatus } from "@/features/tags/types/tag"
 import { ZodError } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const { searchParams } = new URL(request.url)
   const search = searchParams.get("search") ?? undefined
   const statusParam = (searchParams.get("status") ?? "all") as TagStatus | "all"
@@ -40,6 +44,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   try {
     const json = await request.json()
     const parsed = tagCreateSchema.safeParse(json)
@@ -66,7 +73,7 @@ export async function POST(request: Request) {
     if (data.description !== undefined) payload.description = data.description ?? undefined
     if (data.color !== undefined) payload.color = data.color ?? undefined
 
-    const result = await tagsService.create(payload)
+    const result = await tagsService.create(payload, { actorId: guard.session.userId })
 
     return NextResponse.json(
       {
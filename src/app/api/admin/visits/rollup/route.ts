@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+
+import { visitsService } from "@/lib/services/visitsService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+/**
+ * 手动触发访问量汇总（正常情况下由访问请求在后台按需触发）
+ */
+export async function POST() {
+  const guard = await requireAdmin("admin")
+  if (!guard.ok) return guard.response
+
+  try {
+    const result = await visitsService.rollup()
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("POST /api/admin/visits/rollup", error)
+    return NextResponse.json(
+      {
+        code: "internal_error",
+        message: "访问量汇总失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+
+import { linkCheckService } from "@/lib/services/linkCheckService"
+import { requireAdmin } from "@/lib/auth"
+
+export const runtime = "edge"
+
+export async function POST(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
+  const { id } = await context.params
+
+  try {
+    const result = await linkCheckService.checkWebsite(id, { actorId: guard.session.userId })
+
+    return NextResponse.json({
+      code: 0,
+      message: "ok",
+      data: result,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error(`POST /api/admin/websites/${id}/link-check`, error)
+    const notFound = error instanceof Error && /未找到网站/.test(error.message)
+    return NextResponse.json(
+      {
+        code: notFound ? "not_found" : "internal_error",
+        message: notFound ? "未找到对应的网站" : "链接检测失败",
+        timestamp: new Date().toISOString(),
+      },
+      { status: notFound ? 404 : 500 }
+    )
+  }
+}
@@ -6,10 +6,14 @@ import {
   websiteStatusUpdateSchema,
 } from "@/features/websites/schemas"
 import { websitesAdminService } from "@/lib/services/websitesAdminService"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
 export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
 
   try {
@@ -45,6 +49,9 @@ export async function GET(_request: Request, context: { params: Promise<{ id: st
 }
 
 export async function PUT(request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
 
   try {
@@ -63,7 +70,7 @@ export async function PUT(request: Request, context: { params: Promise<{ id: str
       )
     }
 
-    const updated = await websitesAdminService.update(id, parsed.data)
+    const updated = await websitesAdminService.update(id, parsed.data, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
@@ -85,6 +92,9 @@ export async function PUT(request: Request, context: { params: Promise<{ id: str
 }
 
 export async function PATCH(request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
 
   try {
@@ -103,7 +113,7 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
       )
     }
 
-    await websitesAdminService.updateStatus(id, parsed.data)
+    await websitesAdminService.updateStatus(id, parsed.data, { actorId: guard.session.userId })
     const detail = await websitesAdminService.getById(id)
 
     return NextResponse.json({
@@ -126,10 +136,13 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
 }
 
 export async function DELETE(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const guard = await requireAdmin("admin")
+  if (!guard.ok) return guard.response
+
   const { id } = await context.params
 
   try {
-    await websitesAdminService.remove(id)
+    await websitesAdminService.remove(id, { actorId: guard.session.userId })
     return NextResponse.json({
       code: 0,
       message: "deleted",
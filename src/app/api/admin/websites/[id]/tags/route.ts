@@ -2,6 +2,7 @@ import { NextResponse } from "next/server"
 
 import { tagsService } from "@/lib/services/tagsService"
 import { z } from "zod"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
@@ -10,6 +11,9 @@ const updateSchema = z.object({
 })
 
 export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const id = extractWebsiteId(request.url)
   if (!id) {
     return NextResponse.json(
@@ -44,6 +48,9 @@ export async function GET(request: Request) {
 }
 
 export async function PUT(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   const id = extractWebsiteId(request.url)
   if (!id) {
     return NextResponse.json(
@@ -79,7 +86,7 @@ export async function PUT(request: Request) {
       )
     }
 
-    await tagsService.updateWebsiteTags(id, parsed.data.tagIds)
+    await tagsService.updateWebsiteTags(id, parsed.data.tagIds, { actorId: guard.session.userId })
 
     return NextResponse.json({
       code: 0,
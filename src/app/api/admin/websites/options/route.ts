@@ -6,6 +6,7 @@ import { tagsService } from "@/lib/services/tagsService"
 
 import type { CategoryNode } from "@/features/categories/types"
 import type { CollectionListItem } from "@/features/collections/types"
+import { requireAdmin } from "@/lib/auth"
 
 export const runtime = "edge"
 
@@ -16,6 +17,9 @@ interface OptionsPayload {
 }
 
 export async function GET() {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   try {
     const [categoryResult, tagsResult, allCollections] = await Promise.all([
       categoriesService.list({ status: "all", countStatus: "all" }),
@@ -84,19 +88,14 @@ function flattenCategories(nodes: CategoryNode[], trail: string[] = [], depth =
 
 async function fetchAllCollections() {
   const pageSize = 100
-  let page = 1
-  let hasMore = true
+  let cursor: string | null = ""
   const items: CollectionListItem[] = []
 
-  while (hasMore) {
-    const result = await collectionsService.list({ page, pageSize, orderBy: "name" })
+  // 游标分页逐页读取，避免深翻页的 offset 扫描
+  while (cursor !== null) {
+    const result = await collectionsService.list({ pageSize, orderBy: "name", cursor })
     items.push(...result.items)
-    hasMore = result.hasMore
-    page += 1
-
-    if (!hasMore) {
-      break
-    }
+    cursor = result.nextCursor
   }
 
   return items
@@ -7,15 +7,23 @@ import {
 import type { WebsiteAdminListParams } from "@/features/websites/types/admin"
 import type { WebsiteStatus } from "@/features/websites/types"
 import { websitesAdminService } from "@/lib/services/websitesAdminService"
+import { requireAdmin } from "@/lib/auth"
+import { InvalidCursorError } from "@/lib/utils/keyset"
 
 export const runtime = "edge"
 
 export async function GET(request: Request) {
+  const guard = await requireAdmin("viewer")
+  if (!guard.ok) return guard.response
+
   const params = parseListParams(request.url)
 
   try {
     const result = await websitesAdminService.list(params)
-    const meta = buildMeta(result.page, result.pageSize, result.total)
+    const meta =
+      params.cursor !== undefined
+        ? buildCursorMeta(result.pageSize, result.total, result.nextCursor)
+        : buildMeta(result.page, result.pageSize, result.total ?? 0)
 
     return NextResponse.json({
       code: 0,
@@ -26,6 +34,16 @@ export async function GET(request: Request) {
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        {
+          code: "invalid_cursor",
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      )
+    }
     console.error("GET /api/admin/websites", error)
     return NextResponse.json(
       {
@@ -39,6 +57,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const guard = await requireAdmin("editor")
+  if (!guard.ok) return guard.response
+
   try {
     const json = await request.json()
     const parsed = websiteAdminCreateSchema.safeParse(json)
@@ -55,7 +76,7 @@ export async function POST(request: Request) {
       )
     }
 
-    const created = await websitesAdminService.create(parsed.data)
+    const created = await websitesAdminService.create(parsed.data, { actorId: guard.session.userId })
 
     return NextResponse.json(
       {
@@ -90,6 +111,15 @@ function buildMeta(page: number, perPage: number, total: number) {
   }
 }
 
+function buildCursorMeta(perPage: number, total: number | null, nextCursor: string | null) {
+  return {
+    per_page: perPage,
+    total,
+    has_more: nextCursor !== null,
+    next_cursor: nextCursor,
+  }
+}
+
 function formatZodErrors(error: ZodError): Record<string, string[]> {
   const fieldErrors: Record<string, string[]> = {}
   for (const issue of error.issues) {
@@ -118,10 +148,13 @@ function parseListParams(url: string): WebsiteAdminListParams {
     adType: normalize(searchParams.get("adType")) as WebsiteAdminListParams["adType"],
     minRating: parseNumber(searchParams.get("minRating")),
     submittedBy: normalize(searchParams.get("submittedBy")),
+    linkStatus: parseLinkStatus(searchParams.get("linkStatus")),
+    minFailures: parseNumber(searchParams.get("minFailures")),
     orderBy: parseOrderBy(searchParams.get("orderBy")),
     sortDir: parseSortDir(searchParams.get("sortDir")),
     page: parseNumber(searchParams.get("page"), 1) ?? 1,
     pageSize: parseNumber(searchParams.get("perPage"), 20) ?? 20,
+    cursor: searchParams.has("cursor") ? searchParams.get("cursor") ?? "" : undefined,
   }
 
   return result
@@ -136,6 +169,15 @@ function parseStatus(value: string | null): WebsiteStatus | "all" {
   return "all"
 }
 
+function parseLinkStatus(value: string | null): WebsiteAdminListParams["linkStatus"] {
+  if (!value) return undefined
+  const normalized = value.trim().toLowerCase()
+  if (["healthy", "broken", "unchecked"].includes(normalized)) {
+    return normalized as WebsiteAdminListParams["linkStatus"]
+  }
+  return undefined
+}
+
 function parseBoolean(value: string | null): boolean | undefined {
   if (!value) return undefined
   const normalized = value.trim().toLowerCase()
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { blogPostsService } from '@/lib/services/blogPostsService';
+
+export const runtime = 'edge';
+
+const MAX_PAGE_SIZE = 48;
+
+const TIMESTAMP_FORMATTER = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Asia/Shanghai',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hour12: false,
+});
+
+/**
+ * GET /api/blog-posts
+ * 获取已发布的博客文章列表
+ *
+ * 查询参数:
+ * - query / q: 全文关键词（标题、摘要、正文）
+ * - tag: 标签筛选（不区分大小写）
+ * - page: 页码 (默认: 1)
+ * - pageSize: 每页数量 (默认: 6, 最大: 48)
+ */
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get('x-request-id') ?? crypto.randomUUID();
+  const url = new URL(request.url);
+
+  const page = Number(url.searchParams.get('page') ?? '1');
+  const pageSize = Number(url.searchParams.get('pageSize') ?? '6');
+
+  if (!Number.isInteger(page) || !Number.isInteger(pageSize) || page < 1 || pageSize < 1) {
+    return respondError({
+      status: 400,
+      code: 'bad_request',
+      message: '分页参数无效',
+      requestId,
+      errors: {
+        page: ['page 必须为大于等于 1 的整数'],
+        pageSize: ['pageSize 必须为大于等于 1 的整数'],
+      },
+    });
+  }
+
+  try {
+    const result = await blogPostsService.listPublished({
+      page,
+      pageSize: Math.min(MAX_PAGE_SIZE, pageSize),
+      query: url.searchParams.get('query') ?? url.searchParams.get('q') ?? undefined,
+      tag: url.searchParams.get('tag') ?? undefined,
+    });
+
+    const totalPages = result.total > 0 ? Math.ceil(result.total / result.pageSize) : 0;
+    const hasMore = totalPages > 0 && result.page < totalPages;
+
+    return respondSuccess({
+      requestId,
+      data: result.items,
+      meta: {
+        page: result.page,
+        per_page: result.pageSize,
+        total: result.total,
+        total_pages: totalPages,
+        has_more: hasMore,
+      },
+      links: buildPaginationLinks(url, result.page, result.pageSize, totalPages),
+    });
+  } catch (error) {
+    console.error('GET /api/blog-posts error:', error);
+
+    return respondError({
+      status: 500,
+      code: 'internal_error',
+      message: '获取博客文章失败',
+      requestId,
+      errors: {
+        detail: [error instanceof Error ? error.message : '未知错误'],
+      },
+    });
+  }
+}
+
+function respondSuccess({
+  requestId,
+  data,
+  meta,
+  links,
+}: {
+  requestId: string;
+  data: unknown;
+  meta: Record<string, unknown>;
+  links: { next: string | null; prev: string | null };
+}) {
+  return NextResponse.json(
+    {
+      code: 0,
+      message: 'ok',
+      data,
+      meta,
+      links,
+      requestId,
+      timestamp: formatTimestamp(),
+    },
+    {
+      headers: {
+        'X-Request-Id': requestId,
+      },
+    }
+  );
+}
+
+function respondError({
+  status,
+  code,
+  message,
+  requestId,
+  errors,
+}: {
+  status: number;
+  code: string;
+  message: string;
+  requestId: string;
+  errors?: Record<string, string[]>;
+}) {
+  return NextResponse.json(
+    {
+      status,
+      code,
+      message,
+      errors,
+      requestId,
+      timestamp: formatTimestamp(),
+    },
+    {
+      status,
+      headers: {
+        'X-Request-Id': requestId,
+      },
+    }
+  );
+}
+
+function formatTimestamp(): string {
+  const parts = TIMESTAMP_FORMATTER.formatToParts(new Date());
+  const map = Object.fromEntries(parts.map((part) => [part.type, part.value])) as Record<string, string>;
+  return `${map.year}-${map.month}-${map.day} ${map.hour}:${map.minute}:${map.second}`;
+}
+
+function buildPaginationLinks(url: URL, page: number, pageSize: number, totalPages: number) {
+  const hasPrev = page > 1;
+  const hasNext = totalPages > 0 && page < totalPages;
+
+  return {
+    prev: hasPrev ? buildLink(url, page - 1, pageSize) : null,
+    next: hasNext ? buildLink(url, page + 1, pageSize) : null,
+  };
+}
+
+function buildLink(url: URL, page: number, pageSize: number) {
+  const nextUrl = new URL(url.toString());
+  nextUrl.searchParams.set('page', String(page));
+  nextUrl.searchParams.set('pageSize', String(pageSize));
+  return `${nextUrl.pathname}${nextUrl.search}`;
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { collectionsService } from '@/lib/services/collectionsService';
 import type { CollectionListParams } from '@/features/collections/types';
+import { InvalidCursorError } from '@/lib/utils/keyset';
 
 export const runtime = 'edge';
 
@@ -25,6 +26,7 @@ const TIMESTAMP_FORMATTER = new Intl.DateTimeFormat('en-CA', {
  * - pageSize: 每页数量 (默认: 12, 最大: 100)
  * - featured: 是否精选 (true/false/all, 默认: all)
  * - orderBy: 排序方式 (recent/name/order, 默认: recent)
+ * - cursor: 游标分页，空值表示第一页，之后传入上一页的 next_cursor；传入时忽略 page
  */
 export async function GET(request: NextRequest) {
   const requestId = request.headers.get('x-request-id') ?? crypto.randomUUID();
@@ -38,12 +40,28 @@ export async function GET(request: NextRequest) {
       pageSize: Math.min(parseInt(searchParams.get('pageSize') || '12'), 100),
       featured: parseFeaturedParam(searchParams.get('featured')),
       orderBy: parseOrderByParam(searchParams.get('orderBy')),
+      cursor: searchParams.has('cursor') ? searchParams.get('cursor') ?? '' : undefined,
     };
 
     // 调用 service 获取数据
     const result = await collectionsService.list(params);
 
-    const totalPages = result.total > 0 ? Math.ceil(result.total / result.pageSize) : 0;
+    if (params.cursor !== undefined) {
+      return respondSuccess({
+        requestId,
+        data: result.items,
+        meta: {
+          per_page: result.pageSize,
+          total: result.total,
+          has_more: result.hasMore,
+          next_cursor: result.nextCursor,
+        },
+        links: buildCursorLinks(new URL(request.url), result.pageSize, result.nextCursor),
+      });
+    }
+
+    const total = result.total ?? 0;
+    const totalPages = total > 0 ? Math.ceil(total / result.pageSize) : 0;
     const hasMore = totalPages > 0 && result.page < totalPages;
 
     return respondSuccess({
@@ -52,13 +70,25 @@ export async function GET(request: NextRequest) {
       meta: {
         page: result.page,
         per_page: result.pageSize,
-        total: result.total,
+        total,
         total_pages: totalPages,
         has_more: hasMore,
       },
       links: buildPaginationLinks(new URL(request.url), result.page, result.pageSize, totalPages),
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return respondError({
+        status: 400,
+        code: 'bad_request',
+        message: error.message,
+        requestId,
+        errors: {
+          cursor: ['cursor 必须为上一页返回的 next_cursor'],
+        },
+      });
+    }
+
     console.error('GET /api/collections error:', error);
 
     return respondError({
@@ -179,6 +209,21 @@ function buildPaginationLinks(url: URL, page: number, pageSize: number, totalPag
   };
 }
 
+/**
+ * 构建游标分页链接，只能向后翻页
+ */
+function buildCursorLinks(url: URL, pageSize: number, nextCursor: string | null) {
+  if (!nextCursor) {
+    return { prev: null, next: null };
+  }
+
+  const nextUrl = new URL(url.toString());
+  nextUrl.searchParams.delete('page');
+  nextUrl.searchParams.set('cursor', nextCursor);
+  nextUrl.searchParams.set('pageSize', String(pageSize));
+  return { prev: null, next: `${nextUrl.pathname}${nextUrl.search}` };
+}
+
 /**
  * 构建链接
  */
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+
+import { MediaStorageUnavailableError, isMediaStorageKey, mediaService } from "@/lib/services/mediaService"
+
+export const runtime = "edge"
+
+/**
+ * 公开读取媒体库图片；配置了 MEDIA_PUBLIC_BASE_URL 时图片直接由 R2 域名提供，不经过这里
+ */
+export async function GET(request: Request, context: { params: Promise<{ key: string[] }> }) {
+  // 路由参数已由 Next.js 解码，不再二次解码；键的字符范围由 isMediaStorageKey 限定
+  const { key: segments } = await context.params
+  const key = segments.join("/")
+
+  if (!isMediaStorageKey(key)) {
+    return new NextResponse(null, { status: 404 })
+  }
+
+  try {
+    const object = await mediaService.getObject(key, request.headers)
+    if (!object) {
+      return new NextResponse(null, { status: 404 })
+    }
+
+    const headers = new Headers()
+    object.writeHttpMetadata(headers)
+    headers.set("etag", object.httpEtag)
+    headers.set("X-Content-Type-Options", "nosniff")
+
+    // 条件请求命中时 R2 只返回元数据
+    if (!("body" in object)) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    return new NextResponse(object.body, { headers })
+  } catch (error) {
+    if (error instanceof MediaStorageUnavailableError) {
+      return new NextResponse(null, { status: 503 })
+    }
+    console.error(`GET /api/media/${key}`, error)
+    return new NextResponse(null, { status: 500 })
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server"
+
+import { SUGGEST_MAX_LENGTH, searchSuggestService } from "@/lib/services/searchSuggestService"
+
+export const runtime = "edge"
+
+const TIMESTAMP_FORMATTER = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Asia/Shanghai",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+})
+
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const requestId = request.headers.get("x-request-id") ?? crypto.randomUUID()
+  const query = (url.searchParams.get("q") ?? "").trim()
+  const limitRaw = url.searchParams.get("limit")
+  const limit = limitRaw === null ? undefined : Number(limitRaw)
+
+  if (query.length > SUGGEST_MAX_LENGTH) {
+    return respondError({
+      status: 400,
+      code: "bad_request",
+      message: "搜索关键词过长",
+      requestId,
+      errors: {
+        q: [`q 不能超过 ${SUGGEST_MAX_LENGTH} 个字符`],
+      },
+    })
+  }
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return respondError({
+      status: 400,
+      code: "bad_request",
+      message: "参数无效",
+      requestId,
+      errors: {
+        limit: ["limit 必须为大于等于 1 的整数"],
+      },
+    })
+  }
+
+  try {
+    const items = await searchSuggestService.suggest(query, { limit })
+
+    return respondSuccess({
+      requestId,
+      data: {
+        query,
+        items,
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "加载搜索建议失败"
+
+    return respondError({
+      status: 500,
+      code: "internal_error",
+      message: "加载搜索建议失败",
+      requestId,
+      errors: {
+        detail: [message],
+      },
+    })
+  }
+}
+
+function respondSuccess({
+  requestId,
+  data,
+}: {
+  requestId: string
+  data: unknown
+}) {
+  return NextResponse.json(
+    {
+      code: 0,
+      message: "ok",
+      data,
+      requestId,
+      timestamp: formatTimestamp(),
+    },
+    {
+      headers: {
+        "X-Request-Id": requestId,
+      },
+    }
+  )
+}
+
+function respondError({
+  status,
+  code,
+  message,
+  requestId,
+  errors,
+}: {
+  status: number
+  code: string
+  message: string
+  requestId: string
+  errors?: Record<string, string[]>
+}) {
+  return NextResponse.json(
+    {
+      status,
+      code,
+      message,
+      errors,
+      requestId,
+      timestamp: formatTimestamp(),
+    },
+    {
+      status,
+      headers: {
+        "X-Request-Id": requestId,
+      },
+    }
+  )
+}
+
+function formatTimestamp(): string {
+  const parts = TIMESTAMP_FORMATTER.formatToParts(new Date())
+  const map = Object.fromEntries(parts.map((part) => [part.type, part.value])) as Record<string, string>
+  return `${map.year}-${map.month}-${map.day} ${map.hour}:${map.minute}:${map.second}`
+}
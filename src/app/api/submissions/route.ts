@@ -0,0 +1,167 @@
+import { NextResponse } from "next/server"
+import { ZodError } from "zod"
+
+import { submissionCreateSchema } from "@/features/submissions/schemas"
+import { normalizeWebsiteUrl } from "@/features/submissions/utils/url"
+import { SUBMISSION_RATE_LIMIT, submissionsService } from "@/lib/services/submissionsService"
+import { getClientIp, hashValue } from "@/lib/utils/request"
+
+export const runtime = "edge"
+
+const TIMESTAMP_FORMATTER = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Asia/Shanghai",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+})
+
+export async function POST(request: Request) {
+  const requestId = request.headers.get("x-request-id") ?? crypto.randomUUID()
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return respondError({ status: 400, code: "bad_request", message: "请求体格式无效", requestId })
+  }
+
+  const parsed = submissionCreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return respondError({
+      status: 422,
+      code: "validation_failed",
+      message: "提交字段校验失败",
+      requestId,
+      errors: formatZodErrors(parsed.error),
+    })
+  }
+
+  // 蜜罐字段被填写时视为机器人：返回伪成功，不落库
+  if (parsed.data.company.trim()) {
+    return respondSuccess({
+      status: 201,
+      requestId,
+      data: { id: crypto.randomUUID(), status: "pending", createdAt: new Date().toISOString() },
+    })
+  }
+
+  try {
+    const ip = getClientIp(request)
+    const ipHash = ip ? await hashValue(ip) : null
+
+    if (ipHash) {
+      const recent = await submissionsService.countRecentByIp(ipHash)
+      if (recent >= SUBMISSION_RATE_LIMIT.maxRequests) {
+        return respondError({
+          status: 429,
+          code: "rate_limited",
+          message: "提交过于频繁，请稍后再试",
+          requestId,
+          headers: { "Retry-After": String(Math.ceil(SUBMISSION_RATE_LIMIT.windowMs / 1000)) },
+        })
+      }
+    }
+
+    if (await submissionsService.hasPendingForUrl(normalizeWebsiteUrl(parsed.data.url))) {
+      return respondError({
+        status: 409,
+        code: "operation_conflict",
+        message: "该网址已在审核队列中",
+        requestId,
+      })
+    }
+
+    const result = await submissionsService.create(parsed.data, {
+      ipHash,
+      userAgent: request.headers.get("user-agent")?.slice(0, 300) ?? null,
+      source: "public",
+    })
+
+    return respondSuccess({ status: 201, requestId, data: result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "提交失败"
+    return respondError({
+      status: 500,
+      code: "internal_error",
+      message: "提交失败，请稍后再试",
+      requestId,
+      errors: { detail: [message] },
+    })
+  }
+}
+
+function respondSuccess({ status = 200, requestId, data }: { status?: number; requestId: string; data: unknown }) {
+  return NextResponse.json(
+    {
+      code: 0,
+      message: "ok",
+      data,
+      requestId,
+      timestamp: formatTimestamp(),
+    },
+    {
+      status,
+      headers: {
+        "X-Request-Id": requestId,
+        "Cache-Control": "no-store",
+      },
+    }
+  )
+}
+
+function respondError({
+  status,
+  code,
+  message,
+  requestId,
+  errors,
+  headers,
+}: {
+  status: number
+  code: string
+  message: string
+  requestId: string
+  errors?: Record<string, string[]>
+  headers?: Record<string, string>
+}) {
+  return NextResponse.json(
+    {
+      status,
+      code,
+      message,
+      errors,
+      requestId,
+      timestamp: formatTimestamp(),
+    },
+    {
+      status,
+      headers: {
+        "X-Request-Id": requestId,
+        "Cache-Control": "no-store",
+        ...headers,
+      },
+    }
+  )
+}
+
+function formatZodErrors(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const pathKey = issue.path[0] ? String(issue.path[0]) : "root"
+    if (!fieldErrors[pathKey]) {
+      fieldErrors[pathKey] = []
+    }
+    fieldErrors[pathKey].push(issue.message)
+  }
+  return fieldErrors
+}
+
+function formatTimestamp(): string {
+  const parts = TIMESTAMP_FORMATTER.formatToParts(new Date())
+  const map = Object.fromEntries(parts.map((part) => [part.type, part.value])) as Record<string, string>
+  return `${map.year}-${map.month}-${map.day} ${map.hour}:${map.minute}:${map.second}`
+}
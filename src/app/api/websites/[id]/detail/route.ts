@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { jsendError, jsendFail, jsendSuccess } from '@/lib/utils/jsend';
+import { websitesService } from '@/lib/services/websitesService';
+
+export const runtime = 'edge';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(jsendFail({ message: 'Invalid id' }), { status: 400 });
+    }
+
+    const relatedLimit = Number(new URL(request.url).searchParams.get('relatedLimit'));
+    const detail = await websitesService.getDetail(id, {
+      relatedLimit: Number.isFinite(relatedLimit) && relatedLimit > 0 ? relatedLimit : undefined,
+    });
+
+    if (!detail) {
+      return NextResponse.json(jsendFail({ message: 'Not found' }), { status: 404 });
+    }
+
+    return NextResponse.json(jsendSuccess(detail));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(jsendError('服务器错误', 'INTERNAL_ERROR', { error: errorMessage }), { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { jsendError, jsendFail, jsendSuccess } from '@/lib/utils/jsend';
+import { getClientIp } from '@/lib/utils/request';
+import { visitsService } from '@/lib/services/visitsService';
+
+export const runtime = 'edge';
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(jsendFail({ message: 'Invalid id' }), { status: 400 });
+    }
+
+    const website = await visitsService.findTrackableWebsite(id);
+    if (!website) {
+      return NextResponse.json(jsendFail({ message: 'Not found' }), { status: 404 });
+    }
+
+    const result = await visitsService.record(website.id, {
+      ip: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+    const visitCount = await visitsService.getVisitCount(website.id);
+
+    return NextResponse.json(jsendSuccess({ ...result, visitCount }), { status: result.counted ? 201 : 200 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return NextResponse.json(jsendError('服务器错误', 'INTERNAL_ERROR', { error: errorMessage }), { status: 500 });
+  }
+}
@@ -1,6 +1,22 @@
 import { NextResponse } from 'next/server';
 
 import { websitesService } from '@/lib/services/websitesService';
+import { scheduleSearchQueryRecord } from '@/lib/services/searchSuggestService';
+import { tagsService } from '@/lib/services/tagsService';
+import { InvalidCursorError } from '@/lib/utils/keyset';
+import { getClientIp, isBotUserAgent } from '@/lib/utils/request';
+import { isSearchDate } from '@/lib/utils/search-query';
+import {
+  DEFAULT_WEBSITE_TAG_MODE,
+  isWebsiteListFacet,
+  isWebsiteListSortField,
+  isWebsiteSearchScope,
+  isWebsiteTagMode,
+  WEBSITE_LIST_FACETS,
+  WEBSITE_LIST_SORT_FIELDS,
+  WEBSITE_SEARCH_SCOPES,
+  WEBSITE_TAG_MODES,
+} from '@/lib/validations/websites';
 
 export const runtime = 'edge';
 
@@ -11,6 +27,12 @@ function parseBool(v: string | null | undefined): boolean | undefined {
   return undefined;
 }
 
+function parseList(v: string | null): string[] | undefined {
+  if (!v) return undefined;
+  const items = v.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+}
+
 const TIMESTAMP_FORMATTER = new Intl.DateTimeFormat('en-CA', {
   timeZone: 'Asia/Shanghai',
   year: 'numeric',
@@ -62,38 +84,202 @@ export async function GET(request: Request) {
   const MAX_PAGE_SIZE = 48;
   const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parsedPageSize));
 
+  // 游标分页（无限滚动）：携带 cursor 参数即启用，空值表示第一页；不带时沿用页码分页
+  const cursor = url.searchParams.has('cursor') ? url.searchParams.get('cursor') ?? '' : undefined;
+
   const query = url.searchParams.get('query') ?? url.searchParams.get('q') ?? undefined;
   const categoryRaw = url.searchParams.get('category');
   // Filter out "undefined" string and convert to undefined
   const category = (categoryRaw && categoryRaw !== 'undefined') ? categoryRaw : undefined;
 
-  // 读取 tags 参数
-  const tagsRaw = url.searchParams.get('tags');
-  const tags = tagsRaw ? tagsRaw.split(',').filter(Boolean) : undefined;
+  // 读取 tags 参数，支持标签 slug 或 ID，逗号分隔
+  const tags = parseList(url.searchParams.get('tags'));
+
+  // 多标签匹配方式，缺省为 all（同时包含所有标签）
+  const tagModeRaw = url.searchParams.get('tagMode');
+  if (tagModeRaw && !isWebsiteTagMode(tagModeRaw)) {
+    return respondError({
+      status: 400,
+      code: 'bad_request',
+      message: '标签参数无效',
+      requestId,
+      errors: {
+        tagMode: [`tagMode 仅支持 ${WEBSITE_TAG_MODES.join(', ')}`],
+      },
+    });
+  }
+  const tagMode = isWebsiteTagMode(tagModeRaw) ? tagModeRaw : undefined;
 
   const includeAds = parseBool(url.searchParams.get('includeAds')) ?? true;
+  const adTypes = parseList(url.searchParams.get('adType'));
+
+  // 分面统计，如 facets=category,tag,adType
+  const facetsRaw = parseList(url.searchParams.get('facets'));
+  if (facetsRaw && !facetsRaw.every(isWebsiteListFacet)) {
+    return respondError({
+      status: 400,
+      code: 'bad_request',
+      message: '分面参数无效',
+      requestId,
+      errors: {
+        facets: [`facets 仅支持 ${WEBSITE_LIST_FACETS.join(', ')}`],
+      },
+    });
+  }
+  const facets = facetsRaw?.filter(isWebsiteListFacet);
+
+  const sortByRaw = url.searchParams.get('sortBy');
+  const sortOrderRaw = url.searchParams.get('sortOrder');
+  const sortErrors: Record<string, string[]> = {};
+
+  if (sortByRaw && !isWebsiteListSortField(sortByRaw)) {
+    sortErrors.sortBy = [`sortBy 仅支持 ${WEBSITE_LIST_SORT_FIELDS.join(', ')}`];
+  }
+  if (sortOrderRaw && sortOrderRaw !== 'asc' && sortOrderRaw !== 'desc') {
+    sortErrors.sortOrder = ['sortOrder 仅支持 asc 或 desc'];
+  }
+  if (Object.keys(sortErrors).length) {
+    return respondError({
+      status: 400,
+      code: 'bad_request',
+      message: '排序参数无效',
+      requestId,
+      errors: sortErrors,
+    });
+  }
+
+  const sortBy = isWebsiteListSortField(sortByRaw) ? sortByRaw : undefined;
+  const sortOrder = sortOrderRaw === 'asc' || sortOrderRaw === 'desc' ? sortOrderRaw : undefined;
+
+  // 搜索页的独立筛选项，查询串中的 before:/after: 等语法由服务层解析
+  const exactMatch = parseBool(url.searchParams.get('exact')) ?? false;
+  const requiredTerms = parseList(url.searchParams.get('required'));
+  const excludeTerms = parseList(url.searchParams.get('exclude'));
+  const dateFrom = url.searchParams.get('after') || undefined;
+  const dateTo = url.searchParams.get('before') || undefined;
+  const scopeRaw = url.searchParams.get('scope');
+  const searchErrors: Record<string, string[]> = {};
+
+  if (dateFrom && !isSearchDate(dateFrom)) {
+    searchErrors.after = ['after 必须为 YYYY-MM-DD 格式的日期'];
+  }
+  if (dateTo && !isSearchDate(dateTo)) {
+    searchErrors.before = ['before 必须为 YYYY-MM-DD 格式的日期'];
+  }
+  if (scopeRaw && !isWebsiteSearchScope(scopeRaw)) {
+    searchErrors.scope = [`scope 仅支持 ${WEBSITE_SEARCH_SCOPES.join(', ')}`];
+  }
+  if (Object.keys(searchErrors).length) {
+    return respondError({
+      status: 400,
+      code: 'bad_request',
+      message: '搜索参数无效',
+      requestId,
+      errors: searchErrors,
+    });
+  }
+
+  const searchScope = isWebsiteSearchScope(scopeRaw) ? scopeRaw : undefined;
 
   try {
-    const result = await websitesService.list(
-      { page, pageSize, query, category, tags, includeAds }
-    );
+    // 标签在服务端解析为 ID；任一标签不存在或已停用时返回 404，避免静默返回空列表
+    const resolvedTags = tags ? await tagsService.resolveActive(tags) : undefined;
+    if (resolvedTags && resolvedTags.missing.length > 0) {
+      return respondError({
+        status: 404,
+        code: 'not_found',
+        message: '标签不存在或已停用',
+        requestId,
+        errors: {
+          tags: resolvedTags.missing.map((value) => `未找到标签 ${value}`),
+        },
+      });
+    }
 
-    const totalPages = result.total > 0 ? Math.ceil(result.total / result.pageSize) : 0;
-    const hasMore = totalPages > 0 && result.page < totalPages;
+    const result = await websitesService.list({
+      page,
+      pageSize,
+      query,
+      exactMatch,
+      requiredTerms,
+      excludeTerms,
+      dateFrom,
+      dateTo,
+      searchScope,
+      category,
+      tags: resolvedTags?.items.map((tag) => tag.id),
+      tagMode,
+      includeAds,
+      adTypes,
+      sortBy,
+      sortOrder,
+      facets,
+      cursor,
+    });
+
+    // 搜索页提交的第一页搜索计入热门搜索词，供搜索建议使用；首页等处的列表筛选不计入
+    const isSubmittedSearch = url.searchParams.get('source') === 'search';
+    if (
+      isSubmittedSearch &&
+      query?.trim() &&
+      result.page === 1 &&
+      !cursor &&
+      !isBotUserAgent(request.headers.get('user-agent'))
+    ) {
+      scheduleSearchQueryRecord(query, result.total ?? 0, getClientIp(request));
+    }
+
+    const total = result.total ?? 0;
+    const totalPages = total > 0 ? Math.ceil(total / result.pageSize) : 0;
+    const isCursorMode = cursor !== undefined;
+    const pagination = isCursorMode
+      ? {
+          per_page: result.pageSize,
+          total: result.total,
+          has_more: result.nextCursor !== null,
+          next_cursor: result.nextCursor,
+        }
+      : {
+          page: result.page,
+          per_page: result.pageSize,
+          total,
+          total_pages: totalPages,
+          has_more: totalPages > 0 && result.page < totalPages,
+        };
 
     return respondSuccess({
       requestId,
       data: result.items,
       meta: {
-        page: result.page,
-        per_page: result.pageSize,
-        total: result.total,
-        total_pages: totalPages,
-        has_more: hasMore,
+        ...pagination,
+        sort_by: result.sortBy,
+        sort_order: result.sortOrder,
+        parsed_query: result.parsedQuery,
+        tag_mode: tagMode ?? DEFAULT_WEBSITE_TAG_MODE,
+        ...(resolvedTags
+          ? {
+              tags: resolvedTags.items.map(({ id, name, slug, color }) => ({ id, name, slug, color })),
+            }
+          : {}),
+        ...(result.facets ? { facets: result.facets } : {}),
       },
-      links: buildPaginationLinks(url, result.page, result.pageSize, totalPages),
+      links: isCursorMode
+        ? buildCursorLinks(url, result.pageSize, result.nextCursor)
+        : buildPaginationLinks(url, result.page, result.pageSize, totalPages),
     });
   } catch (error: unknown) {
+    if (error instanceof InvalidCursorError) {
+      return respondError({
+        status: 400,
+        code: 'bad_request',
+        message: error.message,
+        requestId,
+        errors: {
+          cursor: ['cursor 必须为上一页返回的 next_cursor'],
+        },
+      });
+    }
+
     const message = error instanceof Error ? error.message : '加载网站列表失败';
     return respondError({
       status: 500,
@@ -183,6 +369,21 @@ function buildPaginationLinks(url: URL, page: number, pageSize: number, totalPag
   };
 }
 
+/**
+ * 游标分页只能向后翻页，prev 始终为 null
+ */
+function buildCursorLinks(url: URL, pageSize: number, nextCursor: string | null) {
+  if (!nextCursor) {
+    return { prev: null, next: null };
+  }
+
+  const nextUrl = new URL(url.toString());
+  nextUrl.searchParams.delete('page');
+  nextUrl.searchParams.set('cursor', nextCursor);
+  nextUrl.searchParams.set('pageSize', String(pageSize));
+  return { prev: null, next: `${nextUrl.pathname}${nextUrl.search}` };
+}
+
 function buildLink(url: URL, page: number, pageSize: number) {
   const nextUrl = new URL(url.toString());
   nextUrl.searchParams.set('page', String(page));
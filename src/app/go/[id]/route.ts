@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getClientIp } from '@/lib/utils/request';
+import { visitsService } from '@/lib/services/visitsService';
+
+// Cloudflare Pages 需要 Edge Runtime
+export const runtime = 'edge';
+
+/**
+ * 出站跳转：记录一次访问后 302 到目标网站；统计失败不影响跳转
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let website: { id: string; url: string } | null = null;
+  try {
+    website = await visitsService.findTrackableWebsite(id);
+  } catch (error) {
+    console.error(`GET /go/${id}`, error);
+  }
+
+  if (!website) {
+    return NextResponse.redirect(new URL(`/website/${encodeURIComponent(id)}`, request.url), 302);
+  }
+
+  try {
+    await visitsService.record(website.id, {
+      ip: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+  } catch (error) {
+    console.error(`GET /go/${id} visit tracking failed`, error);
+  }
+
+  const response = NextResponse.redirect(website.url, 302);
+  response.headers.set('Cache-Control', 'no-store');
+  response.headers.set('X-Robots-Tag', 'noindex, nofollow');
+  return response;
+}
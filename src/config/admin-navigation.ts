@@ -2,10 +2,12 @@ import type { LucideIcon } from "lucide-react"
 import {
   LayoutDashboard,
   Globe,
+  Inbox,
   FolderTree,
   Tags,
   Bookmark,
   FileText,
+  History,
   Settings,
 } from "lucide-react"
 
@@ -27,6 +29,11 @@ export const adminNavItems: AdminNavItem[] = [
     href: "/admin/websites",
     icon: Globe,
   },
+  {
+    title: "提交审核",
+    href: "/admin/submissions",
+    icon: Inbox,
+  },
   {
     title: "分类管理",
     href: "/admin/categories",
@@ -47,6 +54,11 @@ export const adminNavItems: AdminNavItem[] = [
     href: "/admin/blog",
     icon: FileText,
   },
+  {
+    title: "操作日志",
+    href: "/admin/audit-logs",
+    icon: History,
+  },
   {
     title: "系统设置",
     href: "/admin/settings",
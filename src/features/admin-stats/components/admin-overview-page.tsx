@@ -0,0 +1,284 @@
+"use client"
+
+import Link from "next/link"
+import { useCallback, useEffect, useState } from "react"
+import { ArrowDownRight, ArrowUpRight, Minus } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+
+import { AUDIT_ENTITY_LABELS } from "@/features/audit-logs/types"
+import { ADMIN_STATS_RANGES, type AdminStatsOverview, type AdminStatsRange, type StatsTrend } from "@/features/admin-stats/types"
+
+interface AdminStatsResponse {
+  data?: AdminStatsOverview
+  message?: string
+}
+
+interface MetricCard {
+  title: string
+  value: number
+  description: string
+  trend?: StatsTrend
+  href?: string
+  linkLabel?: string
+}
+
+export function AdminOverviewPage() {
+  const [range, setRange] = useState<AdminStatsRange>(7)
+  const [stats, setStats] = useState<AdminStatsOverview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStats = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await fetch(`/api/admin/stats?range=${range}`, { signal })
+        const payload = (await response.json().catch(() => null)) as AdminStatsResponse | null
+
+        if (!response.ok || !payload?.data) {
+          throw new Error(payload?.message ?? `请求失败：${response.status}`)
+        }
+
+        setStats(payload.data)
+      } catch (fetchError) {
+        if (isAbortError(fetchError)) return
+        console.error("获取控制台统计失败", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "统计数据加载失败，请稍后重试")
+      } finally {
+        setLoading(false)
+      }
+    },
+    [range]
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    void fetchStats(controller.signal)
+    return () => controller.abort()
+  }, [fetchStats])
+
+  const cards = stats ? buildMetricCards(stats) : []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">控制台概览</h1>
+          <p className="text-sm text-muted-foreground">
+            {stats
+              ? `趋势为近 ${stats.range} 天与之前 ${stats.range} 天的对比，更新于 ${new Date(stats.generatedAt).toLocaleString()}`
+              : "汇总站点内容、审核队列与访问数据。"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {ADMIN_STATS_RANGES.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={range === value ? "default" : "outline"}
+              onClick={() => setRange(value)}
+              disabled={loading}
+            >
+              近 {value} 天
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="flex items-center justify-between gap-4 p-4">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button size="sm" variant="outline" onClick={() => fetchStats()} disabled={loading}>
+              重试
+            </Button>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {loading && !stats ? <p className="text-sm text-muted-foreground">加载中...</p> : null}
+
+      {stats ? (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {cards.map((card) => (
+              <Card key={card.title}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base text-muted-foreground">{card.title}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-baseline gap-3">
+                    <span className="text-3xl font-semibold">{card.value.toLocaleString()}</span>
+                    {card.trend ? <TrendBadge trend={card.trend} /> : null}
+                  </div>
+                  <p className="mt-2 text-sm text-muted-foreground">{card.description}</p>
+                  {card.href ? (
+                    <Link href={card.href} className="mt-2 inline-block text-sm text-primary hover:underline">
+                      {card.linkLabel ?? "查看详情"}
+                    </Link>
+                  ) : null}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">热门网站</CardTitle>
+                <CardDescription>按累计访问量排序，附近 {stats.range} 天访问数。</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.topWebsites.length ? (
+                  <div className="overflow-hidden rounded-lg border bg-card">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50 text-left text-muted-foreground">
+                        <tr>
+                          <th className="px-4 py-2 font-medium">网站</th>
+                          <th className="px-4 py-2 text-right font-medium">累计访问</th>
+                          <th className="px-4 py-2 text-right font-medium">近 {stats.range} 天</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stats.topWebsites.map((website) => (
+                          <tr key={website.id} className="border-t">
+                            <td className="px-4 py-2">
+                              <Link href={`/admin/websites/${website.id}`} className="font-medium hover:underline">
+                                {website.title}
+                              </Link>
+                              <p className="truncate text-xs text-muted-foreground">{website.url}</p>
+                            </td>
+                            <td className="px-4 py-2 text-right tabular-nums">{website.visitCount.toLocaleString()}</td>
+                            <td className="px-4 py-2 text-right tabular-nums">{website.recentVisits.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">暂无访问数据</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="text-base">最近操作</CardTitle>
+                  <CardDescription>后台最新的变更记录。</CardDescription>
+                </div>
+                <Link href="/admin/audit-logs" className="text-sm text-primary hover:underline">
+                  全部日志
+                </Link>
+              </CardHeader>
+              <CardContent>
+                {stats.recentActivity.length ? (
+                  <ul className="space-y-3 text-sm">
+                    {stats.recentActivity.map((item) => (
+                      <li key={item.id} className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <Link
+                            href={`/admin/audit-logs?${new URLSearchParams({ entityType: item.entityType, entityId: item.entityId }).toString()}`}
+                            className="font-medium hover:underline"
+                          >
+                            {AUDIT_ENTITY_LABELS[item.entityType as keyof typeof AUDIT_ENTITY_LABELS] ?? item.entityType}
+                            <span className="ml-1 font-mono text-xs text-muted-foreground">{item.entityId}</span>
+                          </Link>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {item.action} · {item.actorId}
+                          </p>
+                        </div>
+                        <time className="shrink-0 text-xs text-muted-foreground" dateTime={item.createdAt}>
+                          {new Date(item.createdAt).toLocaleString()}
+                        </time>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">暂无操作记录</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+function TrendBadge({ trend }: { trend: StatsTrend }) {
+  const Icon = trend.delta > 0 ? ArrowUpRight : trend.delta < 0 ? ArrowDownRight : Minus
+  const label =
+    trend.changeRate === null
+      ? `${trend.delta > 0 ? "+" : ""}${trend.delta}`
+      : `${trend.changeRate > 0 ? "+" : ""}${Math.round(trend.changeRate * 100)}%`
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium",
+        trend.delta > 0 && "text-emerald-600",
+        trend.delta < 0 && "text-red-600",
+        trend.delta === 0 && "text-muted-foreground"
+      )}
+      title={`上一区间：${trend.previous}`}
+    >
+      <Icon className="h-3.5 w-3.5" aria-hidden="true" />
+      {label}
+    </span>
+  )
+}
+
+function buildMetricCards(stats: AdminStatsOverview): MetricCard[] {
+  return [
+    {
+      title: "网站总数",
+      value: stats.websites.total,
+      description: `已发布 ${stats.websites.byStatus.published} · 草稿 ${stats.websites.byStatus.draft} · 本期新增 ${stats.websites.created.current}`,
+      trend: stats.websites.created,
+      href: "/admin/websites",
+      linkLabel: "管理网站",
+    },
+    {
+      title: "广告 / 自然收录",
+      value: stats.websites.ads,
+      description: `广告位 ${stats.websites.ads} 个，自然收录 ${stats.websites.organic} 个`,
+    },
+    {
+      title: "待审核网站",
+      value: stats.submissions.pending,
+      description: `本期收到 ${stats.submissions.received.current} 条访客提交`,
+      trend: stats.submissions.received,
+      href: "/admin/submissions",
+      linkLabel: "前往处理",
+    },
+    {
+      title: "访问量",
+      value: stats.visits.current,
+      description: `近 ${stats.range} 天网站详情访问次数`,
+      trend: stats.visits,
+    },
+    {
+      title: "博客文章",
+      value: stats.blogPosts.published.current,
+      description: `本期发布 · 草稿 ${stats.blogPosts.byStatus.draft} · 定时 ${stats.blogPosts.byStatus.scheduled} · 已发布 ${stats.blogPosts.byStatus.published}`,
+      trend: stats.blogPosts.published,
+      href: "/admin/blog",
+      linkLabel: "管理文章",
+    },
+    {
+      title: "分类 / 标签 / 收藏集",
+      value: stats.categories.total + stats.tags.total + stats.collections.total,
+      description: `启用分类 ${stats.categories.active}/${stats.categories.total} · 启用标签 ${stats.tags.active}/${stats.tags.total} · 收藏集 ${stats.collections.total}`,
+    },
+  ]
+}
+
+function isAbortError(error: unknown): error is DOMException {
+  return error instanceof DOMException && error.name === "AbortError"
+}
@@ -0,0 +1,10 @@
+import { z } from "zod"
+
+export const adminStatsQuerySchema = z.object({
+  range: z
+    .enum(["7", "30"], { message: "统计区间仅支持 7 或 30 天" })
+    .optional()
+    .transform((value) => (value === "30" ? 30 : 7)),
+})
+
+export type AdminStatsQuery = z.infer<typeof adminStatsQuerySchema>
@@ -0,0 +1,60 @@
+import type { AuditLogItem } from "@/features/audit-logs/types"
+import type { BlogPostStatus } from "@/features/blog/types"
+import type { WebsiteStatus } from "@/features/websites/types/website"
+
+export const ADMIN_STATS_RANGES = [7, 30] as const
+
+export type AdminStatsRange = (typeof ADMIN_STATS_RANGES)[number]
+
+/**
+ * 当前区间与上一个等长区间的对比
+ */
+export interface StatsTrend {
+  current: number
+  previous: number
+  delta: number
+  /** 相对上一区间的变化比例；上一区间为 0 时无法计算 */
+  changeRate: number | null
+}
+
+export interface TopVisitedWebsite {
+  id: string
+  title: string
+  url: string
+  visitCount: number
+  recentVisits: number
+}
+
+export interface AdminStatsOverview {
+  range: AdminStatsRange
+  generatedAt: string
+  websites: {
+    total: number
+    byStatus: Record<WebsiteStatus, number>
+    ads: number
+    organic: number
+    created: StatsTrend
+  }
+  categories: {
+    total: number
+    active: number
+  }
+  tags: {
+    total: number
+    active: number
+  }
+  collections: {
+    total: number
+  }
+  submissions: {
+    pending: number
+    received: StatsTrend
+  }
+  blogPosts: {
+    byStatus: Record<BlogPostStatus, number>
+    published: StatsTrend
+  }
+  visits: StatsTrend
+  topWebsites: TopVisitedWebsite[]
+  recentActivity: AuditLogItem[]
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import type { AuditFieldChange, AuditLogItem } from "@/features/audit-logs/types"
+import { AUDIT_ENTITY_LABELS, type AuditEntityType } from "@/features/audit-logs/types"
+
+interface AuditLogTimelineProps {
+  items: AuditLogItem[]
+  showEntity?: boolean
+  onSelectEntity?: (entityType: string, entityId: string) => void
+  onSelectActor?: (actorId: string) => void
+}
+
+export function AuditLogTimeline({ items, showEntity = true, onSelectEntity, onSelectActor }: AuditLogTimelineProps) {
+  if (!items.length) {
+    return <p className="text-sm text-muted-foreground">暂无操作记录。</p>
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-border pl-6">
+      {items.map((item) => (
+        <li key={item.id} className="relative">
+          <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="rounded-md bg-muted px-2 py-0.5 font-mono text-xs">{item.action}</span>
+            {showEntity ? (
+              <button
+                type="button"
+                className="text-xs text-primary underline-offset-2 hover:underline"
+                onClick={() => onSelectEntity?.(item.entityType, item.entityId)}
+              >
+                {formatEntityType(item.entityType)} · {item.entityId}
+              </button>
+            ) : null}
+            <span className="text-xs text-muted-foreground">{formatTime(item.createdAt)}</span>
+          </div>
+          <div className="mt-1 text-xs text-muted-foreground">
+            操作人：
+            <button
+              type="button"
+              className="font-mono text-foreground underline-offset-2 hover:underline"
+              onClick={() => onSelectActor?.(item.actorId)}
+            >
+              {item.actorId}
+            </button>
+          </div>
+          <ChangeList changes={item.changes} />
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+function ChangeList({ changes }: { changes: AuditLogItem["changes"] }) {
+  if (!changes) return null
+
+  const entries = Object.entries(changes)
+  if (!entries.length) return null
+
+  return (
+    <dl className="mt-2 space-y-1 rounded-md border border-border bg-muted/30 p-2 text-xs">
+      {entries.map(([field, value]) => (
+        <div key={field} className="grid gap-1 sm:grid-cols-[140px_minmax(0,1fr)]">
+          <dt className="font-medium text-foreground">{field}</dt>
+          <dd className="min-w-0 break-words">
+            {isFieldChange(value) ? (
+              <span>
+                <span className="text-destructive line-through">{formatValue(value.before)}</span>
+                <span className="mx-1 text-muted-foreground">→</span>
+                <span className="text-emerald-600">{formatValue(value.after)}</span>
+              </span>
+            ) : (
+              <span>{formatValue(value)}</span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+function isFieldChange(value: unknown): value is AuditFieldChange {
+  return Boolean(value) && typeof value === "object" && "before" in (value as object) && "after" in (value as object)
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "∅"
+  if (typeof value === "string") return value.length > 160 ? `${value.slice(0, 160)}…` : value
+  return JSON.stringify(value)
+}
+
+function formatEntityType(entityType: string): string {
+  return AUDIT_ENTITY_LABELS[entityType as AuditEntityType] ?? entityType
+}
+
+function formatTime(isoString: string): string {
+  try {
+    const date = new Date(isoString)
+    if (Number.isNaN(date.getTime())) return isoString
+    return date.toLocaleString()
+  } catch {
+    return isoString
+  }
+}
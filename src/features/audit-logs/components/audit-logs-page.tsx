@@ -0,0 +1,239 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+import { AuditLogTimeline } from "./audit-log-timeline"
+import { AUDIT_ENTITY_LABELS, AUDIT_ENTITY_TYPES, type AuditLogItem } from "@/features/audit-logs/types"
+
+export interface AuditLogFilterState {
+  actorId: string
+  entityType: string
+  entityId: string
+  action: string
+  from: string
+  to: string
+}
+
+interface AuditLogsPageProps {
+  initialFilters?: Partial<AuditLogFilterState>
+}
+
+interface AuditLogListResponse {
+  data?: AuditLogItem[]
+  meta?: { nextCursor: string | null }
+  message?: string
+}
+
+const EMPTY_FILTERS: AuditLogFilterState = {
+  actorId: "",
+  entityType: "all",
+  entityId: "",
+  action: "",
+  from: "",
+  to: "",
+}
+
+export function AuditLogsPage({ initialFilters }: AuditLogsPageProps) {
+  const [draft, setDraft] = useState<AuditLogFilterState>(() => mergeFilters(initialFilters))
+  const [filters, setFilters] = useState<AuditLogFilterState>(() => mergeFilters(initialFilters))
+  const [items, setItems] = useState<AuditLogItem[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLogs = useCallback(
+    async (options?: { cursor?: string; signal?: AbortSignal }) => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const params = buildQuery(filters)
+        if (options?.cursor) params.set("cursor", options.cursor)
+
+        const response = await fetch(`/api/admin/audit-logs?${params.toString()}`, {
+          signal: options?.signal,
+        })
+        const payload = (await response.json().catch(() => null)) as AuditLogListResponse | null
+
+        if (!response.ok || !payload?.data) {
+          throw new Error(payload?.message ?? `请求失败：${response.status}`)
+        }
+
+        const data = payload.data
+        setItems((prev) => (options?.cursor ? [...prev, ...data] : data))
+        setNextCursor(payload.meta?.nextCursor ?? null)
+      } catch (fetchError) {
+        if (isAbortError(fetchError)) return
+        console.error("获取审计日志失败", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "审计日志加载失败，请稍后重试")
+      } finally {
+        setLoading(false)
+      }
+    },
+    [filters]
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    void fetchLogs({ signal: controller.signal })
+    return () => controller.abort()
+  }, [fetchLogs])
+
+  const applyFilters = (next: AuditLogFilterState) => {
+    setDraft(next)
+    setFilters(next)
+  }
+
+  const isEntityTimeline = filters.entityType !== "all" && Boolean(filters.entityId)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">操作日志</h1>
+          <p className="text-sm text-muted-foreground">
+            {isEntityTimeline
+              ? `${AUDIT_ENTITY_LABELS[filters.entityType as keyof typeof AUDIT_ENTITY_LABELS] ?? filters.entityType} ${filters.entityId} 的变更时间线`
+              : "查看后台所有变更记录，包括操作人与字段前后差异。"}
+          </p>
+        </div>
+        {isEntityTimeline ? (
+          <Button size="sm" variant="outline" onClick={() => applyFilters(EMPTY_FILTERS)}>
+            查看全部日志
+          </Button>
+        ) : null}
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 p-4 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-type">对象类型</Label>
+            <Select value={draft.entityType} onValueChange={(value) => setDraft((prev) => ({ ...prev, entityType: value }))}>
+              <SelectTrigger id="audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部</SelectItem>
+                {AUDIT_ENTITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {AUDIT_ENTITY_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-id">对象 ID</Label>
+            <Input
+              id="audit-entity-id"
+              value={draft.entityId}
+              onChange={(event) => setDraft((prev) => ({ ...prev, entityId: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-actor">操作人</Label>
+            <Input
+              id="audit-actor"
+              placeholder="Clerk 用户 ID"
+              value={draft.actorId}
+              onChange={(event) => setDraft((prev) => ({ ...prev, actorId: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-action">动作</Label>
+            <Input
+              id="audit-action"
+              placeholder="如 website.update"
+              value={draft.action}
+              onChange={(event) => setDraft((prev) => ({ ...prev, action: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">开始日期</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={draft.from}
+              onChange={(event) => setDraft((prev) => ({ ...prev, from: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">结束日期</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={draft.to}
+              onChange={(event) => setDraft((prev) => ({ ...prev, to: event.target.value }))}
+            />
+          </div>
+          <div className="flex items-end gap-2 sm:col-span-2 lg:col-span-3 lg:justify-end">
+            <Button variant="outline" onClick={() => applyFilters(EMPTY_FILTERS)} disabled={loading}>
+              重置
+            </Button>
+            <Button onClick={() => setFilters(draft)} disabled={loading}>
+              {loading ? "加载中..." : "应用"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">变更记录</CardTitle>
+          <CardDescription>按时间倒序排列，点击对象或操作人可快速筛选。</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+          {loading && !items.length ? (
+            <p className="text-sm text-muted-foreground">加载中...</p>
+          ) : (
+            <AuditLogTimeline
+              items={items}
+              showEntity={!isEntityTimeline}
+              onSelectEntity={(entityType, entityId) => applyFilters({ ...EMPTY_FILTERS, entityType, entityId })}
+              onSelectActor={(actorId) => applyFilters({ ...filters, actorId })}
+            />
+          )}
+          {nextCursor ? (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchLogs({ cursor: nextCursor })} disabled={loading}>
+                {loading ? "加载中..." : "加载更多"}
+              </Button>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function mergeFilters(initial?: Partial<AuditLogFilterState>): AuditLogFilterState {
+  const merged = { ...EMPTY_FILTERS }
+  if (!initial) return merged
+  for (const key of Object.keys(merged) as Array<keyof AuditLogFilterState>) {
+    const value = initial[key]
+    if (value) merged[key] = value
+  }
+  return merged
+}
+
+function buildQuery(filters: AuditLogFilterState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.actorId.trim()) params.set("actorId", filters.actorId.trim())
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType)
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim())
+  if (filters.action.trim()) params.set("action", filters.action.trim())
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString())
+  return params
+}
+
+function isAbortError(error: unknown): error is DOMException {
+  return error instanceof DOMException && error.name === "AbortError"
+}
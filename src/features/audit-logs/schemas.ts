@@ -0,0 +1,37 @@
+import { z } from "zod"
+
+const optionalTrimmed = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((value) => (value ? value : undefined))
+
+const optionalDate = (label: string) =>
+  z
+    .string()
+    .trim()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined
+      const date = new Date(value)
+      if (Number.isNaN(date.getTime())) {
+        ctx.addIssue({ code: "custom", message: `${label}格式不正确` })
+        return z.NEVER
+      }
+      return date.toISOString()
+    })
+
+export const auditLogQuerySchema = z.object({
+  actorId: optionalTrimmed(128),
+  entityType: optionalTrimmed(32),
+  entityId: optionalTrimmed(64),
+  action: optionalTrimmed(64),
+  from: optionalDate("开始时间"),
+  to: optionalDate("结束时间"),
+  cursor: optionalTrimmed(512),
+  limit: z.coerce.number().int("数量需为整数").min(1).max(200).optional(),
+})
+
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>
@@ -0,0 +1,46 @@
+export const AUDIT_ENTITY_TYPES = ["website", "collection", "blog_post", "category", "tag", "submission", "media"] as const
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]
+
+export interface AuditFieldChange {
+  before: unknown
+  after: unknown
+}
+
+export type AuditChangeSet = Record<string, AuditFieldChange>
+
+export interface AuditLogItem {
+  id: string
+  actorId: string
+  action: string
+  entityType: AuditEntityType | string
+  entityId: string
+  changes: AuditChangeSet | Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface AuditLogListParams {
+  actorId?: string
+  entityType?: AuditEntityType | string
+  entityId?: string
+  action?: string
+  from?: string
+  to?: string
+  cursor?: string
+  limit?: number
+}
+
+export interface AuditLogListResult {
+  items: AuditLogItem[]
+  nextCursor: string | null
+}
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  website: "网站",
+  collection: "收藏集",
+  blog_post: "博客文章",
+  category: "分类",
+  tag: "标签",
+  submission: "网站提交",
+  media: "媒体文件",
+}
@@ -32,7 +32,10 @@ import { HeaderNavigation } from '@/features/websites/components/HeaderNavigatio
 import { Footer } from '@/features/websites/components/Footer';
 
 // 导入博客相关类型
-import { BlogDetailData } from '../types';
+import { BlogDetailData, TableOfContentsItem } from '../types';
+import { BlogContentRenderer } from './BlogContentRenderer';
+import { ReadingProgress } from './ReadingProgress';
+import { TableOfContents } from './TableOfContents';
 
 // 导入样式文件以确保动画可用
 import '../styles/animations.css';
@@ -214,25 +217,27 @@ const ArticleMeta = ({
   );
 };
 
+/** 正文容器 id，阅读进度按该容器计算 */
+const ARTICLE_ID = 'blog-article';
+
 /**
  * 文章内容组件
  */
 interface ArticleContentProps {
   title: string;
-  content: string;
-  contentType: 'markdown' | 'html';
+  /** 服务端渲染并净化后的正文 HTML */
+  contentHtml: string;
   coverImage?: string;
   className?: string;
 }
 
 const ArticleContent = ({ 
   title, 
-  content, 
-  contentType, 
+  contentHtml, 
   coverImage, 
   className 
 }: ArticleContentProps) => (
-  <article className={cn("prose prose-lg max-w-none", className)}>
+  <article id={ARTICLE_ID} className={cn("prose prose-lg max-w-none", className)}>
     {/* 文章标题 */}
     <header className="mb-8">
       <h1 className="text-4xl font-bold tracking-tight text-foreground sm:text-5xl lg:text-6xl mb-0">
@@ -258,12 +263,7 @@ const ArticleContent = ({
     )}
 
     {/* 文章内容 */}
-    <div 
-      className="prose-content"
-      dangerouslySetInnerHTML={{ 
-        __html: contentType === 'html' ? content : content 
-      }}
-    />
+    <BlogContentRenderer html={contentHtml} className="prose-content" />
   </article>
 );
 
@@ -311,6 +311,14 @@ export function BlogDetailPage({
     };
   }, []);
 
+  // 目录与阅读进度联动：进度显示在目录中，当前章节显示在进度指示器上
+  const tableOfContents = initialData.tableOfContents ?? [];
+  const [readingProgress, setReadingProgress] = React.useState(0);
+  const [activeSection, setActiveSection] = React.useState<TableOfContentsItem | null>(null);
+  const handleProgressChange = React.useCallback((progress: number) => {
+    setReadingProgress(Math.round(progress));
+  }, []);
+
   return (
     <div 
       className={cn(
@@ -333,6 +341,13 @@ export function BlogDetailPage({
         </div>
       )}
       
+      <ReadingProgress
+        targetSelector={`#${ARTICLE_ID}`}
+        showPercentage
+        currentSection={activeSection?.title}
+        onProgressChange={handleProgressChange}
+      />
+
       {/* 主要内容区域 */}
       <main className="flex-1">
         <div className="relative">
@@ -374,15 +389,24 @@ export function BlogDetailPage({
                 <div className="lg:col-span-8">
                   <ArticleContent
                     title={initialData.title}
-                    content={initialData.content}
-                    contentType={initialData.contentType}
+                    contentHtml={initialData.contentHtml ?? ''}
                     coverImage={initialData.coverImage}
                     className="mb-8"
                   />
                 </div>
 
                 {/* 右侧信息栏 - 桌面端显示，移动端隐藏在内容下方 */}
-                <div className="lg:col-span-4 lg:sticky lg:top-24 lg:self-start">
+                <div className="lg:col-span-4 lg:sticky lg:top-24 lg:self-start space-y-6">
+                  {/* 文章目录 - 仅桌面端显示 */}
+                  {tableOfContents.length > 0 && (
+                    <TableOfContents
+                      items={tableOfContents}
+                      progress={readingProgress}
+                      onActiveHeadingChange={setActiveSection}
+                      className="hidden lg:block"
+                    />
+                  )}
+
                   <div className="bg-card border rounded-lg p-6 space-y-6">
                     <h2 className="text-lg font-semibold text-foreground border-b border-border pb-2">
                       文章信息
@@ -69,6 +69,11 @@ export interface ReadingProgressProps {
    */
   throttleDelay?: number;
   
+  /**
+   * 当前阅读的章节标题，通常来自 TableOfContents 的 onActiveHeadingChange
+   */
+  currentSection?: string | null;
+  
   /**
    * 进度更新回调函数
    */
@@ -115,6 +120,7 @@ function throttle<T extends (...args: unknown[]) => void>(
 
 /**
  * 计算页面阅读进度
+ * 目标为 body 时按整页滚动计算；目标为文章容器时，从容器顶部到容器底部贴合视口底部计为 0-100%
  */
 function calculateReadingProgress(targetSelector: string): number {
   const target = targetSelector === 'body' 
@@ -124,13 +130,15 @@ function calculateReadingProgress(targetSelector: string): number {
   if (!target) return 0;
 
   const scrollTop = window.scrollY;
-  const docHeight = target.scrollHeight;
   const winHeight = window.innerHeight;
-  const scrollableHeight = docHeight - winHeight;
+  const targetTop = target === document.body
+    ? 0
+    : target.getBoundingClientRect().top + scrollTop;
+  const scrollableHeight = target.scrollHeight - winHeight;
 
   if (scrollableHeight <= 0) return 0;
   
-  const progress = (scrollTop / scrollableHeight) * 100;
+  const progress = ((scrollTop - targetTop) / scrollableHeight) * 100;
   return Math.min(Math.max(progress, 0), 100);
 }
 
@@ -155,6 +163,7 @@ export function ReadingProgress({
   height = 3,
   smooth = true,
   throttleDelay = 16,
+  currentSection,
   onProgressChange,
   minThreshold = 0,
   maxThreshold = 100,
@@ -263,7 +272,11 @@ export function ReadingProgress({
         aria-valuenow={Math.round(progress)}
         aria-valuemin={0}
         aria-valuemax={100}
-        aria-valuetext={`阅读进度 ${Math.round(progress)}%`}
+        aria-valuetext={
+          currentSection
+            ? `阅读进度 ${Math.round(progress)}%，当前章节：${currentSection}`
+            : `阅读进度 ${Math.round(progress)}%`
+        }
       >
         {/* 进度条背景 */}
         <div
@@ -328,6 +341,11 @@ export function ReadingProgress({
               className="w-2 h-2 rounded-full"
               style={{ backgroundColor: themeColors.primary.main }}
             />
+            {currentSection && (
+              <span className="max-w-[12rem] truncate text-muted-foreground">
+                {currentSection}
+              </span>
+            )}
             <span>{Math.round(progress)}%</span>
           </span>
         </div>
@@ -0,0 +1,151 @@
+"use client";
+
+/**
+ * TableOfContents 组件
+ *
+ * 博客详情页的文章目录，数据来自服务端渲染时生成的标题大纲（BlogDetailData.tableOfContents）
+ * 随滚动高亮当前章节，并显示 ReadingProgress 上报的阅读进度
+ *
+ * 特性：
+ * - 嵌套目录，锚点与正文标题 id 一致（支持中文标题深链）
+ * - IntersectionObserver 跟踪当前章节，不逐帧监听滚动
+ * - 点击平滑滚动并更新地址栏 hash，便于分享
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { TableOfContentsItem } from '../types';
+
+/**
+ * 组件 Props 接口
+ */
+export interface TableOfContentsProps {
+  /** 嵌套目录项 */
+  items: TableOfContentsItem[];
+  /** 阅读进度（0-100），通常来自 ReadingProgress 的 onProgressChange */
+  progress?: number;
+  /** 当前章节变化回调，滚动到第一个标题之前为 null */
+  onActiveHeadingChange?: (item: TableOfContentsItem | null) => void;
+  /**
+   * 判定当前章节的顶部偏移（固定导航栏高度），单位 px
+   * @default 96
+   */
+  offset?: number;
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 按文档顺序展开嵌套目录
+ */
+function flattenItems(items: TableOfContentsItem[]): TableOfContentsItem[] {
+  return items.flatMap((item) => [item, ...flattenItems(item.children ?? [])]);
+}
+
+/**
+ * 跟踪当前章节：顶部偏移线以上最后一个标题。
+ * 标题越过偏移线时 IntersectionObserver 触发，再按位置重新计算
+ */
+export function useActiveHeading(anchors: string[], offset = 96): string | null {
+  const [activeAnchor, setActiveAnchor] = useState<string | null>(null);
+
+  useEffect(() => {
+    const elements = anchors
+      .map((anchor) => document.getElementById(anchor))
+      .filter((element): element is HTMLElement => element !== null);
+    if (elements.length === 0) return;
+
+    const update = () => {
+      let current: string | null = null;
+      for (const element of elements) {
+        if (element.getBoundingClientRect().top - offset > 1) break;
+        current = element.id;
+      }
+      setActiveAnchor(current);
+    };
+
+    const observer = new IntersectionObserver(update, {
+      rootMargin: `-${offset}px 0px 0px 0px`,
+      threshold: [0, 1],
+    });
+    elements.forEach((element) => observer.observe(element));
+    update();
+
+    return () => observer.disconnect();
+  }, [anchors, offset]);
+
+  return activeAnchor;
+}
+
+/**
+ * 文章目录组件
+ */
+export const TableOfContents: React.FC<TableOfContentsProps> = ({
+  items,
+  progress,
+  onActiveHeadingChange,
+  offset = 96,
+  className,
+}) => {
+  const flatItems = useMemo(() => flattenItems(items), [items]);
+  const anchors = useMemo(() => flatItems.map((item) => item.anchor), [flatItems]);
+  const activeAnchor = useActiveHeading(anchors, offset);
+
+  useEffect(() => {
+    onActiveHeadingChange?.(flatItems.find((item) => item.anchor === activeAnchor) ?? null);
+  }, [activeAnchor, flatItems, onActiveHeadingChange]);
+
+  const handleClick = useCallback((event: React.MouseEvent<HTMLAnchorElement>, anchor: string) => {
+    const target = document.getElementById(anchor);
+    if (!target) return;
+    event.preventDefault();
+    target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    window.history.replaceState(null, '', `#${anchor}`);
+  }, []);
+
+  if (items.length === 0) return null;
+
+  const renderItems = (list: TableOfContentsItem[], depth: number) => (
+    <ul className={cn('space-y-1', depth > 0 && 'mt-1 pl-3')}>
+      {list.map((item) => {
+        const isActive = item.anchor === activeAnchor;
+        return (
+          <li key={item.anchor}>
+            <a
+              href={`#${item.anchor}`}
+              onClick={(event) => handleClick(event, item.anchor)}
+              aria-current={isActive ? 'location' : undefined}
+              className={cn(
+                'block border-l-2 py-1 pl-3 text-sm leading-snug transition-colors',
+                isActive
+                  ? 'border-primary font-medium text-primary'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {item.title}
+            </a>
+            {item.children && item.children.length > 0 && renderItems(item.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <nav aria-label="文章目录" className={cn('bg-card border rounded-lg p-6', className)}>
+      <div className="flex items-center justify-between border-b border-border pb-2 mb-4">
+        <h2 className="text-lg font-semibold text-foreground">目录</h2>
+        {progress !== undefined && (
+          <span className="text-xs text-muted-foreground tabular-nums">
+            已读 {Math.round(progress)}%
+          </span>
+        )}
+      </div>
+      <div className="max-h-[50vh] overflow-y-auto pr-1">
+        {renderItems(items, 0)}
+      </div>
+    </nav>
+  );
+};
+
+export default TableOfContents;
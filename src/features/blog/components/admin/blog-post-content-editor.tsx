@@ -0,0 +1,278 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react"
+import { Bold, Code2, Heading2, Heading3, ImagePlus, Link2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { calculateWordCount, estimateReadingTime } from "@/features/blog/utils"
+import { MediaPickerDialog } from "@/features/media/components/media-picker-dialog"
+import type { MediaAsset } from "@/features/media/types"
+import { cn } from "@/lib/utils"
+
+import { BlogContentRenderer } from "../BlogContentRenderer"
+
+type EditorMode = "write" | "split" | "preview"
+
+type EditAction = "heading2" | "heading3" | "bold" | "link" | "codeBlock" | "image"
+
+interface InsertedImage {
+  url: string
+  alt?: string | null
+}
+
+interface TextEdit {
+  value: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+interface BlogPostContentEditorProps {
+  id?: string
+  value: string
+  disabled?: boolean
+  onChange: (value: string) => void
+  onBlur?: () => void
+}
+
+const MODE_LABELS: Record<EditorMode, string> = {
+  write: "编辑",
+  split: "分屏",
+  preview: "预览",
+}
+
+const TOOLBAR: { action: EditAction; label: string; shortcut?: string; icon: typeof Bold }[] = [
+  { action: "heading2", label: "二级标题", shortcut: "Ctrl+Alt+2", icon: Heading2 },
+  { action: "heading3", label: "三级标题", shortcut: "Ctrl+Alt+3", icon: Heading3 },
+  { action: "bold", label: "粗体", shortcut: "Ctrl+B", icon: Bold },
+  { action: "link", label: "链接", shortcut: "Ctrl+K", icon: Link2 },
+  { action: "codeBlock", label: "代码块", shortcut: "Ctrl+Alt+C", icon: Code2 },
+  { action: "image", label: "插入图片", icon: ImagePlus },
+]
+
+/** 停止输入后再渲染预览，避免每次按键都跑完整管线 */
+const PREVIEW_DEBOUNCE_MS = 300
+
+/**
+ * 正文编辑器：Markdown 输入、工具栏快捷操作与实时预览。
+ * 预览与前台详情页使用同一条渲染管线（src/lib/utils/markdown.ts），按需加载
+ */
+export function BlogPostContentEditor({ id, value, disabled, onChange, onBlur }: BlogPostContentEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mode, setMode] = useState<EditorMode>("write")
+  const [previewHtml, setPreviewHtml] = useState("")
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [pickerOpen, setPickerOpen] = useState(false)
+
+  const wordCount = useMemo(() => calculateWordCount(value), [value])
+  const readingTime = estimateReadingTime(wordCount)
+
+  useEffect(() => {
+    if (mode === "write") return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const { renderContent } = await import("@/lib/utils/markdown")
+        const rendered = await renderContent(value, "markdown")
+        if (cancelled) return
+        setPreviewHtml(rendered.html)
+        setPreviewError(null)
+      } catch (error) {
+        if (cancelled) return
+        console.error("渲染文章预览失败", error)
+        setPreviewError("预览渲染失败，请检查内容格式")
+      }
+    }, PREVIEW_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [mode, value])
+
+  const runAction = (action: EditAction, image?: InsertedImage) => {
+    const textarea = textareaRef.current
+    if (!textarea || disabled) return
+
+    // 先从媒体库选图，选中后再带着图片地址回到这里插入
+    if (action === "image" && !image) {
+      setPickerOpen(true)
+      return
+    }
+
+    const edit = applyEditAction(
+      { value, selectionStart: textarea.selectionStart, selectionEnd: textarea.selectionEnd },
+      action,
+      image
+    )
+    onChange(edit.value)
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd)
+    })
+  }
+
+  const handleImageSelect = (asset: MediaAsset) => {
+    runAction("image", { url: asset.url, alt: asset.altText })
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(event.ctrlKey || event.metaKey)) return
+    const action = resolveShortcut(event)
+    if (!action) return
+    event.preventDefault()
+    runAction(action)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-1" role="toolbar" aria-label="正文格式">
+          {TOOLBAR.map(({ action, label, shortcut, icon: Icon }) => (
+            <Button
+              key={action}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={shortcut ? `${label}（${shortcut}）` : label}
+              aria-label={label}
+              disabled={disabled || mode === "preview"}
+              onClick={() => runAction(action)}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center rounded-md border p-0.5">
+          {(Object.keys(MODE_LABELS) as EditorMode[]).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              variant={mode === option ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-3 text-xs"
+              aria-pressed={mode === option}
+              onClick={() => setMode(option)}
+            >
+              {MODE_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className={cn("grid gap-3", mode === "split" && "xl:grid-cols-2")}>
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          rows={18}
+          placeholder="支持 Markdown（含表格、任务列表、脚注）与内联 HTML"
+          className={cn("font-mono text-sm leading-relaxed", mode === "preview" && "hidden")}
+          disabled={disabled}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={onBlur}
+        />
+
+        {mode !== "write" ? (
+          <div className="max-h-[36rem] min-h-[20rem] overflow-y-auto rounded-md border bg-background p-4" aria-live="polite">
+            {previewError ? (
+              <p className="text-sm text-destructive">{previewError}</p>
+            ) : (
+              <BlogContentRenderer html={previewHtml} config={{ enableCodeCopy: false }} className="prose-base" />
+            )}
+          </div>
+        ) : null}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        字数 {wordCount.toLocaleString()} · 预计阅读 {readingTime} 分钟
+      </p>
+
+      <MediaPickerDialog open={pickerOpen} onOpenChange={setPickerOpen} onSelect={handleImageSelect} title="插入图片" />
+    </div>
+  )
+}
+
+function resolveShortcut(event: KeyboardEvent<HTMLTextAreaElement>): EditAction | null {
+  if (event.altKey) {
+    // Alt 组合在 macOS 上会改变 key，按物理键位判断
+    if (event.code === "Digit2") return "heading2"
+    if (event.code === "Digit3") return "heading3"
+    if (event.code === "KeyC") return "codeBlock"
+    return null
+  }
+  const key = event.key.toLowerCase()
+  if (key === "b") return "bold"
+  if (key === "k") return "link"
+  return null
+}
+
+function applyEditAction(edit: TextEdit, action: EditAction, image?: InsertedImage): TextEdit {
+  switch (action) {
+    case "heading2":
+      return setLineHeading(edit, 2)
+    case "heading3":
+      return setLineHeading(edit, 3)
+    case "bold":
+      return wrapSelection(edit, "**", "**", "粗体文本")
+    case "link": {
+      const selected = edit.value.slice(edit.selectionStart, edit.selectionEnd) || "链接文本"
+      const url = "https://"
+      const inserted = `[${selected}](${url})`
+      const urlStart = edit.selectionStart + selected.length + 3
+      return {
+        value: edit.value.slice(0, edit.selectionStart) + inserted + edit.value.slice(edit.selectionEnd),
+        selectionStart: urlStart,
+        selectionEnd: urlStart + url.length,
+      }
+    }
+    case "codeBlock": {
+      const before = edit.value.slice(0, edit.selectionStart)
+      const lead = before.length === 0 || before.endsWith("\n") ? "" : "\n"
+      return wrapSelection(edit, `${lead}\`\`\`\n`, "\n```\n", "代码")
+    }
+    case "image": {
+      const alt = edit.value.slice(edit.selectionStart, edit.selectionEnd) || image?.alt?.replace(/[[\]]/g, "") || "图片描述"
+      const inserted = `![${alt}](${image?.url ?? ""})`
+      const altStart = edit.selectionStart + 2
+      return {
+        value: edit.value.slice(0, edit.selectionStart) + inserted + edit.value.slice(edit.selectionEnd),
+        selectionStart: altStart,
+        selectionEnd: altStart + alt.length,
+      }
+    }
+  }
+}
+
+/**
+ * 用前后标记包裹选区，没有选中内容时插入占位文字并选中
+ */
+function wrapSelection(edit: TextEdit, before: string, after: string, placeholder: string): TextEdit {
+  const selected = edit.value.slice(edit.selectionStart, edit.selectionEnd) || placeholder
+  const start = edit.selectionStart + before.length
+  return {
+    value: edit.value.slice(0, edit.selectionStart) + before + selected + after + edit.value.slice(edit.selectionEnd),
+    selectionStart: start,
+    selectionEnd: start + selected.length,
+  }
+}
+
+/**
+ * 将光标所在行设为指定级别的标题，替换已有的 # 前缀
+ */
+function setLineHeading(edit: TextEdit, level: number): TextEdit {
+  const lineStart = edit.value.lastIndexOf("\n", edit.selectionStart - 1) + 1
+  const rest = edit.value.slice(lineStart)
+  const existing = rest.match(/^#{1,6}\s+/)?.[0] ?? ""
+  const prefix = `${"#".repeat(level)} `
+  const delta = prefix.length - existing.length
+  return {
+    value: edit.value.slice(0, lineStart) + prefix + rest.slice(existing.length),
+    selectionStart: Math.max(lineStart + prefix.length, edit.selectionStart + delta),
+    selectionEnd: Math.max(lineStart + prefix.length, edit.selectionEnd + delta),
+  }
+}
@@ -9,11 +9,19 @@ interface BlogPostDetailCardProps {
   post: BlogPostDetail | null
   loading?: boolean
   onEdit: (post: BlogPostDetail) => void
+  onShowRevisions: (post: BlogPostDetail) => void
   onStatusChange: (post: BlogPostDetail, nextStatus: BlogPostStatus) => void
   onDelete: (post: BlogPostDetail) => void
 }
 
-export function BlogPostDetailCard({ post, loading, onEdit, onStatusChange, onDelete }: BlogPostDetailCardProps) {
+export function BlogPostDetailCard({
+  post,
+  loading,
+  onEdit,
+  onShowRevisions,
+  onStatusChange,
+  onDelete,
+}: BlogPostDetailCardProps) {
   if (loading) {
     return (
       <Card className="h-full">
@@ -87,6 +95,9 @@ export function BlogPostDetailCard({ post, loading, onEdit, onStatusChange, onDe
             {action.label}
           </Button>
         ))}
+        <Button size="sm" variant="ghost" onClick={() => onShowRevisions(post)}>
+          历史版本
+        </Button>
         <Button size="sm" variant="outline" onClick={() => onEdit(post)}>
           编辑
         </Button>
@@ -0,0 +1,43 @@
+// 后台文章编辑器的本地草稿：按文章保存在 localStorage，提交成功或主动丢弃时清除
+
+export interface BlogPostDraft<T> {
+  values: T
+  savedAt: string
+  /** 草稿所基于的文章版本（updatedAt），新建文章为 null */
+  baseUpdatedAt: string | null
+}
+
+const DRAFT_KEY_PREFIX = "webvault:blog-post-draft:"
+
+export function blogPostDraftKey(postId?: string): string {
+  return `${DRAFT_KEY_PREFIX}${postId ?? "new"}`
+}
+
+export function loadBlogPostDraft<T>(key: string): BlogPostDraft<T> | null {
+  try {
+    const raw = window.localStorage.getItem(key)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as Partial<BlogPostDraft<T>> | null
+    if (!parsed?.values || typeof parsed.savedAt !== "string") return null
+    return { values: parsed.values, savedAt: parsed.savedAt, baseUpdatedAt: parsed.baseUpdatedAt ?? null }
+  } catch {
+    return null
+  }
+}
+
+export function saveBlogPostDraft<T>(key: string, draft: BlogPostDraft<T>) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(draft))
+  } catch (error) {
+    // 存储空间已满或被禁用时仅放弃自动保存，不影响编辑
+    console.warn("保存本地草稿失败", error)
+  }
+}
+
+export function clearBlogPostDraft(key: string) {
+  try {
+    window.localStorage.removeItem(key)
+  } catch {
+    // 忽略存储不可用
+  }
+}
@@ -10,6 +10,7 @@ import type { BlogPostListFilters, BlogPostStatus } from "@/features/blog/types"
 const STATUS_OPTIONS: Array<{ label: string; value: BlogPostStatus | "all" }> = [
   { label: "全部", value: "all" },
   { label: "草稿", value: "draft" },
+  { label: "定时发布", value: "scheduled" },
   { label: "已发布", value: "published" },
   { label: "已归档", value: "archived" },
 ]
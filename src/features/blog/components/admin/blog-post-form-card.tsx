@@ -1,17 +1,28 @@
 "use client"
 
 import { useEffect, useMemo, useState } from "react"
-import { useForm } from "react-hook-form"
+import { Controller, useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
-import type { BlogPostDetail, BlogPostStatus } from "@/features/blog/types"
+import { BLOG_POST_STATUSES, type BlogPostDetail, type BlogPostStatus } from "@/features/blog/types"
+import { MediaPickerButton } from "@/features/media/components/media-picker-dialog"
+
+import { BlogPostContentEditor } from "./blog-post-content-editor"
+import {
+  blogPostDraftKey,
+  clearBlogPostDraft,
+  loadBlogPostDraft,
+  saveBlogPostDraft,
+  type BlogPostDraft,
+} from "./blog-post-draft"
 
 interface BlogPostFormCardProps {
   mode: "create" | "edit"
@@ -83,18 +94,31 @@ const formSchema = z.object({
           )
         : []
     ),
-  status: z.enum(["draft", "published", "archived"] as const),
+  status: z.enum(BLOG_POST_STATUSES),
   publishedAt: z
     .string()
     .optional()
     .transform((value) => (value ? convertLocalToIso(value) : undefined)),
+}).superRefine((data, ctx) => {
+  if (data.status !== "scheduled") return
+  if (!data.publishedAt || Date.parse(data.publishedAt) <= Date.now()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["publishedAt"],
+      message: "定时发布需选择晚于当前的时间",
+    })
+  }
 })
 
 type BlogPostFormInput = z.input<typeof formSchema>
 type BlogPostFormValues = z.output<typeof formSchema>
 
+/** 停止编辑后多久写入本地草稿 */
+const DRAFT_AUTOSAVE_DELAY_MS = 1000
+
 const STATUS_LABELS: Record<BlogPostStatus, string> = {
   draft: "草稿",
+  scheduled: "定时发布",
   published: "已发布",
   archived: "已归档",
 }
@@ -102,6 +126,10 @@ const STATUS_LABELS: Record<BlogPostStatus, string> = {
 export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, onCancel, onSubmit }: BlogPostFormCardProps) {
   const [submitting, setSubmitting] = useState(false)
   const [submitError, setSubmitError] = useState<string | null>(null)
+  const [pendingDraft, setPendingDraft] = useState<BlogPostDraft<BlogPostFormInput> | null>(null)
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null)
+  const draftKey = blogPostDraftKey(post?.id)
+  const postUpdatedAt = post?.updatedAt ?? null
 
   const defaults: BlogPostFormInput = useMemo(() => {
     if (!post) {
@@ -139,7 +167,58 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
   useEffect(() => {
     form.reset(defaults)
     setSubmitError(null)
-  }, [defaults, form])
+    setDraftSavedAt(null)
+
+    // 与当前内容一致的草稿没有恢复价值，直接清理
+    const draft = loadBlogPostDraft<BlogPostFormInput>(draftKey)
+    if (draft && !isSameFormInput(draft.values, defaults)) {
+      setPendingDraft(draft)
+    } else {
+      if (draft) clearBlogPostDraft(draftKey)
+      setPendingDraft(null)
+    }
+  }, [defaults, draftKey, form])
+
+  // 自动保存草稿；有待处理的草稿时暂停，避免覆盖尚未恢复的内容
+  useEffect(() => {
+    if (pendingDraft) return
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const subscription = form.watch(() => {
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        const values = form.getValues()
+        if (isSameFormInput(values, defaults)) {
+          clearBlogPostDraft(draftKey)
+          setDraftSavedAt(null)
+          return
+        }
+        const savedAt = new Date().toISOString()
+        saveBlogPostDraft(draftKey, { values, savedAt, baseUpdatedAt: postUpdatedAt })
+        setDraftSavedAt(savedAt)
+      }, DRAFT_AUTOSAVE_DELAY_MS)
+    })
+
+    return () => {
+      subscription.unsubscribe()
+      clearTimeout(timer)
+    }
+  }, [defaults, draftKey, form, pendingDraft, postUpdatedAt])
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return
+    form.reset(pendingDraft.values, { keepDefaultValues: true })
+    setDraftSavedAt(pendingDraft.savedAt)
+    setPendingDraft(null)
+  }
+
+  const handleDiscardDraft = () => {
+    clearBlogPostDraft(draftKey)
+    setPendingDraft(null)
+  }
+
+  // 草稿保存后服务器上的文章又被修改过，恢复草稿会覆盖这些修改
+  const draftConflict = Boolean(pendingDraft && post && pendingDraft.baseUpdatedAt !== post.updatedAt)
 
   const currentStatus = form.watch("status")
   const publishedAtValue = form.watch("publishedAt")
@@ -162,6 +241,8 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
       }
 
       await onSubmit(payload)
+      clearBlogPostDraft(draftKey)
+      setDraftSavedAt(null)
       if (mode === "create") {
         form.reset(defaults)
       }
@@ -180,10 +261,30 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
       <CardHeader>
         <CardTitle>{mode === "create" ? "新建博客文章" : `编辑：${post?.title ?? ""}`}</CardTitle>
         <CardDescription>
-          {mode === "create" ? "撰写新的博客文章，支持即时发布或保存草稿" : "更新文章内容、发布状态与元信息"}
+          {mode === "create" ? "撰写新的博客文章，支持即时发布、定时发布或保存草稿" : "更新文章内容、发布状态与元信息"}
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {pendingDraft ? (
+          <Alert variant={draftConflict ? "destructive" : "default"} className="mb-4">
+            <AlertDescription className="space-y-3">
+              <p>
+                {draftConflict
+                  ? `本地草稿保存于 ${formatDateTime(pendingDraft.savedAt)}，但文章已于 ${formatDateTime(post?.updatedAt ?? "")} 在服务器上更新。恢复草稿将覆盖这些更新。`
+                  : `发现未提交的本地草稿（保存于 ${formatDateTime(pendingDraft.savedAt)}），是否恢复？`}
+              </p>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" variant={draftConflict ? "destructive" : "default"} onClick={handleRestoreDraft}>
+                  {draftConflict ? "仍然恢复草稿" : "恢复草稿"}
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={handleDiscardDraft}>
+                  丢弃草稿
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ) : null}
+
         <form id="blog-post-form" className="space-y-4" onSubmit={handleSubmit}>
           <div className="space-y-2">
             <Label htmlFor="blog-title">标题</Label>
@@ -217,12 +318,18 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
 
           <div className="space-y-2">
             <Label htmlFor="blog-content">正文内容</Label>
-            <Textarea
-              id="blog-content"
-              rows={10}
-              placeholder="支持 Markdown 或 HTML 内容"
-              disabled={isSubmitting}
-              {...form.register("content")}
+            <Controller
+              control={form.control}
+              name="content"
+              render={({ field }) => (
+                <BlogPostContentEditor
+                  id="blog-content"
+                  value={field.value}
+                  disabled={isSubmitting}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                />
+              )}
             />
             {form.formState.errors.content ? (
               <p className="text-xs text-destructive">{form.formState.errors.content.message}</p>
@@ -232,7 +339,14 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
           <div className="grid gap-4 sm:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="blog-cover">封面图 URL</Label>
-              <Input id="blog-cover" placeholder="https://example.com/cover.jpg" disabled={isSubmitting} {...form.register("coverImage")} />
+              <div className="flex gap-2">
+                <Input id="blog-cover" placeholder="https://example.com/cover.jpg" disabled={isSubmitting} {...form.register("coverImage")} />
+                <MediaPickerButton
+                  title="选择封面图"
+                  disabled={isSubmitting}
+                  onSelect={(asset) => form.setValue("coverImage", asset.url, { shouldDirty: true, shouldValidate: true })}
+                />
+              </div>
               {form.formState.errors.coverImage ? (
                 <p className="text-xs text-destructive">{form.formState.errors.coverImage.message}</p>
               ) : null}
@@ -280,9 +394,18 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
                 type="datetime-local"
                 disabled={isSubmitting || currentStatus === "draft"}
                 value={publishedAtValue ?? ""}
+                min={currentStatus === "scheduled" ? formatForInput(new Date().toISOString()) : undefined}
                 onChange={(event) => form.setValue("publishedAt", event.target.value, { shouldDirty: true })}
               />
-              <p className="text-xs text-muted-foreground">发布状态将使用此时间，空白时自动使用当前时间。</p>
+              {form.formState.errors.publishedAt ? (
+                <p className="text-xs text-destructive">{form.formState.errors.publishedAt.message}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {currentStatus === "scheduled"
+                    ? "到达该时间后文章将自动发布，发布前不会在前台展示。"
+                    : "发布状态将使用此时间，空白时自动使用当前时间。"}
+                </p>
+              )}
             </div>
           </div>
 
@@ -290,6 +413,9 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
         </form>
       </CardContent>
       <CardFooter className="flex justify-end gap-2">
+        {draftSavedAt ? (
+          <p className="mr-auto text-xs text-muted-foreground">草稿已自动保存于 {formatDateTime(draftSavedAt)}</p>
+        ) : null}
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
           取消
         </Button>
@@ -301,6 +427,15 @@ export function BlogPostFormCard({ mode, post, submitting: externalSubmitting, o
   )
 }
 
+function isSameFormInput(a: BlogPostFormInput, b: BlogPostFormInput): boolean {
+  return (Object.keys(b) as (keyof BlogPostFormInput)[]).every((key) => (a[key] ?? "") === (b[key] ?? ""))
+}
+
+function formatDateTime(isoString: string): string {
+  const date = new Date(isoString)
+  return Number.isNaN(date.getTime()) ? isoString : date.toLocaleString("zh-CN", { hour12: false })
+}
+
 function convertLocalToIso(value: string): string | undefined {
   if (!value) return undefined
   const date = new Date(value)
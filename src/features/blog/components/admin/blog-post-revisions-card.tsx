@@ -0,0 +1,352 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import type { BlogPostDetail, BlogPostRevision, BlogPostRevisionReason } from "@/features/blog/types"
+import { cn } from "@/lib/utils"
+import { diffLines, toSideBySide, type SideBySideRow } from "@/lib/utils/line-diff"
+
+interface BlogPostRevisionsCardProps {
+  post: BlogPostDetail
+  onClose: () => void
+  onRestored: (post: BlogPostDetail) => Promise<void> | void
+}
+
+interface RevisionListResponse {
+  data?: BlogPostRevision[]
+  meta?: {
+    has_more: boolean
+    next_cursor: string | null
+  }
+  message?: string
+}
+
+interface RestoreResponse {
+  data?: BlogPostDetail
+  message?: string
+}
+
+type CompareTarget = "current" | "previous"
+
+interface ComparableText {
+  title: string
+  summary?: string | null
+  content: string
+}
+
+const PAGE_SIZE = 20
+
+/** 相同内容超过该行数时折叠，只保留前后各 CONTEXT_LINES 行 */
+const COLLAPSE_THRESHOLD = 8
+const CONTEXT_LINES = 3
+
+const REASON_LABELS: Record<BlogPostRevisionReason, string> = {
+  create: "创建",
+  update: "保存",
+  restore: "恢复",
+  baseline: "原始版本",
+}
+
+export function BlogPostRevisionsCard({ post, onClose, onRestored }: BlogPostRevisionsCardProps) {
+  const [revisions, setRevisions] = useState<BlogPostRevision[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareTarget, setCompareTarget] = useState<CompareTarget>("current")
+  const [restoring, setRestoring] = useState(false)
+
+  const fetchRevisions = useCallback(
+    async (cursor?: string) => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+        if (cursor) params.set("cursor", cursor)
+
+        const response = await fetch(`/api/admin/blog-posts/${post.id}/revisions?${params.toString()}`)
+        const payload = (await response.json().catch(() => null)) as RevisionListResponse | null
+
+        if (!response.ok || !payload?.data) {
+          throw new Error(payload?.message ?? "获取历史版本失败")
+        }
+
+        const items = payload.data
+        setRevisions((prev) => (cursor ? [...prev, ...items] : items))
+        setNextCursor(payload.meta?.next_cursor ?? null)
+        if (!cursor) {
+          setSelectedId(items[0]?.id ?? null)
+        }
+      } catch (fetchError) {
+        console.error("加载文章历史版本失败", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "加载历史版本失败")
+      } finally {
+        setLoading(false)
+      }
+    },
+    [post.id]
+  )
+
+  useEffect(() => {
+    void fetchRevisions()
+  }, [fetchRevisions, post.updatedAt])
+
+  const selectedIndex = revisions.findIndex((item) => item.id === selectedId)
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] ?? null : null
+
+  // 与当前内容对比时，旧文本为所选版本；与上一版本对比时，新文本为所选版本
+  const [before, after]: [ComparableText | null, ComparableText | null] =
+    compareTarget === "current" ? [selected, post] : [previous, selected]
+
+  const handleRestore = async () => {
+    if (!selected) return
+    const confirmed = window.confirm(
+      `确定将标题、摘要与正文恢复为 ${formatDate(selected.createdAt)} 的版本吗？当前内容会保留在历史版本中。`
+    )
+    if (!confirmed) return
+
+    try {
+      setRestoring(true)
+      const response = await fetch(`/api/admin/blog-posts/${post.id}/revisions/${selected.id}/restore`, {
+        method: "POST",
+      })
+      const payload = (await response.json().catch(() => null)) as RestoreResponse | null
+
+      if (!response.ok || !payload?.data) {
+        throw new Error(payload?.message ?? "恢复文章版本失败")
+      }
+
+      await onRestored(payload.data)
+    } catch (restoreError) {
+      console.error("恢复文章版本失败", restoreError)
+      window.alert(restoreError instanceof Error ? restoreError.message : "恢复文章版本失败")
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <Card className="flex h-full flex-col">
+      <CardHeader>
+        <CardTitle>历史版本：{post.title}</CardTitle>
+        <CardDescription>每次保存标题、摘要或正文都会生成一个版本，恢复操作同样会记录为新版本。</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 overflow-y-auto">
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+        {!loading && !error && revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">暂无历史版本，下次保存文章后开始记录。</p>
+        ) : null}
+
+        {revisions.length > 0 ? (
+          <ul className="max-h-56 divide-y overflow-y-auto rounded border text-sm">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    "flex w-full items-center justify-between gap-3 px-3 py-2 text-left transition-colors hover:bg-muted/50",
+                    revision.id === selectedId && "bg-muted"
+                  )}
+                >
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{revision.title}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDate(revision.createdAt)} · {revision.authorId ?? "未知"}
+                    </span>
+                  </span>
+                  <span className="shrink-0 rounded bg-secondary px-2 py-0.5 text-xs text-secondary-foreground">
+                    {REASON_LABELS[revision.reason]}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {nextCursor ? (
+          <Button type="button" size="sm" variant="ghost" disabled={loading} onClick={() => fetchRevisions(nextCursor)}>
+            {loading ? "加载中..." : "加载更早的版本"}
+          </Button>
+        ) : null}
+
+        {selected ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center rounded-md border p-0.5">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={compareTarget === "current" ? "secondary" : "ghost"}
+                  className="h-7 px-3 text-xs"
+                  onClick={() => setCompareTarget("current")}
+                >
+                  与当前内容对比
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={compareTarget === "previous" ? "secondary" : "ghost"}
+                  className="h-7 px-3 text-xs"
+                  disabled={!previous}
+                  onClick={() => setCompareTarget("previous")}
+                >
+                  与上一版本对比
+                </Button>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {compareTarget === "current" ? "左：所选版本　右：当前内容" : "左：上一版本　右：所选版本"}
+              </span>
+            </div>
+
+            {before && after ? (
+              <RevisionDiff before={before} after={after} />
+            ) : (
+              <p className="text-sm text-muted-foreground">没有可对比的上一版本。</p>
+            )}
+          </div>
+        ) : null}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onClose} disabled={restoring}>
+          返回
+        </Button>
+        <Button type="button" onClick={handleRestore} disabled={!selected || restoring}>
+          {restoring ? "恢复中..." : "恢复此版本"}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
+function RevisionDiff({ before, after }: { before: ComparableText; after: ComparableText }) {
+  const rows = useMemo(() => toSideBySide(diffLines(before.content, after.content)), [before.content, after.content])
+  const unchanged = rows.every((row) => row.type === "equal")
+
+  return (
+    <div className="space-y-3 text-sm">
+      <FieldChange label="标题" before={before.title} after={after.title} />
+      <FieldChange label="摘要" before={before.summary ?? ""} after={after.summary ?? ""} />
+
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-muted-foreground">正文</h3>
+        {unchanged ? (
+          <p className="text-muted-foreground">正文没有变化。</p>
+        ) : (
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full table-fixed border-collapse font-mono text-xs">
+              <tbody>
+                {collapseRows(rows).map((entry, index) =>
+                  entry.kind === "gap" ? (
+                    <tr key={`gap-${index}`} className="bg-muted/40 text-muted-foreground">
+                      <td colSpan={4} className="px-3 py-1 text-center">
+                        省略 {entry.count} 行相同内容
+                      </td>
+                    </tr>
+                  ) : (
+                    <DiffRow key={`row-${index}`} row={entry.row} />
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function DiffRow({ row }: { row: SideBySideRow }) {
+  const leftChanged = row.type === "removed" || row.type === "changed"
+  const rightChanged = row.type === "added" || row.type === "changed"
+
+  return (
+    <tr className="align-top">
+      <td className="w-10 select-none border-r px-2 text-right text-muted-foreground">{row.left?.line ?? ""}</td>
+      <td
+        className={cn(
+          "whitespace-pre-wrap break-words border-r px-2",
+          leftChanged && "bg-red-50 text-red-900 dark:bg-red-950/40 dark:text-red-200",
+          !row.left && "bg-muted/30"
+        )}
+      >
+        {row.left?.text ?? ""}
+      </td>
+      <td className="w-10 select-none border-r px-2 text-right text-muted-foreground">{row.right?.line ?? ""}</td>
+      <td
+        className={cn(
+          "whitespace-pre-wrap break-words px-2",
+          rightChanged && "bg-green-50 text-green-900 dark:bg-green-950/40 dark:text-green-200",
+          !row.right && "bg-muted/30"
+        )}
+      >
+        {row.right?.text ?? ""}
+      </td>
+    </tr>
+  )
+}
+
+function FieldChange({ label, before, after }: { label: string; before: string; after: string }) {
+  if (before === after) return null
+  return (
+    <div>
+      <h3 className="mb-1 text-sm font-medium text-muted-foreground">{label}</h3>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <p className="rounded bg-red-50 px-2 py-1 text-red-900 dark:bg-red-950/40 dark:text-red-200">{before || "（空）"}</p>
+        <p className="rounded bg-green-50 px-2 py-1 text-green-900 dark:bg-green-950/40 dark:text-green-200">{after || "（空）"}</p>
+      </div>
+    </div>
+  )
+}
+
+type CollapsedEntry = { kind: "row"; row: SideBySideRow } | { kind: "gap"; count: number }
+
+/**
+ * 折叠大段相同内容，只保留变更附近的上下文
+ */
+function collapseRows(rows: SideBySideRow[]): CollapsedEntry[] {
+  const entries: CollapsedEntry[] = []
+  let start = 0
+
+  while (start < rows.length) {
+    if (rows[start].type !== "equal") {
+      entries.push({ kind: "row", row: rows[start] })
+      start++
+      continue
+    }
+
+    let end = start
+    while (end < rows.length && rows[end].type === "equal") end++
+
+    const run = rows.slice(start, end)
+    const keepHead = start === 0 ? 0 : CONTEXT_LINES
+    const keepTail = end === rows.length ? 0 : CONTEXT_LINES
+    if (run.length > COLLAPSE_THRESHOLD && run.length > keepHead + keepTail) {
+      run.slice(0, keepHead).forEach((row) => entries.push({ kind: "row", row }))
+      entries.push({ kind: "gap", count: run.length - keepHead - keepTail })
+      run.slice(run.length - keepTail).forEach((row) => entries.push({ kind: "row", row }))
+    } else {
+      run.forEach((row) => entries.push({ kind: "row", row }))
+    }
+    start = end
+  }
+
+  return entries
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return value
+  return new Intl.DateTimeFormat("zh-CN", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date)
+}
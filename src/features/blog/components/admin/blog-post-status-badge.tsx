@@ -5,12 +5,14 @@ import type { BlogPostStatus } from "@/features/blog/types"
 
 const STATUS_LABELS: Record<BlogPostStatus, string> = {
   draft: "草稿",
+  scheduled: "定时发布",
   published: "已发布",
   archived: "已归档",
 }
 
 const STATUS_VARIANTS: Record<BlogPostStatus, string> = {
   draft: "bg-muted text-muted-foreground",
+  scheduled: "bg-sky-100 text-sky-700 dark:bg-sky-500/10 dark:text-sky-300",
   published: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-300",
   archived: "bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200",
 }
@@ -106,6 +106,9 @@ export function BlogPostTable({
                     </td>
                     <td className="px-4 py-3 align-top">
                       {post.publishedAt ? formatDate(post.publishedAt) : <span className="text-xs text-muted-foreground">未发布</span>}
+                      {post.status === "scheduled" ? (
+                        <div className="mt-1 text-[11px] text-sky-600">到点自动发布</div>
+                      ) : null}
                     </td>
                     <td className="px-4 py-3 align-top">{formatDate(post.updatedAt)}</td>
                     <td className="px-4 py-3 align-top text-right">
@@ -206,6 +209,11 @@ function getStatusActions(status: BlogPostStatus): Array<{ status: BlogPostStatu
       return [
         { status: "published", label: "发布" },
       ]
+    case "scheduled":
+      return [
+        { status: "published", label: "立即发布" },
+        { status: "draft", label: "取消定时" },
+      ]
     case "published":
       return [
         { status: "draft", label: "设为草稿" },
@@ -7,9 +7,10 @@ import type { BlogPostDetail, BlogPostListFilters, BlogPostListItem, BlogPostSta
 import { BlogPostDetailCard } from "./blog-post-detail-card"
 import { BlogPostFilters } from "./blog-post-filters"
 import { BlogPostFormCard, type BlogPostPayload } from "./blog-post-form-card"
+import { BlogPostRevisionsCard } from "./blog-post-revisions-card"
 import { BlogPostTable } from "./blog-post-table"
 
-type FormState = { mode: "create" } | { mode: "edit"; post: BlogPostDetail }
+type FormState = { mode: "create" } | { mode: "edit"; post: BlogPostDetail } | { mode: "revisions"; post: BlogPostDetail }
 
 interface ListResponse {
   data?: BlogPostListItem[]
@@ -143,6 +144,17 @@ export function BlogPostsAdminPage() {
     setFormState({ mode: "edit", post: detail })
   }
 
+  const handleShowRevisions = (detail: BlogPostDetail) => {
+    setSelectedDetail(detail)
+    setFormState({ mode: "revisions", post: detail })
+  }
+
+  const handleRevisionRestored = async (detail: BlogPostDetail) => {
+    setSelectedDetail(detail)
+    setFormState({ mode: "revisions", post: detail })
+    await fetchPosts()
+  }
+
   const handleStatusChange = async (item: BlogPostListItem | BlogPostDetail, nextStatus: BlogPostStatus) => {
     const confirmed = nextStatus === "published" ? true : window.confirm(`确定将文章状态修改为“${STATUS_MESSAGES[nextStatus]}”吗？`)
     if (!confirmed) return
@@ -263,7 +275,14 @@ export function BlogPostsAdminPage() {
         onCreate={handleCreate}
       />
 
-      <div className="grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+      {/* 编辑文章或查看历史版本时加宽右侧，便于分屏预览与左右对比 */}
+      <div
+        className={
+          formState
+            ? "grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]"
+            : "grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]"
+        }
+      >
         <BlogPostTable
           items={items}
           loading={loading}
@@ -281,7 +300,13 @@ export function BlogPostsAdminPage() {
           }}
         />
 
-        {formState ? (
+        {formState?.mode === "revisions" ? (
+          <BlogPostRevisionsCard
+            post={formState.post}
+            onClose={() => setFormState(null)}
+            onRestored={handleRevisionRestored}
+          />
+        ) : formState ? (
           <BlogPostFormCard
             mode={formState.mode}
             post={formState.mode === "edit" ? formState.post : undefined}
@@ -294,6 +319,7 @@ export function BlogPostsAdminPage() {
             post={selectedDetail}
             loading={detailLoading}
             onEdit={handleEditFromDetail}
+            onShowRevisions={handleShowRevisions}
             onStatusChange={handleStatusChange}
             onDelete={handleDelete}
           />
@@ -305,6 +331,7 @@ export function BlogPostsAdminPage() {
 
 const STATUS_MESSAGES: Record<BlogPostStatus, string> = {
   draft: "草稿",
+  scheduled: "定时发布",
   published: "已发布",
   archived: "已归档",
 }
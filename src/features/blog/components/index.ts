@@ -15,6 +15,7 @@ export { AuthorCard } from './AuthorCard';
 export { RelatedPosts } from './RelatedPosts';
 export { SocialShare } from './SocialShare';
 export { ReadingProgress, useReadingProgress } from './ReadingProgress';
+export { TableOfContents, useActiveHeading } from './TableOfContents';
 
 // Loading States and Error Handling
 export {
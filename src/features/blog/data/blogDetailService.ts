@@ -5,9 +5,15 @@
  * 包含博客详情获取、相关文章推荐、错误处理和数据验证功能
  */
 
+import { parseJSendFetch } from '@/lib/utils/jsend';
+
 import { BlogDetailData, BlogCardData, BlogDetailDataUtils, BlogCategoryUtils } from '../types';
-// Mock data has been removed - using empty array as fallback
-const mockBlogDetails: BlogDetailData[] = [];
+import type { BlogPublicDetail } from '../types';
+
+/**
+ * 详情接口返回的相关文章候选数量，客户端再按推荐策略打分筛选
+ */
+const RELATED_CANDIDATE_LIMIT = 10;
 
 /**
  * 相关文章推荐策略类型
@@ -52,6 +58,8 @@ export class BlogDetailService {
   private static instance: BlogDetailService;
   private cache = new Map<string, BlogDetailData>();
   private relatedPostsCache = new Map<string, BlogCardData[]>();
+  /** 按文章 ID 缓存接口返回的详情与相关文章候选（已按共同标签数量排序） */
+  private detailsById = new Map<string, BlogPublicDetail>();
   
   /**
    * 获取服务单例实例
@@ -89,21 +97,7 @@ export class BlogDetailService {
         return this.validateAndCloneBlogData(cachedData);
       }
 
-      // 模拟数据获取延迟（实际项目中这里会是API调用）
-      await this.simulateNetworkDelay();
-
-      // 从Mock数据中查找
-      const blogDetail = mockBlogDetails.find(
-        blog => blog.slug.toLowerCase() === normalizedSlug
-      );
-
-      if (!blogDetail) {
-        throw new BlogDetailServiceError(
-          `Blog post with slug "${slug}" not found`,
-          'NOT_FOUND',
-          { requestedSlug: slug, normalizedSlug }
-        );
-      }
+      const { post: blogDetail } = await this.fetchBlogDetail(normalizedSlug);
 
       // 验证数据完整性
       const validationResult = BlogDetailDataUtils.validateBlogDetailData(blogDetail);
@@ -185,39 +179,25 @@ export class BlogDetailService {
         return this.relatedPostsCache.get(cacheKey)!.slice(0, limit);
       }
 
-      // 模拟网络延迟
-      await this.simulateNetworkDelay(100);
-
-      // 获取当前文章详情
-      const currentBlog = mockBlogDetails.find(blog => blog.id === currentBlogId);
-      if (!currentBlog) {
-        throw new BlogDetailServiceError(
-          `Current blog with ID "${currentBlogId}" not found`,
-          'NOT_FOUND',
-          { requestedId: currentBlogId }
-        );
-      }
-
-      // 获取候选文章列表
-      const candidateBlogs = excludeCurrentPost
-        ? mockBlogDetails.filter(blog => blog.id !== currentBlogId)
-        : mockBlogDetails;
+      const { post: currentBlog, relatedPosts: candidateBlogs } = await this.loadDetailById(currentBlogId);
 
       // 根据策略计算相关性分数
-      const scoredPosts = candidateBlogs.map(blog => ({
-        blog,
-        score: this.calculateRelatednessScore(currentBlog, blog, strategy)
-      }));
+      const scoredPosts = candidateBlogs
+        .filter(blog => !excludeCurrentPost || blog.id !== currentBlogId)
+        .map((blog, rank) => ({
+          blog,
+          score: this.calculateRelatednessScore(currentBlog, blog, rank, candidateBlogs.length, strategy)
+        }));
 
       // 过滤低分文章并排序
       const filteredAndSorted = scoredPosts
         .filter(item => item.score >= minSimilarityScore)
         .sort((a, b) => b.score - a.score);
 
-      // 转换为卡片数据
+      // 截取推荐数量
       const relatedPosts = filteredAndSorted
         .slice(0, limit)
-        .map(item => BlogDetailDataUtils.extractCardData(item.blog));
+        .map(item => item.blog);
 
       // 缓存结果
       this.relatedPostsCache.set(cacheKey, relatedPosts);
@@ -262,6 +242,7 @@ export class BlogDetailService {
   clearCache(type: 'all' | 'blogs' | 'related' = 'all'): void {
     if (type === 'all' || type === 'blogs') {
       this.cache.clear();
+      this.detailsById.clear();
     }
     if (type === 'all' || type === 'related') {
       this.relatedPostsCache.clear();
@@ -280,26 +261,76 @@ export class BlogDetailService {
   }
 
   /**
-   * 计算两篇文章的相关性分数
+   * 按ID获取文章详情与相关文章候选（优先使用缓存）
+   */
+  async loadDetailById(blogId: string): Promise<BlogPublicDetail> {
+    const cached = this.detailsById.get(blogId);
+    if (cached) {
+      return cached;
+    }
+
+    return this.fetchBlogDetail(blogId);
+  }
+
+  /**
+   * 调用公开详情接口；接口只返回已发布文章，404 统一视为不存在
+   */
+  private async fetchBlogDetail(slugOrId: string): Promise<BlogPublicDetail> {
+    const response = await fetch(
+      `/api/blog-posts/${encodeURIComponent(slugOrId)}?relatedLimit=${RELATED_CANDIDATE_LIMIT}`,
+      { headers: { Accept: 'application/json' } }
+    );
+
+    if (response.status === 404) {
+      throw new BlogDetailServiceError(
+        `Blog post "${slugOrId}" not found`,
+        'NOT_FOUND',
+        { requested: slugOrId }
+      );
+    }
+
+    const payload = await parseJSendFetch<BlogPublicDetail>(response);
+    if (payload.status !== 'success') {
+      throw new BlogDetailServiceError(
+        payload.status === 'error' ? payload.message : `Failed to fetch blog post "${slugOrId}"`,
+        'FETCH_ERROR',
+        { requested: slugOrId, status: response.status, payload }
+      );
+    }
+
+    this.detailsById.set(payload.data.post.id, payload.data);
+    return payload.data;
+  }
+
+  /**
+   * 计算候选文章的相关性分数
+   *
+   * 候选列表由服务端按共同标签数量排序，标签分数按名次折算
    */
   private calculateRelatednessScore(
     currentBlog: BlogDetailData,
-    candidateBlog: BlogDetailData,
+    candidateBlog: BlogCardData,
+    rank: number,
+    total: number,
     strategy: RelatedPostsStrategy
   ): number {
+    const tagsScore = 1 - rank / (2 * Math.max(total, 1));
+
     switch (strategy) {
       case 'category':
         return this.calculateCategoryScore(currentBlog, candidateBlog);
       
       case 'tags':
-        return this.calculateTagsScore(currentBlog, candidateBlog);
+        return tagsScore;
       
       case 'content':
         return this.calculateContentScore(currentBlog, candidateBlog);
       
       case 'mixed':
       default:
-        return this.calculateMixedScore(currentBlog, candidateBlog);
+        return (this.calculateCategoryScore(currentBlog, candidateBlog) * 0.4) +
+          (tagsScore * 0.4) +
+          (this.calculateContentScore(currentBlog, candidateBlog) * 0.2);
     }
   }
 
@@ -307,8 +338,8 @@ export class BlogDetailService {
    * 基于分类的相关性分数
    */
   private calculateCategoryScore(
-    currentBlog: BlogDetailData,
-    candidateBlog: BlogDetailData
+    currentBlog: BlogCardData,
+    candidateBlog: BlogCardData
   ): number {
     if (currentBlog.category === candidateBlog.category) {
       return 1.0;
@@ -327,33 +358,12 @@ export class BlogDetailService {
     return 0.1;
   }
 
-  /**
-   * 基于标签的相关性分数
-   */
-  private calculateTagsScore(
-    currentBlog: BlogDetailData,
-    candidateBlog: BlogDetailData
-  ): number {
-    const currentTags = new Set(currentBlog.tags?.map(tag => tag.toLowerCase()) || []);
-    const candidateTags = new Set(candidateBlog.tags?.map(tag => tag.toLowerCase()) || []);
-
-    if (currentTags.size === 0 && candidateTags.size === 0) {
-      return 0.1;
-    }
-
-    // 计算Jaccard相似度
-    const intersection = new Set([...currentTags].filter(tag => candidateTags.has(tag)));
-    const union = new Set([...currentTags, ...candidateTags]);
-
-    return intersection.size / union.size;
-  }
-
   /**
    * 基于内容的相关性分数
    */
   private calculateContentScore(
-    currentBlog: BlogDetailData,
-    candidateBlog: BlogDetailData
+    currentBlog: BlogCardData,
+    candidateBlog: BlogCardData
   ): number {
     // 简化的内容相似度计算（实际项目中可使用更高级的NLP技术）
     const currentContent = `${currentBlog.title} ${currentBlog.excerpt}`.toLowerCase();
@@ -373,21 +383,6 @@ export class BlogDetailService {
     return intersection.size / union.size;
   }
 
-  /**
-   * 混合策略的相关性分数
-   */
-  private calculateMixedScore(
-    currentBlog: BlogDetailData,
-    candidateBlog: BlogDetailData
-  ): number {
-    const categoryScore = this.calculateCategoryScore(currentBlog, candidateBlog);
-    const tagsScore = this.calculateTagsScore(currentBlog, candidateBlog);
-    const contentScore = this.calculateContentScore(currentBlog, candidateBlog);
-
-    // 加权平均
-    return (categoryScore * 0.4) + (tagsScore * 0.4) + (contentScore * 0.2);
-  }
-
   /**
    * 验证并克隆博客数据
    */
@@ -410,15 +405,6 @@ export class BlogDetailService {
   private deepCloneBlogData(data: BlogDetailData): BlogDetailData {
     return JSON.parse(JSON.stringify(data));
   }
-
-  /**
-   * 模拟网络延迟
-   */
-  private async simulateNetworkDelay(ms: number = 200): Promise<void> {
-    if (process.env.NODE_ENV === 'development') {
-      await new Promise(resolve => setTimeout(resolve, ms));
-    }
-  }
 }
 
 /**
@@ -493,44 +479,21 @@ export async function getSmartRecommendations(
       });
     }
 
-    // 基于用户历史的个性化推荐
-    const currentBlog = mockBlogDetails.find(blog => blog.id === currentBlogId);
-    if (!currentBlog) {
-      throw new BlogDetailServiceError(
-        `Blog with ID "${currentBlogId}" not found`,
-        'NOT_FOUND'
-      );
-    }
-
-    // 分析用户阅读偏好
-    const userPreferences = (blogDetailService as unknown as {
-      analyzeUserPreferences: (readHistory: string[]) => UserPreferences;
-    }).analyzeUserPreferences(userReadHistory);
+    // 基于用户历史的个性化推荐：候选来自详情接口，偏好来自最近阅读的文章
+    const { relatedPosts } = await blogDetailService.loadDetailById(currentBlogId);
+    const candidates = relatedPosts.filter(blog => !userReadHistory.includes(blog.id));
 
-    // 获取候选文章
-    const candidates = mockBlogDetails.filter(blog =>
-      blog.id !== currentBlogId && !userReadHistory.includes(blog.id)
-    );
-
-    // 计算个性化相关性分数
-    const scoredPosts = candidates.map(blog => ({
-      blog,
-      score: (blogDetailService as unknown as {
-        calculatePersonalizedScore: (
-          currentBlog: BlogDetailData,
-          candidateBlog: BlogDetailData,
-          preferences: UserPreferences
-        ) => number;
-      }).calculatePersonalizedScore(currentBlog, blog, userPreferences)
-    }));
+    const userPreferences = await analyzeUserPreferences(userReadHistory);
 
     // 返回得分最高的文章
-    const recommendations = scoredPosts
+    return candidates
+      .map((blog, rank) => ({
+        blog,
+        score: calculatePersonalizedScore(blog, rank, candidates.length, userPreferences)
+      }))
       .sort((a, b) => b.score - a.score)
       .slice(0, limit)
-      .map(item => BlogDetailDataUtils.extractCardData(item.blog));
-
-    return recommendations;
+      .map(item => item.blog);
 
   } catch (error) {
     console.warn('Smart recommendations failed, falling back to standard related posts:', error);
@@ -538,109 +501,63 @@ export async function getSmartRecommendations(
   }
 }
 
-// 为BlogDetailService类添加私有方法（通过原型扩展）
-declare module './blogDetailService' {
-  // eslint-disable-next-line @typescript-eslint/no-namespace
-  namespace BlogDetailService {
-    interface BlogDetailService {
-      analyzeUserPreferences(readHistory: string[]): UserPreferences;
-      calculatePersonalizedScore(
-        currentBlog: BlogDetailData,
-        candidateBlog: BlogDetailData,
-        preferences: UserPreferences
-      ): number;
-    }
-  }
-}
-
 interface UserPreferences {
   favoriteCategories: Map<string, number>;
-  favoriteTags: Map<string, number>;
-  averageReadingTime: number;
-  contentComplexityPreference: number;
 }
 
-// 扩展BlogDetailService原型
-Object.assign(BlogDetailService.prototype, {
-  /**
-   * 分析用户阅读偏好
-   */
-  analyzeUserPreferences(readHistory: string[]): UserPreferences {
-    const historyBlogs = mockBlogDetails.filter(blog => readHistory.includes(blog.id));
-    
-    const categoryCount = new Map<string, number>();
-    const tagCount = new Map<string, number>();
-    let totalReadingTime = 0;
-    let totalComplexity = 0;
-
-    historyBlogs.forEach(blog => {
-      // 统计分类偏好
-      categoryCount.set(blog.category, (categoryCount.get(blog.category) || 0) + 1);
-      
-      // 统计标签偏好
-      blog.tags?.forEach(tag => {
-        tagCount.set(tag, (tagCount.get(tag) || 0) + 1);
-      });
-      
-      // 累计阅读时间
-      totalReadingTime += blog.readingTime;
-      
-      // 计算内容复杂度（基于阅读时间和内容长度）
-      totalComplexity += blog.readingTime / 10; // 简化的复杂度计算
-    });
+/**
+ * 阅读历史中参与偏好分析的最近文章数
+ */
+const PREFERENCE_HISTORY_LIMIT = 5;
 
-    return {
-      favoriteCategories: categoryCount,
-      favoriteTags: tagCount,
-      averageReadingTime: historyBlogs.length > 0 ? totalReadingTime / historyBlogs.length : 8,
-      contentComplexityPreference: historyBlogs.length > 0 ? totalComplexity / historyBlogs.length : 0.8
-    };
-  },
+/**
+ * 分析用户阅读偏好
+ */
+async function analyzeUserPreferences(readHistory: string[]): Promise<UserPreferences> {
+  const results = await Promise.allSettled(
+    readHistory.slice(-PREFERENCE_HISTORY_LIMIT).map(id => blogDetailService.loadDetailById(id))
+  );
 
-  /**
-   * 计算个性化相关性分数
-   */
-  calculatePersonalizedScore(
-    currentBlog: BlogDetailData,
-    candidateBlog: BlogDetailData,
-    preferences: UserPreferences
-  ): number {
-    let score = 0;
-
-    // 基于分类偏好（40%权重）
-    const categoryPreference = preferences.favoriteCategories.get(candidateBlog.category) || 0;
-    const categoryScore = Math.min(categoryPreference / 5, 1); // 归一化到0-1
-    score += categoryScore * 0.4;
-
-    // 基于标签偏好（30%权重）
-    const tagScore = candidateBlog.tags?.reduce((sum, tag) => {
-      const tagPreference = preferences.favoriteTags.get(tag) || 0;
-      return sum + Math.min(tagPreference / 3, 1);
-    }, 0) || 0;
-    const normalizedTagScore = Math.min(tagScore / (candidateBlog.tags?.length || 1), 1);
-    score += normalizedTagScore * 0.3;
-
-    // 基于阅读时间偏好（20%权重）
-    const readingTimeDiff = Math.abs(candidateBlog.readingTime - preferences.averageReadingTime);
-    const readingTimeScore = Math.max(0, 1 - readingTimeDiff / 20); // 差异越小分数越高
-    score += readingTimeScore * 0.2;
-
-    // 基于内容复杂度偏好（10%权重）
-    const contentComplexity = candidateBlog.readingTime / 10;
-    const complexityDiff = Math.abs(contentComplexity - preferences.contentComplexityPreference);
-    const complexityScore = Math.max(0, 1 - complexityDiff);
-    score += complexityScore * 0.1;
-
-    return score;
-  }
-});
+  const categoryCount = new Map<string, number>();
+
+  results.forEach(result => {
+    if (result.status !== 'fulfilled') return;
+    const blog = result.value.post;
+
+    // 统计分类偏好
+    categoryCount.set(blog.category, (categoryCount.get(blog.category) || 0) + 1);
+  });
+
+  return {
+    favoriteCategories: categoryCount,
+  };
+}
+
+/**
+ * 计算个性化相关性分数
+ */
+function calculatePersonalizedScore(
+  candidateBlog: BlogCardData,
+  rank: number,
+  total: number,
+  preferences: UserPreferences
+): number {
+  // 基于分类偏好（60%权重）
+  const categoryPreference = preferences.favoriteCategories.get(candidateBlog.category) || 0;
+  const categoryScore = Math.min(categoryPreference / 5, 1);
+
+  // 服务端按共同标签数量排序的名次（40%权重）
+  const rankScore = 1 - rank / Math.max(total, 1);
+
+  return (categoryScore * 0.6) + (rankScore * 0.4);
+}
 
 /**
  * 服务类和错误类已在上方直接导出
- * BlogDetailService (line 50), BlogDetailServiceError (line 33)
+ * BlogDetailService, BlogDetailServiceError
  */
 
 /**
  * 类型定义已在上方直接导出
- * RelatedPostsOptions (line 19), RelatedPostsStrategy (line 14)
- */
\ No newline at end of file
+ * RelatedPostsOptions, RelatedPostsStrategy
+ */
@@ -77,6 +77,31 @@ const publishedAtSchema = z
     return value
   })
 
+// 定时发布需要一个晚于当前时间的发布时间，到点后由定时任务转为已发布
+function validateSchedule(
+  data: { status?: (typeof BLOG_POST_STATUSES)[number]; publishedAt?: string },
+  ctx: z.RefinementCtx
+) {
+  if (data.status !== "scheduled") return
+
+  if (!data.publishedAt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["publishedAt"],
+      message: "定时发布必须提供发布时间",
+    })
+    return
+  }
+
+  if (Date.parse(data.publishedAt) <= Date.now()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["publishedAt"],
+      message: "定时发布时间需晚于当前时间",
+    })
+  }
+}
+
 const basePayloadSchema = z.object({
   title: normalizedString(200, "标题"),
   slug: optionalSlugSchema,
@@ -98,6 +123,8 @@ export const blogPostCreateSchema = basePayloadSchema
         message: "发布状态必须提供发布时间",
       })
     }
+
+    validateSchedule(data, ctx)
   })
   .transform((data) => ({
     ...data,
@@ -123,6 +150,8 @@ export const blogPostUpdateSchema = basePayloadSchema
         message: "发布状态必须提供发布时间",
       })
     }
+
+    validateSchedule(data, ctx)
   })
 
 export type BlogPostUpdateInput = z.infer<typeof blogPostUpdateSchema>
@@ -140,6 +169,20 @@ export const blogPostStatusSchema = z
         message: "发布状态必须提供发布时间",
       })
     }
+
+    validateSchedule(data, ctx)
   })
 
 export type BlogPostStatusInput = z.infer<typeof blogPostStatusSchema>
+
+export const blogPostRevisionQuerySchema = z.object({
+  cursor: z
+    .string()
+    .trim()
+    .max(512)
+    .optional()
+    .transform((value) => (value ? value : undefined)),
+  limit: z.coerce.number().int("数量需为整数").min(1).max(100).optional(),
+})
+
+export type BlogPostRevisionQueryInput = z.infer<typeof blogPostRevisionQuerySchema>
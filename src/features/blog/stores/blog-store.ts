@@ -133,49 +133,54 @@ const DEFAULT_PAGINATION: BlogPagination = {
 };
 
 /**
- * 模拟博客数据生成器
- * 临时数据，后续会替换为API调用
+ * 公开列表接口的成功响应结构
  */
-function generateMockBlogs(category: BlogCategoryType, page: number, itemsPerPage: number): { blogs: BlogCardData[], totalCount: number } {
-  // 模拟不同分类的文章数量
-  const categoryItemCounts: Record<BlogCategoryType, number> = {
-    'All': 30,
-    'Lifestyle': 8,
-    'Technologies': 12,
-    'Design': 6,
-    'Travel': 4,
-    'Growth': 10,
+interface BlogListApiPayload {
+  code: number;
+  message?: string;
+  data?: BlogCardData[];
+  meta?: {
+    total?: number;
+    total_pages?: number;
   };
-  
-  const totalCount = categoryItemCounts[category] || 0;
-  // const totalPages = Math.ceil(totalCount / itemsPerPage); // TODO: Use for pagination
-  const startIndex = (page - 1) * itemsPerPage;
-  const endIndex = Math.min(startIndex + itemsPerPage, totalCount);
-  
-  const blogs: BlogCardData[] = [];
-  
-  for (let i = startIndex; i < endIndex; i++) {
-    const blogId = `${category.toLowerCase()}-blog-${i + 1}`;
-    const categoryForBlog = category === 'All' 
-      ? BLOG_CATEGORIES[Math.floor(Math.random() * (BLOG_CATEGORIES.length - 1)) + 1] 
-      : category;
-    
-    blogs.push({
-      id: blogId,
-      title: `${categoryForBlog} Blog Post ${i + 1}`,
-      excerpt: `This is an engaging excerpt for ${categoryForBlog.toLowerCase()} blog post ${i + 1}. It provides a compelling preview of the content that will make readers want to click and read more.`,
-      slug: `${categoryForBlog.toLowerCase()}-blog-post-${i + 1}`,
-      coverImage: `/assets/images/blog-${(i % 6) + 1}.jpg`,
-      author: {
-        name: `Author ${Math.floor(i / 3) + 1}`,
-        avatar: `/assets/images/avatar-${(i % 4) + 1}.jpg`,
-      },
-      category: categoryForBlog,
-      publishedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-    });
+}
+
+/**
+ * 请求已发布文章列表，分类映射为同名标签筛选
+ */
+async function fetchPublishedBlogs(
+  category: BlogCategoryType,
+  page: number,
+  itemsPerPage: number
+): Promise<{ blogs: BlogCardData[], totalCount: number }> {
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize: String(itemsPerPage),
+  });
+
+  const tag = BlogCategoryUtils.categoryToUrlParam(category);
+  if (tag) {
+    params.set('tag', tag);
   }
-  
-  return { blogs, totalCount };
+
+  const response = await fetch(`/api/blog-posts?${params.toString()}`, {
+    headers: { Accept: 'application/json' },
+    cache: 'no-store',
+  });
+
+  if (!response.headers.get('content-type')?.includes('application/json')) {
+    throw new Error('响应格式无效');
+  }
+
+  const payload = (await response.json()) as BlogListApiPayload;
+  if (payload.code !== 0 || !Array.isArray(payload.data)) {
+    throw new Error(payload.message || '加载博客文章失败，请稍后重试');
+  }
+
+  return {
+    blogs: payload.data,
+    totalCount: Number(payload.meta?.total ?? payload.data.length),
+  };
 }
 
 /**
@@ -204,7 +209,7 @@ export const useBlogStore = create<BlogPageState>()(
         
         // 元数据初始化
         lastUpdated: null,
-        dataSource: 'mock',
+        dataSource: 'api',
         
         // 操作方法实现
         actions: {
@@ -225,14 +230,10 @@ export const useBlogStore = create<BlogPageState>()(
             );
             
             try {
-              // 模拟网络请求延迟
-              await new Promise(resolve => setTimeout(resolve, 500));
-              
               // 获取当前筛选条件和分页信息
               const { activeCategory, pagination } = state;
               
-              // 生成模拟数据
-              const { blogs, totalCount } = generateMockBlogs(
+              const { blogs, totalCount } = await fetchPublishedBlogs(
                 activeCategory,
                 pagination.currentPage,
                 pagination.itemsPerPage
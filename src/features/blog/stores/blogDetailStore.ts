@@ -23,11 +23,10 @@ import {
 
 // 导入博客相关类型
 import {
-  BlogDetailData,
   BlogDetailPageState,
   BlogDetailActions
 } from '../types/detail';
-import { BlogCardData } from '../types';
+import { blogDetailService } from '../data/blogDetailService';
 
 /**
  * 博客详情页面URL搜索参数解析器配置
@@ -265,150 +264,6 @@ const DEFAULT_RELATED_CONFIG: RelatedPostsConfig = {
   excludeCurrentPost: true,
 };
 
-/**
- * 模拟博客详情数据生成器
- * 临时数据，后续会替换为API调用
- */
-function generateMockBlogDetail(slug: string): BlogDetailData {
-  const mockId = `blog-detail-${slug}`;
-  
-  return {
-    id: mockId,
-    title: `深度解析：${slug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}`,
-    excerpt: '这是一篇深入探讨现代Web开发最佳实践的文章，涵盖了从基础概念到高级技巧的全方位内容。',
-    slug,
-    coverImage: `/assets/images/blog-${Math.floor(Math.random() * 6) + 1}.jpg`,
-    author: {
-      name: 'Alex Chen',
-      avatar: '/assets/images/avatar-1.jpg',
-      bio: '资深前端工程师，专注于React生态系统和现代Web开发技术。',
-      socialLinks: {
-        twitter: 'https://twitter.com/alexchen',
-        github: 'https://github.com/alexchen',
-        website: 'https://alexchen.dev',
-      },
-      stats: {
-        postsCount: 42,
-        totalLikes: 1337,
-        followersCount: 856,
-      },
-    },
-    category: 'Technologies',
-    publishedAt: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-    
-    // 详情页面特有字段
-    content: `# ${slug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-
-这是一篇关于现代Web开发的深度文章。我们将探讨一些重要的概念和最佳实践。
-
-## 目录
-
-- [引言](#introduction)
-- [核心概念](#core-concepts)
-- [实践指南](#practical-guide)
-- [总结](#conclusion)
-
-## 引言 {#introduction}
-
-在现代Web开发中，我们面临着许多挑战和机遇。本文将带您深入了解这些关键技术。
-
-## 核心概念 {#core-concepts}
-
-让我们从基础开始，了解一些核心概念：
-
-### 状态管理
-
-状态管理是现代应用开发的核心。我们需要考虑：
-
-- 全局状态 vs 局部状态
-- 数据流的方向性
-- 性能优化策略
-
-### 组件设计
-
-良好的组件设计原则包括：
-
-1. 单一职责原则
-2. 可复用性
-3. 可测试性
-
-## 实践指南 {#practical-guide}
-
-在实际开发中，我们需要关注以下几个方面：
-
-### 性能优化
-
-- 代码分割
-- 懒加载
-- 缓存策略
-
-### 测试策略
-
-- 单元测试
-- 集成测试
-- E2E测试
-
-## 总结 {#conclusion}
-
-通过本文的学习，我们了解了现代Web开发的关键概念和最佳实践。希望这些内容对您的开发工作有所帮助。
-
----
-
-感谢阅读！如果您觉得这篇文章有用，请分享给更多的朋友。`,
-    
-    contentType: 'markdown',
-    readingTime: Math.floor(Math.random() * 10) + 5,
-    tags: ['React', 'TypeScript', 'Web Development', 'Best Practices'],
-    keywords: ['web development', 'react', 'typescript', 'frontend'],
-    tableOfContents: [
-      { title: '引言', level: 2, anchor: 'introduction' },
-      { title: '核心概念', level: 2, anchor: 'core-concepts' },
-      { title: '状态管理', level: 3, anchor: 'state-management' },
-      { title: '组件设计', level: 3, anchor: 'component-design' },
-      { title: '实践指南', level: 2, anchor: 'practical-guide' },
-      { title: '性能优化', level: 3, anchor: 'performance' },
-      { title: '测试策略', level: 3, anchor: 'testing' },
-      { title: '总结', level: 2, anchor: 'conclusion' },
-    ],
-    viewCount: Math.floor(Math.random() * 5000) + 100,
-    likeCount: Math.floor(Math.random() * 200) + 10,
-    shareCount: Math.floor(Math.random() * 50) + 5,
-    isPublished: true,
-    isFeatured: Math.random() > 0.7,
-    relatedPostIds: [
-      'react-best-practices',
-      'typescript-advanced-tips',
-      'web-performance-guide'
-    ],
-  };
-}
-
-/**
- * 模拟相关文章数据生成器
- */
-function generateMockRelatedPosts(currentPostId: string, config: RelatedPostsConfig): BlogCardData[] {
-  const relatedPosts: BlogCardData[] = [];
-  
-  for (let i = 0; i < config.limit; i++) {
-    const postId = `related-${currentPostId}-${i + 1}`;
-    relatedPosts.push({
-      id: postId,
-      title: `Related Article ${i + 1}: Advanced Topics`,
-      excerpt: `This is a related article that complements the main content with additional insights and practical examples.`,
-      slug: `related-article-${i + 1}`,
-      coverImage: `/assets/images/blog-${(i % 6) + 1}.jpg`,
-      author: {
-        name: `Author ${i + 1}`,
-        avatar: `/assets/images/avatar-${(i % 4) + 1}.jpg`,
-      },
-      category: 'Technologies',
-      publishedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-    });
-  }
-  
-  return relatedPosts;
-}
-
 /**
  * 创建博客详情页面状态管理Store
  * 使用与blog-store相同的中间件配置，确保一致的开发体验
@@ -446,7 +301,7 @@ export const useBlogDetailStore = create<BlogDetailStoreState>()(
         shareState: DEFAULT_SHARE_STATE,
         
         // ========== 元数据初始化 ==========
-        dataSource: 'mock',
+        dataSource: 'api',
         lastUpdated: null,
         retryCount: 0,
         isInitialized: false,
@@ -481,11 +336,7 @@ export const useBlogDetailStore = create<BlogDetailStoreState>()(
             );
             
             try {
-              // 模拟网络请求延迟
-              await new Promise(resolve => setTimeout(resolve, 800));
-              
-              // 生成模拟数据
-              const postDetail = generateMockBlogDetail(slug);
+              const postDetail = await blogDetailService.getBlogBySlug(slug);
               
               set(
                 () => ({
@@ -544,11 +395,7 @@ export const useBlogDetailStore = create<BlogDetailStoreState>()(
             );
             
             try {
-              // 模拟网络请求延迟
-              await new Promise(resolve => setTimeout(resolve, 600));
-              
-              // 生成模拟相关文章数据
-              const relatedPosts = generateMockRelatedPosts(postId, finalConfig);
+              const relatedPosts = await blogDetailService.getRelatedPosts(postId, finalConfig);
               
               set(
                 () => ({
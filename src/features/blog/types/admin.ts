@@ -2,7 +2,7 @@
  * 博客后台管理相关类型定义
  */
 
-export const BLOG_POST_STATUSES = ["draft", "published", "archived"] as const;
+export const BLOG_POST_STATUSES = ["draft", "scheduled", "published", "archived"] as const;
 
 export type BlogPostStatus = typeof BLOG_POST_STATUSES[number];
 
@@ -40,3 +40,37 @@ export interface BlogPostListResult {
   total: number;
 }
 
+
+export interface BlogScheduledPublishResult {
+  publishedIds: string[];
+  checkedAt: string;
+}
+
+export type BlogPostRevisionReason = "create" | "update" | "restore" | "baseline";
+
+/**
+ * 文章历史版本：一次保存后的标题、摘要与正文快照
+ */
+export interface BlogPostRevision {
+  id: string;
+  postId: string;
+  title: string;
+  summary?: string | null;
+  content: string;
+  /** 保存该版本的管理员，基线版本为空 */
+  authorId?: string | null;
+  reason: BlogPostRevisionReason;
+  /** 恢复操作产生的版本，指向被恢复的版本 */
+  restoredFromId?: string | null;
+  createdAt: string;
+}
+
+export interface BlogPostRevisionListParams {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface BlogPostRevisionListResult {
+  items: BlogPostRevision[];
+  nextCursor: string | null;
+}
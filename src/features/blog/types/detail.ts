@@ -73,10 +73,16 @@ export interface BlogDetailData extends Omit<BlogCardData, 'author'> {
   
   /** 内容格式类型 */
   contentType: 'markdown' | 'html';
+
+  /** 服务端渲染并经白名单净化的正文 HTML，可直接输出 */
+  contentHtml?: string;
   
   /** 预估阅读时间（分钟） */
   readingTime: number;
   
+  /** 文章字数（中英文混合统计） */
+  wordCount?: number;
+  
   /** 文章标签数组 */
   tags: string[];
   
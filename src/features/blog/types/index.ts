@@ -51,9 +51,21 @@ export type {
   BlogPostListFilters,
   BlogPostListResult,
   BlogPostStatus,
+  BlogPostRevision,
+  BlogPostRevisionReason,
+  BlogPostRevisionListParams,
+  BlogPostRevisionListResult,
+  BlogScheduledPublishResult,
 } from './admin';
 export { BLOG_POST_STATUSES } from './admin';
 
+// 前台公开接口类型
+export type {
+  BlogPublicListParams,
+  BlogPublicListResult,
+  BlogPublicDetail,
+} from './public';
+
 /**
  * Author information interface
  */
@@ -0,0 +1,25 @@
+/**
+ * 博客前台公开接口类型定义
+ */
+
+import type { BlogCardData } from './index';
+import type { BlogDetailData } from './detail';
+
+export interface BlogPublicListParams {
+  query?: string;
+  tag?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface BlogPublicListResult {
+  items: BlogCardData[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface BlogPublicDetail {
+  post: BlogDetailData;
+  relatedPosts: BlogCardData[];
+}
@@ -15,6 +15,8 @@ export {
   generateKeywords,
   cleanHtmlForMeta,
   calculateWordCount,
+  estimateReadingTime,
+  READING_WORDS_PER_MINUTE,
   generateArticleUrl,
   generateAuthorUrl,
   validateSeoData,
@@ -24,6 +26,9 @@ export {
 // Slug 工具
 export { generateBlogSlug } from './slug';
 
+// 目录工具
+export { buildTableOfContents } from './tableOfContents';
+
 // 类型导出
 export type {
   OpenGraphData,
@@ -250,6 +250,17 @@ export function calculateWordCount(content: string): number {
   return chineseChars + englishWords;
 }
 
+/** 每分钟阅读字数，文章详情页与后台编辑器的预计阅读时间共用 */
+export const READING_WORDS_PER_MINUTE = 200;
+
+/**
+ * 预计阅读时间（分钟），至少 1 分钟
+ * @param wordCount - calculateWordCount 的结果
+ */
+export function estimateReadingTime(wordCount: number): number {
+  return Math.max(1, Math.ceil(wordCount / READING_WORDS_PER_MINUTE));
+}
+
 /**
  * 生成文章URL
  * @param slug - 文章slug
@@ -540,6 +551,7 @@ export const SeoUtils = {
   generateKeywords,
   cleanHtmlForMeta,
   calculateWordCount,
+  estimateReadingTime,
   generateArticleUrl,
   generateAuthorUrl,
   
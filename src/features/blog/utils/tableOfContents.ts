@@ -0,0 +1,30 @@
+import type { ContentHeading } from "@/lib/utils/markdown"
+
+import type { TableOfContentsItem } from "../types/detail"
+
+/**
+ * 将按出现顺序排列的标题大纲组装为嵌套目录
+ *
+ * 层级按相对关系嵌套：比前一项更深的标题挂到其下，跳级（h2 后直接 h4）同样视为下一级，
+ * 文章没有 h1/h2 时从最浅的层级开始。
+ */
+export function buildTableOfContents(headings: ContentHeading[]): TableOfContentsItem[] {
+  const root: TableOfContentsItem[] = []
+  const stack: TableOfContentsItem[] = []
+
+  for (const heading of headings) {
+    const item: TableOfContentsItem = { title: heading.text, level: heading.level, anchor: heading.id }
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop()
+    }
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.children = [...(parent.children ?? []), item]
+    } else {
+      root.push(item)
+    }
+    stack.push(item)
+  }
+
+  return root
+}
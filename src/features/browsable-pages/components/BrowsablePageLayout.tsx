@@ -50,6 +50,12 @@ export interface BrowsablePageLayoutProps {
   
   /** 标签点击回调 */
   onTagClick?: (tag: string) => void;
+  
+  /** 页面标题上方的页面专属内容（如分类面包屑） */
+  headerExtras?: React.ReactNode;
+  
+  /** 筛选栏下方的页面专属控件（如标签匹配方式切换） */
+  filterExtras?: React.ReactNode;
 }
 
 /**
@@ -299,6 +305,8 @@ const ContentArea = ({
   const isLoading = loading.page || loading.content;
   const isError = !!error.content;
   const pagination = data?.websites.pagination;
+  // 无限滚动按游标追加，页码分页保留给需要可索引页码的页面（如分类页）
+  const infiniteScroll = config.content.pagination.infiniteScroll;
   
   // 检查是否有侧边栏广告（需求5.6：合理分配空间比例）
   // 使用navigation.sidebar.enabled来判断是否采用侧边栏布局
@@ -336,8 +344,10 @@ const ContentArea = ({
           onVisitWebsite={(website) => onVisitWebsite?.(website.id)}
           onTagClick={onTagClick}
           hasMore={pagination?.hasNextPage || false}
-          isLoadingMore={loading.content}
-          onLoadMore={() => actions.goToNextPage()}
+          isLoadingMore={infiniteScroll ? loading.more : loading.content}
+          onLoadMore={infiniteScroll ? actions.loadMore : actions.goToNextPage}
+          infiniteScroll={infiniteScroll}
+          loadMoreError={error.more}
           className={cn(
             "page-fade-in",
             // 需求5.1: 桌面端使用3列网格布局，需求5.6: 有侧边栏时调整网格列数
@@ -345,8 +355,8 @@ const ContentArea = ({
           )}
         />
         
-        {/* 分页导航 - 条件性渲染：当enablePagination为true时显示 */}
-        {config.features.enablePagination && pagination && (
+        {/* 分页导航 - 条件性渲染：enablePagination为true且未启用无限滚动时显示 */}
+        {config.features.enablePagination && !infiniteScroll && pagination && (
           <div className="mt-6">
             <Pagination
               currentPage={pagination.currentPage}
@@ -420,6 +430,8 @@ export function BrowsablePageLayout({
   className,
   onVisitWebsite,
   onTagClick,
+  headerExtras,
+  filterExtras,
 }: BrowsablePageLayoutProps) {
   const { 
     data, 
@@ -529,6 +541,8 @@ export function BrowsablePageLayout({
       {/* 主要内容区域 */}
       <main className="flex-1">
         <LayoutContainer className="space-y-8">
+          {headerExtras}
+          
           {/* 页面标题区域 */}
           {config.hero.enabled && (
             <PageHeader {...pageHeaderProps} />
@@ -542,6 +556,10 @@ export function BrowsablePageLayout({
               isLoading={loading.page || loading.filters} 
             />
             
+            {filterExtras && (
+              <div className="mb-8">{filterExtras}</div>
+            )}
+            
             {/* 内容展示区域 */}
             <ContentArea
               config={config}
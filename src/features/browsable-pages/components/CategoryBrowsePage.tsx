@@ -18,11 +18,16 @@
 
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 
 // 导入布局组件
 import { BrowsablePageLayout } from './BrowsablePageLayout';
 import type { BrowsablePageConfig } from '../types';
+import { useBrowsablePageStore } from '../stores/browsable-page-store';
+import { BreadcrumbNavigation } from '@/features/websites/components/BreadcrumbNavigation';
+import { buildCategoryPath } from '@/features/categories/utils/path';
 
 // 导入类型
 
@@ -214,6 +219,17 @@ function createCategoryPageConfig(): BrowsablePageConfig {
   };
 }
 
+/**
+ * 服务端解析出的分类信息
+ */
+export interface CategoryRouteItem {
+  id: string;
+  name: string;
+  slug: string;
+  /** 网站数量，包含子分类 */
+  websiteCount?: number;
+}
+
 /**
  * 分类浏览页面属性接口
  */
@@ -221,6 +237,12 @@ export interface CategoryBrowsePageProps {
   /** 当前选中的分类slug */
   selectedCategory?: string;
   
+  /** 根分类到当前分类的路径，来自 /category/[...slugPath] */
+  categoryPath?: CategoryRouteItem[];
+  
+  /** 当前分类下启用中的直接子分类 */
+  subcategories?: CategoryRouteItem[];
+  
   /** 自定义CSS类名 */
   className?: string;
   
@@ -305,6 +327,36 @@ const _CategoryLoadingState = () => (
   </div>
 );
 
+/**
+ * 子分类列表，链接到各子分类的规范路径
+ */
+const SubcategoryList = ({
+  parentSlugs,
+  items,
+}: {
+  parentSlugs: string[];
+  items: CategoryRouteItem[];
+}) => (
+  <nav aria-label="子分类">
+    <h2 className="text-sm font-medium text-muted-foreground mb-3">子分类</h2>
+    <ul className="flex flex-wrap gap-2">
+      {items.map((item) => (
+        <li key={item.id}>
+          <Link
+            href={buildCategoryPath([...parentSlugs, item.slug])}
+            className="inline-flex items-center gap-2 rounded-full border border-border bg-card px-4 py-1.5 text-sm transition-colors hover:border-primary/50 hover:text-primary"
+          >
+            {item.name}
+            {item.websiteCount !== undefined && (
+              <span className="text-xs text-muted-foreground">{item.websiteCount}</span>
+            )}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  </nav>
+);
+
 /**
  * 分类浏览页面主组件
  * 
@@ -316,6 +368,8 @@ const _CategoryLoadingState = () => (
  */
 export function CategoryBrowsePage({
   selectedCategory: _selectedCategory,
+  categoryPath,
+  subcategories,
   className,
   onVisitWebsite,
   onTagClick,
@@ -323,6 +377,46 @@ export function CategoryBrowsePage({
   onError,
   onLoadingChange: _onLoadingChange,
 }: CategoryBrowsePageProps) {
+  const router = useRouter();
+  const current = categoryPath?.length ? categoryPath[categoryPath.length - 1] : undefined;
+  const currentId = current?.id ?? null;
+  const pathSlugs = useMemo(() => (categoryPath ?? []).map((item) => item.slug), [categoryPath]);
+
+  // 路由中的分类在布局首次加载前写入 store（API 按分类 ID 筛选），/category 首页则清除残留的分类；
+  // 标记未初始化，由布局按新条件重新加载
+  useLayoutEffect(() => {
+    if (useBrowsablePageStore.getState().filters.categoryId === currentId) return;
+
+    useBrowsablePageStore.setState((state) => ({
+      filters: { ...state.filters, categoryId: currentId, currentPage: 1 },
+      meta: { ...state.meta, isInitialized: false },
+    }));
+  }, [currentId]);
+
+  // 页面内切换分类时跳转到对应分类路径，由服务端补全父级并重定向到规范路径
+  useEffect(() => {
+    return useBrowsablePageStore.subscribe((state, prev) => {
+      const nextId = state.filters.categoryId;
+      if (nextId === prev.filters.categoryId || nextId === currentId) return;
+
+      if (!nextId) {
+        router.push(buildCategoryPath([]));
+        return;
+      }
+      // 找不到 slug 时以 ID 访问，服务端兼容解析
+      const next = state.data?.filterOptions.categories.find((item) => item.id === nextId);
+      router.push(buildCategoryPath([next?.slug ?? nextId]));
+    });
+  }, [currentId, router]);
+
+  const breadcrumbs = categoryPath?.length ? (
+    <BreadcrumbNavigation categoryPath={categoryPath} className="-mb-4" />
+  ) : null;
+
+  const subcategoryList = subcategories?.length ? (
+    <SubcategoryList parentSlugs={pathSlugs} items={subcategories} />
+  ) : null;
+
   // 生成页面配置
   const pageConfig = useMemo(() => {
     try {
@@ -351,9 +445,11 @@ export function CategoryBrowsePage({
     <div className={className}>
       <BrowsablePageLayout
         config={pageConfig}
-        entitySlug={_selectedCategory || 'development'}
+        entitySlug={pathSlugs.length > 0 ? pathSlugs.join('/') : _selectedCategory || 'development'}
         onVisitWebsite={onVisitWebsite}
         onTagClick={onTagClick}
+        headerExtras={breadcrumbs}
+        filterExtras={subcategoryList}
       />
     </div>
   );
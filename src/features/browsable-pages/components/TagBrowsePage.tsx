@@ -18,11 +18,16 @@
 
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
 
 // 导入布局组件
 import { BrowsablePageLayout } from './BrowsablePageLayout';
 import type { BrowsablePageConfig } from '../types';
+import { useBrowsablePageFilters, useBrowsablePageStore } from '../stores/browsable-page-store';
+import { buildTagPath } from '../utils/url-params';
+import { TagModeToggle } from '@/features/websites/components/TagModeToggle';
+import type { TagMode } from '@/features/websites/types/filters';
 
 // 导入React基础功能
 
@@ -232,6 +237,9 @@ export interface TagBrowsePageProps {
   /** 单标签模式的标签slug（向后兼容） */
   selectedTag?: string;
   
+  /** 多标签匹配方式，来自 /tag/[slug]?tagMode=any */
+  tagMode?: TagMode;
+  
   /** 自定义CSS类名 */
   className?: string;
   
@@ -334,6 +342,7 @@ const _TagLoadingState = () => (
 export function TagBrowsePage({
   selectedTags,
   selectedTag,
+  tagMode: routeTagMode = 'all',
   className,
   onVisitWebsite,
   onTagClick,
@@ -354,6 +363,46 @@ export function TagBrowsePage({
     return [];
   }, [selectedTags, selectedTag]);
 
+  const router = useRouter();
+
+  // 路由中的标签在布局首次加载前写入 store；标记未初始化，由布局按新条件重新加载
+  useLayoutEffect(() => {
+    if (tagSlugs.length === 0) return;
+
+    const { filters } = useBrowsablePageStore.getState();
+    if (isSameSlugs(filters.selectedTags ?? [], tagSlugs) && filters.tagMode === routeTagMode) return;
+
+    useBrowsablePageStore.setState((state) => ({
+      filters: { ...state.filters, selectedTags: tagSlugs, tagMode: routeTagMode, currentPage: 1 },
+      meta: { ...state.meta, isInitialized: false },
+    }));
+  }, [tagSlugs, routeTagMode]);
+
+  // 页面内切换标签或匹配方式时跳转到对应的规范路径，保持链接可分享
+  useEffect(() => {
+    if (tagSlugs.length === 0) return;
+
+    return useBrowsablePageStore.subscribe((state, prev) => {
+      const nextTags = state.filters.selectedTags ?? [];
+      const nextMode = state.filters.tagMode ?? 'all';
+      if (nextTags === prev.filters.selectedTags && nextMode === prev.filters.tagMode) return;
+      if (isSameSlugs(nextTags, tagSlugs) && nextMode === routeTagMode) return;
+
+      const path = buildTagPath(nextTags, nextMode);
+      if (isSameSlugs(nextTags, tagSlugs)) {
+        router.replace(path, { scroll: false });
+      } else {
+        router.push(path);
+      }
+    });
+  }, [tagSlugs, routeTagMode, router]);
+
+  // 多标签时可切换"全部匹配/任一匹配"，状态经 store 同步到 URL 的 tagMode 参数
+  const { selectedTags: activeTags, tagMode, setTagMode } = useBrowsablePageFilters();
+  const tagModeToggle = activeTags.length > 1 || tagSlugs.length > 1 ? (
+    <TagModeToggle value={tagMode} onChange={setTagMode} className="max-w-xs" />
+  ) : null;
+
   // 生成页面配置
   const pageConfig = useMemo(() => {
     try {
@@ -382,14 +431,19 @@ export function TagBrowsePage({
     <div className={className}>
       <BrowsablePageLayout
         config={pageConfig}
-        entitySlug={tagSlugs.length === 1 ? tagSlugs[0] : 'all-tags'}
+        entitySlug={tagSlugs.length > 0 ? tagSlugs.join('+') : 'all-tags'}
         onVisitWebsite={onVisitWebsite}
         onTagClick={onTagClick}
+        filterExtras={tagModeToggle}
       />
     </div>
   );
 }
 
+function isSameSlugs(a: string[], b: string[]) {
+  return a.length === b.length && a.every((slug, index) => slug === b[index]);
+}
+
 /**
  * 简化的标签浏览页面组件
  * 
@@ -14,9 +14,17 @@
  * - 提供防抖处理和性能优化
  */
 
-import { useCallback, useEffect, useRef, useMemo } from 'react';
+import { useCallback, useEffect, useRef, useMemo, useState } from 'react';
 import { useDebouncedCallback } from 'use-debounce';
-import { useBrowsablePageStore, useBrowsablePageUrlSync, useBrowsablePageFilters, useBrowsablePagePagination } from '../stores/browsable-page-store';
+import {
+  toWebsiteCardData,
+  useBrowsablePageStore,
+  useBrowsablePageUrlSync,
+  useBrowsablePageFilters,
+  useBrowsablePagePagination,
+  type ApiResolvedTag,
+} from '../stores/browsable-page-store';
+import { buildTagPath } from '../utils/url-params';
 import type { 
   BrowsablePageData, 
   BrowsablePageConfig,
@@ -25,6 +33,7 @@ import type {
 } from '../types';
 import type { FilterState, SortField, SortOrder } from '@/features/websites/types/filters';
 import type { WebsiteCardData } from '@/features/websites/types/website';
+import { isWebsiteListSortField, type WebsiteFacetBucket } from '@/lib/validations/websites';
 
 /**
  * 标签网站筛选配置接口
@@ -129,6 +138,8 @@ export interface TagWebsitesState {
   isInitialized: boolean;
   /** 错误信息 */
   error?: string;
+  /** 标签不存在或已停用 */
+  notFound: boolean;
   /** 上次更新时间 */
   lastUpdated?: string;
   /** 数据来源 */
@@ -242,9 +253,21 @@ class TagDataCache {
 const tagCache = new TagDataCache();
 
 /**
- * 模拟标签网站数据API调用
- * 支持多标签同时筛选的智能查询逻辑
- * 实际实现中应调用真实的标签API服务
+ * 标签不存在或已停用（API 返回 404），不应重试
+ */
+export class TagNotFoundError extends Error {
+  constructor(message = '标签不存在或已停用') {
+    super(message);
+    this.name = 'TagNotFoundError';
+  }
+}
+
+/** 相关标签最多展示数量 */
+const MAX_RELATED_TAGS = 8;
+
+/**
+ * 获取标签网站数据
+ * 标签 slug 由 /api/websites 在服务端解析为 ID，任一标签不存在或已停用时返回 404
  */
 async function fetchTagWebsites(
   tagSlugs: string[],
@@ -262,110 +285,124 @@ async function fetchTagWebsites(
       return { ...cachedData, dataSource: 'cache' } as BrowsablePageData<TagMetadata>;
     }
   }
-  
-  // 模拟网络延迟
-  await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 200));
-  
-  // 模拟可能的网络错误
-  if (Math.random() < 0.1) { // 10%几率失败
-    throw new Error('Failed to fetch tag websites');
+
+  const currentPage = filters.currentPage || 1;
+  const itemsPerPage = filters.itemsPerPage || 12;
+  const apiParams = new URLSearchParams({
+    page: currentPage.toString(),
+    pageSize: itemsPerPage.toString(),
+    tags: tagSlugs.join(','),
+    tagMode: filters.tagMode || 'all',
+    facets: 'tag',
+  });
+  if (filters.search) {
+    apiParams.set('q', filters.search);
   }
-  
-  // 构建主标签信息（第一个标签）
-  const primaryTagSlug = tagSlugs[0];
-  const entityData = {
-    id: primaryTagSlug,
-    name: `#${primaryTagSlug}`,
-    slug: primaryTagSlug,
-    description: tagSlugs.length === 1 
-      ? `Websites tagged with ${primaryTagSlug}`
-      : `Websites tagged with ${tagSlugs.map(tag => `#${tag}`).join(', ')}`,
-    color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
-    stats: {
-      websiteCount: Math.floor(Math.random() * 150) + 30,
-      createdAt: '2024-01-01T00:00:00Z',
-      updatedAt: new Date().toISOString(),
-      additional: {
-        tagCombinations: tagSlugs.length > 1 ? tagSlugs.length : 1,
-        relatedTags: Math.floor(Math.random() * 12) + 8,
+  if (filters.categoryId) {
+    apiParams.set('category', filters.categoryId);
+  }
+  if (filters.includeAds === false) {
+    apiParams.set('includeAds', 'false');
+  }
+  if (isWebsiteListSortField(filters.sortBy)) {
+    apiParams.set('sortBy', filters.sortBy);
+    if (filters.sortOrder) {
+      apiParams.set('sortOrder', filters.sortOrder);
+    }
+  }
+
+  const response = await fetch(`/api/websites?${apiParams.toString()}`);
+  const result = await response.json().catch(() => null);
+
+  if (response.status === 404) {
+    throw new TagNotFoundError(result?.message);
+  }
+  if (!response.ok || !result || result.code !== 0) {
+    throw new Error(result?.message || `API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const resolvedTags: ApiResolvedTag[] = Array.isArray(result.meta?.tags) ? result.meta.tags : [];
+  if (resolvedTags.length === 0) {
+    throw new TagNotFoundError();
+  }
+
+  const tagFacet: WebsiteFacetBucket[] = result.meta?.facets?.tag ?? [];
+  const facetCounts = new Map(tagFacet.map((tag) => [tag.id, tag.website_count]));
+  const selectedIds = new Set(resolvedTags.map((tag) => tag.id));
+  const resolvedSlugs = resolvedTags.map((tag) => tag.slug);
+  const tagNames = resolvedTags.map((tag) => tag.name);
+  const primaryTag = resolvedTags[0];
+
+  const totalCount = result.meta?.total || 0;
+  const totalPages = result.meta?.total_pages || Math.ceil(totalCount / itemsPerPage);
+  const tagPath = buildTagPath(resolvedSlugs, filters.tagMode);
+
+  const tagData: BrowsablePageData<TagMetadata> = {
+    entity: {
+      id: primaryTag.id,
+      name: tagNames.map((name) => `#${name}`).join(' + '),
+      slug: resolvedSlugs.join('+'),
+      description: `浏览带有"${tagNames.join('、')}"标签的优质网站资源。`,
+      color: primaryTag.color ?? undefined,
+      stats: {
+        websiteCount: totalCount,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: new Date().toISOString(),
+        additional: {
+          tagCombinations: resolvedTags.length,
+        },
+      },
+      metadata: {
+        usageCount: facetCounts.get(primaryTag.id) ?? totalCount,
+        trending: false,
       },
     },
-    metadata: {
-      usageCount: Math.floor(Math.random() * 500) + 100,
-      trending: Math.random() > 0.7,
-      group: Math.random() > 0.6 ? 'technology' : undefined,
-    },
-  };
-  
-  // 构建完整的标签数据
-  const tagData: BrowsablePageData<TagMetadata> = {
-    entity: entityData,
     websites: {
-      // 多标签筛选会减少结果数量
-      items: Array.from({ length: Math.max(4, Math.floor((filters.itemsPerPage || 12) * (1 - (tagSlugs.length - 1) * 0.2))) }, (_, index) => ({
-        id: `website-tags-${tagSlugs.join('-')}-${index}`,
-        title: `${tagSlugs.map(tag => tag.charAt(0).toUpperCase() + tag.slice(1)).join(' & ')} Website ${index + 1}`,
-        description: `A website about ${tagSlugs.join(', ')} - example description for website ${index + 1}`,
-        url: `https://${tagSlugs[0]}-example${index + 1}.com`,
-        image_url: `/assets/screenshots/tags-${index % 5 + 1}.jpg`,
-        favicon_url: `/assets/favicons/tags-${index % 5 + 1}.ico`,
-        category: 'general',
-        tags: [...tagSlugs, 'web', 'resource'],
-        rating: Math.random() * 5,
-        visit_count: Math.floor(Math.random() * 800) + 150,
-        is_featured: Math.random() > 0.8,
-        isAd: Math.random() > 0.7,
-        created_at: new Date(Date.now() - Math.random() * 90 * 24 * 60 * 60 * 1000).toISOString(),
-        updated_at: new Date().toISOString(),
-      })),
-      totalCount: Math.floor(Math.random() * 150) + 30,
+      items: (result.data || []).map(toWebsiteCardData),
+      totalCount,
       pagination: {
-        currentPage: filters.currentPage || 1,
-        itemsPerPage: filters.itemsPerPage || 12,
-        totalPages: Math.ceil((Math.floor(Math.random() * 150) + 30) / (filters.itemsPerPage || 12)),
-        hasNextPage: (filters.currentPage || 1) < Math.ceil((Math.floor(Math.random() * 150) + 30) / (filters.itemsPerPage || 12)),
-        hasPrevPage: (filters.currentPage || 1) > 1,
+        currentPage,
+        itemsPerPage,
+        totalPages,
+        hasNextPage: result.meta?.has_more || false,
+        hasPrevPage: currentPage > 1,
       },
     },
     filterOptions: {
-      categories: Array.from({ length: 8 }, (_, index) => ({
-        id: `category-${index}`,
-        name: `Category ${index + 1}`,
-        slug: `category-${index}`,
-        websiteCount: Math.floor(Math.random() * 45) + 10,
-      })),
-      tags: Array.from({ length: 20 }, (_, index) => ({
-        id: `tag-${index}`,
-        name: `tag${index + 1}`,
-        slug: `tag-${index}`,
-        websiteCount: Math.floor(Math.random() * 25) + 5,
-        color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
+      categories: [],
+      tags: tagFacet.map((tag) => ({
+        id: tag.slug,
+        name: tag.name,
+        slug: tag.slug,
+        websiteCount: tag.website_count,
+        color: tag.color,
       })),
     },
     related: {
-      similar: Array.from({ length: 8 }, (_, index) => ({
-        id: `related-tag-${index}`,
-        name: `#related${index + 1}`,
-        slug: `related-tag-${index}`,
-        type: 'tag' as const,
-        websiteCount: Math.floor(Math.random() * 35) + 12,
-      })),
+      // 当前结果中共同出现最多的其他标签
+      similar: tagFacet
+        .filter((tag) => !selectedIds.has(tag.id))
+        .slice(0, MAX_RELATED_TAGS)
+        .map((tag) => ({
+          id: tag.id,
+          name: tag.name,
+          slug: tag.slug,
+          type: 'tag' as const,
+          websiteCount: tag.website_count,
+        })),
     },
     breadcrumbs: [
       { label: 'Home', href: '/', current: false },
-      { label: 'Tags', href: '/tags', current: false },
-      ...(tagSlugs.length === 1 
-        ? [{ label: `#${tagSlugs[0]}`, href: `/tag/${tagSlugs[0]}`, current: true }]
-        : [{ label: `${tagSlugs.map(tag => `#${tag}`).join(' + ')}`, href: `/tags?tags=${tagSlugs.join(',')}`, current: true }]
-      ),
+      { label: 'Tags', href: '/tag', current: false },
+      { label: tagNames.map((name) => `#${name}`).join(' + '), href: tagPath, current: true },
     ],
   };
-  
+
   // 缓存数据
   if (config.enableCaching) {
     tagCache.set(tagSlugs, tagData, filters);
   }
-  
+
   return tagData;
 }
 
@@ -390,6 +427,7 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
   const retryCountRef = useRef<number>(0);
   const autoRefreshTimerRef = useRef<NodeJS.Timeout | null>(null);
   const currentTagSlugsRef = useRef<string[]>(finalConfig.tagSlugs || []);
+  const [notFound, setNotFound] = useState(false);
   
   // 从store获取相关状态
   const {
@@ -510,21 +548,23 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
     setLoading('page', true);
     setLoading('content', true);
     clearError();
+    setNotFound(false);
     
     try {
       // 调用标签数据API
-      const tagData = await fetchTagWebsites(targetSlugs, store.filters, finalConfig);
+      const tagData = await fetchTagWebsites(targetSlugs, useBrowsablePageStore.getState().filters, finalConfig);
       
       // 更新store数据
-      // 注意：这里直接修改store.data，实际应该通过store的action方法
-      store.data = tagData;
-      store.meta = {
-        ...store.meta,
-        lastUpdated: new Date().toISOString(),
-        dataSource: 'api',
-        retryCount: 0,
-        isInitialized: true,
-      };
+      useBrowsablePageStore.setState((current) => ({
+        data: tagData,
+        meta: {
+          ...current.meta,
+          lastUpdated: new Date().toISOString(),
+          dataSource: 'api',
+          retryCount: 0,
+          isInitialized: true,
+        },
+      }));
       
       // 重置重试计数
       retryCountRef.current = 0;
@@ -542,6 +582,12 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
       
       const errorMessage = error instanceof Error ? error.message : 'Failed to load tag data';
       setError('page', errorMessage);
+
+      // 标签不存在或已停用时重试没有意义
+      if (error instanceof TagNotFoundError) {
+        setNotFound(true);
+        return;
+      }
       
       // 增加重试计数
       retryCountRef.current++;
@@ -562,7 +608,7 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
       setLoading('content', false);
       isLoadingRef.current = false;
     }
-  }, [store, finalConfig, setLoading, setError, clearError]);
+  }, [finalConfig, setLoading, setError, clearError]);
 
   /**
    * 防抖的数据获取函数
@@ -746,6 +792,20 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
     };
   }, [debouncedFetchData, clearAutoRefresh]);
 
+  // 传入标签 slug 时自动加载；同一组标签只加载一次
+  const configSlugsKey = (finalConfig.tagSlugs.length ? finalConfig.tagSlugs : [finalConfig.tagSlug])
+    .filter(Boolean)
+    .join(',');
+  const loadedSlugsKeyRef = useRef<string>('');
+  useEffect(() => {
+    if (!configSlugsKey || loadedSlugsKeyRef.current === configSlugsKey) return;
+    loadedSlugsKeyRef.current = configSlugsKey;
+
+    const slugs = configSlugsKey.split(',');
+    currentTagSlugsRef.current = slugs;
+    executeDataFetch(slugs);
+  }, [configSlugsKey, executeDataFetch]);
+
   // 监听筛选变更
   useEffect(() => {
     if (meta.isInitialized && currentTagSlugsRef.current.length) {
@@ -754,6 +814,7 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
   }, [
     filters.search,
     filters.categoryId,
+    filters.tagMode,
     filters.sortBy,
     filters.sortOrder,
     filters.featuredOnly,
@@ -767,18 +828,17 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
 
   // 构建标签网站状态
   const tagWebsitesState: TagWebsitesState = useMemo(() => {
-    const activeTags = currentTagSlugsRef.current.map((slug) => ({
-      id: `tag-${slug}`,
-      name: `#${slug}`,
-      slug: slug,
-      color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
-      websiteCount: Math.floor(Math.random() * 100) + 20,
-      metadata: {
-        usageCount: Math.floor(Math.random() * 300) + 50,
-        trending: Math.random() > 0.7,
-        group: Math.random() > 0.6 ? 'technology' : undefined,
-      } as TagMetadata,
-    }));
+    // 标签详情取自分面统计；当前结果中没有出现的标签只保留 slug
+    const activeTags = currentTagSlugsRef.current.map((slug) => {
+      const option = data?.filterOptions.tags.find((tag) => tag.slug === slug);
+      return {
+        id: option?.id ?? slug,
+        name: option ? `#${option.name}` : `#${slug}`,
+        slug,
+        color: option?.color,
+        websiteCount: option?.websiteCount ?? 0,
+      };
+    });
 
     return {
       primaryTag: data?.entity ? {
@@ -797,20 +857,14 @@ export function useTagWebsites(config: TagWebsitesConfig = {}) {
       filterOptions: data?.filterOptions,
       breadcrumbs: data?.breadcrumbs || [],
       relatedTags: data?.related?.similar,
-      tagCombinationStats: currentTagSlugsRef.current.length > 1 ? {
-        totalCombinations: Math.floor(Math.random() * 20) + 5,
-        mostUsedCombinations: Array.from({ length: 3 }, (_, index) => ({
-          tags: [...currentTagSlugsRef.current.slice(0, 2), `related${index + 1}`],
-          count: Math.floor(Math.random() * 50) + 10,
-        })),
-      } : undefined,
       isLoading: loading.page || loading.content,
       isInitialized: meta.isInitialized,
       error: error.page || error.content,
+      notFound,
       lastUpdated: meta.lastUpdated || undefined,
       dataSource: meta.dataSource,
     };
-  }, [data, loading, meta, error]);
+  }, [data, loading, meta, error, notFound]);
 
   // 构建标签网站操作
   const tagWebsitesActions: TagWebsitesActions = useMemo(() => ({
@@ -131,6 +131,8 @@ export {
   getDefaultParams,
   filterParamsToUrlParams,
   recoverFromParsingError,
+  parseTagPathSegment,
+  buildTagPath,
 } from './utils';
 
 export type {
@@ -26,8 +26,10 @@ import {
   FilterParams,
   DEFAULT_PAGE_CONFIG
 } from '../types';
-import { SortField, SortOrder } from '@/features/websites/types/filters';
+import { buildTagPath, parseTagModeParam } from '../utils/url-params';
+import { SortField, SortOrder, TagMode } from '@/features/websites/types/filters';
 import type { WebsiteCardData } from '@/features/websites/types';
+import { isWebsiteListSortField, type WebsiteFacetBucket } from '@/lib/validations/websites';
 // TODO: 迁移到使用真实 API 调用
 // import { mockWebsites } from '@/features/websites/data/mockWebsites';
 
@@ -45,6 +47,7 @@ export const browsablePageParamsParsers = {
   // 筛选参数
   category: parseAsString,
   tags: parseAsString,         // 逗号分隔的标签
+  tagMode: parseAsString,      // 'all' | 'any'
   
   // 排序参数
   sort: parseAsString,
@@ -76,20 +79,51 @@ interface SimpleCategoryNode {
 /**
  * API 返回的网站数据项类型
  */
-interface ApiWebsiteItem {
+export interface ApiWebsiteItem {
   id: string | number;
   title: string;
-  description: string;
+  description?: string;
   url: string;
-  favicon?: string;
+  favicon_url?: string;
+  screenshot_url?: string;
   category?: string;
   tags?: string[];
-  rating?: number;
-  visitCount?: number;
   isAd?: boolean;
-  isFeatured?: boolean;
-  createdAt: string;
-  updatedAt: string;
+  adType?: WebsiteCardData['adType'];
+  visit_count?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * API meta.tags 中服务端解析出的标签
+ */
+export interface ApiResolvedTag {
+  id: string;
+  name: string;
+  slug: string;
+  color?: string | null;
+}
+
+/**
+ * 转换 API 网站数据为 WebsiteCardData 格式
+ */
+export function toWebsiteCardData(item: ApiWebsiteItem): WebsiteCardData {
+  return {
+    id: item.id.toString(),
+    title: item.title,
+    description: item.description,
+    url: item.url,
+    favicon_url: item.favicon_url,
+    image_url: item.screenshot_url,
+    category: item.category,
+    tags: item.tags || [],
+    isAd: item.isAd || false,
+    adType: item.adType,
+    visit_count: item.visit_count,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+  };
 }
 
 /**
@@ -129,6 +163,39 @@ function extractCategoriesFromTree(tree: SimpleCategoryNode[]): Array<{
   return categories;
 }
 
+/**
+ * 由当前筛选条件构建 /api/websites 查询参数，分页参数（page 或 cursor）由调用方追加
+ */
+function buildWebsiteListParams(state: BrowsablePageStoreState): URLSearchParams {
+  const apiParams = new URLSearchParams({
+    pageSize: (state.filters.itemsPerPage || 12).toString(),
+  });
+
+  // 添加筛选参数
+  if (state.filters.search) {
+    apiParams.set('q', state.filters.search);
+  }
+  if (state.filters.categoryId) {
+    apiParams.set('category', state.filters.categoryId);
+  }
+  // selectedTags 为标签 slug，由 API 解析为 ID
+  if (state.filters.selectedTags && state.filters.selectedTags.length > 0) {
+    apiParams.set('tags', state.filters.selectedTags.join(','));
+    apiParams.set('tagMode', state.filters.tagMode || 'all');
+  }
+  if (state.config.filters.tagEnabled) {
+    apiParams.set('facets', 'tag');
+  }
+  if (isWebsiteListSortField(state.filters.sortBy)) {
+    apiParams.set('sortBy', state.filters.sortBy);
+    if (state.filters.sortOrder) {
+      apiParams.set('sortOrder', state.filters.sortOrder);
+    }
+  }
+
+  return apiParams;
+}
+
 /**
  * 扩展的浏览页面状态接口
  * 继承BrowsablePageState基础结构，扩展操作方法和元数据
@@ -161,12 +228,15 @@ export interface BrowsablePageStoreState extends BrowsablePageState {
     // 数据加载方法
     loadData: (entitySlug?: string) => Promise<void>;
     refreshData: () => Promise<void>;
+    /** 无限滚动：按游标追加下一批网站 */
+    loadMore: () => Promise<void>;
     
     // 筛选方法
     updateFilters: (updates: Partial<FilterParams>) => void;
     setSearch: (query: string) => void;
     setCategory: (categoryId: string | null) => void;
     setTags: (tags: string[]) => void;
+    setTagMode: (mode: TagMode) => void;
     setSorting: (field: SortField, order: SortOrder) => void;
     clearFilters: () => void;
     
@@ -218,6 +288,7 @@ const DEFAULT_FILTERS: FilterParams = {
   search: '',
   categoryId: null,
   selectedTags: [],
+  tagMode: 'all',
   sortBy: 'created_at',
   sortOrder: 'desc',
   featuredOnly: false,
@@ -235,6 +306,7 @@ const DEFAULT_LOADING = {
   page: false,
   content: false,
   filters: false,
+  more: false,
 };
 
 /**
@@ -244,6 +316,7 @@ const DEFAULT_ERROR = {
   page: undefined,
   content: undefined,
   filters: undefined,
+  more: undefined,
 };
 
 /**
@@ -329,7 +402,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
             set(
               (current) => ({
                 loading: { ...current.loading, page: true, content: true },
-                error: { ...current.error, page: undefined, content: undefined },
+                error: { ...current.error, page: undefined, content: undefined, more: undefined },
               }),
               false,
               'loadData:start'
@@ -337,58 +410,42 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
             
             try {
               const pageType = state.config.pageType;
-              const currentPage = state.filters.currentPage || 1;
+              const infiniteScroll = state.config.content.pagination.infiniteScroll;
+              // 无限滚动从第一批开始，后续批次由 loadMore 按游标追加
+              const currentPage = infiniteScroll ? 1 : state.filters.currentPage || 1;
               const itemsPerPage = state.filters.itemsPerPage || 12;
               
               // 构建 API 查询参数
-              const apiParams = new URLSearchParams({
-                page: currentPage.toString(),
-                pageSize: itemsPerPage.toString(),
-              });
-
-              // 添加筛选参数
-              if (state.filters.search) {
-                apiParams.set('q', state.filters.search);
-              }
-              if (state.filters.categoryId) {
-                apiParams.set('category', state.filters.categoryId);
-              }
-              if (state.filters.sortBy) {
-                apiParams.set('sort', state.filters.sortBy);
-              }
-              if (state.filters.sortOrder) {
-                apiParams.set('order', state.filters.sortOrder);
+              const apiParams = buildWebsiteListParams(state);
+              if (infiniteScroll) {
+                apiParams.set('cursor', '');
+              } else {
+                apiParams.set('page', currentPage.toString());
               }
-              
+
               // 调用真实 API
               const response = await fetch(`/api/websites?${apiParams.toString()}`);
               
+              // 标签不存在或已停用时 API 返回 404，直接展示服务端消息
+              if (response.status === 404) {
+                const notFound = await response.json().catch(() => null);
+                throw new Error(notFound?.message || '标签不存在或已停用');
+              }
+
               if (!response.ok) {
                 throw new Error(`API request failed: ${response.status} ${response.statusText}`);
               }
               
               const result = await response.json();
+              const resolvedTags: ApiResolvedTag[] = Array.isArray(result.meta?.tags) ? result.meta.tags : [];
+              const tagFacet: WebsiteFacetBucket[] | undefined = result.meta?.facets?.tag;
               
               if (result.code !== 0) {
                 throw new Error(result.message || 'API 返回错误');
               }
 
               // 转换 API 响应为 WebsiteCardData 格式
-              const websites: WebsiteCardData[] = (result.data || []).map((item: ApiWebsiteItem) => ({
-                id: item.id.toString(),
-                title: item.title,
-                description: item.description,
-                url: item.url,
-                favicon: item.favicon,
-                category: item.category,
-                tags: item.tags || [],
-                rating: item.rating,
-                visitCount: item.visitCount,
-                isAd: item.isAd || false,
-                isFeatured: item.isFeatured || false,
-                createdAt: item.createdAt,
-                updatedAt: item.updatedAt,
-              }));
+              const websites: WebsiteCardData[] = (result.data || []).map(toWebsiteCardData);
 
               // 获取分类列表用于筛选选项
               const categoriesResponse = await fetch('/api/categories');
@@ -430,11 +487,15 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
                   },
                 };
               } else if (pageType === 'category') {
-                const categoryName = state.filters.categoryId || 'All Categories';
+                // categoryId 为分类 ID，名称和 slug 从分类列表中查找
+                const currentCategory = state.filters.categoryId
+                  ? allCategories.find((category) => category.id === state.filters.categoryId)
+                  : undefined;
+                const categoryName = currentCategory?.name || state.filters.categoryId || 'All Categories';
                 entityData = {
                   id: state.filters.categoryId || 'all-categories',
                   name: categoryName === 'all-categories' ? 'Explore by categories' : categoryName,
-                  slug: state.filters.categoryId || 'all-categories',
+                  slug: currentCategory?.slug || state.filters.categoryId || 'all-categories',
                   description: state.filters.categoryId 
                     ? `浏览${categoryName}分类下的优质网站资源，发现该领域专业的工具和服务。`
                     : 'Browse and discover websites organized by categories. WebVault为您提供按分类整理的优质网站资源。',
@@ -444,6 +505,20 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
                     updatedAt: new Date().toISOString(),
                   },
                 };
+              } else if (pageType === 'tag' && resolvedTags.length > 0) {
+                const tagNames = resolvedTags.map((tag) => tag.name);
+                entityData = {
+                  id: resolvedTags.map((tag) => tag.id).join(','),
+                  name: tagNames.map((name) => `#${name}`).join(' + '),
+                  slug: resolvedTags.map((tag) => tag.slug).join('+'),
+                  description: `浏览带有"${tagNames.join('、')}"标签的优质网站资源。`,
+                  color: resolvedTags[0].color ?? undefined,
+                  stats: {
+                    websiteCount: result.meta?.total || 0,
+                    createdAt: '2024-01-01T00:00:00Z',
+                    updatedAt: new Date().toISOString(),
+                  },
+                };
               } else if (pageType === 'tag') {
                 entityData = {
                   id: 'all-tags',
@@ -472,22 +547,42 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
                     totalPages,
                     hasNextPage: result.meta?.has_more || false,
                     hasPrevPage: currentPage > 1,
+                    nextCursor: result.meta?.next_cursor ?? null,
                   },
                 },
                 filterOptions: {
                   categories: allCategories,
-                  tags: allTags.map(tag => ({
-                    id: tag,
-                    name: tag,
-                    slug: tag.toLowerCase().replace(/\s+/g, '-'),
-                    websiteCount: 0,
-                  })),
+                  // 有分面统计时以 slug 作为筛选值，与 /tag/[slug] 路径一致
+                  tags: tagFacet
+                    ? tagFacet.map(tag => ({
+                        id: tag.slug,
+                        name: tag.name,
+                        slug: tag.slug,
+                        websiteCount: tag.website_count,
+                        color: tag.color,
+                      }))
+                    : allTags.map(tag => ({
+                        id: tag,
+                        name: tag,
+                        slug: tag.toLowerCase().replace(/\s+/g, '-'),
+                        websiteCount: 0,
+                      })),
                 },
-                breadcrumbs: [
-                  { label: 'Home', href: '/', current: false },
-                  { label: state.config.pageType, href: `/${state.config.pageType}`, current: false },
-                  { label: entitySlug || 'Default', href: `/${state.config.pageType}/${entitySlug}`, current: true },
-                ],
+                breadcrumbs: pageType === 'tag' && resolvedTags.length > 0
+                  ? [
+                      { label: 'Home', href: '/', current: false },
+                      { label: 'tag', href: '/tag', current: false },
+                      {
+                        label: entityData.name,
+                        href: buildTagPath(resolvedTags.map((tag) => tag.slug), state.filters.tagMode),
+                        current: true,
+                      },
+                    ]
+                  : [
+                      { label: 'Home', href: '/', current: false },
+                      { label: state.config.pageType, href: `/${state.config.pageType}`, current: false },
+                      { label: entitySlug || 'Default', href: `/${state.config.pageType}/${entitySlug}`, current: true },
+                    ],
               };
               
               set(
@@ -532,6 +627,80 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
             const entitySlug = state.data?.entity.slug;
             await get().actions.loadData(entitySlug);
           },
+
+          loadMore: async () => {
+            const state = get();
+            const nextCursor = state.data?.websites.pagination.nextCursor;
+            if (!nextCursor || state.loading.more || state.loading.page || state.loading.content) return;
+
+            set(
+              (current) => ({
+                loading: { ...current.loading, more: true },
+                error: { ...current.error, more: undefined },
+              }),
+              false,
+              'loadMore:start'
+            );
+
+            try {
+              const apiParams = buildWebsiteListParams(state);
+              apiParams.set('cursor', nextCursor);
+
+              const response = await fetch(`/api/websites?${apiParams.toString()}`);
+              const result = await response.json().catch(() => null);
+              if (!response.ok || result?.code !== 0) {
+                throw new Error(result?.message || `API request failed: ${response.status} ${response.statusText}`);
+              }
+
+              const batch: WebsiteCardData[] = (result.data || []).map(toWebsiteCardData);
+
+              set(
+                (current) => {
+                  // 筛选已变化时丢弃过期批次
+                  if (!current.data || current.data.websites.pagination.nextCursor !== nextCursor) {
+                    return { loading: { ...current.loading, more: false } };
+                  }
+
+                  const { websites } = current.data;
+                  const seen = new Set(websites.items.map((website) => website.id));
+                  return {
+                    data: {
+                      ...current.data,
+                      websites: {
+                        ...websites,
+                        items: [...websites.items, ...batch.filter((website) => !seen.has(website.id))],
+                        pagination: {
+                          ...websites.pagination,
+                          currentPage: websites.pagination.currentPage + 1,
+                          hasNextPage: Boolean(result.meta?.has_more),
+                          hasPrevPage: true,
+                          nextCursor: result.meta?.next_cursor ?? null,
+                        },
+                      },
+                    },
+                    loading: { ...current.loading, more: false },
+                  };
+                },
+                false,
+                'loadMore:success'
+              );
+            } catch (error) {
+              console.error('Failed to load more websites:', error);
+
+              set(
+                (current) => ({
+                  loading: { ...current.loading, more: false },
+                  // 单独记录，已加载的网站保持可见，由用户手动重试
+                  error: {
+                    ...current.error,
+                    more: error instanceof Error ? error.message : '加载更多网站失败，请稍后重试',
+                  },
+                }),
+                false,
+                'loadMore:error'
+              );
+            }
+          },
           
           // 筛选方法
           updateFilters: (updates: Partial<FilterParams>) => {
@@ -541,7 +710,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
               (current) => ({
                 filters: { ...current.filters, ...updates },
                 // 筛选变更时重置页码
-                ...('search' in updates || 'categoryId' in updates || 'selectedTags' in updates ? 
+                ...('search' in updates || 'categoryId' in updates || 'selectedTags' in updates || 'tagMode' in updates ? 
                   { filters: { ...current.filters, ...updates, currentPage: 1 } } : {}),
               }),
               false,
@@ -549,7 +718,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
             );
             
             // 筛选变更后自动重新加载内容和同步URL
-            if ('search' in updates || 'categoryId' in updates || 'selectedTags' in updates || 'sortBy' in updates) {
+            if ('search' in updates || 'categoryId' in updates || 'selectedTags' in updates || 'tagMode' in updates || 'sortBy' in updates) {
               setTimeout(() => {
                 const { actions } = get();
                 actions.setLoading('content', true);
@@ -575,6 +744,10 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
             get().actions.updateFilters({ selectedTags: tags, currentPage: 1 });
           },
           
+          setTagMode: (mode: TagMode) => {
+            get().actions.updateFilters({ tagMode: mode, currentPage: 1 });
+          },
+          
           setSorting: (field: SortField, order: SortOrder) => {
             get().actions.updateFilters({ sortBy: field, sortOrder: order, currentPage: 1 });
           },
@@ -585,6 +758,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
               search: '',
               categoryId: null,
               selectedTags: [],
+              tagMode: 'all',
               featuredOnly: false,
               includeAds: true,
               minRating: 0,
@@ -802,6 +976,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
               q = '',
               category = null,
               tags = '',
+              tagMode = null,
               sort = null,
               order = 'desc',
               page = 1,
@@ -842,6 +1017,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
                 search: typeof q === 'string' ? q : '',
                 categoryId: category || null,
                 selectedTags: tagsArray,
+                tagMode: parseTagModeParam(tagMode),
                 sortBy: (sort && Object.values(['created_at', 'updated_at', 'name', 'rating', 'visits']).includes(sort) 
                   ? sort : state.config.filters.defaultSort.field) as SortField,
                 sortOrder: (order === 'asc' || order === 'desc' ? order : state.config.filters.defaultSort.order) as SortOrder,
@@ -882,6 +1058,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
               } else if (cleanedParams.entityId !== state.filters.entityId || 
                         cleanedParams.search !== state.filters.search ||
                         cleanedParams.categoryId !== state.filters.categoryId ||
+                        cleanedParams.tagMode !== state.filters.tagMode ||
                         JSON.stringify(cleanedParams.selectedTags) !== JSON.stringify(state.filters.selectedTags)) {
                 // 如果关键筛选参数发生变化，重新加载数据
                 setTimeout(() => {
@@ -936,6 +1113,11 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
               urlParams.tags = filters.selectedTags.join(',');
             }
             
+            // 多标签匹配方式 (只有非默认值时才添加)
+            if (filters.tagMode === 'any') {
+              urlParams.tagMode = filters.tagMode;
+            }
+            
             // Sort parameters (只有非默认值时才添加)
             if (filters.sortBy !== config.filters.defaultSort.field) {
               urlParams.sort = filters.sortBy;
@@ -1016,6 +1198,7 @@ export const useBrowsablePageStore = create<BrowsablePageStoreState>()(
                 q: newParams.q,
                 category: newParams.category,
                 tags: newParams.tags,
+                tagMode: newParams.tagMode,
                 sort: newParams.sort,
                 order: newParams.order,
                 page: newParams.page ? parseInt(String(newParams.page)) : 1,
@@ -1124,6 +1307,7 @@ export function useBrowsablePageUrlSync() {
       ...urlState,
       order: urlState.order === 'asc' || urlState.order === 'desc' ? urlState.order : undefined,
       view: urlState.view === 'grid' || urlState.view === 'list' ? urlState.view : undefined,
+      tagMode: parseTagModeParam(urlState.tagMode),
     };
     actions.syncFromURL(params);
   };
@@ -1136,6 +1320,7 @@ export function useBrowsablePageUrlSync() {
       category: store.filters.categoryId || undefined,
       tags: store.filters.selectedTags && store.filters.selectedTags.length > 0 
         ? store.filters.selectedTags.join(',') : undefined,
+      tagMode: store.filters.tagMode === 'any' ? store.filters.tagMode : undefined,
       sort: store.filters.sortBy !== store.config.filters.defaultSort.field ? store.filters.sortBy : undefined,
       order: store.filters.sortOrder !== store.config.filters.defaultSort.order ? store.filters.sortOrder : undefined,
       page: store.filters.currentPage && store.filters.currentPage > 1 ? store.filters.currentPage : undefined,
@@ -1152,6 +1337,7 @@ export function useBrowsablePageUrlSync() {
       q: browsablePageUrlState.q || null,
       category: browsablePageUrlState.category || null,
       tags: browsablePageUrlState.tags || null,
+      tagMode: browsablePageUrlState.tagMode || null,
       sort: browsablePageUrlState.sort || null,
       order: browsablePageUrlState.order || null,
       page: typeof browsablePageUrlState.page === 'number' ? browsablePageUrlState.page : null,
@@ -1184,6 +1370,7 @@ export function useBrowsablePageFilters() {
     search: filters.search,
     categoryId: filters.categoryId,
     selectedTags: filters.selectedTags || [],
+    tagMode: filters.tagMode || 'all',
     sortBy: filters.sortBy,
     sortOrder: filters.sortOrder,
     featuredOnly: filters.featuredOnly,
@@ -1206,6 +1393,7 @@ export function useBrowsablePageFilters() {
     setSearch: actions.setSearch,
     setCategory: actions.setCategory,
     setTags: actions.setTags,
+    setTagMode: actions.setTagMode,
     setSorting: actions.setSorting,
     clearFilters: actions.clearFilters,
     resetFilters: actions.resetFilters,
@@ -1247,9 +1435,11 @@ export function useBrowsablePagePagination() {
     goToNext: actions.goToNextPage,
     goToPrevious: actions.goToPreviousPage,
     resetPagination: actions.resetPagination,
+    loadMore: actions.loadMore,
     
     // UI状态
     isLoading: loading.content,
+    isLoadingMore: loading.more,
   };
 }
 
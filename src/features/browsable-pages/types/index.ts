@@ -111,6 +111,8 @@ export interface BrowsablePageData<T = unknown> {
       totalPages: number;
       hasNextPage: boolean;
       hasPrevPage: boolean;
+      /** Cursor for the next batch in infinite-scroll mode, null when exhausted */
+      nextCursor?: string | null;
     };
   };
   
@@ -224,6 +226,8 @@ export interface BrowsablePageURLParams {
   category?: string | null;
   /** Tag filters (comma-separated) */
   tags?: string | null;
+  /** How multiple tags combine ('all' when omitted) */
+  tagMode?: 'all' | 'any' | null;
   /** Sort field */
   sort?: string | null;
   /** Sort order */
@@ -263,6 +267,8 @@ export interface BrowsablePageState {
     content: boolean;
     /** Filter options loading */
     filters: boolean;
+    /** Infinite-scroll batch loading */
+    more: boolean;
   };
   /** Error states */
   error: {
@@ -272,6 +278,8 @@ export interface BrowsablePageState {
     content?: string;
     /** Filter loading error */
     filters?: string;
+    /** Infinite-scroll batch error, keeps already loaded items visible */
+    more?: string;
   };
   /** UI interaction state */
   ui: {
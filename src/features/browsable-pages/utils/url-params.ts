@@ -11,7 +11,7 @@
  */
 
 import { z } from 'zod';
-import type { SortField, SortOrder } from '../../websites/types/filters';
+import type { SortField, SortOrder, TagMode } from '../../websites/types/filters';
 import type { BrowsablePageURLParams, FilterParams } from '../types';
 
 /**
@@ -120,6 +120,53 @@ const tagsValidator = z
   )
   .optional();
 
+/**
+ * 多标签匹配方式验证
+ */
+const tagModeValidator = z
+  .string()
+  .refine(
+    (value): value is TagMode => 
+      ['all', 'any'].includes(value),
+    {
+      message: '标签匹配方式必须是 all 或 any',
+    }
+  )
+  .optional();
+
+/**
+ * 解析URL中的标签匹配方式，缺省或无效时为 all
+ */
+export function parseTagModeParam(value: unknown): TagMode {
+  return value === 'any' ? 'any' : 'all';
+}
+
+/**
+ * 标签规范路径中多个 slug 的分隔符，如 /tag/react+nextjs
+ */
+export const TAG_PATH_SEPARATOR = '+';
+
+/**
+ * 解析 /tag/[slug] 路径段为 slug 列表（去重、保持顺序）；路由参数已由 Next.js 解码，不再二次解码
+ */
+export function parseTagPathSegment(segment: string): string[] {
+  const slugs = segment
+    .split(TAG_PATH_SEPARATOR)
+    .map((slug) => slug.trim())
+    .filter(Boolean);
+  return Array.from(new Set(slugs));
+}
+
+/**
+ * 生成标签规范路径；tagMode 仅在多标签且为 any 时写入查询参数
+ */
+export function buildTagPath(slugs: string[], tagMode?: TagMode): string {
+  if (slugs.length === 0) return '/tag';
+
+  const path = `/tag/${slugs.map((slug) => encodeURIComponent(slug)).join(TAG_PATH_SEPARATOR)}`;
+  return slugs.length > 1 && tagMode === 'any' ? `${path}?tagMode=any` : path;
+}
+
 /**
  * 集合页面URL参数验证Schema
  * 
@@ -153,6 +200,9 @@ export const collectionParamsSchema = z.object({
   /** 二级标签筛选 */
   tags: tagsValidator,
   
+  /** 多标签匹配方式 */
+  tagMode: tagModeValidator,
+  
   /** 仅显示推荐 */
   featured: booleanFromStringValidator,
   
@@ -193,6 +243,9 @@ export const categoryParamsSchema = z.object({
   /** 标签筛选 */
   tags: tagsValidator,
   
+  /** 多标签匹配方式 */
+  tagMode: tagModeValidator,
+  
   /** 仅显示推荐 */
   featured: booleanFromStringValidator,
   
@@ -212,6 +265,9 @@ export const tagParamsSchema = z.object({
   /** 标签标识符（多个标签以逗号分隔） */
   tags: tagsValidator,
   
+  /** 多标签匹配方式 */
+  tagMode: tagModeValidator,
+  
   /** 搜索查询 */
   q: safeStringValidator('搜索查询', 200),
   
@@ -265,6 +321,7 @@ const DEFAULT_FILTER_PARAMS: FilterParams = {
   search: '',
   categoryId: null,
   selectedTags: [],
+  tagMode: 'all',
   sortBy: 'created_at',
   sortOrder: 'desc',
   featuredOnly: false,
@@ -311,6 +368,7 @@ export function parseCollectionParams(params: Record<string, string | string[]>)
       search: parsed.q || '',
       categoryId: parsed.category || null,
       selectedTags: parsed.tags || [],
+      tagMode: parseTagModeParam(parsed.tagMode),
       sortBy: (parsed.sort as SortField) || 'created_at',
       sortOrder: (parsed.order as SortOrder) || 'desc',
       featuredOnly: parsed.featured || false,
@@ -372,6 +430,7 @@ export function parseCategoryParams(params: Record<string, string | string[]>):
       search: parsed.q || '',
       categoryId: parsed.category || null,
       selectedTags: parsed.tags || [],
+      tagMode: parseTagModeParam(parsed.tagMode),
       sortBy: (parsed.sort as SortField) || 'created_at',
       sortOrder: (parsed.order as SortOrder) || 'desc',
       featuredOnly: parsed.featured || false,
@@ -433,6 +492,7 @@ export function parseTagParams(params: Record<string, string | string[]>): Parse
       search: parsed.q || '',
       categoryId: parsed.category || null,
       selectedTags: parsed.tags || [],
+      tagMode: parseTagModeParam(parsed.tagMode),
       sortBy: (parsed.sort as SortField) || 'created_at',
       sortOrder: (parsed.order as SortOrder) || 'desc',
       featuredOnly: parsed.featured || false,
@@ -595,6 +655,11 @@ export function filterParamsToUrlParams(
     urlParams.tags = filterParams.selectedTags.join(',');
   }
   
+  // 多标签匹配方式（非默认值，且只有多个标签时才有意义）
+  if (filterParams.tagMode === 'any' && filterParams.selectedTags && filterParams.selectedTags.length > 1) {
+    urlParams.tagMode = filterParams.tagMode;
+  }
+  
   // 排序参数（非默认值）
   if (filterParams.sortBy && filterParams.sortBy !== 'created_at') {
     urlParams.sort = filterParams.sortBy;
@@ -684,6 +749,10 @@ export function recoverFromParsingError(
       recoveredParams.sortOrder = orderStr as FilterParams['sortOrder'];
     }
     
+    // 尝试恢复标签匹配方式
+    const tagModeStr = Array.isArray(rawParams.tagMode) ? rawParams.tagMode[0] : rawParams.tagMode;
+    recoveredParams.tagMode = parseTagModeParam(tagModeStr);
+    
     // 尝试恢复视图模式
     const viewStr = Array.isArray(rawParams.view) ? rawParams.view[0] : rawParams.view;
     if (viewStr && ['grid', 'list'].includes(viewStr)) {
@@ -0,0 +1,18 @@
+export const CATEGORY_BASE_PATH = "/category"
+
+/**
+ * 由祖先到当前分类的 slug 列表生成规范路径，如 `/category/dev/frontend`
+ */
+export function buildCategoryPath(slugs: string[]): string {
+  const segments = slugs.map((slug) => slug.trim()).filter(Boolean)
+  if (!segments.length) return CATEGORY_BASE_PATH
+  return `${CATEGORY_BASE_PATH}/${segments.map((slug) => encodeURIComponent(slug)).join("/")}`
+}
+
+/**
+ * 整理路由中的路径段；路由参数已由 Next.js 解码，不再二次解码
+ */
+export function parseCategoryPathSegments(segments: string[] | undefined): string[] {
+  if (!segments?.length) return []
+  return segments.map((segment) => segment.trim()).filter(Boolean)
+}
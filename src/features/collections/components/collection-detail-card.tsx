@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
@@ -184,6 +185,9 @@ export function CollectionDetailCard({
         <Button variant="outline" onClick={handleRefresh} disabled={submitting}>
           刷新
         </Button>
+        <Button variant="outline" asChild>
+          <Link href={`/admin/audit-logs?entityType=collection&entityId=${collection.id}`}>变更记录</Link>
+        </Button>
         <Button variant="outline" onClick={() => onEdit(collection)} disabled={submitting}>
           编辑
         </Button>
@@ -18,6 +18,7 @@ import {
   type CollectionUpdateSchema,
 } from "@/features/collections/schemas"
 import type { CollectionDetail } from "@/features/collections/types"
+import { MediaPickerButton } from "@/features/media/components/media-picker-dialog"
 
 interface CollectionFormCardProps {
   mode: "create" | "edit"
@@ -169,12 +170,19 @@ export function CollectionFormCard({ mode, collection, onCancel, onSuccess }: Co
 
           <div className="space-y-2">
             <Label htmlFor="collection-cover">封面链接</Label>
-            <Input
-              id="collection-cover"
-              placeholder="https://example.com/cover.png"
-              disabled={submitting}
-              {...form.register("coverImage")}
-            />
+            <div className="flex gap-2">
+              <Input
+                id="collection-cover"
+                placeholder="https://example.com/cover.png"
+                disabled={submitting}
+                {...form.register("coverImage")}
+              />
+              <MediaPickerButton
+                title="选择封面图"
+                disabled={submitting}
+                onSelect={(asset) => form.setValue("coverImage", asset.url, { shouldDirty: true, shouldValidate: true })}
+              />
+            </div>
             {form.formState.errors.coverImage ? (
               <p className="text-xs text-destructive">{form.formState.errors.coverImage.message}</p>
             ) : null}
@@ -118,6 +118,7 @@ export const collectionQuerySchema = z.object({
   orderBy: z
     .enum(["recent", "name", "order"])
     .default("recent"),
+  cursor: z.string().trim().max(512, "分页游标过长").optional(),
 })
 
 export type CollectionQuerySchema = z.infer<typeof collectionQuerySchema>
@@ -17,14 +17,19 @@ export interface CollectionListParams {
   search?: string
   featured?: boolean | "all"
   orderBy?: "recent" | "name" | "order"
+  /** 游标分页，空串表示第一页；传入时忽略 page */
+  cursor?: string
 }
 
 export interface CollectionListResult {
   items: CollectionListItem[]
   page: number
   pageSize: number
-  total: number
+  /** 游标分页的后续页不统计总数，为 null */
+  total: number | null
   hasMore: boolean
+  /** 游标分页的下一页游标；页码分页始终为 null */
+  nextCursor: string | null
 }
 
 export interface CollectionItemDetail {
@@ -0,0 +1,352 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react"
+import Image from "next/image"
+import { ImagePlus, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { MEDIA_CONTENT_TYPES, MEDIA_MAX_BYTES, type MediaAsset } from "@/features/media/types"
+import { createThumbnail } from "@/features/media/utils/thumbnail"
+import { cn } from "@/lib/utils"
+
+interface MediaPickerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSelect: (asset: MediaAsset) => void
+  title?: string
+}
+
+interface MediaListResponse {
+  data?: MediaAsset[]
+  meta?: {
+    has_more: boolean
+    next_cursor: string | null
+  }
+  message?: string
+}
+
+interface MediaUploadResponse {
+  data?: MediaAsset
+  message?: string
+}
+
+type PickerTab = "library" | "upload"
+
+const PAGE_SIZE = 24
+
+/** 搜索输入停止后再请求 */
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * 媒体库选择弹窗：浏览、搜索已上传的图片，或上传新图片后直接选用
+ */
+export function MediaPickerDialog({ open, onOpenChange, onSelect, title = "选择图片" }: MediaPickerDialogProps) {
+  const [tab, setTab] = useState<PickerTab>("library")
+  const [search, setSearch] = useState("")
+  const [items, setItems] = useState<MediaAsset[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const requestIdRef = useRef(0)
+
+  const fetchPage = useCallback(async (keyword: string, cursor?: string) => {
+    const requestId = ++requestIdRef.current
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (keyword.trim()) params.set("search", keyword.trim())
+      if (cursor) params.set("cursor", cursor)
+
+      const response = await fetch(`/api/admin/media?${params.toString()}`)
+      const payload = (await response.json().catch(() => null)) as MediaListResponse | null
+
+      if (!response.ok || !payload?.data) {
+        throw new Error(payload?.message ?? "获取媒体库失败")
+      }
+      // 搜索词已变化时丢弃过期结果
+      if (requestId !== requestIdRef.current) return
+
+      const page = payload.data
+      setItems((prev) => (cursor ? [...prev, ...page] : page))
+      setNextCursor(payload.meta?.next_cursor ?? null)
+    } catch (fetchError) {
+      if (requestId !== requestIdRef.current) return
+      console.error("加载媒体库失败", fetchError)
+      setError(fetchError instanceof Error ? fetchError.message : "加载媒体库失败")
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    const timer = setTimeout(() => void fetchPage(search), search ? SEARCH_DEBOUNCE_MS : 0)
+    return () => clearTimeout(timer)
+  }, [open, search, fetchPage])
+
+  useEffect(() => {
+    if (open) return
+    setTab("library")
+    setSelectedId(null)
+  }, [open])
+
+  const selected = items.find((item) => item.id === selectedId) ?? null
+
+  const handleConfirm = () => {
+    if (!selected) return
+    onSelect(selected)
+    onOpenChange(false)
+  }
+
+  const handleUploaded = (asset: MediaAsset) => {
+    setItems((prev) => [asset, ...prev.filter((item) => item.id !== asset.id)])
+    setSelectedId(asset.id)
+    setTab("library")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>从媒体库中选择已上传的图片，或上传新图片。</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center rounded-md border p-0.5 self-start">
+          <Button
+            type="button"
+            size="sm"
+            variant={tab === "library" ? "secondary" : "ghost"}
+            className="h-7 px-3 text-xs"
+            aria-pressed={tab === "library"}
+            onClick={() => setTab("library")}
+          >
+            媒体库
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={tab === "upload" ? "secondary" : "ghost"}
+            className="h-7 px-3 text-xs"
+            aria-pressed={tab === "upload"}
+            onClick={() => setTab("upload")}
+          >
+            上传图片
+          </Button>
+        </div>
+
+        {tab === "library" ? (
+          <div className="space-y-3">
+            <Input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="按文件名或替代文本搜索"
+            />
+
+            {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+            {!loading && !error && items.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {search.trim() ? "没有匹配的图片" : "媒体库还是空的，先上传一张图片吧"}
+              </p>
+            ) : null}
+
+            {items.length > 0 ? (
+              <ul className="grid max-h-[22rem] grid-cols-2 gap-3 overflow-y-auto p-0.5 sm:grid-cols-4">
+                {items.map((item) => (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(item.id)}
+                      onDoubleClick={() => {
+                        onSelect(item)
+                        onOpenChange(false)
+                      }}
+                      className={cn(
+                        "w-full overflow-hidden rounded-md border text-left transition-shadow hover:shadow-sm",
+                        item.id === selectedId && "ring-2 ring-primary ring-offset-2"
+                      )}
+                      aria-pressed={item.id === selectedId}
+                    >
+                      <span className="relative block aspect-video bg-muted">
+                        <Image
+                          src={item.thumbnail?.url ?? item.url}
+                          alt={item.altText ?? item.filename}
+                          fill
+                          sizes="180px"
+                          className="object-cover"
+                          unoptimized
+                        />
+                      </span>
+                      <span className="block truncate px-2 py-1 text-xs">{item.filename}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+
+            {nextCursor ? (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={loading}
+                onClick={() => fetchPage(search, nextCursor)}
+              >
+                {loading ? "加载中..." : "加载更多"}
+              </Button>
+            ) : null}
+          </div>
+        ) : (
+          <MediaUploadForm onUploaded={handleUploaded} />
+        )}
+
+        <DialogFooter className="items-center gap-2">
+          {selected ? (
+            <p className="mr-auto truncate text-xs text-muted-foreground">
+              {selected.filename}
+              {selected.width && selected.height ? ` · ${selected.width}×${selected.height}` : ""} ·{" "}
+              {formatFileSize(selected.size)}
+            </p>
+          ) : null}
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={!selected || tab !== "library"}>
+            使用此图片
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function MediaUploadForm({ onUploaded }: { onUploaded: (asset: MediaAsset) => void }) {
+  const [file, setFile] = useState<File | null>(null)
+  const [altText, setAltText] = useState("")
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    // 弹窗可能嵌在其他表单中，避免触发外层提交
+    event.stopPropagation()
+    if (!file) return
+
+    if (file.size > MEDIA_MAX_BYTES) {
+      setError(`文件大小不能超过 ${formatFileSize(MEDIA_MAX_BYTES)}`)
+      return
+    }
+
+    try {
+      setUploading(true)
+      setError(null)
+
+      const body = new FormData()
+      body.set("file", file)
+      if (altText.trim()) body.set("alt", altText.trim())
+      const thumbnail = await createThumbnail(file)
+      if (thumbnail) body.set("thumbnail", thumbnail)
+
+      const response = await fetch("/api/admin/media", { method: "POST", body })
+      const payload = (await response.json().catch(() => null)) as MediaUploadResponse | null
+
+      if (!response.ok || !payload?.data) {
+        throw new Error(payload?.message ?? "上传图片失败")
+      }
+
+      setFile(null)
+      setAltText("")
+      onUploaded(payload.data)
+    } catch (uploadError) {
+      console.error("上传图片失败", uploadError)
+      setError(uploadError instanceof Error ? uploadError.message : "上传图片失败")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="space-y-2">
+        <Label htmlFor="media-upload-file">图片文件</Label>
+        <Input
+          id="media-upload-file"
+          type="file"
+          accept={MEDIA_CONTENT_TYPES.join(",")}
+          disabled={uploading}
+          onChange={(event) => {
+            setFile(event.target.files?.[0] ?? null)
+            setError(null)
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          支持 JPEG、PNG、WebP、GIF、AVIF，不超过 {formatFileSize(MEDIA_MAX_BYTES)}；重复上传的图片会直接复用。
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="media-upload-alt">替代文本</Label>
+        <Input
+          id="media-upload-alt"
+          value={altText}
+          maxLength={200}
+          placeholder="简要描述图片内容，用于无障碍与正文插图"
+          disabled={uploading}
+          onChange={(event) => setAltText(event.target.value)}
+        />
+      </div>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+      <Button type="submit" disabled={!file || uploading}>
+        {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImagePlus className="mr-2 h-4 w-4" />}
+        {uploading ? "上传中..." : "上传"}
+      </Button>
+    </form>
+  )
+}
+
+interface MediaPickerButtonProps {
+  onSelect: (asset: MediaAsset) => void
+  disabled?: boolean
+  label?: string
+  title?: string
+}
+
+/**
+ * 放在图片地址输入框旁的按钮，选中后由调用方写回表单
+ */
+export function MediaPickerButton({ onSelect, disabled, label = "媒体库", title }: MediaPickerButtonProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <Button type="button" variant="outline" disabled={disabled} onClick={() => setOpen(true)}>
+        <ImagePlus className="mr-2 h-4 w-4" />
+        {label}
+      </Button>
+      <MediaPickerDialog open={open} onOpenChange={setOpen} onSelect={onSelect} title={title} />
+    </>
+  )
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, "")} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
@@ -0,0 +1,26 @@
+import { z } from "zod"
+
+export const mediaQuerySchema = z.object({
+  search: z
+    .string()
+    .trim()
+    .max(120)
+    .optional()
+    .transform((value) => (value ? value : undefined)),
+  cursor: z
+    .string()
+    .trim()
+    .max(512)
+    .optional()
+    .transform((value) => (value ? value : undefined)),
+  limit: z.coerce.number().int("数量需为整数").min(1).max(100).optional(),
+})
+
+export type MediaQueryInput = z.infer<typeof mediaQuerySchema>
+
+export const mediaAltTextSchema = z
+  .string()
+  .trim()
+  .max(200, "替代文本长度需在 200 个字符内")
+  .optional()
+  .transform((value) => (value ? value : undefined))
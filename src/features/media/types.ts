@@ -0,0 +1,49 @@
+/** 允许上传的图片类型；SVG 可携带脚本，不在其中 */
+export const MEDIA_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"] as const
+
+export type MediaContentType = (typeof MEDIA_CONTENT_TYPES)[number]
+
+/** 原图大小上限：5 MB */
+export const MEDIA_MAX_BYTES = 5 * 1024 * 1024
+
+/** 缩略图由浏览器生成后随原图一起上传 */
+export const MEDIA_THUMBNAIL_MAX_WIDTH = 480
+export const MEDIA_THUMBNAIL_MAX_BYTES = 256 * 1024
+
+export interface MediaThumbnail {
+  url: string
+  width: number | null
+  height: number | null
+}
+
+export interface MediaAsset {
+  id: string
+  /** 可直接用于封面、截图或正文的绝对地址 */
+  url: string
+  filename: string
+  contentType: MediaContentType
+  size: number
+  width: number | null
+  height: number | null
+  altText: string | null
+  thumbnail: MediaThumbnail | null
+  uploadedBy: string | null
+  createdAt: string
+}
+
+export interface MediaListParams {
+  search?: string
+  cursor?: string
+  limit?: number
+}
+
+export interface MediaListResult {
+  items: MediaAsset[]
+  nextCursor: string | null
+}
+
+export interface MediaUploadResult {
+  asset: MediaAsset
+  /** 内容与已有文件相同，复用了已有记录 */
+  reused: boolean
+}
@@ -0,0 +1,40 @@
+import { MEDIA_THUMBNAIL_MAX_BYTES, MEDIA_THUMBNAIL_MAX_WIDTH } from "@/features/media/types"
+
+const THUMBNAIL_QUALITY = 0.8
+
+/**
+ * 在浏览器中按最大宽度生成 WebP 缩略图，随原图一起上传。
+ * 原图已足够小、浏览器无法解码或不支持 WebP 编码时返回 null，由原图代替缩略图
+ */
+export async function createThumbnail(file: File): Promise<File | null> {
+  if (typeof createImageBitmap !== "function") return null
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    return null
+  }
+
+  try {
+    if (bitmap.width <= MEDIA_THUMBNAIL_MAX_WIDTH) return null
+
+    const width = MEDIA_THUMBNAIL_MAX_WIDTH
+    const height = Math.max(1, Math.round((bitmap.height * width) / bitmap.width))
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+
+    const context = canvas.getContext("2d")
+    if (!context) return null
+    context.drawImage(bitmap, 0, 0, width, height)
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/webp", THUMBNAIL_QUALITY))
+    // Safari 等不支持 WebP 编码时会退回 PNG，体积不可控，直接放弃
+    if (!blob || blob.type !== "image/webp" || blob.size > MEDIA_THUMBNAIL_MAX_BYTES) return null
+
+    return new File([blob], "thumbnail.webp", { type: "image/webp" })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * SubmitPage 组件
+ *
+ * 公开的网站提交页面：访客填写网址、名称、简介、建议分类/标签与联系邮箱，
+ * 提交后进入 submission_requests 待审核队列，由后台审核后收录。
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle2, Smile } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+import { HeaderNavigation } from '@/features/websites/components/HeaderNavigation';
+import { Footer } from '@/features/websites/components/Footer';
+import type { CategoryNode } from '@/features/categories/types';
+import { flattenCategoryTree, type CategoryOption } from '@/features/categories/utils/tree';
+import type { TagItem } from '@/features/tags/types';
+
+import {
+  submissionCreateSchema,
+  type SubmissionCreateFormInput,
+  type SubmissionCreateValues,
+} from '../schemas';
+
+const NO_CATEGORY_VALUE = '__none__';
+
+const DEFAULT_VALUES: SubmissionCreateFormInput = {
+  url: '',
+  title: '',
+  description: '',
+  categoryId: undefined,
+  tagIds: [],
+  contactEmail: '',
+  company: '',
+};
+
+type SubmitState = { status: 'idle' } | { status: 'success' } | { status: 'error'; message: string };
+
+export interface SubmitPageProps {
+  className?: string;
+}
+
+export function SubmitPage({ className }: SubmitPageProps) {
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  const [tags, setTags] = useState<TagItem[]>([]);
+  const [submitState, setSubmitState] = useState<SubmitState>({ status: 'idle' });
+
+  const form = useForm<SubmissionCreateFormInput, undefined, SubmissionCreateValues>({
+    resolver: zodResolver(submissionCreateSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadOptions = async () => {
+      try {
+        const [categoryResponse, tagResponse] = await Promise.all([
+          fetch('/api/categories', { signal: controller.signal }),
+          fetch('/api/tags', { signal: controller.signal }),
+        ]);
+
+        const categoryPayload = (await categoryResponse.json().catch(() => null)) as
+          | { data?: { tree?: CategoryNode[] } }
+          | null;
+        const tagPayload = (await tagResponse.json().catch(() => null)) as
+          | { data?: { items?: TagItem[] } }
+          | null;
+
+        setCategories(categoryPayload?.data?.tree ?? []);
+        setTags(tagPayload?.data?.items ?? []);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('加载分类与标签失败', error);
+      }
+    };
+
+    void loadOptions();
+    return () => controller.abort();
+  }, []);
+
+  const categoryOptions = useMemo<CategoryOption[]>(() => flattenCategoryTree(categories), [categories]);
+
+  const onSubmit = form.handleSubmit(async (values) => {
+    setSubmitState({ status: 'idle' });
+
+    try {
+      const response = await fetch('/api/submissions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify(values),
+      });
+
+      const result = (await response.json().catch(() => null)) as {
+        message?: string;
+        errors?: Record<string, string[]>;
+      } | null;
+
+      if (!response.ok) {
+        if (result?.errors) {
+          for (const [field, messages] of Object.entries(result.errors)) {
+            if (field in DEFAULT_VALUES && messages[0]) {
+              form.setError(field as keyof SubmissionCreateFormInput, { message: messages[0] });
+            }
+          }
+        }
+        setSubmitState({ status: 'error', message: result?.message ?? '提交失败，请稍后再试' });
+        return;
+      }
+
+      form.reset(DEFAULT_VALUES);
+      setSubmitState({ status: 'success' });
+    } catch (error) {
+      console.error('submission failed', error);
+      setSubmitState({ status: 'error', message: '提交失败，请检查网络或稍后再试' });
+    }
+  });
+
+  const { errors, isSubmitting } = form.formState;
+
+  return (
+    <div className={cn('min-h-screen bg-background', className)}>
+      <HeaderNavigation />
+
+      <main className="container mx-auto max-w-5xl px-4 py-10 sm:px-6 lg:px-8">
+        <header className="mb-8 space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">提交网站</h1>
+          <p className="text-sm text-muted-foreground">
+            推荐你发现的优质网站，审核通过后将收录到 WebVault 目录中。
+          </p>
+        </header>
+
+        {submitState.status === 'success' ? (
+          <div className="rounded-lg border border-border bg-card p-8 text-center shadow-sm">
+            <CheckCircle2 className="mx-auto h-10 w-10 text-emerald-500" aria-hidden="true" />
+            <h2 className="mt-4 text-xl font-semibold text-foreground">提交成功</h2>
+            <p className="mt-2 text-sm text-muted-foreground">感谢推荐！我们会尽快审核，结果将通过邮件通知你。</p>
+            <div className="mt-6 flex justify-center gap-3">
+              <Button variant="outline" onClick={() => setSubmitState({ status: 'idle' })}>
+                继续提交
+              </Button>
+              <Button asChild>
+                <Link href="/">返回首页</Link>
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form
+            onSubmit={onSubmit}
+            noValidate
+            className="relative overflow-hidden rounded-lg border border-border bg-card shadow-sm"
+          >
+            <div className="grid gap-6 p-6 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="submit-url">网址 *</Label>
+                <Input id="submit-url" type="url" placeholder="https://example.com" {...form.register('url')} />
+                {errors.url ? <p className="text-xs text-destructive">{errors.url.message}</p> : null}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="submit-title">网站名称 *</Label>
+                <Input id="submit-title" placeholder="请输入网站名称" {...form.register('title')} />
+                {errors.title ? <p className="text-xs text-destructive">{errors.title.message}</p> : null}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="submit-category">建议分类</Label>
+                <Controller
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <Select
+                      value={field.value ?? NO_CATEGORY_VALUE}
+                      onValueChange={(value) => field.onChange(value === NO_CATEGORY_VALUE ? undefined : value)}
+                    >
+                      <SelectTrigger id="submit-category">
+                        <SelectValue placeholder="选择分类" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY_VALUE}>暂不选择</SelectItem>
+                        {categoryOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.level ? `${'· '.repeat(option.level)}${option.label}` : option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="submit-email">联系邮箱 *</Label>
+                <Input
+                  id="submit-email"
+                  type="email"
+                  placeholder="审核结果将发送到此邮箱"
+                  {...form.register('contactEmail')}
+                />
+                {errors.contactEmail ? <p className="text-xs text-destructive">{errors.contactEmail.message}</p> : null}
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label>建议标签</Label>
+                <Controller
+                  control={form.control}
+                  name="tagIds"
+                  render={({ field }) => {
+                    const selected = field.value ?? [];
+                    return (
+                      <div className="flex flex-wrap gap-2">
+                        {tags.length === 0 ? (
+                          <span className="text-xs text-muted-foreground">暂无可选标签</span>
+                        ) : (
+                          tags.map((tag) => {
+                            const isSelected = selected.includes(tag.id);
+                            return (
+                              <button
+                                key={tag.id}
+                                type="button"
+                                aria-pressed={isSelected}
+                                onClick={() =>
+                                  field.onChange(
+                                    isSelected ? selected.filter((id) => id !== tag.id) : [...selected, tag.id]
+                                  )
+                                }
+                                className={cn(
+                                  'rounded-full border px-3 py-1 text-xs transition-colors',
+                                  isSelected
+                                    ? 'border-primary bg-primary text-primary-foreground'
+                                    : 'border-border text-muted-foreground hover:border-primary hover:text-primary'
+                                )}
+                              >
+                                {tag.name}
+                              </button>
+                            );
+                          })
+                        )}
+                      </div>
+                    );
+                  }}
+                />
+                {errors.tagIds ? <p className="text-xs text-destructive">{errors.tagIds.message}</p> : null}
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="submit-description">网站简介 *</Label>
+                <Textarea
+                  id="submit-description"
+                  rows={4}
+                  placeholder="简要介绍这个网站的用途与亮点"
+                  {...form.register('description')}
+                />
+                {errors.description ? <p className="text-xs text-destructive">{errors.description.message}</p> : null}
+              </div>
+
+              {/* 蜜罐字段：对真实用户隐藏 */}
+              <div aria-hidden="true" className="absolute -left-[9999px] h-0 w-0 overflow-hidden">
+                <label htmlFor="submit-company">Company</label>
+                <input id="submit-company" tabIndex={-1} autoComplete="off" {...form.register('company')} />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-3 border-t border-border bg-muted/40 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? '提交中...' : '提交'}
+              </Button>
+              {submitState.status === 'error' ? (
+                <p className="text-sm text-destructive">{submitState.message}</p>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Smile className="h-4 w-4" aria-hidden="true" />
+                  提交后会进入人工审核，通常在 1-3 个工作日内完成。
+                </p>
+              )}
+            </div>
+          </form>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+export default SubmitPage;
@@ -0,0 +1,431 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+
+import type { CategoryNode } from "@/features/categories/types"
+import { flattenCategoryTree } from "@/features/categories/utils/tree"
+import type { TagItem } from "@/features/tags/types"
+import type { WebsiteAdminDetail } from "@/features/websites/types/admin"
+import {
+  SUBMISSION_MERGE_FIELDS,
+  type SubmissionDetail,
+  type SubmissionMergeField,
+} from "@/features/submissions/types"
+
+import { SubmissionStatusBadge } from "./submission-status-badge"
+
+interface DetailResponse {
+  data?: SubmissionDetail
+  message?: string
+}
+
+interface SubmissionReviewPageProps {
+  submissionId: string
+}
+
+const NO_CATEGORY_VALUE = "__none__"
+
+const MERGE_FIELD_LABELS: Record<SubmissionMergeField, string> = {
+  title: "名称",
+  description: "简介",
+  categoryId: "分类",
+  tagIds: "标签",
+}
+
+export function SubmissionReviewPage({ submissionId }: SubmissionReviewPageProps) {
+  const router = useRouter()
+  const [detail, setDetail] = useState<SubmissionDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [actionPending, setActionPending] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const [categories, setCategories] = useState<CategoryNode[]>([])
+  const [tags, setTags] = useState<TagItem[]>([])
+
+  const [approveStatus, setApproveStatus] = useState<"draft" | "published">("draft")
+  const [approveCategoryId, setApproveCategoryId] = useState<string>(NO_CATEGORY_VALUE)
+  const [rejectReason, setRejectReason] = useState("")
+  const [mergeWebsiteId, setMergeWebsiteId] = useState("")
+  const [mergeFields, setMergeFields] = useState<SubmissionMergeField[]>([])
+
+  const fetchDetail = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/admin/submissions/${submissionId}`)
+      const payload = (await response.json().catch(() => null)) as DetailResponse | null
+
+      if (!response.ok || !payload?.data) {
+        throw new Error(payload?.message ?? "加载提交详情失败")
+      }
+
+      setDetail(payload.data)
+      setApproveCategoryId(payload.data.payload.suggestedCategoryId ?? NO_CATEGORY_VALUE)
+      setMergeWebsiteId(payload.data.existingWebsite?.id ?? "")
+    } catch (fetchError) {
+      console.error(`加载提交 ${submissionId} 详情失败`, fetchError)
+      setError(fetchError instanceof Error ? fetchError.message : "加载提交详情失败")
+      setDetail(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [submissionId])
+
+  useEffect(() => {
+    void fetchDetail()
+  }, [fetchDetail])
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const loadOptions = async () => {
+      try {
+        const [categoryResponse, tagResponse] = await Promise.all([
+          fetch("/api/categories", { signal: controller.signal }),
+          fetch("/api/tags", { signal: controller.signal }),
+        ])
+        const categoryPayload = (await categoryResponse.json().catch(() => null)) as
+          | { data?: { tree?: CategoryNode[] } }
+          | null
+        const tagPayload = (await tagResponse.json().catch(() => null)) as { data?: { items?: TagItem[] } } | null
+
+        setCategories(categoryPayload?.data?.tree ?? [])
+        setTags(tagPayload?.data?.items ?? [])
+      } catch (optionsError) {
+        if (optionsError instanceof DOMException && optionsError.name === "AbortError") return
+        console.error("加载分类与标签失败", optionsError)
+      }
+    }
+
+    void loadOptions()
+    return () => controller.abort()
+  }, [])
+
+  const categoryOptions = useMemo(() => flattenCategoryTree(categories), [categories])
+  const categoryNames = useMemo(
+    () => new Map(categoryOptions.map((option) => [option.value, option.label])),
+    [categoryOptions]
+  )
+  const tagNames = useMemo(() => new Map(tags.map((tag) => [tag.id, tag.name])), [tags])
+
+  const submitAction = useCallback(
+    async (body: Record<string, unknown>) => {
+      try {
+        setActionPending(true)
+        setActionError(null)
+
+        const response = await fetch(`/api/admin/submissions/${submissionId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        })
+        const payload = (await response.json().catch(() => null)) as DetailResponse | null
+
+        if (!response.ok || !payload?.data) {
+          throw new Error(payload?.message ?? "审核操作失败")
+        }
+
+        setDetail(payload.data)
+        router.refresh()
+      } catch (submitError) {
+        console.error("审核操作失败", submitError)
+        setActionError(submitError instanceof Error ? submitError.message : "审核操作失败")
+      } finally {
+        setActionPending(false)
+      }
+    },
+    [router, submissionId]
+  )
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-semibold tracking-tight">审核提交</h1>
+          <p className="text-sm text-muted-foreground">正在加载提交信息...</p>
+        </header>
+      </div>
+    )
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-semibold tracking-tight">审核提交</h1>
+          <p className="text-sm text-destructive">{error ?? "未找到提交记录"}</p>
+        </header>
+        <Button variant="outline" onClick={() => router.push("/admin/submissions")}>返回提交列表</Button>
+      </div>
+    )
+  }
+
+  const { payload } = detail
+  const compareTarget = detail.linkedWebsite ?? detail.existingWebsite
+  const isPending = detail.status === "pending"
+
+  const rows: Array<{ label: string; submitted: string; current: string | null }> = [
+    { label: "名称", submitted: payload.title, current: compareTarget?.title ?? null },
+    { label: "网址", submitted: payload.url, current: compareTarget?.url ?? null },
+    { label: "简介", submitted: payload.description, current: compareTarget?.description ?? null },
+    {
+      label: "分类",
+      submitted: payload.suggestedCategoryId
+        ? categoryNames.get(payload.suggestedCategoryId) ?? payload.suggestedCategoryId
+        : "",
+      current: compareTarget ? compareTarget.category?.name ?? "" : null,
+    },
+    {
+      label: "标签",
+      submitted: payload.suggestedTagIds.map((id) => tagNames.get(id) ?? id).join("、"),
+      current: compareTarget ? compareTarget.tags.map((tag) => tag.name).join("、") : null,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-semibold tracking-tight">{payload.title || "未命名提交"}</h1>
+              <SubmissionStatusBadge status={detail.status} />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {detail.submittedBy ?? "匿名"} 提交于 {new Date(detail.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => router.push("/admin/submissions")}>返回列表</Button>
+            <Button
+              variant="outline"
+              onClick={() => router.push(`/admin/audit-logs?entityType=submission&entityId=${detail.id}`)}
+            >
+              变更记录
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">内容对比</CardTitle>
+          <CardDescription>
+            {compareTarget
+              ? detail.linkedWebsite
+                ? "左侧为提交内容，右侧为已关联的网站。"
+                : "检测到规范化网址相同的已收录网站，建议合并而非重复创建。"
+              : "未找到相同网址的已收录网站。"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-hidden rounded-md border">
+            <table className="w-full border-collapse text-sm">
+              <thead className="bg-muted/60 text-muted-foreground">
+                <tr>
+                  <th className="w-24 px-4 py-2 text-left font-medium">字段</th>
+                  <th className="px-4 py-2 text-left font-medium">提交内容</th>
+                  <th className="px-4 py-2 text-left font-medium">
+                    {compareTarget ? (
+                      <Link href={`/admin/websites/${compareTarget.id}`} className="text-primary hover:underline">
+                        已收录网站
+                      </Link>
+                    ) : (
+                      "已收录网站"
+                    )}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const differs = row.current !== null && row.current !== row.submitted
+                  return (
+                    <tr key={row.label} className="border-t align-top">
+                      <td className="px-4 py-3 text-muted-foreground">{row.label}</td>
+                      <td className="px-4 py-3 break-words">{row.submitted || "—"}</td>
+                      <td className={differs ? "px-4 py-3 break-words bg-amber-50" : "px-4 py-3 break-words"}>
+                        {row.current === null ? <span className="text-muted-foreground">—</span> : row.current || "—"}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isPending ? (
+        <div className="grid gap-4 lg:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">通过</CardTitle>
+              <CardDescription>以提交内容创建新网站。</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="approve-status">创建状态</Label>
+                <Select value={approveStatus} onValueChange={(value) => setApproveStatus(value as "draft" | "published")}>
+                  <SelectTrigger id="approve-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">草稿</SelectItem>
+                    <SelectItem value="published">直接发布</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approve-category">分类</Label>
+                <Select value={approveCategoryId} onValueChange={setApproveCategoryId}>
+                  <SelectTrigger id="approve-category">
+                    <SelectValue placeholder="选择分类" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY_VALUE}>不设置分类</SelectItem>
+                    {categoryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.level ? `${"· ".repeat(option.level)}${option.label}` : option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                className="w-full"
+                disabled={actionPending || Boolean(detail.existingWebsite)}
+                onClick={() =>
+                  submitAction({
+                    action: "approve",
+                    status: approveStatus,
+                    categoryId: approveCategoryId === NO_CATEGORY_VALUE ? null : approveCategoryId,
+                  })
+                }
+              >
+                通过并创建网站
+              </Button>
+              {detail.existingWebsite ? (
+                <p className="text-xs text-muted-foreground">已存在相同网址的网站，请使用合并。</p>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">合并</CardTitle>
+              <CardDescription>关联到已有网站，并可选择覆盖部分字段。</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="merge-website">目标网站 ID</Label>
+                <Input
+                  id="merge-website"
+                  value={mergeWebsiteId}
+                  placeholder="输入已收录网站的 ID"
+                  onChange={(event) => setMergeWebsiteId(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>覆盖字段</Label>
+                <div className="flex flex-wrap gap-3 text-sm">
+                  {SUBMISSION_MERGE_FIELDS.map((field) => (
+                    <label key={field} className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={mergeFields.includes(field)}
+                        onChange={(event) =>
+                          setMergeFields((prev) =>
+                            event.target.checked ? [...prev, field] : prev.filter((item) => item !== field)
+                          )
+                        }
+                      />
+                      {MERGE_FIELD_LABELS[field]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button
+                className="w-full"
+                variant="secondary"
+                disabled={actionPending || !mergeWebsiteId.trim()}
+                onClick={() => submitAction({ action: "merge", websiteId: mergeWebsiteId.trim(), fields: mergeFields })}
+              >
+                合并到该网站
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">拒绝</CardTitle>
+              <CardDescription>拒绝原因会记录在提交中。</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reject-reason">拒绝原因</Label>
+                <Textarea
+                  id="reject-reason"
+                  rows={4}
+                  value={rejectReason}
+                  placeholder="例如：网站无法访问、内容与本站定位不符"
+                  onChange={(event) => setRejectReason(event.target.value)}
+                />
+              </div>
+              <Button
+                className="w-full"
+                variant="destructive"
+                disabled={actionPending || !rejectReason.trim()}
+                onClick={() => submitAction({ action: "reject", reason: rejectReason.trim() })}
+              >
+                拒绝提交
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <ReviewSummary detail={detail} website={detail.linkedWebsite} />
+      )}
+
+      {actionError ? <p className="text-sm text-destructive">{actionError}</p> : null}
+    </div>
+  )
+}
+
+function ReviewSummary({ detail, website }: { detail: SubmissionDetail; website: WebsiteAdminDetail | null }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">审核结果</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <p>
+          审核人：<span className="font-mono">{detail.reviewedBy ?? "—"}</span>
+        </p>
+        <p>审核时间：{detail.reviewedAt ? new Date(detail.reviewedAt).toLocaleString() : "—"}</p>
+        {detail.payload.review?.reason ? <p>拒绝原因：{detail.payload.review.reason}</p> : null}
+        {detail.payload.review?.mergedFields?.length ? (
+          <p>覆盖字段：{detail.payload.review.mergedFields.map((field) => MERGE_FIELD_LABELS[field]).join("、")}</p>
+        ) : null}
+        {website ? (
+          <p>
+            关联网站：
+            <Link href={`/admin/websites/${website.id}`} className="text-primary hover:underline">
+              {website.title}
+            </Link>
+          </p>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
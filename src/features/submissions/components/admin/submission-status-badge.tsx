@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils"
+
+import { SUBMISSION_STATUS_LABELS, type SubmissionStatus } from "@/features/submissions/types"
+
+const STATUS_STYLES: Record<SubmissionStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 border-amber-200",
+  approved: "bg-emerald-100 text-emerald-700 border-emerald-200",
+  rejected: "bg-rose-100 text-rose-700 border-rose-200",
+  merged: "bg-sky-100 text-sky-700 border-sky-200",
+}
+
+export function SubmissionStatusBadge({ status, className }: { status: SubmissionStatus; className?: string }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium",
+        STATUS_STYLES[status],
+        className
+      )}
+    >
+      {SUBMISSION_STATUS_LABELS[status] ?? status}
+    </span>
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+import {
+  SUBMISSION_STATUSES,
+  SUBMISSION_STATUS_LABELS,
+  type SubmissionListItem,
+  type SubmissionStatus,
+} from "@/features/submissions/types"
+
+import { SubmissionStatusBadge } from "./submission-status-badge"
+
+type StatusFilter = SubmissionStatus | "all"
+
+interface ListResponse {
+  data?: SubmissionListItem[]
+  meta?: {
+    page: number
+    per_page: number
+    total: number
+    counts?: Record<SubmissionStatus, number>
+  }
+  message?: string
+}
+
+const DEFAULT_PAGE_SIZE = 20
+
+export function SubmissionsAdminPage() {
+  const [status, setStatus] = useState<StatusFilter>("pending")
+  const [searchDraft, setSearchDraft] = useState("")
+  const [search, setSearch] = useState("")
+  const [page, setPage] = useState(1)
+
+  const [items, setItems] = useState<SubmissionListItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [counts, setCounts] = useState<Record<SubmissionStatus, number> | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSubmissions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      params.set("status", status)
+      params.set("page", String(page))
+      params.set("perPage", String(DEFAULT_PAGE_SIZE))
+      if (search) params.set("search", search)
+
+      const response = await fetch(`/api/admin/submissions?${params.toString()}`)
+      const payload = (await response.json().catch(() => null)) as ListResponse | null
+
+      if (!response.ok || !payload?.data || !payload?.meta) {
+        throw new Error(payload?.message ?? "获取提交列表失败")
+      }
+
+      setItems(payload.data)
+      setTotal(payload.meta.total)
+      setCounts(payload.meta.counts ?? null)
+    } catch (fetchError) {
+      console.error("加载提交列表失败", fetchError)
+      setError(fetchError instanceof Error ? fetchError.message : "加载提交列表失败")
+      setItems([])
+      setTotal(0)
+    } finally {
+      setLoading(false)
+    }
+  }, [status, page, search])
+
+  useEffect(() => {
+    void fetchSubmissions()
+  }, [fetchSubmissions])
+
+  const totalPages = Math.max(1, Math.ceil(total / DEFAULT_PAGE_SIZE))
+  const statusFilters: StatusFilter[] = [...SUBMISSION_STATUSES, "all"]
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">提交审核</h1>
+        <p className="text-sm text-muted-foreground">
+          审核访客提交的网站，可直接通过收录、拒绝并注明原因，或合并到已有网站。
+        </p>
+      </header>
+
+      <div className="flex flex-col gap-3 rounded-lg border bg-card p-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex flex-wrap gap-2">
+          {statusFilters.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={status === value ? "default" : "outline"}
+              onClick={() => {
+                setStatus(value)
+                setPage(1)
+              }}
+            >
+              {value === "all" ? "全部" : SUBMISSION_STATUS_LABELS[value]}
+              {value !== "all" && counts ? (
+                <span className={cn("ml-1 text-xs", status === value ? "opacity-80" : "text-muted-foreground")}>
+                  {counts[value]}
+                </span>
+              ) : null}
+            </Button>
+          ))}
+        </div>
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault()
+            setSearch(searchDraft.trim())
+            setPage(1)
+          }}
+        >
+          <Input
+            value={searchDraft}
+            placeholder="搜索名称、网址或邮箱"
+            onChange={(event) => setSearchDraft(event.target.value)}
+            className="md:w-64"
+          />
+          <Button type="submit" variant="outline" disabled={loading}>
+            搜索
+          </Button>
+        </form>
+      </div>
+
+      <div className="overflow-hidden rounded-lg border bg-card">
+        <table className="w-full border-collapse text-sm">
+          <thead className="bg-muted/60 text-muted-foreground">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">提交内容</th>
+              <th className="px-4 py-2 text-left font-medium">提交人</th>
+              <th className="px-4 py-2 text-left font-medium">状态</th>
+              <th className="px-4 py-2 text-left font-medium">提交时间</th>
+              <th className="px-4 py-2 text-right font-medium">操作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="px-4 py-6 text-center text-muted-foreground" colSpan={5}>
+                  正在加载提交数据...
+                </td>
+              </tr>
+            ) : error ? (
+              <tr>
+                <td className="px-4 py-6 text-center text-destructive" colSpan={5}>
+                  {error}
+                </td>
+              </tr>
+            ) : items.length === 0 ? (
+              <tr>
+                <td className="px-4 py-6 text-center text-muted-foreground" colSpan={5}>
+                  暂无数据
+                </td>
+              </tr>
+            ) : (
+              items.map((item) => (
+                <tr key={item.id} className="hover:bg-muted/40">
+                  <td className="px-4 py-3 align-top">
+                    <div className="font-medium text-foreground line-clamp-1">{item.payload.title || "未命名"}</div>
+                    <div className="mt-1 text-xs text-muted-foreground line-clamp-1">{item.payload.url}</div>
+                  </td>
+                  <td className="px-4 py-3 align-top text-xs text-muted-foreground">{item.submittedBy ?? "匿名"}</td>
+                  <td className="px-4 py-3 align-top">
+                    <SubmissionStatusBadge status={item.status} />
+                    {item.reviewedAt ? (
+                      <div className="mt-1 text-[11px] text-muted-foreground">
+                        审核：{new Date(item.reviewedAt).toLocaleDateString()}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="px-4 py-3 align-top text-xs text-muted-foreground">
+                    {new Date(item.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 align-top">
+                    <div className="flex justify-end">
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/admin/submissions/${item.id}`}>
+                          {item.status === "pending" ? "审核" : "查看"}
+                        </Link>
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between border-t bg-muted/40 px-4 py-3 text-xs text-muted-foreground">
+          <div>
+            第 {items.length ? page : 0}/{totalPages} 页，共 {total} 条记录
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={loading || page <= 1} onClick={() => setPage(page - 1)}>
+              上一页
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={loading || page >= totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              下一页
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
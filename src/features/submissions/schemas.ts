@@ -0,0 +1,64 @@
+import { z } from "zod"
+
+import { SUBMISSION_MERGE_FIELDS } from "./types"
+
+const normalizedString = (max: number, field: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${field}不能为空`)
+    .max(max, `${field}长度需在 ${max} 个字符内`)
+
+const optionalIdSchema = z
+  .union([z.string().trim().max(64, "ID 无效"), z.literal(""), z.undefined(), z.null()])
+  .transform((value) => (value ? value : undefined))
+
+export const submissionCreateSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("请输入有效的网址")
+    .max(500, "网址长度需在 500 个字符内")
+    .refine((value) => /^https?:\/\//i.test(value), "仅支持 http 或 https 网址"),
+  title: normalizedString(120, "网站名称"),
+  description: normalizedString(500, "网站简介"),
+  categoryId: optionalIdSchema,
+  tagIds: z.array(z.string().trim().min(1, "标签 ID 无效").max(64, "标签 ID 无效")).max(10, "最多选择 10 个标签").default([]),
+  contactEmail: z.string().trim().email("请输入有效的邮箱地址").max(200, "邮箱长度需在 200 个字符内"),
+  // 蜜罐字段：页面上对用户隐藏，正常提交应始终为空
+  company: z.string().optional().default(""),
+})
+
+export type SubmissionCreateValues = z.output<typeof submissionCreateSchema>
+export type SubmissionCreateFormInput = z.input<typeof submissionCreateSchema>
+
+export const submissionApproveSchema = z.object({
+  action: z.literal("approve"),
+  status: z.enum(["draft", "published"]).default("draft"),
+  title: normalizedString(200, "网站标题").optional(),
+  description: z.string().trim().max(2000, "网站描述长度需在 2000 个字符内").optional(),
+  categoryId: optionalIdSchema,
+  tagIds: z.array(z.string().trim().min(1, "标签 ID 无效").max(64, "标签 ID 无效")).max(20, "最多选择 20 个标签").optional(),
+})
+
+export const submissionRejectSchema = z.object({
+  action: z.literal("reject"),
+  reason: normalizedString(500, "拒绝原因"),
+})
+
+export const submissionMergeSchema = z.object({
+  action: z.literal("merge"),
+  websiteId: z.string().trim().min(1, "请选择要合并的网站").max(64, "网站 ID 无效"),
+  fields: z.array(z.enum(SUBMISSION_MERGE_FIELDS)).default([]),
+})
+
+export const submissionReviewSchema = z.discriminatedUnion("action", [
+  submissionApproveSchema,
+  submissionRejectSchema,
+  submissionMergeSchema,
+])
+
+export type SubmissionApproveValues = z.output<typeof submissionApproveSchema>
+export type SubmissionRejectValues = z.output<typeof submissionRejectSchema>
+export type SubmissionMergeValues = z.output<typeof submissionMergeSchema>
+export type SubmissionReviewValues = z.output<typeof submissionReviewSchema>
@@ -0,0 +1,88 @@
+import type { WebsiteAdminDetail } from "@/features/websites/types/admin"
+
+export const SUBMISSION_STATUSES = ["pending", "approved", "rejected", "merged"] as const
+
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number]
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  pending: "待审核",
+  approved: "已通过",
+  rejected: "已拒绝",
+  merged: "已合并",
+}
+
+/**
+ * 合并到已有网站时可选择覆盖的字段
+ */
+export const SUBMISSION_MERGE_FIELDS = ["title", "description", "categoryId", "tagIds"] as const
+
+export type SubmissionMergeField = (typeof SUBMISSION_MERGE_FIELDS)[number]
+
+export interface SubmissionMeta {
+  ipHash: string | null
+  userAgent: string | null
+  source: "public" | "admin"
+}
+
+/**
+ * 存储在 submission_requests.payload 中的 JSON 结构
+ */
+export interface SubmissionPayload {
+  url: string
+  normalizedUrl: string
+  title: string
+  description: string
+  suggestedCategoryId: string | null
+  suggestedTagIds: string[]
+  contactEmail: string
+  meta?: SubmissionMeta
+  review?: SubmissionReview
+}
+
+/**
+ * 审核结论，随 payload 一并存储（表结构中没有独立的原因字段）
+ */
+export interface SubmissionReview {
+  reason?: string
+  mergedFields?: SubmissionMergeField[]
+}
+
+export interface SubmissionCreateResult {
+  id: string
+  status: SubmissionStatus
+  createdAt: string
+}
+
+export interface SubmissionListItem {
+  id: string
+  status: SubmissionStatus
+  websiteId: string | null
+  submittedBy: string | null
+  reviewedBy: string | null
+  reviewedAt: string | null
+  createdAt: string
+  payload: SubmissionPayload
+}
+
+export interface SubmissionListParams {
+  status?: SubmissionStatus | "all"
+  search?: string
+  page?: number
+  pageSize?: number
+}
+
+export interface SubmissionListResult {
+  items: SubmissionListItem[]
+  page: number
+  pageSize: number
+  total: number
+  hasMore: boolean
+}
+
+/**
+ * 审核详情：提交内容与同一规范化网址下已收录的网站并排展示
+ */
+export interface SubmissionDetail extends SubmissionListItem {
+  existingWebsite: WebsiteAdminDetail | null
+  linkedWebsite: WebsiteAdminDetail | null
+}
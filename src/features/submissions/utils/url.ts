@@ -0,0 +1,27 @@
+/**
+ * 归一化网址，用于识别重复提交：忽略协议、www、大小写、结尾斜杠、hash 与常见追踪参数
+ */
+export function normalizeWebsiteUrl(raw: string): string {
+  const value = raw.trim()
+  if (!value) return ""
+
+  try {
+    const parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`)
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "")
+    const port = parsed.port && parsed.port !== "80" && parsed.port !== "443" ? `:${parsed.port}` : ""
+
+    const params = new URLSearchParams(parsed.search)
+    for (const key of Array.from(params.keys())) {
+      if (/^utm_/i.test(key) || key === "ref" || key === "fbclid" || key === "gclid") {
+        params.delete(key)
+      }
+    }
+    params.sort()
+    const query = params.toString()
+
+    const pathname = parsed.pathname.replace(/\/+$/, "")
+    return `${host}${port}${pathname}${query ? `?${query}` : ""}`
+  } catch {
+    return value.toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/+$/, "")
+  }
+}
@@ -1,8 +1,8 @@
 /**
  * BreadcrumbNavigation面包屑导航组件
  * 
- * 为网站详情页面提供面包屑导航功能
- * 显示 Home > 分类名称 > 网站名称 的导航结构
+ * 为网站详情页面和分类页面提供面包屑导航功能
+ * 显示 Home > 分类名称 > 网站名称 的导航结构；分类页面显示 Home > 父分类 > 当前分类
  * 
  * 需求引用:
  * - AC-2.2.1: 系统SHALL在页面顶部显示面包屑导航：Home > 分类名称 > 网站名称
@@ -22,6 +22,7 @@ import React from 'react';
 import Link from 'next/link';
 import { Home, ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { buildCategoryPath } from '@/features/categories/utils/path';
 import type { Category } from '../types/category';
 
 /**
@@ -40,16 +41,21 @@ interface BreadcrumbItem {
  * BreadcrumbNavigation组件属性接口
  */
 export interface BreadcrumbNavigationProps {
-  /** 当前网站信息 */
-  website: {
+  /** 当前网站信息，分类页面不传 */
+  website?: {
     /** 网站标题 */
     title: string;
     /** 网站ID */
     id: string;
     /** 网站分类信息 */
     category?: Pick<Category, 'id' | 'name' | 'slug'>;
+    /** 从根分类到当前分类的完整路径，存在时优先于 category */
+    categoryPath?: Pick<Category, 'id' | 'name' | 'slug'>[];
   };
   
+  /** 分类页面的分类路径（根分类到当前分类），未传 website 时末项为当前页面 */
+  categoryPath?: Pick<Category, 'id' | 'name' | 'slug'>[];
+  
   /** 自定义样式类名 */
   className?: string;
   
@@ -84,6 +90,9 @@ export interface BreadcrumbNavigationProps {
  *   }}
  * />
  * 
+ * // 分类页面：Home > 开发 > 前端
+ * <BreadcrumbNavigation categoryPath={[dev, frontend]} />
+ * 
  * // 自定义回调
  * <BreadcrumbNavigation 
  *   website={websiteData}
@@ -94,32 +103,37 @@ export interface BreadcrumbNavigationProps {
  */
 export function BreadcrumbNavigation({
   website,
+  categoryPath,
   className,
   onBreadcrumbClick,
 }: BreadcrumbNavigationProps) {
-  // 处理网站标题截断，保持与博客组件一致的模式
-  const truncatedTitle = website.title.length > 50 
-    ? `${website.title.slice(0, 50)}...` 
-    : website.title;
-
   // 构建面包屑导航项
   const breadcrumbItems: BreadcrumbItem[] = [
     { label: 'Home', href: '/' },
   ];
 
-  // 如果有分类信息，添加分类面包屑
-  if (website.category) {
+  // 多级分类逐级展示，每一级链接到从根分类开始的累积路径
+  const path = website
+    ? (website.categoryPath?.length ? website.categoryPath : website.category ? [website.category] : [])
+    : categoryPath ?? [];
+
+  path.forEach((category, index) => {
     breadcrumbItems.push({
-      label: website.category.name,
-      href: `/category/${website.category.slug}`,
+      label: category.name,
+      href: buildCategoryPath(path.slice(0, index + 1).map((item) => item.slug)),
+      isCurrent: !website && index === path.length - 1,
+    });
+  });
+
+  // 添加当前网站作为最后一项（非链接状态），处理标题截断，保持与博客组件一致的模式
+  if (website) {
+    breadcrumbItems.push({
+      label: website.title.length > 50 ? `${website.title.slice(0, 50)}...` : website.title,
+      isCurrent: true
     });
   }
 
-  // 添加当前网站作为最后一项（非链接状态）
-  breadcrumbItems.push({
-    label: truncatedTitle,
-    isCurrent: true
-  });
+  const currentTitle = website?.title ?? path[path.length - 1]?.name;
 
   // 处理面包屑点击导航
   const handleBreadcrumbClick = (item: BreadcrumbItem) => {
@@ -140,7 +154,7 @@ export function BreadcrumbNavigation({
         "blog-category-filter-fade-in",
         className
       )}
-      aria-label="网站详情页导航"
+      aria-label={website ? '网站详情页导航' : '分类导航'}
       role="navigation"
     >
       {/* 面包屑导航 */}
@@ -179,7 +193,7 @@ export function BreadcrumbNavigation({
                     "blog-category-tag-active"
                   )}
                   aria-current="page"
-                  title={website.title}
+                  title={currentTitle}
                 >
                   {item.label}
                 </span>
@@ -10,7 +10,9 @@ import {
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { useHomepageFilters } from '../stores/homepage-store';
+import { useWebsiteTags } from '../hooks/useWebsiteTags';
 import { DEFAULT_SORT_OPTIONS } from '../types/filters';
+import type { WebsiteFacetBucket } from '@/lib/validations/websites';
 
 /**
  * FilterSelects Component
@@ -19,18 +21,6 @@ import { DEFAULT_SORT_OPTIONS } from '../types/filters';
  * 基于需求4：筛选和排序功能的实现
  */
 
-// 模拟标签数据 - 后续可以从API获取
-const MOCK_TAGS = [
-  { id: '1', name: 'Sports', slug: 'sports', website_count: 5 },
-  { id: '2', name: 'Education', slug: 'education', website_count: 8 },
-  { id: '3', name: 'Entertainment', slug: 'entertainment', website_count: 12 },
-  { id: '4', name: 'Business', slug: 'business', website_count: 6 },
-  { id: '5', name: 'Finance', slug: 'finance', website_count: 4 },
-  { id: '6', name: 'Design', slug: 'design', website_count: 7 },
-  { id: '7', name: 'Games', slug: 'games', website_count: 3 },
-  { id: '8', name: 'Lifestyle', slug: 'lifestyle', website_count: 9 },
-];
-
 // 通用筛选选项
 const GENERAL_FILTER_OPTIONS = [
   { value: 'no-filter', label: 'No Filter' },
@@ -39,7 +29,12 @@ const GENERAL_FILTER_OPTIONS = [
   { value: 'popular', label: 'Most Popular' },
 ];
 
-export const FilterSelects: React.FC = () => {
+interface FilterSelectsProps {
+  /** 当前筛选结果的标签计数（/api/websites 的 tag 分面），提供时显示实时数量并隐藏无结果的标签 */
+  tagFacets?: WebsiteFacetBucket[] | null;
+}
+
+export const FilterSelects: React.FC<FilterSelectsProps> = ({ tagFacets }) => {
   const {
     selectedTags,
     sortBy,
@@ -53,6 +48,23 @@ export const FilterSelects: React.FC = () => {
     resetFilters,
   } = useHomepageFilters();
 
+  const { tags } = useWebsiteTags();
+
+  const tagOptions = React.useMemo(() => {
+    const facetCounts = tagFacets
+      ? new Map(tagFacets.map((bucket) => [bucket.id, bucket.website_count]))
+      : null;
+
+    return tags
+      .map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        website_count: facetCounts ? facetCounts.get(tag.id) ?? 0 : tag.websiteCount ?? 0,
+      }))
+      // 已选中的标签始终保留，便于取消选择
+      .filter((tag) => !facetCounts || tag.website_count > 0 || selectedTags.includes(tag.id));
+  }, [tags, tagFacets, selectedTags]);
+
   // 处理标签选择
   const handleTagSelect = (tagId: string) => {
     if (tagId === 'no-filter') {
@@ -102,7 +114,7 @@ export const FilterSelects: React.FC = () => {
     }
     
     if (selectedTags.length === 1) {
-      const tag = MOCK_TAGS.find(t => t.id === selectedTags[0]);
+      const tag = tagOptions.find(t => t.id === selectedTags[0]);
       return tag?.name || 'Select Tags';
     }
     
@@ -135,7 +147,7 @@ export const FilterSelects: React.FC = () => {
             <SelectItem value="no-filter" className="text-muted-foreground">
               No Filter
             </SelectItem>
-            {MOCK_TAGS.map((tag) => (
+            {tagOptions.map((tag) => (
               <SelectItem 
                 key={tag.id} 
                 value={tag.id}
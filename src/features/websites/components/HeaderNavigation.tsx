@@ -26,6 +26,7 @@ const navigationItems = [
   { label: "Category", href: "/category" },
   { label: "Tag", href: "/tag" },
   { label: "Blog", href: "/blog" },
+  { label: "Submit", href: "/submit" },
   { label: "Pricing", href: "/pricing" },
   { label: "Studio", href: "/studio" },
 ]
@@ -26,6 +26,9 @@ import {
   FORM_ERROR_MESSAGES 
 } from '../schemas';
 import { useHomepageFilters } from '../stores/homepage-store';
+import { useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import { SearchSuggestionList } from './SearchSuggestionList';
+import type { SearchSuggestion } from '../types/filters';
 
 /**
  * HeroSection组件属性
@@ -62,13 +65,16 @@ export function HeroSection({
     formState: { errors, isSubmitting },
     setError,
     clearErrors,
-    watch
+    watch,
+    setValue,
   } = useForm({
     resolver: searchFormResolver,
     defaultValues: searchFormDefaults,
     mode: 'onChange',
   });
   
+  const queryField = register('query');
+
   // 监听搜索输入变化以清除错误
   const queryValue = watch('query');
   React.useEffect(() => {
@@ -116,6 +122,22 @@ export function HeroSection({
     }
   };
 
+  /**
+   * 选中搜索建议：搜索词直接执行搜索，其余类型跳转到对应页面
+   */
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    if (suggestion.type === 'query' || !suggestion.href) {
+      setValue('query', suggestion.text);
+      void onSubmit({ query: suggestion.text, searchType: 'all' });
+      return;
+    }
+    router.push(suggestion.href);
+  };
+
+  const searchSuggestions = useSearchSuggestions(queryValue || '', {
+    onSelect: handleSuggestionSelect,
+  });
+
   /**
    * 处理搜索按钮点击
    * 支持Enter键和点击搜索按钮
@@ -126,9 +148,13 @@ export function HeroSection({
 
   /**
    * 处理键盘事件
-   * Enter键触发搜索
+   * 下拉建议优先处理方向键和 Enter，否则 Enter 键触发搜索
    */
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (searchSuggestions.handleKeyDown(event)) {
+      return;
+    }
+
     if (event.key === 'Enter') {
       event.preventDefault();
       handleSubmit(onSubmit)();
@@ -168,8 +194,18 @@ export function HeroSection({
             <div className="relative flex-1">
               <div className="relative">
                 <Input
-                  {...register('query')}
+                  {...queryField}
+                  onChange={(event) => {
+                    void queryField.onChange(event);
+                    searchSuggestions.open();
+                  }}
+                  onFocus={searchSuggestions.open}
+                  onBlur={(event) => {
+                    void queryField.onBlur(event);
+                    searchSuggestions.close();
+                  }}
                   type="text"
+                  autoComplete="off"
                   placeholder="搜索网站、分类或关键词..."
                   className={`
                     h-12 w-full pl-4 pr-12 text-base
@@ -178,6 +214,7 @@ export function HeroSection({
                   `}
                   disabled={isLoading || isSubmitting}
                   onKeyDown={handleKeyDown}
+                  {...searchSuggestions.inputProps}
                   aria-invalid={errors.query ? 'true' : 'false'}
                   aria-describedby={errors.query ? 'search-error' : undefined}
                 />
@@ -189,6 +226,9 @@ export function HeroSection({
                     aria-hidden="true"
                   />
                 </div>
+
+                {/* 搜索建议下拉 */}
+                <SearchSuggestionList suggestions={searchSuggestions} />
               </div>
               
               {/* 搜索错误提示 */}
@@ -0,0 +1,43 @@
+import React from "react";
+import { SEARCH_HIGHLIGHT_CLOSE, SEARCH_HIGHLIGHT_OPEN } from "@/lib/validations/websites";
+
+interface HighlightedTextProps {
+  /** 搜索接口返回的高亮文本，命中词以标记字符包裹 */
+  text?: string;
+  /** 没有高亮时展示的原文 */
+  fallback: string;
+}
+
+/**
+ * 按高亮标记切分文本并渲染为 <mark>，文本始终作为 React 子节点输出，不使用 innerHTML
+ */
+export function HighlightedText({ text, fallback }: HighlightedTextProps) {
+  if (!text) {
+    return <>{fallback}</>;
+  }
+
+  const segments = text.split(SEARCH_HIGHLIGHT_OPEN);
+
+  return (
+    <>
+      {segments.map((segment, index) => {
+        if (index === 0) {
+          return <React.Fragment key={index}>{segment}</React.Fragment>;
+        }
+
+        const closeAt = segment.indexOf(SEARCH_HIGHLIGHT_CLOSE);
+        const matched = closeAt === -1 ? segment : segment.slice(0, closeAt);
+        const rest = closeAt === -1 ? "" : segment.slice(closeAt + 1);
+
+        return (
+          <React.Fragment key={index}>
+            <mark className="rounded-sm bg-yellow-200/70 px-0.5 text-inherit dark:bg-yellow-500/30">{matched}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+export default HighlightedText;
@@ -37,6 +37,10 @@ import { Footer } from './Footer';
 import { WebsiteCardData, PaginationState } from '../types/website';
 import { useHomepageCategoryTree, useHomepageWebsites } from '../hooks';
 import { useHomepageFilters, useHomepagePagination, useHomepageUrlSync } from '../stores/homepage-store';
+import type { WebsiteListFacet } from '@/lib/validations/websites';
+
+/** 侧边栏分类数量随当前筛选结果变化 */
+const HOMEPAGE_FACETS: WebsiteListFacet[] = ['category'];
 
 /**
  * 递归检查分类树中是否存在指定ID的分类
@@ -154,9 +158,11 @@ export function HomePage({
     featuredOnly,
     minRating,
     selectedTags,
+    tagMode,
     sortBy,
     sortOrder,
     setCategory,
+    setTagMode,
   } = useHomepageFilters();
 
   const {
@@ -175,14 +181,20 @@ export function HomePage({
     totalPages: fetchedTotalPages,
     page: resolvedPage,
     pageSize: resolvedPageSize,
+    facets: websiteFacets,
   } = useHomepageWebsites({
     page: currentPage,
     pageSize: itemsPerPage,
     search,
     categoryId,
+    tags: selectedTags,
+    tagMode,
     featuredOnly,
     includeAds,
     minRating,
+    sortBy,
+    sortOrder,
+    facets: HOMEPAGE_FACETS,
     enabled: shouldFetchWebsites,
   });
 
@@ -217,6 +229,7 @@ export function HomePage({
 
       // 标签筛选（空数组转为 undefined）
       tags: selectedTags.length > 0 ? selectedTags.join(',') : undefined,
+      tagMode: tagMode !== 'all' ? tagMode : undefined,
 
       // 排序（非默认值才保留）
       sortBy: sortBy !== 'created_at' ? sortBy : undefined,
@@ -235,6 +248,7 @@ export function HomePage({
     search,
     categoryId,
     selectedTags,
+    tagMode,
     sortBy,
     sortOrder,
     currentPage,
@@ -387,8 +401,12 @@ export function HomePage({
                 <div className="lg:w-64 lg:flex-shrink-0">
                   <SidebarFilters
                     categories={sidebarCategories}
+                    categoryFacets={websiteFacets?.category}
                     selectedCategoryId={categoryId}
                     onSelectCategory={handleCategoryChange}
+                    selectedTagCount={selectedTags.length}
+                    tagMode={tagMode}
+                    onTagModeChange={setTagMode}
                     errorMessage={categoriesError}
                     isMobileCollapsed={!isMobileSidebarOpen}
                     onMobileToggle={handleMobileSidebarToggle}
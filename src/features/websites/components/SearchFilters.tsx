@@ -18,7 +18,8 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Search, Check } from 'lucide-react';
+import { Search, Check, X } from 'lucide-react';
+import { useRouter } from 'next/navigation';
 
 import { Input } from '@/components/ui/input';
 import { 
@@ -35,11 +36,14 @@ import {
   searchFormDefaults,
   type SearchFormData,
 } from '../schemas';
-import { useHomepageFilters } from '../stores/homepage-store';
+import { useHomepageFilters, useSearchPageState } from '../stores/homepage-store';
 import { useWebsiteSearch } from '../hooks/useWebsiteSearch';
-import { useHomepageCategoryTree, useWebsiteTags } from '../hooks';
+import { useHomepageCategoryTree, useSearchSuggestions, useWebsiteTags } from '../hooks';
+import { SearchSuggestionList } from './SearchSuggestionList';
+import type { SearchSuggestion } from '../types/filters';
 import type { CategoryNode } from '@/features/categories/types';
 import type { SearchPageFilters } from '../types/website';
+import { removeSearchClause, type ParsedSearchQuery, type SearchQueryClause } from '@/lib/utils/search-query';
 
 /**
  * SearchFilters组件属性
@@ -70,8 +74,24 @@ interface SearchFiltersProps {
    * 当筛选器变化时调用此函数重新加载搜索结果
    */
   performSearch?: () => void;
+
+  /**
+   * 服务端实际执行的搜索条件，渲染为可移除的条件标签
+   */
+  parsedQuery?: ParsedSearchQuery | null;
 }
 
+const SEARCH_CLAUSE_LABELS: Record<SearchQueryClause['type'], string> = {
+  phrase: '短语',
+  required: '必须包含',
+  excluded: '排除',
+  site: '站点',
+  tag: '标签',
+  category: '分类',
+  after: '收录晚于',
+  before: '收录早于',
+};
+
 // 通用筛选选项已删除 - 功能简化
 
 /**
@@ -85,8 +105,11 @@ export function SearchFilters({
   onSearch,
   onFiltersChange,
   onReset,
-  performSearch
+  performSearch,
+  parsedQuery,
 }: SearchFiltersProps) {
+  const router = useRouter();
+
   // 获取状态管理hooks
   const {
     search,
@@ -103,6 +126,14 @@ export function SearchFilters({
     resetFilters,
   } = useHomepageFilters();
 
+  const {
+    dateRange,
+    setExactMatch,
+    removeRequiredTerm,
+    removeExcludeTerm,
+    setDateRange,
+  } = useSearchPageState();
+
   const {
     categories: categoryTree,
     isLoading: categoriesLoading,
@@ -184,6 +215,8 @@ export function SearchFilters({
     mode: 'onChange',
   });
 
+  const queryField = register('query');
+
   // 监听搜索输入变化以清除错误
   const queryValue = watch('query');
   useEffect(() => {
@@ -232,6 +265,22 @@ export function SearchFilters({
     }
   };
 
+  /**
+   * 选中搜索建议：搜索词直接执行搜索，其余类型跳转到对应页面
+   */
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    if (suggestion.type === 'query' || !suggestion.href) {
+      setValue('query', suggestion.text);
+      void onSubmit({ query: suggestion.text, searchType: 'all' });
+      return;
+    }
+    router.push(suggestion.href);
+  };
+
+  const searchSuggestions = useSearchSuggestions(queryValue || '', {
+    onSelect: handleSuggestionSelect,
+  });
+
   /**
    * 处理搜索输入变化 - 防抖处理
    */
@@ -239,12 +288,17 @@ export function SearchFilters({
     const value = event.target.value;
     setValue('query', value);
     setQuery(value); // 触发防抖搜索
+    searchSuggestions.open();
   };
 
   /**
-   * 处理键盘事件
+   * 处理键盘事件，下拉建议优先处理方向键和 Enter
    */
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (searchSuggestions.handleKeyDown(event)) {
+      return;
+    }
+
     if (event.key === 'Enter') {
       event.preventDefault();
       handleSubmit(onSubmit)();
@@ -325,6 +379,50 @@ export function SearchFilters({
 
   // 通用筛选和排序处理函数已删除 - 功能简化
 
+  /**
+   * 移除一个搜索条件：查询串中的语法直接改写搜索词，独立筛选项则清除对应的 store 状态
+   */
+  const handleClauseRemove = (clause: SearchQueryClause) => {
+    if (clause.source === 'query') {
+      const nextQuery = removeSearchClause(search, clause);
+      setValue('query', nextQuery);
+      void onSubmit({ query: nextQuery, searchType: 'all' });
+      return;
+    }
+
+    const nextFilters: Partial<SearchPageFilters> = { query: search };
+    switch (clause.type) {
+      case 'phrase':
+        setExactMatch(false);
+        nextFilters.exactMatch = false;
+        break;
+      case 'required':
+        removeRequiredTerm(clause.value);
+        nextFilters.requiredTerms = parsedQuery?.clauses
+          .filter((item) => item.source === 'filter' && item.type === 'required' && item.value !== clause.value)
+          .map((item) => item.value);
+        break;
+      case 'excluded':
+        removeExcludeTerm(clause.value);
+        nextFilters.excludeTerms = parsedQuery?.clauses
+          .filter((item) => item.source === 'filter' && item.type === 'excluded' && item.value !== clause.value)
+          .map((item) => item.value);
+        break;
+      case 'after':
+        setDateRange(null, dateRange?.to ?? null);
+        nextFilters.dateRange = { from: null, to: dateRange?.to ?? null };
+        break;
+      case 'before':
+        setDateRange(dateRange?.from ?? null, null);
+        nextFilters.dateRange = { from: dateRange?.from ?? null, to: null };
+        break;
+      default:
+        return;
+    }
+
+    onFiltersChange?.(nextFilters);
+  };
+
   /**
    * 处理重置操作
    */
@@ -395,7 +493,7 @@ export function SearchFilters({
               <div className="relative w-full">
               <div className="relative">
                 <Input
-                  {...register('query')}
+                  {...queryField}
                   type="text"
                   placeholder="Search..."
                   value={queryValue || ''}
@@ -408,6 +506,13 @@ export function SearchFilters({
                   `}
                   disabled={isSubmitting || isSearching}
                   onKeyDown={handleKeyDown}
+                  onFocus={searchSuggestions.open}
+                  onBlur={(event) => {
+                    void queryField.onBlur(event);
+                    searchSuggestions.close();
+                  }}
+                  autoComplete="off"
+                  {...searchSuggestions.inputProps}
                   aria-invalid={errors.query ? 'true' : 'false'}
                   aria-describedby={errors.query ? 'search-error' : undefined}
                 />
@@ -420,6 +525,9 @@ export function SearchFilters({
                   />
                 </div>
               </div>
+
+              {/* 搜索建议下拉 */}
+              <SearchSuggestionList suggestions={searchSuggestions} />
               </div>
               
               {/* 搜索错误提示 */}
@@ -608,6 +716,29 @@ export function SearchFilters({
             )}
           </div>
         )}
+
+        {/* 高级搜索条件标签 */}
+        {parsedQuery && parsedQuery.clauses.length > 0 && (
+          <ul className="mt-3 flex flex-wrap gap-2" aria-label="搜索条件">
+            {parsedQuery.clauses.map((clause, index) => (
+              <li
+                key={`${clause.source}-${clause.type}-${clause.value}-${index}`}
+                className="inline-flex items-center gap-1 rounded-full border border-border bg-muted px-2.5 py-0.5 text-xs text-foreground"
+              >
+                <span className="text-muted-foreground">{SEARCH_CLAUSE_LABELS[clause.type]}:</span>
+                <span>{clause.value}</span>
+                <button
+                  type="button"
+                  onClick={() => handleClauseRemove(clause)}
+                  className="ml-0.5 rounded-full p-0.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                  aria-label={`移除条件 ${SEARCH_CLAUSE_LABELS[clause.type]} ${clause.value}`}
+                >
+                  <X className="h-3 w-3" aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </section>
   );
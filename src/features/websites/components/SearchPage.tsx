@@ -393,6 +393,7 @@ const SearchPage = React.memo(function SearchPage({
     loadResults: loadSearchResults,
     setPage: setSearchPage,
     retrySearch: retrySearchResults,
+    parsedQuery,
   } = results;
 
   const initialLoadRef = React.useRef(false);
@@ -532,6 +533,7 @@ const SearchPage = React.memo(function SearchPage({
             onFiltersChange={handleFiltersChange}
             onReset={handleReset}
             performSearch={() => performSearch()}
+            parsedQuery={parsedQuery}
             className={cn(
               "transition-all duration-300 ease-in-out",
               combinedLoading && "opacity-75"
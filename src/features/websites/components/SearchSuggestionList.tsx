@@ -0,0 +1,88 @@
+/**
+ * SearchSuggestionList 组件
+ *
+ * 搜索框下方的建议下拉列表，配合 useSearchSuggestions 实现 combobox 键盘导航
+ */
+
+'use client';
+
+import React from 'react';
+import { FileText, FolderOpen, Globe, Hash, Layers, Search } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import type { SearchSuggestion } from '../types/filters';
+import type { UseSearchSuggestionsResult } from '../hooks/useSearchSuggestions';
+
+/**
+ * 建议类型的中文标签
+ */
+const SUGGESTION_TYPE_LABELS: Record<SearchSuggestion['type'], string> = {
+  website: '网站',
+  category: '分类',
+  tag: '标签',
+  collection: '集合',
+  blog: '文章',
+  query: '热门搜索',
+};
+
+const SUGGESTION_TYPE_ICONS: Record<SearchSuggestion['type'], React.ComponentType<{ className?: string }>> = {
+  website: Globe,
+  category: FolderOpen,
+  tag: Hash,
+  collection: Layers,
+  blog: FileText,
+  query: Search,
+};
+
+interface SearchSuggestionListProps {
+  suggestions: UseSearchSuggestionsResult;
+  className?: string;
+}
+
+export function SearchSuggestionList({ suggestions, className }: SearchSuggestionListProps) {
+  const { suggestions: items, isOpen, activeIndex, listId, getOptionId, setActiveIndex, select } = suggestions;
+
+  if (!isOpen) return null;
+
+  return (
+    <ul
+      id={listId}
+      role="listbox"
+      aria-label="搜索建议"
+      className={cn(
+        'absolute left-0 right-0 top-full z-50 mt-1 max-h-80 overflow-y-auto rounded-md border border-border bg-popover py-1 text-left shadow-lg',
+        className
+      )}
+    >
+      {items.map((item, index) => {
+        const Icon = SUGGESTION_TYPE_ICONS[item.type];
+        const isActive = index === activeIndex;
+
+        return (
+          <li
+            key={`${item.type}:${item.id}`}
+            id={getOptionId(index)}
+            role="option"
+            aria-selected={isActive}
+            className={cn(
+              'flex cursor-pointer items-center gap-3 px-3 py-2 text-sm text-popover-foreground',
+              isActive && 'bg-accent text-accent-foreground'
+            )}
+            onMouseEnter={() => setActiveIndex(index)}
+            // 阻止输入框失焦，保证点击能完成选择
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => select(item)}
+          >
+            <Icon className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+            <span className="flex-1 truncate">{item.text}</span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {SUGGESTION_TYPE_LABELS[item.type]}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default SearchSuggestionList;
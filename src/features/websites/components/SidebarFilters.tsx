@@ -4,16 +4,28 @@ import React from 'react'
 
 import { Button } from '@/components/ui/button'
 import type { CategoryNode } from '@/features/categories/types'
+import type { TagMode } from '@/features/websites/types/filters'
 import { cn } from '@/lib/utils'
+import type { WebsiteFacetBucket } from '@/lib/validations/websites'
 import { ChevronDown, X } from 'lucide-react'
 
+import { TagModeToggle } from './TagModeToggle'
+
 interface SidebarFiltersProps {
   /** 分类树数据 */
   categories?: CategoryNode[]
+  /** 当前筛选结果的分类计数（/api/websites 的 category 分面），提供时替代分类树自带的数量并隐藏无结果的分类 */
+  categoryFacets?: WebsiteFacetBucket[] | null
   /** 当前选中分类 ID，null 表示全部分类 */
   selectedCategoryId?: string | null
   /** 分类选择回调 */
   onSelectCategory?: (categoryId: string | null) => void
+  /** 已选标签数量，多于一个时显示匹配方式切换 */
+  selectedTagCount?: number
+  /** 多标签匹配方式 */
+  tagMode?: TagMode
+  /** 匹配方式切换回调 */
+  onTagModeChange?: (mode: TagMode) => void
   /** 分类加载错误 */
   errorMessage?: string | null
   /** 是否在移动端折叠 */
@@ -28,8 +40,12 @@ interface SidebarFiltersProps {
 
 export function SidebarFilters({
   categories: rawCategories,
+  categoryFacets,
   selectedCategoryId = null,
   onSelectCategory,
+  selectedTagCount = 0,
+  tagMode = 'all',
+  onTagModeChange,
   errorMessage,
   isMobileCollapsed = true,
   onMobileToggle,
@@ -45,16 +61,24 @@ export function SidebarFilters({
    * 从后端返回的分类树中提取网站数量信息
    * 注意：后端(categoriesService)已经递归聚合了子分类的网站数量到websiteCount字段
    * 所以这里直接使用websiteCount，不需要再次聚合，避免重复计算
+   * 有分面计数时改用分面结果（同样已包含子分类）
    */
   const categoryCountInfo = React.useMemo(() => {
     const map = new Map<string, number>()
+    const facetMap = categoryFacets
+      ? new Map(categoryFacets.map((bucket) => [bucket.id, bucket.website_count]))
+      : null
+
+    const countOf = (node: CategoryNode) => {
+      if (facetMap) return facetMap.get(node.id) ?? 0
+      return typeof node.websiteCount === "number" ? node.websiteCount : 0
+    }
 
-    // 递归遍历分类树，直接使用后端计算好的websiteCount
+    // 递归遍历分类树，直接使用后端计算好的数量
     const traverseCategories = (nodes: CategoryNode[]) => {
       nodes.forEach((node) => {
         // 直接使用后端已经聚合好的数量（包含子分类）
-        const count = typeof node.websiteCount === "number" ? node.websiteCount : 0
-        map.set(node.id, count)
+        map.set(node.id, countOf(node))
 
         // 递归处理子分类
         if (Array.isArray(node.children) && node.children.length > 0) {
@@ -66,20 +90,24 @@ export function SidebarFilters({
     traverseCategories(categories)
 
     // 计算顶级分类的总数（不包含重复）
-    const topLevelTotal = categories.reduce(
-      (sum, node) => sum + (typeof node.websiteCount === "number" ? node.websiteCount : 0),
-      0
-    )
+    const topLevelTotal = categories.reduce((sum, node) => sum + countOf(node), 0)
 
     return {
       map,
       total: topLevelTotal,
     }
-  }, [categories])
+  }, [categories, categoryFacets])
 
   const totalCategoryCount = categoryCountInfo.total
   const categoryCountMap = categoryCountInfo.map
 
+  // 有分面计数时隐藏当前结果中没有网站的分类，已选中的分类始终保留
+  const isVisibleCategory = React.useCallback(
+    (categoryId: string) =>
+      !categoryFacets || categoryId === selectedCategoryId || (categoryCountMap.get(categoryId) ?? 0) > 0,
+    [categoryFacets, selectedCategoryId, categoryCountMap],
+  )
+
   const [expandedGroups, setExpandedGroups] = React.useState<Set<string>>(new Set())
 
   React.useEffect(() => {
@@ -180,7 +208,10 @@ export function SidebarFilters({
           {/* 分类层次结构 */}
           <div className="space-y-1">
             {categories.map((group) => {
-              const children = group.children ?? []
+              const children = (group.children ?? []).filter((child) => isVisibleCategory(child.id))
+              if (!isVisibleCategory(group.id) && children.length === 0) {
+                return null
+              }
               const hasChildren = children.length > 0
               const isExpanded = expandedGroups.has(group.id)
               const groupCount = categoryCountMap.get(group.id) ?? 0
@@ -339,6 +370,11 @@ export function SidebarFilters({
             </div>
           )}
 
+          {/* 多标签匹配方式 */}
+          {onTagModeChange && selectedTagCount > 1 && (
+            <TagModeToggle value={tagMode} onChange={onTagModeChange} disabled={isLoading} />
+          )}
+
           {/* 重置按钮 */}
           <div className="pt-4 border-t border-border">
             <Button
@@ -0,0 +1,52 @@
+'use client'
+
+import React from 'react'
+
+import type { TagMode } from '@/features/websites/types/filters'
+import { cn } from '@/lib/utils'
+
+const TAG_MODE_OPTIONS: Array<{ value: TagMode; label: string; description: string }> = [
+  { value: 'all', label: '全部匹配', description: '只显示包含所有已选标签的网站' },
+  { value: 'any', label: '任一匹配', description: '显示包含任一已选标签的网站' },
+]
+
+interface TagModeToggleProps {
+  value: TagMode
+  onChange: (mode: TagMode) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * 多标签匹配方式切换：全部匹配（交集）/ 任一匹配（并集）
+ */
+export function TagModeToggle({ value, onChange, disabled = false, className }: TagModeToggleProps) {
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="text-sm font-medium text-foreground">标签匹配</p>
+      <div className="grid grid-cols-2 gap-1 rounded-lg bg-muted/40 p-1" role="radiogroup" aria-label="标签匹配方式">
+        {TAG_MODE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={value === option.value}
+            title={option.description}
+            className={cn(
+              'rounded-md px-3 py-1.5 text-sm transition-colors duration-200',
+              value === option.value
+                ? 'bg-background text-foreground font-medium shadow-sm'
+                : 'text-muted-foreground hover:text-foreground',
+            )}
+            onClick={() => onChange(option.value)}
+            disabled={disabled}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default TagModeToggle
@@ -8,6 +8,7 @@ import { cn } from "@/lib/utils";
 import { LazyImage } from "@/components/shared/LazyImage";
 import type { WebsiteCardData } from "../types/website";
 import { TagPill } from "./TagPill";
+import { HighlightedText } from "./HighlightedText";
 import { useRouter } from "next/navigation";
 
 interface WebsiteCardProps {
@@ -46,8 +47,8 @@ const WebsiteCard = React.memo(function WebsiteCard({ website, className, style,
   // 处理访问外部网站
   const handleVisit = useCallback(() => {
     onVisit?.(website);
-    // 在新窗口打开网站
-    window.open(website.url, '_blank', 'noopener,noreferrer');
+    // 在新窗口打开网站，经 /go 跳转以记录出站点击
+    window.open(`/go/${encodeURIComponent(website.id)}`, '_blank', 'noopener,noreferrer');
   }, [onVisit, website]);
 
   // 处理跳转到详情页
@@ -127,7 +128,7 @@ const WebsiteCard = React.memo(function WebsiteCard({ website, className, style,
               role="heading"
               aria-level={3}
             >
-              {website.title}
+              <HighlightedText text={website.highlight?.title} fallback={website.title} />
             </h3>
             {website.description && (
               <p 
@@ -135,7 +136,7 @@ const WebsiteCard = React.memo(function WebsiteCard({ website, className, style,
                 className="text-sm text-muted-foreground line-clamp-3"
                 role="text"
               >
-                {website.description}
+                <HighlightedText text={website.highlight?.description} fallback={website.description} />
               </p>
             )}
           </div>
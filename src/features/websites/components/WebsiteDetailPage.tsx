@@ -260,7 +260,8 @@ function WebsiteDetailPageComponent({
                   website={{
                     title: initialData.title,
                     id: initialData.id,
-                    category: initialData.category
+                    category: initialData.category,
+                    categoryPath: initialData.category_path
                   }}
                   onBreadcrumbClick={onBreadcrumbClick}
                   className={cn(
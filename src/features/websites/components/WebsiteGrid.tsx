@@ -1,5 +1,8 @@
-import React from "react";
+"use client";
+
+import React, { useEffect } from "react";
 import { cn } from "@/lib/utils";
+import { useIntersectionObserver } from "@/hooks/useIntersectionObserver";
 import { WebsiteCard } from "./WebsiteCard";
 import type { WebsiteCardData } from "../types/website";
 
@@ -33,6 +36,12 @@ interface WebsiteGridProps {
   
   /** 是否正在加载更多 */
   isLoadingMore?: boolean;
+
+  /** 无限滚动：滚动到列表底部时自动调用 onLoadMore，取代加载更多按钮 */
+  infiniteScroll?: boolean;
+
+  /** 加载更多失败的提示，出错后暂停自动加载，改为手动重试 */
+  loadMoreError?: string;
 }
 
 /**
@@ -179,6 +188,55 @@ const LoadMoreButton = ({
   );
 };
 
+/**
+ * 无限滚动哨兵组件
+ * 进入视口（提前400px）时加载下一批；一批加载完成后哨兵仍在视口内则继续加载
+ */
+const InfiniteScrollSentinel = ({
+  onLoadMore,
+  isLoadingMore,
+  hasMore,
+  error,
+}: {
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  hasMore?: boolean;
+  error?: string;
+}) => {
+  const { ref, isIntersecting } = useIntersectionObserver<HTMLDivElement>({
+    rootMargin: "0px 0px 400px 0px",
+    freezeOnceVisible: false,
+  });
+
+  useEffect(() => {
+    if (isIntersecting && hasMore && !isLoadingMore && !error) {
+      onLoadMore?.();
+    }
+  }, [isIntersecting, hasMore, isLoadingMore, error, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  if (error) {
+    return (
+      <div className="col-span-full flex flex-col items-center gap-3 pt-8 text-center">
+        <p className="text-sm text-muted-foreground">{error}</p>
+        <LoadMoreButton onLoadMore={onLoadMore} isLoadingMore={isLoadingMore} hasMore={hasMore} />
+      </div>
+    );
+  }
+
+  return (
+    <div ref={ref} className="col-span-full flex justify-center pt-8" aria-live="polite">
+      {isLoadingMore && (
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span className="h-4 w-4 animate-spin rounded-full border-2 border-primary/30 border-t-primary" />
+          加载中...
+        </span>
+      )}
+    </div>
+  );
+};
+
 /**
  * WebsiteGrid组件
  * 
@@ -186,7 +244,7 @@ const LoadMoreButton = ({
  * - 桌面端3列、平板2列、移动端1列的响应式布局
  * - loading、empty、error状态处理
  * - 网站卡片交互事件
- * - 无限滚动加载更多功能
+ * - 加载更多按钮，或 infiniteScroll 时滚动到底部自动加载
  */
 export function WebsiteGrid({
   websites,
@@ -199,6 +257,8 @@ export function WebsiteGrid({
   onLoadMore,
   hasMore = false,
   isLoadingMore = false,
+  infiniteScroll = false,
+  loadMoreError,
 }: WebsiteGridProps) {
   // 加载状态：显示骨架屏
   if (isLoading) {
@@ -270,12 +330,21 @@ export function WebsiteGrid({
         />
       ))}
       
-      {/* 加载更多按钮 */}
-      <LoadMoreButton
-        onLoadMore={onLoadMore}
-        isLoadingMore={isLoadingMore}
-        hasMore={hasMore}
-      />
+      {/* 无限滚动哨兵或加载更多按钮 */}
+      {infiniteScroll ? (
+        <InfiniteScrollSentinel
+          onLoadMore={onLoadMore}
+          isLoadingMore={isLoadingMore}
+          hasMore={hasMore}
+          error={loadMoreError}
+        />
+      ) : (
+        <LoadMoreButton
+          onLoadMore={onLoadMore}
+          isLoadingMore={isLoadingMore}
+          hasMore={hasMore}
+        />
+      )}
     </div>
   );
 }
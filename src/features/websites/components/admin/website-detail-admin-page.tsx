@@ -3,7 +3,7 @@
 import { useCallback, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 
-import type { WebsiteAdminDetail } from "@/features/websites/types/admin"
+import type { WebsiteAdminDetail, WebsiteLinkCheckResult } from "@/features/websites/types/admin"
 
 import { Button } from "@/components/ui/button"
 
@@ -14,6 +14,11 @@ interface DetailResponse {
   message?: string
 }
 
+interface LinkCheckResponse {
+  data?: WebsiteLinkCheckResult
+  message?: string
+}
+
 interface WebsiteDetailAdminPageProps {
   websiteId: string
 }
@@ -78,6 +83,29 @@ export function WebsiteDetailAdminPage({ websiteId }: WebsiteDetailAdminPageProp
     [router]
   )
 
+  const handleCheckLink = useCallback(async () => {
+    try {
+      setActionPending(true)
+      const response = await fetch(`/api/admin/websites/${websiteId}/link-check`, { method: "POST" })
+      const payload = (await response.json().catch(() => null)) as LinkCheckResponse | null
+
+      if (!response.ok || !payload?.data) {
+        throw new Error(payload?.message ?? "链接检测失败")
+      }
+
+      if (payload.data.unpublished) {
+        window.alert("链接连续检测失败，网站已自动下线为草稿")
+      }
+
+      await fetchDetail()
+    } catch (checkError) {
+      console.error("链接检测失败", checkError)
+      window.alert(checkError instanceof Error ? checkError.message : "链接检测失败")
+    } finally {
+      setActionPending(false)
+    }
+  }, [fetchDetail, websiteId])
+
   const handleEdit = useCallback(() => {
     if (!detail) return
     router.push(`/admin/websites/${detail.id}/edit`)
@@ -116,6 +144,15 @@ export function WebsiteDetailAdminPage({ websiteId }: WebsiteDetailAdminPageProp
           </div>
           <div className="flex flex-wrap gap-2">
             <Button variant="outline" onClick={() => router.push("/admin/websites")}>返回列表</Button>
+            <Button
+              variant="outline"
+              onClick={() => router.push(`/admin/audit-logs?entityType=website&entityId=${detail.id}`)}
+            >
+              变更记录
+            </Button>
+            <Button variant="outline" onClick={handleCheckLink} disabled={actionPending}>
+              {actionPending ? "处理中..." : "检测链接"}
+            </Button>
             <Button onClick={handleEdit} disabled={actionPending}>编辑</Button>
           </div>
         </div>
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 
 import type { WebsiteAdminDetail } from "@/features/websites/types/admin"
 
+import { WebsiteLinkHealthBadge } from "./website-link-health-badge"
 import { WebsiteStatusBadge } from "./website-status-badge"
 
 interface WebsiteDetailCardProps {
@@ -91,6 +92,23 @@ export function WebsiteDetailCard({
           </div>
         </section>
 
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground">链接健康</h3>
+          <WebsiteLinkHealthBadge health={website.linkHealth} />
+          {website.linkHealth ? (
+            <div className="grid gap-1 text-xs text-muted-foreground">
+              <div>最近检测：{formatDate(website.linkHealth.checkedAt)}</div>
+              {website.linkHealth.responseTimeMs !== null ? (
+                <div>响应时间：{website.linkHealth.responseTimeMs} ms</div>
+              ) : null}
+              {website.linkHealth.finalUrl && website.linkHealth.finalUrl !== website.url ? (
+                <div className="break-all">最终地址：{website.linkHealth.finalUrl}</div>
+              ) : null}
+              {website.linkHealth.error ? <div>错误信息：{website.linkHealth.error}</div> : null}
+            </div>
+          ) : null}
+        </section>
+
         {website.description ? (
           <section className="space-y-2">
             <h3 className="text-sm font-semibold text-foreground">网站描述</h3>
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/select"
 
 import type { WebsiteStatus } from "@/features/websites/types"
+import type { WebsiteLinkStatus } from "@/features/websites/types/admin"
 
 const STATUS_OPTIONS: Array<{ value: WebsiteStatus | "all"; label: string }> = [
   { value: "all", label: "全部状态" },
@@ -27,14 +28,23 @@ const AD_FILTER_OPTIONS = [
   { value: "ad", label: "广告投放" },
 ]
 
+const LINK_STATUS_OPTIONS: Array<{ value: WebsiteLinkStatus | "all"; label: string }> = [
+  { value: "all", label: "全部链接" },
+  { value: "healthy", label: "链接正常" },
+  { value: "broken", label: "链接异常" },
+  { value: "unchecked", label: "尚未检测" },
+]
+
 interface WebsiteFiltersProps {
   search: string
   status: WebsiteStatus | "all"
   adFilter: "all" | "ad" | "organic"
+  linkStatus: WebsiteLinkStatus | "all"
   loading?: boolean
   onSearchChange: (value: string) => void
   onStatusChange: (value: WebsiteStatus | "all") => void
   onAdFilterChange: (value: "all" | "ad" | "organic") => void
+  onLinkStatusChange: (value: WebsiteLinkStatus | "all") => void
   onApply: () => void
   onCreate: () => void
 }
@@ -43,10 +53,12 @@ export function WebsiteFilters({
   search,
   status,
   adFilter,
+  linkStatus,
   loading,
   onSearchChange,
   onStatusChange,
   onAdFilterChange,
+  onLinkStatusChange,
   onApply,
   onCreate,
 }: WebsiteFiltersProps) {
@@ -107,11 +119,31 @@ export function WebsiteFilters({
             </SelectContent>
           </Select>
         </div>
+
+        <div className="space-y-2">
+          <Label>链接状态</Label>
+          <Select
+            value={linkStatus}
+            onValueChange={(value: WebsiteLinkStatus | "all") => onLinkStatusChange(value)}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LINK_STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div className="mt-4 flex flex-col gap-2 md:mt-6 md:flex-row md:items-center md:justify-between">
         <div className="text-xs text-muted-foreground">
-          提示：可按发布状态筛选草稿或已发布的网站。
+          提示：可按发布状态筛选草稿或已发布的网站，链接异常的网站连续检测失败后会被自动下线。
         </div>
         <div className="flex flex-wrap gap-2">
           <Button variant="outline" onClick={onApply} disabled={disabled}>
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea"
 import { cn } from "@/lib/utils"
 
+import { MediaPickerButton } from "@/features/media/components/media-picker-dialog"
 import { useWebsiteFormOptions } from "@/features/websites/hooks"
 import type { WebsiteAdminDetail } from "@/features/websites/types/admin"
 
@@ -317,27 +318,33 @@ export function WebsiteForm({ mode, website, submitting, onCancel, onSubmit, lay
       <div className="grid gap-4 md:grid-cols-2">
         <div className="space-y-2">
           <Label htmlFor="website-favicon">Favicon URL</Label>
-          <Input
-            id="website-favicon"
-            type="url"
-            value={faviconUrl}
-            onChange={(event) => setFaviconUrl(event.target.value)}
-            placeholder="https://example.com/favicon.ico"
-            disabled={submitting}
-          />
+          <div className="flex gap-2">
+            <Input
+              id="website-favicon"
+              type="url"
+              value={faviconUrl}
+              onChange={(event) => setFaviconUrl(event.target.value)}
+              placeholder="https://example.com/favicon.ico"
+              disabled={submitting}
+            />
+            <MediaPickerButton title="选择 Favicon" disabled={submitting} onSelect={(asset) => setFaviconUrl(asset.url)} />
+          </div>
           <p className="text-xs text-muted-foreground">用于在卡片和详情页展示网站图标。</p>
         </div>
 
         <div className="space-y-2">
           <Label htmlFor="website-screenshot">截图 URL</Label>
-          <Input
-            id="website-screenshot"
-            type="url"
-            value={screenshotUrl}
-            onChange={(event) => setScreenshotUrl(event.target.value)}
-            placeholder="https://example.com/preview.png"
-            disabled={submitting}
-          />
+          <div className="flex gap-2">
+            <Input
+              id="website-screenshot"
+              type="url"
+              value={screenshotUrl}
+              onChange={(event) => setScreenshotUrl(event.target.value)}
+              placeholder="https://example.com/preview.png"
+              disabled={submitting}
+            />
+            <MediaPickerButton title="选择网站截图" disabled={submitting} onSelect={(asset) => setScreenshotUrl(asset.url)} />
+          </div>
           <p className="text-xs text-muted-foreground">可选，在详情页展示网站预览图。</p>
         </div>
       </div>
@@ -0,0 +1,32 @@
+import { cn } from "@/lib/utils"
+
+import type { WebsiteLinkHealth } from "@/features/websites/types/admin"
+
+interface WebsiteLinkHealthBadgeProps {
+  health?: WebsiteLinkHealth | null
+  className?: string
+}
+
+export function WebsiteLinkHealthBadge({ health, className }: WebsiteLinkHealthBadgeProps) {
+  const style = !health
+    ? "bg-slate-50 text-slate-500 border-slate-200"
+    : health.isHealthy
+      ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+      : "bg-red-50 text-red-700 border-red-200"
+
+  const label = !health
+    ? "未检测"
+    : health.isHealthy
+      ? `链接正常${health.statusCode ? ` · ${health.statusCode}` : ""}`
+      : `链接异常 · ${health.statusCode ?? health.error ?? "未知错误"}`
+
+  return (
+    <span
+      className={cn("inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] font-medium", style, className)}
+      title={health ? `最近检测：${new Date(health.checkedAt).toLocaleString()}` : undefined}
+    >
+      {label}
+      {health && health.consecutiveFailures > 1 ? ` · 连续 ${health.consecutiveFailures} 次` : null}
+    </span>
+  )
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button"
 
 import type { WebsiteAdminListItem } from "@/features/websites/types/admin"
 
+import { WebsiteLinkHealthBadge } from "./website-link-health-badge"
 import { WebsiteStatusBadge } from "./website-status-badge"
 
 interface WebsiteTableProps {
@@ -107,6 +108,9 @@ export function WebsiteTable({
                   </td>
                   <td className="px-4 py-3 align-top">
                     <WebsiteStatusBadge status={item.status} />
+                    <div className="mt-1">
+                      <WebsiteLinkHealthBadge health={item.linkHealth} />
+                    </div>
                     {item.submittedBy ? (
                       <div className="mt-1 text-[11px] text-muted-foreground">
                         提交人：{item.submittedBy}
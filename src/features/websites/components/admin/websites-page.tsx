@@ -3,7 +3,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react"
 import { useRouter } from "next/navigation"
 
-import type { WebsiteAdminListItem } from "@/features/websites/types/admin"
+import type { WebsiteAdminListItem, WebsiteLinkStatus } from "@/features/websites/types/admin"
 import type { WebsiteStatus } from "@/features/websites/types"
 
 import { WebsiteFilters } from "./website-filters"
@@ -30,6 +30,7 @@ export function WebsitesAdminPage() {
   const [search, setSearch] = useState("")
   const [status, setStatus] = useState<WebsiteStatus | "all">("all")
   const [adFilter, setAdFilter] = useState<AdFilter>("all")
+  const [linkStatus, setLinkStatus] = useState<WebsiteLinkStatus | "all">("all")
 
   const [page, setPage] = useState(1)
   const [pageSize] = useState(DEFAULT_PAGE_SIZE)
@@ -41,8 +42,8 @@ export function WebsitesAdminPage() {
   const [selectedId, setSelectedId] = useState<string | null>(null)
 
   const filtersMemo = useMemo(
-    () => ({ search, status, adFilter }),
-    [search, status, adFilter]
+    () => ({ search, status, adFilter, linkStatus }),
+    [search, status, adFilter, linkStatus]
   )
 
   const fetchWebsites = useCallback(async () => {
@@ -57,6 +58,7 @@ export function WebsitesAdminPage() {
       if (filtersMemo.status !== "all") params.set("status", filtersMemo.status)
       if (filtersMemo.adFilter === "ad") params.set("isAd", "true")
       if (filtersMemo.adFilter === "organic") params.set("isAd", "false")
+      if (filtersMemo.linkStatus !== "all") params.set("linkStatus", filtersMemo.linkStatus)
 
       const response = await fetch(`/api/admin/websites?${params.toString()}`)
       const payload = (await response.json().catch(() => null)) as ListResponse | null
@@ -147,10 +149,12 @@ export function WebsitesAdminPage() {
         search={search}
         status={status}
         adFilter={adFilter}
+        linkStatus={linkStatus}
         loading={loading}
         onSearchChange={setSearch}
         onStatusChange={(value) => setStatus(value)}
         onAdFilterChange={(value) => setAdFilter(value)}
+        onLinkStatusChange={(value) => setLinkStatus(value)}
         onApply={handleApplyFilters}
         onCreate={handleCreate}
       />
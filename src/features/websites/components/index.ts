@@ -10,6 +10,8 @@ export { WebsiteCard, default as WebsiteCardDefault } from './WebsiteCard'
 export { WebsiteGrid, default as WebsiteGridDefault } from './WebsiteGrid'
 export { SearchResults, default as SearchResultsDefault } from './SearchResults'
 export { TagPill, default as TagPillDefault } from './TagPill'
+export { TagModeToggle, default as TagModeToggleDefault } from './TagModeToggle'
+export { HighlightedText, default as HighlightedTextDefault } from './HighlightedText'
 export { CollectionCard, default as CollectionCardDefault } from './CollectionCard'
 export { CollectionGrid, default as CollectionGridDefault } from './CollectionGrid'
 export { CollectionIcon, default as CollectionIconDefault } from './CollectionIcon'
@@ -18,6 +20,7 @@ export { CollectionIndexPage, default as CollectionIndexPageDefault } from './Co
 export { CollectionPagination, default as CollectionPaginationDefault } from './CollectionPagination'
 export { FilterSelects, default as FilterSelectsDefault } from './FilterSelects'
 export { SearchFilters, default as SearchFiltersDefault } from './SearchFilters'
+export { SearchSuggestionList, default as SearchSuggestionListDefault } from './SearchSuggestionList'
 export { Pagination, default as PaginationDefault } from './Pagination'
 export { Footer, default as FooterDefault } from './Footer'
 export { ResponsiveLayout, default as ResponsiveLayoutDefault } from './ResponsiveLayout'
@@ -23,6 +23,12 @@ export {
   type SearchResultsActions,
 } from './useSearchPage';
 
+// 搜索建议下拉
+export {
+  useSearchSuggestions,
+  type UseSearchSuggestionsResult,
+} from './useSearchSuggestions';
+
 // 集合导航Hooks
 export {
   useCollectionNavigation,
@@ -3,7 +3,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import type { WebsiteCardData } from '../types/website';
-import type { WebsiteDTO } from '@/lib/validations/websites';
+import type { SortField, SortOrder, TagMode } from '../types/filters';
+import {
+  isWebsiteListSortField,
+  type WebsiteDTO,
+  type WebsiteListFacet,
+  type WebsiteListFacets,
+} from '@/lib/validations/websites';
 import {
   mapWebsiteDtoToCard,
   normalizeWebsiteListMeta,
@@ -15,7 +21,14 @@ interface UseHomepageWebsitesOptions {
   pageSize: number;
   search?: string;
   categoryId?: string | null;
+  tags?: string[];
+  /** 多个标签的匹配方式，缺省由服务端按 all 处理 */
+  tagMode?: TagMode;
   includeAds?: boolean;
+  sortBy?: SortField;
+  sortOrder?: SortOrder;
+  /** 需要随列表返回计数的分面 */
+  facets?: WebsiteListFacet[];
   enabled?: boolean;
 }
 
@@ -28,6 +41,8 @@ interface UseHomepageWebsitesResult {
   total: number;
   totalPages: number;
   hasMore: boolean;
+  /** 当前筛选结果的分面计数，未请求或加载失败时为 null */
+  facets: WebsiteListFacets | null;
   refresh: () => void;
 }
 
@@ -41,6 +56,7 @@ interface ApiSuccessPayload {
     total?: number;
     total_pages?: number;
     has_more?: boolean;
+    facets?: WebsiteListFacets;
   };
 }
 
@@ -50,10 +66,19 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
     pageSize,
     search,
     categoryId,
+    tags,
+    tagMode,
     includeAds = true,
+    sortBy,
+    sortOrder,
+    facets: facetFields,
     enabled = true,
   } = options;
 
+  // 数组参数按值比较，避免调用方每次渲染传入新数组导致重复请求
+  const facetsParam = facetFields && facetFields.length > 0 ? facetFields.join(',') : '';
+  const tagsParam = tags && tags.length > 0 ? tags.join(',') : '';
+
   const [websites, setWebsites] = useState<WebsiteCardData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -64,6 +89,7 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
   const [resolvedPage, setResolvedPage] = useState(page);
   const [resolvedPageSize, setResolvedPageSize] = useState(pageSize);
   const [hasMore, setHasMore] = useState(false);
+  const [facets, setFacets] = useState<WebsiteListFacets | null>(null);
 
   const abortRef = useRef<AbortController | null>(null);
   const requestIdRef = useRef(0);
@@ -98,10 +124,29 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
       params.set('category', categoryId);
     }
 
+    if (tagsParam) {
+      params.set('tags', tagsParam);
+      if (tagMode) {
+        params.set('tagMode', tagMode);
+      }
+    }
+
     if (typeof includeAds === 'boolean') {
       params.set('includeAds', String(includeAds));
     }
 
+    // 仅传递服务端支持的排序字段，其余（如 rating、featured）沿用默认排序
+    if (isWebsiteListSortField(sortBy)) {
+      params.set('sortBy', sortBy);
+      if (sortOrder) {
+        params.set('sortOrder', sortOrder);
+      }
+    }
+
+    if (facetsParam) {
+      params.set('facets', facetsParam);
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -136,6 +181,7 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
           setTotal(meta.total);
           setTotalPages(meta.totalPages);
           setHasMore(meta.hasMore);
+          setFacets((payload as ApiSuccessPayload).meta?.facets ?? null);
           setError(null);
         } else {
           const message = extractApiErrorMessage(payload) ?? '网站数据加载失败';
@@ -153,6 +199,7 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
         setTotal(0);
         setTotalPages(0);
         setHasMore(false);
+        setFacets(null);
         setError(message);
       } finally {
         if (!controller.signal.aborted && requestIdRef.current === requestId) {
@@ -167,7 +214,7 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
       controller.abort();
       abortRef.current = null;
     };
-  }, [page, pageSize, search, categoryId, includeAds, refreshToken, enabled]);
+  }, [page, pageSize, search, categoryId, tagsParam, tagMode, includeAds, sortBy, sortOrder, facetsParam, refreshToken, enabled]);
 
   return useMemo(() => ({
     websites,
@@ -178,6 +225,7 @@ export function useHomepageWebsites(options: UseHomepageWebsitesOptions): UseHom
     total,
     totalPages,
     hasMore,
+    facets,
     refresh,
-  }), [websites, isLoading, error, resolvedPage, resolvedPageSize, total, totalPages, hasMore, refresh]);
+  }), [websites, isLoading, error, resolvedPage, resolvedPageSize, total, totalPages, hasMore, facets, refresh]);
 }
@@ -45,7 +45,8 @@ import {
   normalizeWebsiteListMeta,
   extractApiErrorMessage,
 } from '../utils';
-import type { WebsiteDTO } from '@/lib/validations/websites';
+import { isWebsiteListSortField, type WebsiteDTO } from '@/lib/validations/websites';
+import { isSearchDate, type ParsedSearchQuery } from '@/lib/utils/search-query';
 
 /**
  * 搜索筛选器配置接口
@@ -189,6 +190,8 @@ export interface SearchResultsState {
   lastSearchQuery: string;
   /** 搜索分析数据 */
   analytics: SearchAnalytics | null;
+  /** 服务端实际执行的搜索条件，用于渲染可移除的条件标签 */
+  parsedQuery: ParsedSearchQuery | null;
 }
 
 /**
@@ -256,9 +259,23 @@ interface SearchApiSuccessPayload {
     total?: number;
     total_pages?: number;
     has_more?: boolean;
+    parsed_query?: ParsedSearchQuery | null;
   };
 }
 
+/** 日期筛选可能带时间部分，接口只接受 YYYY-MM-DD */
+function toSearchDate(value: string | null | undefined): string | null {
+  const date = value?.slice(0, 10);
+  return date && isSearchDate(date) ? date : null;
+}
+
+/** 日期范围的结束日包含当天，接口的 before 为开区间 */
+function nextSearchDate(date: string): string {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
 /**
  * 搜索筛选器Hook
  * 
@@ -313,6 +330,7 @@ export function useSearchFilters(config: SearchFiltersConfig = {}) {
     search: currentQuery,
     categoryId,
     selectedTags,
+    tagMode,
     sortBy,
     sortOrder,
     featuredOnly,
@@ -591,6 +609,7 @@ export function useSearchFilters(config: SearchFiltersConfig = {}) {
     query: currentQuery,
     category: categoryId || undefined,
     tags: selectedTags,
+    tagMode,
     sortBy,
     sortOrder,
     featured: featuredOnly,
@@ -609,6 +628,7 @@ export function useSearchFilters(config: SearchFiltersConfig = {}) {
     currentQuery,
     categoryId,
     selectedTags,
+    tagMode,
     sortBy,
     sortOrder,
     featuredOnly,
@@ -783,12 +803,14 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
   const [searchTime, setSearchTime] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [analytics, setAnalytics] = useState<SearchAnalytics | null>(null);
+  const [parsedQuery, setParsedQuery] = useState<ParsedSearchQuery | null>(null);
 
   // 缓存和引用
   const resultsCache = useRef<Map<string, {
     results: WebsiteCardData[];
     timestamp: number;
     totalResults: number;
+    parsedQuery: ParsedSearchQuery | null;
   }>>(new Map());
   const lastSearchRef = useRef<string>('');
   const searchStartTimeRef = useRef<number>(0);
@@ -824,6 +846,7 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
     if (cached && isCacheValid(cached.timestamp)) {
       setResults(cached.results);
       setTotalResults(cached.totalResults);
+      setParsedQuery(cached.parsedQuery);
       setStatus('success');
       setCurrentPage(page);
       return;
@@ -845,6 +868,8 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
 
     if (normalizedQuery.length > 0) {
       params.set('query', normalizedQuery);
+      // 标记为用户提交的搜索，服务端据此统计热门搜索词
+      params.set('source', 'search');
     }
 
     if (filters.category) {
@@ -853,6 +878,9 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
 
     if (Array.isArray(filters.tags) && filters.tags.length > 0) {
       params.set('tags', filters.tags.join(','));
+      if (filters.tagMode) {
+        params.set('tagMode', filters.tagMode);
+      }
     }
 
     if (typeof filters.featured === 'boolean') {
@@ -867,12 +895,37 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
       params.set('minRating', String(filters.minRating));
     }
 
-    if (filters.sortBy && filters.sortBy !== 'relevance') {
+    if (isWebsiteListSortField(filters.sortBy)) {
       params.set('sortBy', filters.sortBy);
+      if (filters.sortOrder) {
+        params.set('sortOrder', filters.sortOrder);
+      }
+    }
+
+    // 高级搜索选项；网站没有语言字段，language 暂不下发
+    if (filters.exactMatch) {
+      params.set('exact', 'true');
+    }
+
+    if (Array.isArray(filters.requiredTerms) && filters.requiredTerms.length > 0) {
+      params.set('required', filters.requiredTerms.join(','));
+    }
+
+    if (Array.isArray(filters.excludeTerms) && filters.excludeTerms.length > 0) {
+      params.set('exclude', filters.excludeTerms.join(','));
+    }
+
+    const dateFrom = toSearchDate(filters.dateRange?.from);
+    const dateTo = toSearchDate(filters.dateRange?.to);
+    if (dateFrom) {
+      params.set('after', dateFrom);
+    }
+    if (dateTo) {
+      params.set('before', nextSearchDate(dateTo));
     }
 
-    if (filters.sortOrder) {
-      params.set('sortOrder', filters.sortOrder);
+    if (filters.searchScope && filters.searchScope !== 'all') {
+      params.set('scope', filters.searchScope);
     }
 
     try {
@@ -904,16 +957,19 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
       });
 
       const totalResultsValue = meta.total;
+      const parsedQueryValue = (payload as SearchApiSuccessPayload).meta?.parsed_query ?? null;
       const searchDuration = Date.now() - searchStartTimeRef.current;
       setSearchTime(searchDuration);
       setResults(mappedResults);
       setTotalResults(totalResultsValue);
+      setParsedQuery(parsedQueryValue);
       setCurrentPage(meta.page);
       setStatus(mappedResults.length > 0 ? 'success' : 'empty');
 
       resultsCache.current.set(cacheKey, {
         results: mappedResults,
         totalResults: totalResultsValue,
+        parsedQuery: parsedQueryValue,
         timestamp: Date.now(),
       });
 
@@ -945,6 +1001,7 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
 
       setResults([]);
       setTotalResults(0);
+      setParsedQuery(null);
       setStatus('error');
       setError(err instanceof Error ? err.message : '搜索失败，请重试');
     } finally {
@@ -1018,6 +1075,7 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
     setSearchTime(0);
     setCurrentPage(1);
     setAnalytics(null);
+    setParsedQuery(null);
     lastSearchRef.current = '';
   }, []);
 
@@ -1068,6 +1126,7 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
     isEmpty,
     lastSearchQuery: lastSearchRef.current,
     analytics,
+    parsedQuery,
   }), [
     results,
     status,
@@ -1081,6 +1140,7 @@ export function useSearchResults(config: SearchResultsConfig = {}) {
     hasMoreData,
     isEmpty,
     analytics,
+    parsedQuery,
   ]);
 
   // 构建搜索结果操作
@@ -0,0 +1,180 @@
+"use client"
+
+import { useCallback, useEffect, useId, useState } from "react"
+import type React from "react"
+
+import type { SearchSuggestion } from "../types/filters"
+
+interface UseSearchSuggestionsOptions {
+  /** 防抖延迟，单位毫秒 */
+  debounceMs?: number
+  limit?: number
+  enabled?: boolean
+  /** 选中建议时回调；未处理 Enter 时由输入框自身提交搜索 */
+  onSelect: (suggestion: SearchSuggestion) => void
+}
+
+export interface UseSearchSuggestionsResult {
+  suggestions: SearchSuggestion[]
+  isLoading: boolean
+  isOpen: boolean
+  activeIndex: number
+  /** 下拉列表元素 id，用于 aria-controls */
+  listId: string
+  getOptionId: (index: number) => string
+  open: () => void
+  close: () => void
+  setActiveIndex: (index: number) => void
+  select: (suggestion: SearchSuggestion) => void
+  /** 处理方向键、Enter、Escape；返回 true 表示事件已被下拉框消费 */
+  handleKeyDown: (event: React.KeyboardEvent<HTMLInputElement>) => boolean
+  /** 供输入框 ARIA 属性展开使用 */
+  inputProps: {
+    role: "combobox"
+    "aria-autocomplete": "list"
+    "aria-expanded": boolean
+    "aria-controls": string
+    "aria-activedescendant": string | undefined
+  }
+}
+
+const DEFAULT_DEBOUNCE_MS = 200
+const MAX_QUERY_LENGTH = 64
+
+export function useSearchSuggestions(
+  query: string,
+  options: UseSearchSuggestionsOptions
+): UseSearchSuggestionsResult {
+  const { debounceMs = DEFAULT_DEBOUNCE_MS, limit, enabled = true, onSelect } = options
+
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  const listId = `search-suggestions-${useId().replace(/:/g, "")}`
+  const trimmed = query.trim()
+
+  useEffect(() => {
+    if (!enabled || !trimmed || trimmed.length > MAX_QUERY_LENGTH) {
+      setSuggestions([])
+      setIsLoading(false)
+      setActiveIndex(-1)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsLoading(true)
+
+      try {
+        const params = new URLSearchParams()
+        params.set("q", trimmed)
+        if (limit) params.set("limit", String(limit))
+
+        const response = await fetch(`/api/search/suggest?${params.toString()}`, {
+          signal: controller.signal,
+        })
+        const payload = await response.json().catch(() => null)
+
+        if (controller.signal.aborted) return
+
+        const items =
+          response.ok && payload && payload.code === 0 && Array.isArray(payload.data?.items)
+            ? (payload.data.items as SearchSuggestion[])
+            : []
+        setSuggestions(items)
+        setActiveIndex(-1)
+      } catch (error) {
+        if ((error as Error)?.name === "AbortError") return
+        // 建议只是辅助功能，失败时静默清空，不打断用户输入
+        setSuggestions([])
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }, debounceMs)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [trimmed, enabled, limit, debounceMs])
+
+  const open = useCallback(() => setIsOpen(true), [])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+    setActiveIndex(-1)
+  }, [])
+
+  const select = useCallback(
+    (suggestion: SearchSuggestion) => {
+      setIsOpen(false)
+      setActiveIndex(-1)
+      onSelect(suggestion)
+    },
+    [onSelect]
+  )
+
+  const visible = isOpen && suggestions.length > 0
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>): boolean => {
+      if (event.nativeEvent.isComposing) return false
+
+      switch (event.key) {
+        case "ArrowDown":
+          if (suggestions.length === 0) return false
+          event.preventDefault()
+          setIsOpen(true)
+          setActiveIndex((index) => (!visible || index >= suggestions.length - 1 ? 0 : index + 1))
+          return true
+        case "ArrowUp":
+          if (suggestions.length === 0) return false
+          event.preventDefault()
+          setIsOpen(true)
+          setActiveIndex((index) => (!visible || index <= 0 ? suggestions.length - 1 : index - 1))
+          return true
+        case "Enter":
+          if (!visible || activeIndex < 0 || activeIndex >= suggestions.length) {
+            setIsOpen(false)
+            return false
+          }
+          event.preventDefault()
+          select(suggestions[activeIndex])
+          return true
+        case "Escape":
+          if (!visible) return false
+          event.preventDefault()
+          close()
+          return true
+        default:
+          return false
+      }
+    },
+    [suggestions, visible, activeIndex, select, close]
+  )
+
+  const getOptionId = useCallback((index: number) => `${listId}-option-${index}`, [listId])
+
+  return {
+    suggestions,
+    isLoading,
+    isOpen: visible,
+    activeIndex,
+    listId,
+    getOptionId,
+    open,
+    close,
+    setActiveIndex,
+    select,
+    handleKeyDown,
+    inputProps: {
+      role: "combobox",
+      "aria-autocomplete": "list",
+      "aria-expanded": visible,
+      "aria-controls": listId,
+      "aria-activedescendant": visible && activeIndex >= 0 ? getOptionId(activeIndex) : undefined,
+    },
+  }
+}
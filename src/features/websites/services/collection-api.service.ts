@@ -134,6 +134,9 @@ export const collectionApiService = {
     if (params.orderBy) {
       searchParams.set('orderBy', params.orderBy);
     }
+    if (params.cursor !== undefined) {
+      searchParams.set('cursor', params.cursor);
+    }
 
     const url = `${API_BASE_URL}/api/collections?${searchParams.toString()}`;
 
@@ -141,20 +144,23 @@ export const collectionApiService = {
     const response = await fetchApiWithMeta<CollectionListResult['items']>(url);
 
     // 构建 CollectionListResult
+    // 游标分页的响应不含 page / total_pages，后续页 total 为 null
     const meta = response.meta as {
-      page: number;
+      page?: number;
       per_page: number;
-      total: number;
-      total_pages: number;
+      total: number | null;
+      total_pages?: number;
       has_more: boolean;
+      next_cursor?: string | null;
     };
 
     return {
       items: response.data,
-      page: meta.page,
+      page: meta.page ?? params.page ?? 1,
       pageSize: meta.per_page,
       total: meta.total,
       hasMore: meta.has_more,
+      nextCursor: meta.next_cursor ?? null,
     };
   },
 
@@ -8,13 +8,16 @@
  * @author WebVault Team
  */
 
+import { parseJSendFetch } from '@/lib/utils/jsend';
+
 import type { Category } from '../types/category';
 import { WebsiteDetailData } from '../types/detail';
 import { Website, WebsiteCardData } from '../types/website';
 
-// TODO: 迁移到使用真实 API 调用，不再使用 mock 数据
-// import { mockWebsites } from '../data/mockWebsites';
-const mockWebsites: WebsiteCardData[] = [];
+/**
+ * 详情接口返回的相关网站候选数量，客户端再按推荐策略打分筛选
+ */
+const RELATED_CANDIDATE_LIMIT = 20;
 
 /**
  * 相关网站推荐策略类型
@@ -206,34 +209,8 @@ export class WebsiteDetailService {
         return this.validateAndCloneWebsiteData(cachedData);
       }
 
-      // 从Mock数据中查找基础网站信息
-      // 注意：此服务现在主要用于客户端组件，服务端应该直接使用 websitesService
-      const baseWebsite = mockWebsites.find(
-        website => website.id === normalizedId
-      );
-
-      if (!baseWebsite) {
-        throw new WebsiteDetailServiceError(
-          `Website with ID "${websiteId}" not found`,
-          'NOT_FOUND',
-          { requestedId: websiteId, normalizedId }
-        );
-      }
-
-      // 验证网站访问权限 (只显示可访问的网站)
-      if (!this.isWebsiteAccessible(baseWebsite)) {
-        throw new WebsiteDetailServiceError(
-          `Website with ID "${websiteId}" is not accessible`,
-          'ACCESS_DENIED',
-          {
-            websiteId: websiteId,
-            status: 'draft'
-          }
-        );
-      }
-
-      // 转换为详情数据格式
-      const websiteDetail = this.transformToWebsiteDetailData(baseWebsite);
+      // 从详情接口获取（服务端组件应直接使用 websitesService.getDetail）
+      const websiteDetail = await this.fetchWebsiteDetail(normalizedId);
 
       // 验证数据完整性
       const validationResult = this.validateWebsiteDetailData(websiteDetail);
@@ -316,21 +293,11 @@ export class WebsiteDetailService {
         return this.relatedWebsitesCache.get(cacheKey)!.slice(0, limit);
       }
 
-      // 模拟网络延迟
-      await this.simulateNetworkDelay(100);
-
-      // 获取当前网站详情
-      const currentWebsite = mockWebsites.find(website => website.id === currentWebsiteId);
-      if (!currentWebsite) {
-        throw new WebsiteDetailServiceError(
-          `Current website with ID "${currentWebsiteId}" not found`,
-          'NOT_FOUND',
-          { requestedId: currentWebsiteId }
-        );
-      }
+      // 获取当前网站详情，候选网站随详情接口一并返回
+      const currentWebsiteDetail = await this.getWebsiteById(currentWebsiteId);
 
       // 获取候选网站列表，过滤掉不可访问的网站
-      const candidateWebsites = mockWebsites.filter(website => {
+      const candidateWebsites = (currentWebsiteDetail.related_websites ?? []).filter(website => {
         // 排除当前网站
         if (excludeCurrentWebsite && website.id === currentWebsiteId) {
           return false;
@@ -349,7 +316,6 @@ export class WebsiteDetailService {
         return true;
       });
 
-      const currentWebsiteDetail = this.transformToWebsiteDetailData(currentWebsite);
       const candidateDetails = candidateWebsites.map((website) =>
         this.transformToWebsiteDetailData(website)
       );
@@ -395,54 +361,42 @@ export class WebsiteDetailService {
    * @returns Promise<VisitTrackingResult> - 访问统计结果
    */
   async trackWebsiteVisit(websiteId: string): Promise<VisitTrackingResult> {
-    try {
-      // 输入验证
-      if (!websiteId || typeof websiteId !== 'string') {
-        return {
-          success: false,
-          newVisitCount: 0,
-          error: 'Invalid website ID parameter'
-        };
-      }
+    // 输入验证
+    if (!websiteId || typeof websiteId !== 'string') {
+      return {
+        success: false,
+        newVisitCount: 0,
+        error: 'Invalid website ID parameter'
+      };
+    }
 
-      // 模拟API调用延迟
-      await this.simulateNetworkDelay(50);
+    try {
+      const normalizedId = websiteId.trim();
+      const response = await fetch(`/api/websites/${encodeURIComponent(normalizedId)}/visit`, {
+        method: 'POST',
+        headers: { Accept: 'application/json' },
+        keepalive: true,
+      });
+      const payload = await parseJSendFetch<{ counted: boolean; reason?: string; visitCount: number }>(response);
 
-      // 查找网站
-      const websiteIndex = mockWebsites.findIndex(website => website.id === websiteId);
-      if (websiteIndex === -1) {
+      if (payload.status !== 'success') {
         return {
           success: false,
-          newVisitCount: 0,
-          error: `Website with ID "${websiteId}" not found`
+          newVisitCount: this.cache.get(normalizedId)?.visitCount ?? 0,
+          error: payload.status === 'error' ? payload.message : `Visit tracking failed with status ${response.status}`
         };
       }
 
-      const website = mockWebsites[websiteIndex];
-
-      // 验证网站访问权限
-      if (!this.isWebsiteAccessible(website)) {
-        return {
-          success: false,
-          newVisitCount: website.visit_count || 0,
-          error: 'Website is not accessible'
-        };
+      // 更新缓存中的访问次数，避免详情数据与统计结果不一致
+      const cached = this.cache.get(normalizedId);
+      if (cached) {
+        this.cache.set(normalizedId, { ...cached, visitCount: payload.data.visitCount });
       }
 
-      // 增加访问次数
-      const newVisitCount = (website.visit_count || 0) + 1;
-      mockWebsites[websiteIndex] = {
-        ...website,
-        visit_count: newVisitCount,
-        updated_at: new Date().toISOString()
-      };
-
-      // 清除相关缓存
-      this.clearWebsiteCache(websiteId);
-
+      // 去重或爬虫请求不计数，但对调用方而言不是错误
       return {
         success: true,
-        newVisitCount: newVisitCount
+        newVisitCount: payload.data.visitCount
       };
 
     } catch (error) {
@@ -509,12 +463,39 @@ export class WebsiteDetailService {
     };
   }
 
+  /**
+   * 调用详情接口；接口只返回已发布网站，404 统一视为不存在
+   */
+  private async fetchWebsiteDetail(websiteId: string): Promise<WebsiteDetailData> {
+    const response = await fetch(
+      `/api/websites/${encodeURIComponent(websiteId)}/detail?relatedLimit=${RELATED_CANDIDATE_LIMIT}`,
+      { headers: { Accept: 'application/json' } }
+    );
+
+    if (response.status === 404) {
+      throw new WebsiteDetailServiceError(
+        `Website with ID "${websiteId}" not found`,
+        'NOT_FOUND',
+        { requestedId: websiteId }
+      );
+    }
+
+    const payload = await parseJSendFetch<WebsiteDetailData>(response);
+    if (payload.status !== 'success') {
+      throw new WebsiteDetailServiceError(
+        payload.status === 'error' ? payload.message : `Failed to fetch website "${websiteId}"`,
+        'FETCH_ERROR',
+        { websiteId, status: response.status, payload }
+      );
+    }
+
+    return payload.data;
+  }
+
   /**
    * 验证网站是否可访问 (只显示已发布的网站)
    */
   private isWebsiteAccessible(website: WebsiteCardData): boolean {
-    // Mock数据中的网站默认都是可访问的，实际项目中会检查 status 字段
-    // 这里我们简单地检查是否有必要的字段
     return !!(website.id && website.title && website.url);
   }
 
@@ -678,7 +659,11 @@ export class WebsiteDetailService {
    * 基于分类的相关性分数
    */
   private calculateCategoryScore(currentWebsite: Partial<WebsiteDetailData>, candidateWebsite: Partial<WebsiteDetailData>): number {
-    if (currentWebsite.category?.id === candidateWebsite.category?.id) {
+    // 候选网站来自卡片数据，只携带分类名称
+    if (
+      currentWebsite.category?.id === candidateWebsite.category?.id ||
+      (currentWebsite.category?.name && currentWebsite.category.name === candidateWebsite.category?.name)
+    ) {
       return 1.0;
     }
 
@@ -839,15 +824,6 @@ export class WebsiteDetailService {
   private deepCloneWebsiteData(data: WebsiteDetailData): WebsiteDetailData {
     return JSON.parse(JSON.stringify(data));
   }
-
-  /**
-   * 模拟网络延迟
-   */
-  private async simulateNetworkDelay(ms: number = 200): Promise<void> {
-    if (process.env.NODE_ENV === 'development') {
-      await new Promise(resolve => setTimeout(resolve, ms));
-    }
-  }
 }
 
 /**
@@ -933,25 +909,19 @@ export async function getSmartRecommendations(
     }
 
     // 基于用户历史的个性化推荐
-    const currentWebsite = mockWebsites.find(website => website.id === currentWebsiteId);
-    if (!currentWebsite) {
-      throw new WebsiteDetailServiceError(
-        `Website with ID "${currentWebsiteId}" not found`,
-        'NOT_FOUND'
-      );
-    }
+    const currentWebsite = await getWebsiteById(currentWebsiteId);
+    const historyWebsites = (await getWebsitesByIdsBatch(userBrowsingHistory)).map(extractCardDataHelper);
 
     // 获取候选网站（排除当前网站和已浏览的网站）
-    const candidates = mockWebsites.filter(website =>
+    const candidates = (currentWebsite.related_websites ?? []).filter(website =>
       website.id !== currentWebsiteId &&
       !userBrowsingHistory.includes(website.id)
-      // Mock数据中暂时不检查 status，实际项目中会添加这些条件
     );
 
     // 基于浏览历史计算个性化分数
     const scoredWebsites = candidates.map((website) => ({
       website,
-      score: calculatePersonalizedScore(currentWebsite, website, userBrowsingHistory),
+      score: calculatePersonalizedScore(website, historyWebsites),
     }));
 
     // 返回得分最高的网站
@@ -1013,15 +983,12 @@ function extractCardDataHelper(website: WebsiteCardData | WebsiteDetailData): We
  * 计算个性化推荐分数
  */
 function calculatePersonalizedScore(
-  _currentWebsite: WebsiteCardData,
   candidateWebsite: WebsiteCardData,
-  browsingHistory: string[]
+  historyWebsites: WebsiteCardData[]
 ): number {
   let score = 0;
 
-  // 分析用户偏好
-  const historyWebsites = mockWebsites.filter(website => browsingHistory.includes(website.id));
-  
+
   // 分类偏好 (40%权重)
   const categoryPreference = historyWebsites.filter(website => 
     website.category === candidateWebsite.category
@@ -280,8 +280,8 @@ export const useCollectionStore = create<CollectionPageState>()(
                   collections,
                   pagination: {
                     ...current.pagination,
-                    totalItems: result.total,
-                    totalPages: Math.ceil(result.total / result.pageSize),
+                    totalItems: result.total ?? 0,
+                    totalPages: Math.ceil((result.total ?? 0) / result.pageSize),
                   },
                   ui: {
                     ...current.ui,
@@ -19,6 +19,7 @@ import {
   FilterState, 
   SortField,
   SortOrder,
+  TagMode,
   Category,
   PaginationState
 } from '../types';
@@ -129,6 +130,7 @@ export const searchParamsParsers = {
   
   // 标签筛选 (JSON数组) - 临时使用字符串实现
   tags: parseAsString,
+  tagMode: parseAsString,           // 多标签匹配方式: 'all' | 'any'
   
   // 排序字段
   sortBy: parseAsString,
@@ -259,6 +261,7 @@ export interface HomepageState extends FilterState {
     addTag: (tagId: string) => void;
     removeTag: (tagId: string) => void;
     setTags: (tagIds: string[]) => void;
+    setTagMode: (mode: TagMode) => void;
     
     // 排序相关
     setSorting: (field: SortField, order: SortOrder) => void;
@@ -520,6 +523,17 @@ export const useHomepageStore = create<HomepageState>()(
               'setTags'
             );
           },
+
+          setTagMode: (mode: TagMode) => {
+            set(
+              (state) => ({
+                tagMode: mode,
+                pagination: { ...state.pagination, currentPage: 1 },
+              }),
+              false,
+              'setTagMode'
+            );
+          },
           
           // 排序相关方法
           setSorting: (field: SortField, order: SortOrder) => {
@@ -693,6 +707,7 @@ export const useHomepageStore = create<HomepageState>()(
               search = '',
               category = '',
               tags = '',
+              tagMode = 'all',
               sortBy = 'created_at',
               sortOrder = 'desc',
               page = 1,
@@ -720,6 +735,7 @@ export const useHomepageStore = create<HomepageState>()(
                 search: normalizedSearch,
                 categoryId: normalizedCategory,
                 selectedTags: tagsArray,
+                tagMode: tagMode === 'any' ? 'any' : 'all',
                 sortBy: sortBy as SortField,
                 sortOrder: sortOrder as SortOrder,
                 featuredOnly: normalizedFeatured,
@@ -1311,6 +1327,7 @@ export function useSearchPageUrlSync() {
       search: store.search || undefined,
       category: store.categoryId || undefined,
       tags: store.selectedTags.length > 0 ? store.selectedTags.join(',') : undefined,
+      tagMode: store.tagMode === 'any' ? store.tagMode : undefined,
       sortBy: store.sortBy !== 'created_at' ? store.sortBy : undefined,
       sortOrder: store.sortOrder !== 'desc' ? store.sortOrder : undefined,
       page: store.pagination.currentPage > 1 ? store.pagination.currentPage : undefined,
@@ -1359,6 +1376,7 @@ export function useHomepageFilters() {
     search,
     categoryId,
     selectedTags,
+    tagMode = 'all',
     sortBy,
     sortOrder,
     featuredOnly,
@@ -1385,6 +1403,7 @@ export function useHomepageFilters() {
     search: search || undefined,
     category: categoryId || undefined,
     tags: selectedTags.length > 0 ? selectedTags : undefined,
+    tagMode: selectedTags.length > 1 ? tagMode : undefined,
     featured: featuredOnly || undefined,
     includeAds: includeAds,
     minRating: minRating || undefined,
@@ -1397,6 +1416,7 @@ export function useHomepageFilters() {
     search,
     categoryId,
     selectedTags,
+    tagMode,
     sortBy,
     sortOrder,
     featuredOnly,
@@ -1414,6 +1434,7 @@ export function useHomepageFilters() {
     addTag: actions.addTag,
     removeTag: actions.removeTag,
     setTags: actions.setTags,
+    setTagMode: actions.setTagMode,
     setSorting: actions.setSorting,
     setFeaturedOnly: actions.setFeaturedOnly,
     setIncludeAds: actions.setIncludeAds,
@@ -18,6 +18,18 @@ export interface WebsiteCollectionSummary {
   position?: number
 }
 
+export type WebsiteLinkStatus = "healthy" | "broken" | "unchecked"
+
+export interface WebsiteLinkHealth {
+  checkedAt: string
+  isHealthy: boolean
+  statusCode: number | null
+  finalUrl: string | null
+  responseTimeMs: number | null
+  error: string | null
+  consecutiveFailures: number
+}
+
 export interface WebsiteAdminListItem {
   id: string
   title: string
@@ -36,6 +48,7 @@ export interface WebsiteAdminListItem {
   notes?: string | null
   faviconUrl?: string | null
   screenshotUrl?: string | null
+  linkHealth?: WebsiteLinkHealth | null
   createdAt: string
   updatedAt: string
 }
@@ -59,18 +72,40 @@ export interface WebsiteAdminListParams {
   includeAds?: boolean
   minRating?: number
   submittedBy?: string
+  linkStatus?: WebsiteLinkStatus | "all"
+  minFailures?: number
   orderBy?: "recent" | "updated" | "title" | "visits" | "rating"
   sortDir?: "asc" | "desc"
   page?: number
   pageSize?: number
+  /** 游标分页，空串表示第一页；传入时忽略 page */
+  cursor?: string
 }
 
 export interface WebsiteAdminListResult {
   items: WebsiteAdminListItem[]
   page: number
   pageSize: number
-  total: number
+  /** 游标分页的后续页不统计总数，为 null */
+  total: number | null
   hasMore: boolean
+  /** 游标分页的下一页游标；页码分页始终为 null */
+  nextCursor: string | null
+}
+
+export interface WebsiteLinkCheckResult {
+  websiteId: string
+  health: WebsiteLinkHealth
+  /** 本次检测是否因连续失败触发了自动下线 */
+  unpublished: boolean
+}
+
+export interface WebsiteLinkCheckBatchResult {
+  checked: number
+  healthy: number
+  broken: number
+  unpublishedIds: string[]
+  checkedAt: string
 }
 
 export interface WebsiteAdminCreateInput {
@@ -14,8 +14,8 @@ import type { Category } from './category'
  * Contains information about who published or submitted the website
  */
 export interface PublisherInfo {
-  /** Publisher/Author unique identifier */
-  id: string;
+  /** Publisher/Author unique identifier; omitted for anonymous community submissions */
+  id?: string;
   
   /** Publisher display name */
   name: string;
@@ -36,6 +36,27 @@ export interface PublisherInfo {
   joined_at: string;
 }
 
+/**
+ * Tag information with display color
+ */
+export interface WebsiteDetailTag {
+  id: string;
+  name: string;
+  slug: string;
+  color?: string;
+}
+
+/**
+ * Collection that includes the website
+ */
+export interface WebsiteDetailCollection {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  cover_image?: string;
+}
+
 /**
  * Website detail data interface
  * 
@@ -63,6 +84,15 @@ export interface WebsiteDetailData extends Website {
   
   /** Category information (populated) */
   category?: Category;
+
+  /** Category ancestry from root to the website's category, for breadcrumbs */
+  category_path?: Category[];
+
+  /** Tags with slug and color (the base `tags` field only carries names) */
+  tag_details?: WebsiteDetailTag[];
+
+  /** Collections containing this website */
+  collections?: WebsiteDetailCollection[];
   
   /** SEO metadata */
   meta_title?: string;
@@ -22,6 +22,11 @@ export type SortField =
   | 'featured'          // Featured first
   | 'relevance';        // Search relevance (for search pages)
 
+/**
+ * Multi-tag match mode: 'all' narrows to websites having every selected tag
+ */
+export type TagMode = 'all' | 'any';
+
 /**
  * Filter operation types
  */
@@ -49,6 +54,9 @@ export interface FilterState {
   
   /** Selected tag IDs array */
   selectedTags: string[];
+
+  /** How multiple selected tags combine (defaults to 'all') */
+  tagMode?: TagMode;
   
   /** Sort field selection */
   sortBy: SortField;
@@ -141,12 +149,13 @@ export interface FilterValidation {
 /**
  * Search suggestion interface
  * 
- * For real-time search suggestions (future enhancement)
+ * Returned by GET /api/search/suggest; `href` is null for query suggestions
  */
 export interface SearchSuggestion {
   id: string;
   text: string;
-  type: 'website' | 'category' | 'tag' | 'query';
+  type: 'website' | 'category' | 'tag' | 'collection' | 'blog' | 'query';
+  href?: string | null;
   count?: number;
   icon?: string;
 }
@@ -180,6 +189,7 @@ export const DEFAULT_FILTER_STATE: FilterState = {
   search: '',
   categoryId: null,
   selectedTags: [],
+  tagMode: 'all',
   sortBy: 'created_at',
   sortOrder: 'desc',
   includeAds: true,
@@ -108,6 +108,11 @@ export interface WebsiteCardData {
   visit_count?: number;
   created_at?: string;
   updated_at?: string;
+  /** Full-text search highlights, matched terms wrapped in SEARCH_HIGHLIGHT_OPEN / CLOSE markers */
+  highlight?: {
+    title?: string;
+    description?: string;
+  };
 }
 
 /**
@@ -157,6 +162,9 @@ export interface SearchPageFilters extends WebsiteFilters {
   
   // Search scope specification
   searchScope?: 'title' | 'description' | 'url' | 'content' | 'tags' | 'all';
+
+  // How multiple tags combine ('all' by default)
+  tagMode?: 'all' | 'any';
   
   // Enhanced sorting options for search relevance
   sortBy?: 'relevance' | 'created_at' | 'visit_count' | 'rating' | 'updated_at' | 'title' | 'featured';
@@ -44,6 +44,7 @@ export function mapWebsiteDtoToCard(dto: WebsiteDTO): WebsiteCardData {
     is_featured: dto.is_featured,
     created_at: dto.created_at,
     updated_at: dto.updated_at,
+    highlight: dto.highlight,
   }
 }
 
@@ -218,7 +218,7 @@ export function generateWebsiteStructuredData(
         ...(website.publisher && {
           publisher: {
             '@type': 'Person',
-            '@id': `${seoConfig.baseUrl}/user/${website.publisher.id}`,
+            ...(website.publisher.id && { '@id': `${seoConfig.baseUrl}/user/${website.publisher.id}` }),
             name: website.publisher.name,
             ...(website.publisher.avatar_url && { image: website.publisher.avatar_url }),
             ...(website.publisher.website_url && { url: website.publisher.website_url }),
@@ -269,7 +269,7 @@ export function generateWebsiteStructuredData(
             '@type': 'ListItem',
             position: 3,
             name: website.category.name,
-            item: `${seoConfig.baseUrl}/category/${website.category.id}`,
+            item: `${seoConfig.baseUrl}/category/${encodeURIComponent(website.category.slug)}`,
           }] : []),
           {
             '@type': 'ListItem',
@@ -0,0 +1,92 @@
+// Shared authentication & authorization helpers for admin route handlers.
+// Roles are read from Clerk session claims: expose `publicMetadata` in the session token
+// (Clerk Dashboard > Sessions > Customize session token: `{ "metadata": "{{user.public_metadata}}" }`)
+// and set `publicMetadata.role` to one of `viewer` / `editor` / `admin` for each user.
+
+import { NextResponse } from "next/server"
+import { auth } from "@clerk/nextjs/server"
+
+export const ADMIN_ROLES = ["viewer", "editor", "admin"] as const
+
+export type AdminRole = (typeof ADMIN_ROLES)[number]
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+}
+
+export interface AdminSession {
+  userId: string
+  role: AdminRole
+}
+
+export type AdminGuardResult =
+  | { ok: true; session: AdminSession }
+  | { ok: false; response: NextResponse }
+
+interface SessionClaimsWithRole {
+  metadata?: { role?: unknown }
+  publicMetadata?: { role?: unknown }
+  role?: unknown
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value)
+}
+
+export function hasRequiredRole(role: AdminRole | null | undefined, required: AdminRole): boolean {
+  if (!role) return false
+  return ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+export function resolveRoleFromClaims(claims: unknown): AdminRole | null {
+  if (!claims || typeof claims !== "object") {
+    return null
+  }
+
+  const source = claims as SessionClaimsWithRole
+  const candidates = [source.metadata?.role, source.publicMetadata?.role, source.role]
+  const match = candidates.find(isAdminRole)
+  return match ?? null
+}
+
+/**
+ * Guards an admin route handler: 401 when there is no signed-in user,
+ * 403 when the session role ranks below `required`.
+ */
+export async function requireAdmin(required: AdminRole = "viewer"): Promise<AdminGuardResult> {
+  const { userId, sessionClaims } = await auth()
+
+  if (!userId) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          code: "unauthorized",
+          message: "未登录或会话已失效",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 401 }
+      ),
+    }
+  }
+
+  const role = resolveRoleFromClaims(sessionClaims)
+
+  if (!hasRequiredRole(role, required)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        {
+          code: "forbidden",
+          message: "当前账号无权执行该操作",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { ok: true, session: { userId, role: role as AdminRole } }
+}
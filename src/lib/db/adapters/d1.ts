@@ -1,9 +1,38 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { getRequestContext } from '@cloudflare/next-on-pages';
-import { and, desc, eq, gte, inArray, sql, SQL } from 'drizzle-orm';
+import { and, asc, desc, eq, inArray, sql, SQL } from 'drizzle-orm';
 import { websites } from '@/lib/db/schema/websites';
 import { websiteTags } from '@/lib/db/schema/website-tags';
 import { categories } from '@/lib/db/schema/categories';
+import { tags as tagsTable } from '@/lib/db/schema/tags';
+import {
+  buildFtsMatchSubquery,
+  loadSearchHighlights,
+  toFtsQuery,
+  type SearchHighlight,
+} from '@/lib/services/websiteSearchIndex';
+import { getActiveSubcategoryIds } from '@/lib/services/categoryTree';
+import { hasSearchText, type ParsedSearchQuery } from '@/lib/utils/search-query';
+import {
+  decodeCursor,
+  keysetAfter,
+  keysetOrderBy,
+  sliceKeysetPage,
+  type KeysetKey,
+  type KeysetValue,
+} from '@/lib/utils/keyset';
+import {
+  DEFAULT_WEBSITE_TAG_MODE,
+  WEBSITE_AD_TYPE_NONE,
+  type WebsiteAdTypeFacetBucket,
+  type WebsiteFacetBucket,
+  type WebsiteListFacet,
+  type WebsiteListFacets,
+  type WebsiteListSortField,
+  type WebsiteListSortOrder,
+  type WebsiteSearchScope,
+  type WebsiteTagMode,
+} from '@/lib/validations/websites';
 import type { CloudflareEnv } from '@/types/env';
 
 const MAX_PAGE_SIZE = 48;
@@ -16,14 +45,42 @@ export function getD1Db() {
 export interface ListParamsD1 {
   page: number;
   pageSize: number;
-  query?: string;
+  /** 已解析的搜索语法，见 parseSearchQuery */
+  search?: ParsedSearchQuery;
+  searchScope?: WebsiteSearchScope;
   category?: string;
   tags?: string[];
+  /** 多个标签的匹配方式，默认 all */
+  tagMode?: WebsiteTagMode;
   includeAds?: boolean;
+  /** 广告类型，多选为 OR；WEBSITE_AD_TYPE_NONE 表示非广告 */
+  adTypes?: string[];
+  sortBy?: WebsiteListSortField;
+  sortOrder?: WebsiteListSortOrder;
+  facets?: WebsiteListFacet[];
+  /**
+   * 游标分页：传入时忽略 page，按排序键取游标之后的一页；空串表示第一页。
+   * 只有第一页统计总数，后续页 total 为 null
+   */
+  cursor?: string;
 }
 
 export async function listWebsitesD1(params: ListParamsD1) {
-  const { page, pageSize, query, category, tags, includeAds = true } = params;
+  const {
+    page,
+    pageSize,
+    search,
+    searchScope = 'all',
+    category,
+    tags,
+    tagMode = DEFAULT_WEBSITE_TAG_MODE,
+    includeAds = true,
+    adTypes,
+    sortBy = 'created_at',
+    sortOrder = 'desc',
+    facets,
+    cursor,
+  } = params;
   const db = getD1Db();
 
   const safePageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, pageSize));
@@ -34,102 +91,130 @@ export async function listWebsitesD1(params: ListParamsD1) {
   // 只显示已发布的网站
   conds.push(eq(websites.status, 'published'));
 
-  if (query && query.trim()) {
-    const q = `%${escapeLike(query.trim())}%`;
-    // 搜索 title、description 和 url 三个字段
-    conds.push(
-      sql`(
-        ${websites.title} LIKE ${q} OR
-        ${websites.description} LIKE ${q} OR
-        ${websites.url} LIKE ${q}
-      )`
-    );
+  // 可转换为 FTS5 查询时走全文索引；CJK 等无法分词的关键词仍使用 LIKE
+  const ftsQuery = toFtsQuery(search, searchScope);
+  const fts = ftsQuery ? buildFtsMatchSubquery(db, ftsQuery) : null;
+
+  if (search) {
+    conds.push(...(await buildSearchConditions(db, search, searchScope, !fts)));
   }
 
+  // 可分面的筛选条件单独存放，统计某个分面时忽略其自身条件
+  const facetConds: Partial<Record<WebsiteListFacet, SQL>> = {};
+
   // 支持分类层级筛选：查询该分类及其所有子分类下的网站
   if (category) {
     const categoryIds = await getAllSubcategoryIdsD1(db, category);
     if (categoryIds.length === 1) {
-      conds.push(eq(websites.categoryId, category));
+      facetConds.category = eq(websites.categoryId, category);
     } else {
-      conds.push(inArray(websites.categoryId, categoryIds));
+      facetConds.category = inArray(websites.categoryId, categoryIds);
     }
   }
 
-  // includeAds 为 false 时排除广告
+  // includeAds 为 false 时排除广告；adTypes 按广告类型筛选
+  const adConds: SQL[] = [];
   if (!includeAds) {
-    conds.push(eq(websites.isAd, false));
+    adConds.push(eq(websites.isAd, false));
+  }
+  if (adTypes && adTypes.length > 0) {
+    adConds.push(adTypeCondition(adTypes));
+  }
+  if (adConds.length > 0) {
+    facetConds.adType = and(...adConds);
   }
 
-  const where = conds.length ? and(...conds) : undefined;
-
-  // 如果有标签筛选，需要使用 JOIN 查询
+  // all：按网站分组，命中的不同标签数等于所选标签数；any：包含任一指定标签
   if (tags && tags.length > 0) {
-    // 使用 INNER JOIN 筛选包含指定标签的网站
-    const [{ c: total }] = await db
-      .select({ c: sql<number>`count(DISTINCT ${websites.id})` })
-      .from(websites)
-      .innerJoin(websiteTags, eq(websites.id, websiteTags.websiteId))
-      .where(
-        where
-          ? and(where, inArray(websiteTags.tagId, tags))
-          : inArray(websiteTags.tagId, tags)
-      );
-
-    const totalCount = Number(total ?? 0);
-
-    if (totalCount === 0) {
-      return { rows: [] as Array<typeof websites.$inferSelect>, total: 0, resolvedPage: 1, pageSize: safePageSize };
-    }
+    const tagIds = [...new Set(tags)];
+    const taggedWebsites = db
+      .select({ id: websiteTags.websiteId })
+      .from(websiteTags)
+      .where(inArray(websiteTags.tagId, tagIds))
+      .$dynamic();
 
-    const totalPages = Math.ceil(totalCount / safePageSize);
-    const resolvedPage = Math.min(requestedPage, totalPages);
-    const offset = (resolvedPage - 1) * safePageSize;
+    if (tagMode === 'all' && tagIds.length > 1) {
+      taggedWebsites
+        .groupBy(websiteTags.websiteId)
+        .having(sql`count(DISTINCT ${websiteTags.tagId}) = ${tagIds.length}`);
+    }
 
-    const rows = await db
-      .selectDistinct()
-      .from(websites)
-      .innerJoin(websiteTags, eq(websites.id, websiteTags.websiteId))
-      .where(
-        where
-          ? and(where, inArray(websiteTags.tagId, tags))
-          : inArray(websiteTags.tagId, tags)
-      )
-      .orderBy(desc(websites.createdAt), desc(websites.id))
-      .limit(safePageSize)
-      .offset(offset);
+    facetConds.tag = inArray(websites.id, taggedWebsites);
+  }
 
-    // 只返回 websites 表的数据
-    const websiteRows = rows.map(row => row.websites);
+  const where = and(...conds, ...Object.values(facetConds));
+  const relevanceText = search && hasSearchText(search) ? [...search.phrases, ...search.required, ...search.terms].join(' ') : '';
+  const sortKeys = resolveListKeys(sortBy, sortOrder, relevanceText, fts?.score);
+  const orderBy = keysetOrderBy(sortKeys);
 
-    return { rows: websiteRows, total: totalCount, resolvedPage, pageSize: safePageSize };
-  }
+  const isCursorMode = cursor !== undefined;
+  const cursorSignature = `websites:${sortBy}:${sortOrder}`;
+  const after = cursor ? keysetAfter(sortKeys, decodeCursor(cursor, cursorSignature, sortKeys.length)) : undefined;
 
-  // 没有标签筛选，使用原有逻辑
-  const [{ c: total }] = await db
-    .select({ c: sql<number>`count(*)` })
+  const countQuery = db.select({ c: sql<number>`count(*)` }).from(websites).where(where).$dynamic();
+  const rowsQuery = db
+    .select({
+      website: websites,
+      sortValues: Object.fromEntries(sortKeys.map((key, index) => [`k${index}`, sql<KeysetValue>`${key.expression}`])),
+    })
     .from(websites)
-    .where(where);
+    .where(after ? and(where, after) : where)
+    .$dynamic();
+
+  // 全文检索时 JOIN 命中结果，计数与分页共用（builder 原地追加 JOIN）
+  if (fts) {
+    countQuery.innerJoin(fts, eq(fts.websiteId, websites.id));
+    rowsQuery.innerJoin(fts, eq(fts.websiteId, websites.id));
+  }
 
-  const totalCount = Number(total ?? 0);
+  // 游标分页的后续页不再 count(*)，总数只在第一页返回
+  const shouldCount = !isCursorMode || !cursor;
+  const [countRows, facetCounts] = await Promise.all([
+    shouldCount ? countQuery : undefined,
+    facets && facets.length > 0 ? loadListFacets(db, facets, conds, facetConds, fts, tagMode) : undefined,
+  ]);
+  const totalCount = countRows ? Number(countRows[0]?.c ?? 0) : null;
 
   if (totalCount === 0) {
-    return { rows: [] as Array<typeof websites.$inferSelect>, total: 0, resolvedPage: 1, pageSize: safePageSize };
+    return {
+      rows: [] as Array<typeof websites.$inferSelect>,
+      total: 0,
+      resolvedPage: 1,
+      pageSize: safePageSize,
+      highlights: new Map<string, SearchHighlight>(),
+      facets: facetCounts,
+      nextCursor: null,
+    };
   }
 
-  const totalPages = Math.ceil(totalCount / safePageSize);
-  const resolvedPage = Math.min(requestedPage, totalPages);
-  const offset = (resolvedPage - 1) * safePageSize;
+  let resolvedPage = 1;
+  let nextCursor: string | null = null;
+  let websiteRows: Array<typeof websites.$inferSelect>;
 
-  const rows = await db
-    .select()
-    .from(websites)
-    .where(where)
-    .orderBy(desc(websites.createdAt), desc(websites.id))
-    .limit(safePageSize)
-    .offset(offset);
+  if (isCursorMode) {
+    // 多取一行判断是否有下一页，游标取自本页最后一行的排序键
+    const rows = await rowsQuery.orderBy(...orderBy).limit(safePageSize + 1);
+    const page = sliceKeysetPage(rows, safePageSize, cursorSignature, (row) =>
+      sortKeys.map((_, index) => row.sortValues[`k${index}`])
+    );
+    websiteRows = page.rows.map((row) => row.website);
+    nextCursor = page.nextCursor;
+  } else {
+    const totalPages = Math.ceil((totalCount ?? 0) / safePageSize);
+    resolvedPage = Math.min(requestedPage, totalPages);
+    const offset = (resolvedPage - 1) * safePageSize;
+
+    const rows = await rowsQuery.orderBy(...orderBy).limit(safePageSize).offset(offset);
 
-  return { rows, total: totalCount, resolvedPage, pageSize: safePageSize };
+    // 只返回 websites 表的数据
+    websiteRows = rows.map((row) => row.website);
+  }
+
+  const highlights = ftsQuery
+    ? await loadSearchHighlights(db, ftsQuery, websiteRows.map((row) => row.id))
+    : new Map<string, SearchHighlight>();
+
+  return { rows: websiteRows, total: totalCount, resolvedPage, pageSize: safePageSize, highlights, facets: facetCounts, nextCursor };
 }
 
 export async function getWebsiteByIdD1(id: string) {
@@ -148,34 +233,364 @@ export async function getWebsiteByIdD1(id: string) {
 }
 
 /**
- * 递归获取指定分类及其所有子分类的ID列表
+ * 获取指定分类及其所有启用子分类的ID列表（与前端分类树保持一致）
+ * 使用缓存的启用分类树，未命中时由一次递归 CTE 查询完成，见 categoryTree
  * @param db - Drizzle数据库实例
  * @param categoryId - 父分类ID
  * @returns 包含父分类及所有子分类的ID数组
  */
 async function getAllSubcategoryIdsD1(db: ReturnType<typeof getD1Db>, categoryId: string): Promise<string[]> {
-  const allIds = [categoryId];
+  return getActiveSubcategoryIds(db, [categoryId]);
+}
+
+type FtsMatch = ReturnType<typeof buildFtsMatchSubquery>;
+
+function adTypeCondition(adTypes: string[]): SQL {
+  const matchers = adTypes.map((adType) =>
+    adType === WEBSITE_AD_TYPE_NONE
+      ? eq(websites.isAd, false)
+      : sql`(${websites.isAd} = 1 AND ${websites.adType} = ${adType})`
+  );
+  return sql`(${sql.join(matchers, sql` OR `)})`;
+}
+
+/**
+ * 分面统计：每个分面在当前筛选结果上计数，但忽略该分面自身的筛选条件，
+ * 这样多选时其余选项的数量仍然可见。
+ * 标签为 all 模式时保留标签条件，计数即再加选该标签后的结果数
+ */
+async function loadListFacets(
+  db: ReturnType<typeof getD1Db>,
+  facets: WebsiteListFacet[],
+  conds: SQL[],
+  facetConds: Partial<Record<WebsiteListFacet, SQL>>,
+  fts: FtsMatch | null,
+  tagMode: WebsiteTagMode
+): Promise<WebsiteListFacets> {
+  const whereFor = (facet: WebsiteListFacet) =>
+    and(
+      ...conds,
+      ...Object.entries(facetConds)
+        .filter(([key]) => key !== facet || (facet === 'tag' && tagMode === 'all'))
+        .map(([, cond]) => cond)
+    );
+
+  const result: WebsiteListFacets = {};
+  const tasks: Array<Promise<void>> = [];
+
+  if (facets.includes('category')) {
+    tasks.push(
+      loadCategoryFacet(db, whereFor('category'), fts).then((buckets) => {
+        result.category = buckets;
+      })
+    );
+  }
+  if (facets.includes('tag')) {
+    tasks.push(
+      loadTagFacet(db, whereFor('tag'), fts).then((buckets) => {
+        result.tag = buckets;
+      })
+    );
+  }
+  if (facets.includes('adType')) {
+    tasks.push(
+      loadAdTypeFacet(db, whereFor('adType'), fts).then((buckets) => {
+        result.adType = buckets;
+      })
+    );
+  }
+
+  await Promise.all(tasks);
+  return result;
+}
+
+/**
+ * 分类计数包含子分类，与分类筛选的层级语义一致；只返回数量大于 0 的 active 分类
+ */
+async function loadCategoryFacet(
+  db: ReturnType<typeof getD1Db>,
+  where: SQL | undefined,
+  fts: FtsMatch | null
+): Promise<WebsiteFacetBucket[]> {
+  const countsQuery = db
+    .select({ categoryId: websites.categoryId, c: sql<number>`count(*)` })
+    .from(websites)
+    .$dynamic();
+  if (fts) {
+    countsQuery.innerJoin(fts, eq(fts.websiteId, websites.id));
+  }
+
+  const [counts, categoryRows] = await Promise.all([
+    countsQuery.where(where).groupBy(websites.categoryId),
+    db
+      .select({ id: categories.id, name: categories.name, slug: categories.slug, parentId: categories.parentId })
+      .from(categories)
+      .where(eq(categories.status, 'active')),
+  ]);
+
+  const directCounts = new Map<string, number>();
+  for (const row of counts) {
+    if (row.categoryId) directCounts.set(row.categoryId, Number(row.c ?? 0));
+  }
+
+  const childrenMap = new Map<string, string[]>();
+  for (const row of categoryRows) {
+    if (!row.parentId) continue;
+    const siblings = childrenMap.get(row.parentId) ?? [];
+    siblings.push(row.id);
+    childrenMap.set(row.parentId, siblings);
+  }
 
-  const getChildren = async (parentId: string) => {
-    // 只查询 active 状态的子分类，与前端分类树保持一致
-    const children = await db
+  const totals = new Map<string, number>();
+  const visiting = new Set<string>();
+  const totalFor = (id: string): number => {
+    const cached = totals.get(id);
+    if (cached !== undefined) return cached;
+    // 防御异常数据中的循环引用
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const total = (directCounts.get(id) ?? 0) + (childrenMap.get(id) ?? []).reduce((sum, childId) => sum + totalFor(childId), 0);
+    visiting.delete(id);
+    totals.set(id, total);
+    return total;
+  };
+
+  return categoryRows
+    .map((row) => ({ id: row.id, name: row.name, slug: row.slug, website_count: totalFor(row.id) }))
+    .filter((bucket) => bucket.website_count > 0)
+    .sort((a, b) => b.website_count - a.website_count || a.name.localeCompare(b.name));
+}
+
+async function loadTagFacet(
+  db: ReturnType<typeof getD1Db>,
+  where: SQL | undefined,
+  fts: FtsMatch | null
+): Promise<WebsiteFacetBucket[]> {
+  const query = db
+    .select({
+      id: tagsTable.id,
+      name: tagsTable.name,
+      slug: tagsTable.slug,
+      color: tagsTable.color,
+      c: sql<number>`count(*)`,
+    })
+    .from(websites)
+    .innerJoin(websiteTags, eq(websiteTags.websiteId, websites.id))
+    .innerJoin(tagsTable, eq(tagsTable.id, websiteTags.tagId))
+    .$dynamic();
+  if (fts) {
+    query.innerJoin(fts, eq(fts.websiteId, websites.id));
+  }
+
+  const rows = await query
+    .where(and(where, eq(tagsTable.isActive, true)))
+    .groupBy(tagsTable.id)
+    .orderBy(desc(sql`count(*)`), asc(tagsTable.name));
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    color: row.color ?? undefined,
+    website_count: Number(row.c ?? 0),
+  }));
+}
+
+async function loadAdTypeFacet(
+  db: ReturnType<typeof getD1Db>,
+  where: SQL | undefined,
+  fts: FtsMatch | null
+): Promise<WebsiteAdTypeFacetBucket[]> {
+  const adTypeKey = sql<string | null>`CASE WHEN ${websites.isAd} = 0 THEN ${WEBSITE_AD_TYPE_NONE} ELSE ${websites.adType} END`;
+  const query = db
+    .select({ value: adTypeKey, c: sql<number>`count(*)` })
+    .from(websites)
+    .$dynamic();
+  if (fts) {
+    query.innerJoin(fts, eq(fts.websiteId, websites.id));
+  }
+
+  const rows = await query.where(where).groupBy(adTypeKey).orderBy(desc(sql`count(*)`));
+
+  // 未设置类型的广告无法按类型筛选，不作为选项返回
+  return rows
+    .filter((row): row is { value: string; c: number } => Boolean(row.value))
+    .map((row) => ({ value: row.value, website_count: Number(row.c ?? 0) }));
+}
+
+/** 搜索范围对应的 LIKE 字段 */
+function scopeColumns(scope: WebsiteSearchScope): Array<'title' | 'description' | 'url' | 'tags'> {
+  switch (scope) {
+    case 'title':
+      return ['title'];
+    case 'description':
+    case 'content':
+      return ['description'];
+    case 'url':
+      return ['url'];
+    case 'tags':
+      return ['tags'];
+    case 'all':
+    default:
+      return ['title', 'description', 'url'];
+  }
+}
+
+/** 单个关键词在指定字段中的 LIKE 匹配 */
+function likeAnyColumn(text: string, columns: ReturnType<typeof scopeColumns>): SQL {
+  const pattern = `%${escapeLike(text)}%`;
+  const matchers = columns.map((column) => {
+    switch (column) {
+      case 'title':
+        return sql`${websites.title} LIKE ${pattern} ESCAPE '\\'`;
+      case 'description':
+        return sql`coalesce(${websites.description}, '') LIKE ${pattern} ESCAPE '\\'`;
+      case 'url':
+        return sql`${websites.url} LIKE ${pattern} ESCAPE '\\'`;
+      case 'tags':
+        return sql`EXISTS (
+          SELECT 1 FROM ${websiteTags}
+          INNER JOIN ${tagsTable} ON ${tagsTable.id} = ${websiteTags.tagId}
+          WHERE ${websiteTags.websiteId} = ${websites.id} AND ${tagsTable.name} LIKE ${pattern} ESCAPE '\\'
+        )`;
+    }
+  });
+  return sql`(${sql.join(matchers, sql` OR `)})`;
+}
+
+/**
+ * 搜索语法中除全文匹配外的条件：site/tag/category/日期在两条路径中都执行；
+ * 关键词、短语与排除词只在未走 FTS 时以 LIKE 执行（FTS 查询已包含它们）
+ */
+async function buildSearchConditions(
+  db: ReturnType<typeof getD1Db>,
+  search: ParsedSearchQuery,
+  scope: WebsiteSearchScope,
+  useLike: boolean
+): Promise<SQL[]> {
+  const conds: SQL[] = [];
+
+  if (useLike) {
+    const columns = scopeColumns(scope);
+    for (const text of [...search.terms, ...search.required, ...search.phrases]) {
+      conds.push(likeAnyColumn(text, columns));
+    }
+    // 排除词不受搜索范围限制
+    for (const text of search.excluded) {
+      conds.push(sql`NOT ${likeAnyColumn(text, scopeColumns('all'))}`);
+    }
+  }
+
+  // site: 匹配域名本身及其子域名
+  if (search.sites.length > 0) {
+    const matchers = search.sites.map((site) => {
+      const host = escapeLike(site);
+      const patterns = [
+        `%://${host}`,
+        `%://${host}/%`,
+        `%://${host}:%`,
+        `%://%.${host}`,
+        `%://%.${host}/%`,
+        `%://%.${host}:%`,
+      ];
+      return sql`(${sql.join(
+        patterns.map((pattern) => sql`lower(${websites.url}) LIKE ${pattern} ESCAPE '\\'`),
+        sql` OR `
+      )})`;
+    });
+    conds.push(sql`(${sql.join(matchers, sql` OR `)})`);
+  }
+
+  // 多个 tag: 需同时满足
+  for (const slug of search.tags) {
+    conds.push(
+      inArray(
+        websites.id,
+        db
+          .select({ id: websiteTags.websiteId })
+          .from(websiteTags)
+          .innerJoin(tagsTable, eq(tagsTable.id, websiteTags.tagId))
+          .where(eq(tagsTable.slug, slug))
+      )
+    );
+  }
+
+  // 多个 category: 满足任一即可，包含子分类
+  if (search.categories.length > 0) {
+    const matched = await db
       .select({ id: categories.id })
       .from(categories)
-      .where(
-        and(
-          eq(categories.parentId, parentId),
-          eq(categories.status, 'active')
-        )
-      );
-
-    for (const child of children) {
-      allIds.push(child.id);
-      await getChildren(child.id);
+      .where(and(inArray(categories.slug, search.categories), eq(categories.status, 'active')));
+
+    if (matched.length === 0) {
+      conds.push(sql`0 = 1`);
+    } else {
+      const categoryIds = await getActiveSubcategoryIds(db, matched.map(({ id }) => id));
+      conds.push(inArray(websites.categoryId, categoryIds));
     }
-  };
+  }
+
+  if (search.after) {
+    conds.push(sql`${websites.createdAt} >= ${search.after}`);
+  }
+  if (search.before) {
+    conds.push(sql`${websites.createdAt} < ${search.before}`);
+  }
+
+  return conds;
+}
+
+/**
+ * 列表排序键，ORDER BY 与游标条件共用；始终以 id 兜底保证分页稳定
+ */
+function resolveListKeys(
+  sortBy: WebsiteListSortField,
+  sortOrder: WebsiteListSortOrder,
+  query?: string,
+  ftsScore?: SQL.Aliased<number>
+): KeysetKey[] {
+  const key = (expression: KeysetKey['expression'], direction: KeysetKey['direction'] = sortOrder): KeysetKey => ({
+    expression,
+    direction,
+  });
+
+  switch (sortBy) {
+    case 'updated_at':
+      return [key(websites.updatedAt), key(websites.id)];
+    case 'title':
+      return [key(sql`${websites.title} COLLATE NOCASE`), key(websites.id)];
+    case 'visit_count':
+      return [key(websites.visitCount), key(websites.createdAt, 'desc'), key(websites.id, 'desc')];
+    case 'relevance':
+      // bm25 分数越小越相关，方向与其余字段相反
+      if (ftsScore) {
+        return [key(sql`${ftsScore}`, sortOrder === 'asc' ? 'desc' : 'asc'), key(websites.visitCount, 'desc'), key(websites.id, 'desc')];
+      }
+      if (query && query.trim()) {
+        return [key(relevanceScore(query.trim())), key(websites.visitCount, 'desc'), key(websites.id, 'desc')];
+      }
+      return [key(websites.createdAt, 'desc'), key(websites.id, 'desc')];
+    case 'created_at':
+    default:
+      return [key(websites.createdAt), key(websites.id)];
+  }
+}
+
+/**
+ * LIKE 回退路径的关键词相关度：标题完全匹配 > 标题前缀 > 标题包含 > 描述包含 > URL 包含
+ */
+function relevanceScore(query: string): SQL {
+  const escaped = escapeLike(query);
+  const contains = `%${escaped}%`;
+  const prefix = `${escaped}%`;
 
-  await getChildren(categoryId);
-  return allIds;
+  return sql`(
+    CASE WHEN lower(${websites.title}) = lower(${query}) THEN 100 ELSE 0 END +
+    CASE WHEN ${websites.title} LIKE ${prefix} ESCAPE '\\' THEN 50 ELSE 0 END +
+    CASE WHEN ${websites.title} LIKE ${contains} ESCAPE '\\' THEN 20 ELSE 0 END +
+    CASE WHEN coalesce(${websites.description}, '') LIKE ${contains} ESCAPE '\\' THEN 5 ELSE 0 END +
+    CASE WHEN ${websites.url} LIKE ${contains} ESCAPE '\\' THEN 2 ELSE 0 END
+  )`;
 }
 
 function escapeLike(s: string) {
@@ -0,0 +1,21 @@
+import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+import { blogPosts } from './blog-posts';
+
+/**
+ * 文章正文的历史版本：每次保存后记录一份标题、摘要与正文的快照
+ */
+export const blogPostRevisions = sqliteTable('blog_post_revisions', {
+  id: text('id').primaryKey(),
+  postId: text('post_id').notNull().references(() => blogPosts.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  summary: text('summary'),
+  content: text('content').notNull(),
+  /** 保存该版本的管理员；引入版本记录前的基线版本为空 */
+  authorId: text('author_id'),
+  /** create | update | restore | baseline */
+  reason: text('reason').notNull(),
+  /** reason 为 restore 时，被恢复的版本 id */
+  restoredFromId: text('restored_from_id'),
+  createdAt: text('created_at').notNull(),
+});
@@ -5,6 +5,11 @@ export * from './website-tags';
 export * from './collections';
 export * from './collection-items';
 export * from './blog-posts';
+export * from './blog-post-revisions';
 export * from './submission-requests';
 export * from './audit-logs';
+export * from './media-assets';
 
+export * from './website-visits';
+export * from './website-link-health';
+export * from './search-query-stats';
@@ -0,0 +1,24 @@
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+/**
+ * 上传到 R2 的媒体文件，供封面、截图与正文图片复用
+ */
+export const mediaAssets = sqliteTable('media_assets', {
+  id: text('id').primaryKey(),
+  /** R2 对象键 */
+  storageKey: text('storage_key').notNull().unique(),
+  filename: text('filename').notNull(),
+  contentType: text('content_type').notNull(),
+  size: integer('size').notNull(),
+  width: integer('width'),
+  height: integer('height'),
+  /** 文件内容的 SHA-256，重复上传时直接复用已有记录 */
+  sha256: text('sha256').notNull().unique(),
+  altText: text('alt_text'),
+  /** 缩略图对象键，未生成时为空 */
+  thumbnailKey: text('thumbnail_key'),
+  thumbnailWidth: integer('thumbnail_width'),
+  thumbnailHeight: integer('thumbnail_height'),
+  uploadedBy: text('uploaded_by'),
+  createdAt: text('created_at').notNull(),
+});
@@ -0,0 +1,24 @@
+import { integer, primaryKey, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+export const searchQueryStats = sqliteTable('search_query_stats', {
+  /** 归一化后的查询：小写、合并空白 */
+  query: text('query').notNull(),
+  day: text('day').notNull(),
+  hits: integer('hits').notNull().default(0),
+  /** 当天最近一次查询的结果数 */
+  resultCount: integer('result_count').notNull().default(0),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.query, table.day] }),
+}));
+
+/**
+ * 每个搜索词每天的独立访客（加盐 IP 摘要），用于判断搜索词是否被多人使用
+ */
+export const searchQueryVisitors = sqliteTable('search_query_visitors', {
+  query: text('query').notNull(),
+  day: text('day').notNull(),
+  visitorHash: text('visitor_hash').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.query, table.day, table.visitorHash] }),
+}));
@@ -0,0 +1,14 @@
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+import { websites } from './websites';
+
+export const websiteLinkHealth = sqliteTable('website_link_health', {
+  websiteId: text('website_id').primaryKey().references(() => websites.id, { onDelete: 'cascade' }),
+  checkedAt: text('checked_at').notNull(),
+  isHealthy: integer('is_healthy', { mode: 'boolean' }).notNull(),
+  statusCode: integer('status_code'),
+  finalUrl: text('final_url'),
+  responseTimeMs: integer('response_time_ms'),
+  error: text('error'),
+  consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+});
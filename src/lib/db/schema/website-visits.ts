@@ -0,0 +1,19 @@
+import { integer, primaryKey, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+import { websites } from './websites';
+
+export const websiteVisitsDaily = sqliteTable('website_visits_daily', {
+  websiteId: text('website_id').notNull().references(() => websites.id, { onDelete: 'cascade' }),
+  day: text('day').notNull(),
+  visits: integer('visits').notNull().default(0),
+  rolledUp: integer('rolled_up').notNull().default(0),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.websiteId, table.day] }),
+}));
+
+export const websiteVisitFingerprints = sqliteTable('website_visit_fingerprints', {
+  fingerprint: text('fingerprint').primaryKey(),
+  websiteId: text('website_id').notNull(),
+  expiresAt: text('expires_at').notNull(),
+});
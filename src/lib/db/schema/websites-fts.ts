@@ -0,0 +1,14 @@
+import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+
+/**
+ * FTS5 虚拟表（见 drizzle/0011_websites_fts.sql），此处声明仅用于类型化查询，
+ * 不要通过 drizzle-kit 生成，因此没有从 schema/index.ts 导出。
+ */
+export const websitesFts = sqliteTable('websites_fts', {
+  websiteId: text('website_id').notNull(),
+  title: text('title'),
+  description: text('description'),
+  host: text('host'),
+  tags: text('tags'),
+  category: text('category'),
+});
@@ -0,0 +1,222 @@
+import { and, desc, eq, gte, sql, type SQL } from "drizzle-orm"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { blogPosts } from "@/lib/db/schema/blog-posts"
+import { categories } from "@/lib/db/schema/categories"
+import { collections } from "@/lib/db/schema/collections"
+import { submissionRequests } from "@/lib/db/schema/submission-requests"
+import { tags } from "@/lib/db/schema/tags"
+import { websiteVisitsDaily } from "@/lib/db/schema/website-visits"
+import { websites } from "@/lib/db/schema/websites"
+import { auditLogsService } from "@/lib/services/auditLogsService"
+
+import type { AdminStatsOverview, AdminStatsRange, StatsTrend, TopVisitedWebsite } from "@/features/admin-stats/types"
+import { BLOG_POST_STATUSES, type BlogPostStatus } from "@/features/blog/types"
+import type { WebsiteStatus } from "@/features/websites/types/website"
+
+type D1Db = ReturnType<typeof getD1Db>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const TOP_WEBSITES_LIMIT = 5
+const RECENT_ACTIVITY_LIMIT = 10
+
+interface Windows {
+  previousStart: string
+  currentStart: string
+  previousStartDay: string
+  currentStartDay: string
+}
+
+export const adminStatsService = {
+  /**
+   * 控制台概览：实体总量 + 当前区间与上一个等长区间的趋势对比
+   */
+  async getOverview(range: AdminStatsRange = 7): Promise<AdminStatsOverview> {
+    const db = getD1Db()
+    const now = new Date()
+    const windows = resolveWindows(now, range)
+
+    const [
+      websiteCounts,
+      websitesCreated,
+      categoryCounts,
+      tagCounts,
+      collectionCount,
+      pendingSubmissions,
+      submissionsReceived,
+      blogCounts,
+      postsPublished,
+      visits,
+      topWebsites,
+      recentActivity,
+    ] = await Promise.all([
+      loadWebsiteCounts(db),
+      loadTrend(db, websites, websites.createdAt, windows),
+      loadActiveCounts(db, categories, sql`${categories.status} = 'active'`),
+      loadActiveCounts(db, tags, sql`${tags.isActive} = 1`),
+      db.select({ count: sql<number>`count(*)` }).from(collections).get(),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(submissionRequests)
+        .where(eq(submissionRequests.status, "pending"))
+        .get(),
+      loadTrend(db, submissionRequests, submissionRequests.createdAt, windows),
+      loadBlogCounts(db),
+      loadTrend(db, blogPosts, blogPosts.publishedAt, windows, eq(blogPosts.status, "published")),
+      loadVisitTrend(db, windows),
+      loadTopWebsites(db, windows.currentStartDay),
+      auditLogsService.list({ limit: RECENT_ACTIVITY_LIMIT }),
+    ])
+
+    return {
+      range,
+      generatedAt: now.toISOString(),
+      websites: { ...websiteCounts, created: websitesCreated },
+      categories: categoryCounts,
+      tags: tagCounts,
+      collections: { total: Number(collectionCount?.count ?? 0) },
+      submissions: {
+        pending: Number(pendingSubmissions?.count ?? 0),
+        received: submissionsReceived,
+      },
+      blogPosts: { byStatus: blogCounts, published: postsPublished },
+      visits,
+      topWebsites,
+      recentActivity: recentActivity.items,
+    }
+  },
+}
+
+function resolveWindows(now: Date, range: AdminStatsRange): Windows {
+  const currentStart = new Date(now.getTime() - range * DAY_MS)
+  const previousStart = new Date(now.getTime() - 2 * range * DAY_MS)
+  return {
+    previousStart: previousStart.toISOString(),
+    currentStart: currentStart.toISOString(),
+    previousStartDay: previousStart.toISOString().slice(0, 10),
+    currentStartDay: currentStart.toISOString().slice(0, 10),
+  }
+}
+
+function toTrend(current: number, previous: number): StatsTrend {
+  const delta = current - previous
+  return {
+    current,
+    previous,
+    delta,
+    changeRate: previous > 0 ? delta / previous : null,
+  }
+}
+
+async function loadWebsiteCounts(db: D1Db) {
+  const rows = await db
+    .select({ status: websites.status, isAd: websites.isAd, count: sql<number>`count(*)` })
+    .from(websites)
+    .groupBy(websites.status, websites.isAd)
+
+  const byStatus: Record<WebsiteStatus, number> = { draft: 0, published: 0 }
+  let ads = 0
+  let total = 0
+
+  for (const row of rows) {
+    const count = Number(row.count ?? 0)
+    const status: WebsiteStatus = row.status === "published" ? "published" : "draft"
+    byStatus[status] += count
+    total += count
+    if (row.isAd) ads += count
+  }
+
+  return { total, byStatus, ads, organic: total - ads }
+}
+
+async function loadActiveCounts(db: D1Db, table: typeof categories | typeof tags, activeCondition: SQL) {
+  const row = await db
+    .select({
+      total: sql<number>`count(*)`,
+      active: sql<number>`coalesce(sum(case when ${activeCondition} then 1 else 0 end), 0)`,
+    })
+    .from(table)
+    .get()
+
+  return { total: Number(row?.total ?? 0), active: Number(row?.active ?? 0) }
+}
+
+async function loadBlogCounts(db: D1Db): Promise<Record<BlogPostStatus, number>> {
+  const rows = await db
+    .select({ status: blogPosts.status, count: sql<number>`count(*)` })
+    .from(blogPosts)
+    .groupBy(blogPosts.status)
+
+  const counts = Object.fromEntries(BLOG_POST_STATUSES.map((status) => [status, 0])) as Record<BlogPostStatus, number>
+  for (const row of rows) {
+    const status = (BLOG_POST_STATUSES as readonly string[]).includes(row.status)
+      ? (row.status as BlogPostStatus)
+      : "draft"
+    counts[status] += Number(row.count ?? 0)
+  }
+  return counts
+}
+
+/**
+ * 按时间列统计当前区间与上一区间的新增数量（时间列为 ISO 字符串，可直接比较）
+ */
+async function loadTrend(
+  db: D1Db,
+  table: typeof websites | typeof submissionRequests | typeof blogPosts,
+  column: typeof websites.createdAt | typeof submissionRequests.createdAt | typeof blogPosts.publishedAt,
+  windows: Windows,
+  condition?: SQL
+): Promise<StatsTrend> {
+  const inWindow = gte(column, windows.previousStart)
+  const row = await db
+    .select({
+      current: sql<number>`coalesce(sum(case when ${column} >= ${windows.currentStart} then 1 else 0 end), 0)`,
+      previous: sql<number>`coalesce(sum(case when ${column} < ${windows.currentStart} then 1 else 0 end), 0)`,
+    })
+    .from(table)
+    .where(condition ? and(condition, inWindow) : inWindow)
+    .get()
+
+  return toTrend(Number(row?.current ?? 0), Number(row?.previous ?? 0))
+}
+
+async function loadVisitTrend(db: D1Db, windows: Windows): Promise<StatsTrend> {
+  const row = await db
+    .select({
+      current: sql<number>`coalesce(sum(case when ${websiteVisitsDaily.day} >= ${windows.currentStartDay} then ${websiteVisitsDaily.visits} else 0 end), 0)`,
+      previous: sql<number>`coalesce(sum(case when ${websiteVisitsDaily.day} < ${windows.currentStartDay} then ${websiteVisitsDaily.visits} else 0 end), 0)`,
+    })
+    .from(websiteVisitsDaily)
+    .where(gte(websiteVisitsDaily.day, windows.previousStartDay))
+    .get()
+
+  return toTrend(Number(row?.current ?? 0), Number(row?.previous ?? 0))
+}
+
+async function loadTopWebsites(db: D1Db, sinceDay: string): Promise<TopVisitedWebsite[]> {
+  const recentVisits = sql<number>`coalesce((
+    SELECT sum(${websiteVisitsDaily.visits}) FROM ${websiteVisitsDaily}
+    WHERE ${websiteVisitsDaily.websiteId} = ${websites.id} AND ${websiteVisitsDaily.day} >= ${sinceDay}
+  ), 0)`
+
+  const rows = await db
+    .select({
+      id: websites.id,
+      title: websites.title,
+      url: websites.url,
+      visitCount: websites.visitCount,
+      recentVisits,
+    })
+    .from(websites)
+    .where(eq(websites.status, "published"))
+    .orderBy(desc(websites.visitCount), desc(recentVisits))
+    .limit(TOP_WEBSITES_LIMIT)
+
+  return rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    visitCount: Number(row.visitCount ?? 0),
+    recentVisits: Number(row.recentVisits ?? 0),
+  }))
+}
@@ -0,0 +1,173 @@
+import { and, desc, eq, gte, lt, lte, or, type InferSelectModel, type SQL } from "drizzle-orm"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { auditLogs } from "@/lib/db/schema/audit-logs"
+
+import type {
+  AuditChangeSet,
+  AuditEntityType,
+  AuditLogItem,
+  AuditLogListParams,
+  AuditLogListResult,
+} from "@/features/audit-logs/types"
+
+type AuditLogRow = InferSelectModel<typeof auditLogs>
+
+export interface AuditLogEntry {
+  actorId?: string | null
+  action: string
+  entityType: AuditEntityType
+  entityId: string
+  changes: unknown
+}
+
+export const auditLogsService = {
+  async list(params: AuditLogListParams = {}): Promise<AuditLogListResult> {
+    const db = getD1Db()
+    const limit = Math.max(1, Math.min(params.limit ?? 50, 200))
+
+    const filters: SQL[] = []
+
+    if (params.actorId?.trim()) {
+      filters.push(eq(auditLogs.actorId, params.actorId.trim()))
+    }
+
+    if (params.entityType?.trim()) {
+      filters.push(eq(auditLogs.entityType, params.entityType.trim()))
+    }
+
+    if (params.entityId?.trim()) {
+      filters.push(eq(auditLogs.entityId, params.entityId.trim()))
+    }
+
+    if (params.action?.trim()) {
+      filters.push(eq(auditLogs.action, params.action.trim()))
+    }
+
+    if (params.from) {
+      filters.push(gte(auditLogs.createdAt, params.from))
+    }
+
+    if (params.to) {
+      filters.push(lte(auditLogs.createdAt, params.to))
+    }
+
+    const cursor = params.cursor ? decodeCursor(params.cursor) : null
+    if (cursor) {
+      const cursorFilter = or(
+        lt(auditLogs.createdAt, cursor.createdAt),
+        and(eq(auditLogs.createdAt, cursor.createdAt), lt(auditLogs.id, cursor.id))
+      )
+      if (cursorFilter) filters.push(cursorFilter)
+    }
+
+    const where = filters.length ? and(...filters) : undefined
+
+    const baseQuery = db.select().from(auditLogs)
+    const rows = await (where ? baseQuery.where(where) : baseQuery)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(limit + 1)
+
+    const hasMore = rows.length > limit
+    const pageRows = hasMore ? rows.slice(0, limit) : rows
+    const last = pageRows[pageRows.length - 1]
+
+    return {
+      items: pageRows.map(mapRow),
+      nextCursor: hasMore && last ? encodeCursor(last.createdAt, last.id) : null,
+    }
+  },
+}
+
+/**
+ * 写入审计日志；写入失败不影响主流程
+ */
+export async function recordAuditLog(db: ReturnType<typeof getD1Db>, entry: AuditLogEntry) {
+  try {
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      actorId: entry.actorId || "system",
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      changes: entry.changes ? JSON.stringify(entry.changes) : null,
+      createdAt: new Date().toISOString(),
+    })
+  } catch {
+    // Silently fail for audit log
+  }
+}
+
+/**
+ * 对比变更前后的记录，仅保留发生变化的字段（`{ field: { before, after } }`）
+ * @param before - 变更前记录，创建时为 null
+ * @param after - 变更后记录，删除时为 null
+ * @param fields - 需要比较的字段，缺省时取两侧字段并集
+ */
+export function diffChanges(
+  before: object | null | undefined,
+  after: object | null | undefined,
+  fields?: readonly string[]
+): AuditChangeSet | null {
+  const previous = (before ?? {}) as Record<string, unknown>
+  const next = (after ?? {}) as Record<string, unknown>
+  const keys = fields ?? Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+
+  const changes: AuditChangeSet = {}
+
+  for (const key of keys) {
+    if (key === "updatedAt" || key === "createdAt") continue
+    const beforeValue = before ? previous[key] ?? null : null
+    const afterValue = after ? next[key] ?? null : null
+    if (!isSameValue(beforeValue, afterValue)) {
+      changes[key] = { before: beforeValue, after: afterValue }
+    }
+  }
+
+  return Object.keys(changes).length ? changes : null
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b)
+  }
+  return false
+}
+
+function mapRow(row: AuditLogRow): AuditLogItem {
+  return {
+    id: row.id,
+    actorId: row.actorId,
+    action: row.action,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    changes: parseChanges(row.changes),
+    createdAt: row.createdAt,
+  }
+}
+
+function parseChanges(value: string | null): AuditLogItem["changes"] {
+  if (!value) return null
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === "object" ? (parsed as AuditLogItem["changes"]) : { value: parsed }
+  } catch {
+    return { raw: value }
+  }
+}
+
+function encodeCursor(createdAt: string, id: string): string {
+  return btoa(`${createdAt}|${id}`)
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const decoded = atob(cursor)
+    const separator = decoded.indexOf("|")
+    if (separator <= 0) return null
+    return { createdAt: decoded.slice(0, separator), id: decoded.slice(separator + 1) }
+  } catch {
+    return null
+  }
+}
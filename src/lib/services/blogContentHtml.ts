@@ -0,0 +1,58 @@
+import { getRequestContext } from "@cloudflare/next-on-pages"
+
+import {
+  CONTENT_RENDER_VERSION,
+  renderContent,
+  type RenderableContentType,
+  type RenderedContent,
+} from "@/lib/utils/markdown"
+import type { CloudflareEnv } from "@/types/env"
+
+type CacheKv = NonNullable<CloudflareEnv["KV"]>
+
+/** 键中包含 updatedAt，文章修改后自然换键，旧条目由 TTL 清理 */
+const BLOG_HTML_KV_TTL = 7 * 24 * 60 * 60
+
+export interface RenderableBlogPost {
+  id: string
+  updatedAt: string
+  content: string
+  contentType: RenderableContentType
+}
+
+/**
+ * 文章正文的净化 HTML 与标题大纲。配置了 KV 绑定时按文章版本缓存，未命中时渲染并写回
+ */
+export async function getBlogContentHtml(post: RenderableBlogPost): Promise<RenderedContent> {
+  const kv = currentKv()
+  const key = `blog-html:v${CONTENT_RENDER_VERSION}:${post.id}:${post.updatedAt}`
+
+  if (kv) {
+    try {
+      const cached = await kv.get<RenderedContent>(key, "json")
+      if (cached !== null) return cached
+    } catch (error) {
+      console.error("blog html cache read failed", error)
+    }
+  }
+
+  const rendered = await renderContent(post.content, post.contentType)
+
+  if (kv) {
+    try {
+      await kv.put(key, JSON.stringify(rendered), { expirationTtl: BLOG_HTML_KV_TTL })
+    } catch (error) {
+      console.error("blog html cache write failed", error)
+    }
+  }
+
+  return rendered
+}
+
+function currentKv(): CacheKv | undefined {
+  try {
+    return (getRequestContext().env as CloudflareEnv).KV
+  } catch {
+    return undefined
+  }
+}
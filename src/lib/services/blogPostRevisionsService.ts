@@ -0,0 +1,150 @@
+import { and, eq, type InferSelectModel } from "drizzle-orm"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { blogPostRevisions } from "@/lib/db/schema/blog-post-revisions"
+import type { blogPosts } from "@/lib/db/schema/blog-posts"
+import { decodeCursor, keysetAfter, keysetOrderBy, sliceKeysetPage, type KeysetKey } from "@/lib/utils/keyset"
+
+import type {
+  BlogPostRevision,
+  BlogPostRevisionListParams,
+  BlogPostRevisionListResult,
+  BlogPostRevisionReason,
+} from "@/features/blog/types"
+
+type D1Db = ReturnType<typeof getD1Db>
+
+type BlogPostRevisionRow = InferSelectModel<typeof blogPostRevisions>
+
+/** 参与版本快照的文章字段 */
+type RevisionSource = Pick<InferSelectModel<typeof blogPosts>, "id" | "title" | "summary" | "content" | "updatedAt">
+
+export interface BlogPostRevisionEntry {
+  /** 保存前的文章，新建时为 null */
+  previous: RevisionSource | null
+  current: RevisionSource
+  actorId?: string | null
+  reason: Exclude<BlogPostRevisionReason, "baseline">
+  restoredFromId?: string
+}
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const CURSOR_SIGNATURE = "blog-post-revisions"
+
+const REVISION_KEYS: KeysetKey[] = [
+  { expression: blogPostRevisions.createdAt, direction: "desc" },
+  { expression: blogPostRevisions.id, direction: "desc" },
+]
+
+export const blogPostRevisionsService = {
+  /**
+   * 文章的历史版本，按保存时间倒序，游标分页
+   */
+  async list(postId: string, params: BlogPostRevisionListParams = {}): Promise<BlogPostRevisionListResult> {
+    const db = getD1Db()
+    const limit = Math.max(1, Math.min(params.limit ?? DEFAULT_LIMIT, MAX_LIMIT))
+    const after = params.cursor
+      ? keysetAfter(REVISION_KEYS, decodeCursor(params.cursor, CURSOR_SIGNATURE, REVISION_KEYS.length))
+      : undefined
+
+    const rows = await db
+      .select()
+      .from(blogPostRevisions)
+      .where(and(eq(blogPostRevisions.postId, postId), after))
+      .orderBy(...keysetOrderBy(REVISION_KEYS))
+      .limit(limit + 1)
+
+    const page = sliceKeysetPage(rows, limit, CURSOR_SIGNATURE, (row) => [row.createdAt, row.id])
+    return { items: page.rows.map(mapRow), nextCursor: page.nextCursor }
+  },
+
+  async getById(postId: string, revisionId: string): Promise<BlogPostRevision | null> {
+    const db = getD1Db()
+    const row = await db
+      .select()
+      .from(blogPostRevisions)
+      .where(and(eq(blogPostRevisions.postId, postId), eq(blogPostRevisions.id, revisionId)))
+      .get()
+    return row ? mapRow(row) : null
+  },
+}
+
+/**
+ * 保存文章后记录版本；标题、摘要与正文均未变化（如仅修改状态）时不记录，
+ * 恢复操作除外：恢复总会留下一条版本，与审计日志一一对应。
+ * 文章第一次产生版本记录时，先补一份保存前的基线版本，保证旧文章的原文也能恢复。
+ * 写入失败只记录日志，不影响已完成的保存
+ */
+export async function recordBlogPostRevision(db: D1Db, entry: BlogPostRevisionEntry) {
+  const { previous, current } = entry
+  if (entry.reason !== "restore" && previous && isSameText(previous, current)) return
+
+  try {
+    const values: BlogPostRevisionRow[] = []
+
+    if (previous) {
+      const existing = await db
+        .select({ id: blogPostRevisions.id })
+        .from(blogPostRevisions)
+        .where(eq(blogPostRevisions.postId, current.id))
+        .limit(1)
+        .get()
+      if (!existing) {
+        values.push(buildRow(previous, { authorId: null, reason: "baseline", createdAt: previous.updatedAt }))
+      }
+    }
+
+    values.push(
+      buildRow(current, {
+        authorId: entry.actorId ?? null,
+        reason: entry.reason,
+        restoredFromId: entry.restoredFromId,
+        createdAt: current.updatedAt,
+      })
+    )
+
+    await db.insert(blogPostRevisions).values(values)
+  } catch (error) {
+    console.error("record blog post revision failed", error)
+  }
+}
+
+function buildRow(
+  source: RevisionSource,
+  meta: { authorId: string | null; reason: BlogPostRevisionReason; restoredFromId?: string; createdAt: string }
+): BlogPostRevisionRow {
+  return {
+    id: crypto.randomUUID(),
+    postId: source.id,
+    title: source.title,
+    summary: source.summary,
+    content: source.content,
+    authorId: meta.authorId,
+    reason: meta.reason,
+    restoredFromId: meta.restoredFromId ?? null,
+    createdAt: meta.createdAt,
+  }
+}
+
+function isSameText(a: RevisionSource, b: RevisionSource): boolean {
+  return a.title === b.title && (a.summary ?? null) === (b.summary ?? null) && a.content === b.content
+}
+
+function mapRow(row: BlogPostRevisionRow): BlogPostRevision {
+  return {
+    id: row.id,
+    postId: row.postId,
+    title: row.title,
+    summary: row.summary,
+    content: row.content,
+    authorId: row.authorId,
+    reason: normalizeReason(row.reason),
+    restoredFromId: row.restoredFromId,
+    createdAt: row.createdAt,
+  }
+}
+
+function normalizeReason(reason: string): BlogPostRevisionReason {
+  return reason === "create" || reason === "restore" || reason === "baseline" ? reason : "update"
+}
@@ -1,22 +1,63 @@
-import { and, asc, desc, eq, ne, sql, type InferSelectModel, type SQL } from "drizzle-orm"
+import { and, asc, desc, eq, ne, or, sql, type InferSelectModel, type SQL } from "drizzle-orm"
 
 import { getD1Db } from "@/lib/db/adapters/d1"
 import { blogPosts } from "@/lib/db/schema/blog-posts"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import { getBlogContentHtml } from "@/lib/services/blogContentHtml"
+import { blogPostRevisionsService, recordBlogPostRevision } from "@/lib/services/blogPostRevisionsService"
 
 import type {
+  BlogCardData,
+  BlogDetailData,
   BlogPostDetail,
   BlogPostListFilters,
   BlogPostListItem,
   BlogPostListResult,
   BlogPostStatus,
+  BlogPublicDetail,
+  BlogPublicListParams,
+  BlogPublicListResult,
+  BlogScheduledPublishResult,
 } from "@/features/blog/types"
-import { generateBlogSlug } from "@/features/blog/utils"
+import { BlogCategoryUtils } from "@/features/blog/constants/categories"
+import {
+  buildTableOfContents,
+  calculateWordCount,
+  cleanHtmlForMeta,
+  estimateReadingTime,
+  generateBlogSlug,
+  truncateDescription,
+} from "@/features/blog/utils"
 import type {
   BlogPostCreateInput,
   BlogPostStatusInput,
   BlogPostUpdateInput,
 } from "@/features/blog/schemas"
 
+type D1Db = ReturnType<typeof getD1Db>
+
+interface MutationOptions {
+  actorId?: string
+  action?: string
+}
+
+const AUDITED_BLOG_POST_FIELDS = [
+  "title",
+  "slug",
+  "summary",
+  "content",
+  "status",
+  "publishedAt",
+  "coverImage",
+  "authorId",
+  "tags",
+] as const
+
+const DEFAULT_AUTHOR_NAME = "WebVault Team"
+const EXCERPT_LENGTH = 160
+const RELATED_CANDIDATE_LIMIT = 50
+const SCHEDULED_PUBLISH_BATCH = 50
+
 export const blogPostsService = {
   async list(params: BlogPostListFilters = {}): Promise<BlogPostListResult> {
     const db = getD1Db()
@@ -77,7 +118,132 @@ export const blogPostsService = {
     return mapRowToDetail(row)
   },
 
-  async create(input: BlogPostCreateInput): Promise<BlogPostDetail> {
+  /**
+   * 前台文章列表：仅返回已发布文章，按发布时间倒序
+   */
+  async listPublished(params: BlogPublicListParams = {}): Promise<BlogPublicListResult> {
+    const db = getD1Db()
+    const page = Math.max(1, params.page ?? 1)
+    const pageSize = clampPageSize(params.pageSize)
+
+    const filters: SQL[] = [publiclyVisible()]
+
+    const query = params.query?.trim().toLowerCase()
+    if (query) {
+      const keyword = `%${escapeLike(query)}%`
+      filters.push(
+        sql`(lower(${blogPosts.title}) LIKE ${keyword} ESCAPE '\\' OR lower(COALESCE(${blogPosts.summary}, '')) LIKE ${keyword} ESCAPE '\\' OR lower(${blogPosts.content}) LIKE ${keyword} ESCAPE '\\')`
+      )
+    }
+
+    const tag = params.tag?.trim().toLowerCase()
+    if (tag) {
+      filters.push(
+        sql`EXISTS (SELECT 1 FROM json_each(COALESCE(${blogPosts.tags}, '[]')) WHERE lower(json_each.value) = ${tag})`
+      )
+    }
+
+    const where = and(...filters)
+
+    const rows = await db
+      .select()
+      .from(blogPosts)
+      .where(where)
+      .orderBy(desc(blogPosts.publishedAt), desc(blogPosts.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+
+    const countRow = await db.select({ count: sql<number>`count(*)` }).from(blogPosts).where(where).get()
+
+    return {
+      items: rows.map(mapRowToCardData),
+      page,
+      pageSize,
+      total: Number(countRow?.count ?? 0),
+    }
+  },
+
+  /**
+   * 前台文章详情：未发布的文章视为不存在；slug 同时兼容文章 ID
+   */
+  async getPublishedBySlug(
+    slug: string,
+    options: { relatedLimit?: number } = {}
+  ): Promise<BlogPublicDetail | null> {
+    const db = getD1Db()
+    const value = slug.trim()
+    if (!value) return null
+
+    const row = await db
+      .select()
+      .from(blogPosts)
+      .where(
+        and(
+          publiclyVisible(),
+          or(eq(blogPosts.slug, value.toLowerCase()), eq(blogPosts.id, value))
+        )
+      )
+      .get()
+    if (!row) return null
+
+    const post = mapRowToPublicDetail(row)
+    const [rendered, relatedPosts] = await Promise.all([
+      getBlogContentHtml({ id: row.id, updatedAt: row.updatedAt, content: row.content, contentType: post.contentType }),
+      loadRelatedPosts(db, row.id, post.tags, options.relatedLimit ?? 3),
+    ])
+
+    return {
+      post: {
+        ...post,
+        contentHtml: rendered.html,
+        tableOfContents: buildTableOfContents(rendered.headings),
+        relatedPostIds: relatedPosts.map((item) => item.id),
+      },
+      relatedPosts,
+    }
+  },
+
+  /**
+   * 将到点的定时文章转为已发布，由 Cron Trigger 或本地脚本调用；
+   * 状态更新带 scheduled 条件，重复触发不会重复发布
+   */
+  async publishDueScheduled(options: { db?: D1Db; now?: Date } = {}): Promise<BlogScheduledPublishResult> {
+    const db = options.db ?? getD1Db()
+    const now = (options.now ?? new Date()).toISOString()
+
+    const due = await db
+      .select()
+      .from(blogPosts)
+      .where(and(eq(blogPosts.status, "scheduled"), sql`${blogPosts.publishedAt} <= ${now}`))
+      .orderBy(asc(blogPosts.publishedAt))
+      .limit(SCHEDULED_PUBLISH_BATCH)
+
+    const publishedIds: string[] = []
+
+    for (const row of due) {
+      const claimed = await db
+        .update(blogPosts)
+        .set({ status: "published", updatedAt: now })
+        .where(and(eq(blogPosts.id, row.id), eq(blogPosts.status, "scheduled")))
+        .returning()
+
+      const updated = claimed[0]
+      if (!updated) continue
+
+      await recordAuditLog(db, {
+        action: "blog_post.publishScheduled",
+        entityType: "blog_post",
+        entityId: row.id,
+        changes: diffChanges(row, updated, AUDITED_BLOG_POST_FIELDS),
+      })
+
+      publishedIds.push(row.id)
+    }
+
+    return { publishedIds, checkedAt: now }
+  },
+
+  async create(input: BlogPostCreateInput, options: MutationOptions = {}): Promise<BlogPostDetail> {
     const db = getD1Db()
     const now = new Date().toISOString()
     const id = crypto.randomUUID()
@@ -108,10 +274,21 @@ export const blogPostsService = {
     if (!created) {
       throw new Error("博客文章创建失败")
     }
+
+    await recordBlogPostRevision(db, { previous: null, current: created, actorId: options.actorId, reason: "create" })
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "blog_post.create",
+      entityType: "blog_post",
+      entityId: id,
+      changes: diffChanges(null, created, AUDITED_BLOG_POST_FIELDS),
+    })
+
     return mapRowToDetail(created)
   },
 
-  async update(id: string, input: BlogPostUpdateInput): Promise<BlogPostDetail> {
+  async update(id: string, input: BlogPostUpdateInput, options: MutationOptions = {}): Promise<BlogPostDetail> {
     const db = getD1Db()
     const existing = await db.select().from(blogPosts).where(eq(blogPosts.id, id)).get()
     if (!existing) {
@@ -150,16 +327,88 @@ export const blogPostsService = {
     if (!updated) {
       throw new Error("博客文章更新失败")
     }
+
+    await recordBlogPostRevision(db, { previous: existing, current: updated, actorId: options.actorId, reason: "update" })
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: options.action ?? "blog_post.update",
+      entityType: "blog_post",
+      entityId: id,
+      changes: diffChanges(existing, updated, AUDITED_BLOG_POST_FIELDS),
+    })
+
     return mapRowToDetail(updated)
   },
 
-  async updateStatus(id: string, input: BlogPostStatusInput): Promise<BlogPostDetail> {
-    return blogPostsService.update(id, input)
+  async updateStatus(id: string, input: BlogPostStatusInput, options: MutationOptions = {}): Promise<BlogPostDetail> {
+    return blogPostsService.update(id, input, { ...options, action: "blog_post.updateStatus" })
   },
 
-  async remove(id: string): Promise<void> {
+  /**
+   * 将标题、摘要与正文恢复为指定版本，其余字段保持不变；恢复本身也记录为一个新版本
+   */
+  async restoreRevision(id: string, revisionId: string, options: MutationOptions = {}): Promise<BlogPostDetail> {
     const db = getD1Db()
+    const existing = await db.select().from(blogPosts).where(eq(blogPosts.id, id)).get()
+    if (!existing) {
+      throw new Error("未找到博客文章")
+    }
+
+    const revision = await blogPostRevisionsService.getById(id, revisionId)
+    if (!revision) {
+      throw new Error("未找到文章版本")
+    }
+
+    await db
+      .update(blogPosts)
+      .set({
+        title: revision.title,
+        summary: revision.summary ?? null,
+        content: revision.content,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(blogPosts.id, id))
+
+    const restored = await db.select().from(blogPosts).where(eq(blogPosts.id, id)).get()
+    if (!restored) {
+      throw new Error("博客文章更新失败")
+    }
+
+    await recordBlogPostRevision(db, {
+      previous: existing,
+      current: restored,
+      actorId: options.actorId,
+      reason: "restore",
+      restoredFromId: revision.id,
+    })
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "blog_post.restoreRevision",
+      entityType: "blog_post",
+      entityId: id,
+      changes: diffChanges(existing, restored, AUDITED_BLOG_POST_FIELDS),
+    })
+
+    return mapRowToDetail(restored)
+  },
+
+  async remove(id: string, options: MutationOptions = {}): Promise<void> {
+    const db = getD1Db()
+    const existing = await db.select().from(blogPosts).where(eq(blogPosts.id, id)).get()
+
     await db.delete(blogPosts).where(eq(blogPosts.id, id))
+
+    if (existing) {
+      await recordAuditLog(db, {
+        actorId: options.actorId,
+        action: "blog_post.delete",
+        entityType: "blog_post",
+        entityId: id,
+        changes: diffChanges(existing, null, AUDITED_BLOG_POST_FIELDS),
+      })
+    }
   },
 }
 
@@ -188,6 +437,97 @@ function mapRowToDetail(row: BlogPostRow): BlogPostDetail {
   }
 }
 
+function mapRowToCardData(row: BlogPostRow): BlogCardData {
+  const tags = parseTags(row.tags)
+  return {
+    id: row.id,
+    title: row.title,
+    excerpt: row.summary?.trim() || truncateDescription(cleanHtmlForMeta(row.content), EXCERPT_LENGTH),
+    slug: row.slug,
+    coverImage: row.coverImage ?? "",
+    author: { name: row.authorId?.trim() || DEFAULT_AUTHOR_NAME },
+    category: resolveCategory(tags),
+    publishedAt: row.publishedAt ?? row.createdAt,
+  }
+}
+
+function mapRowToPublicDetail(row: BlogPostRow): BlogDetailData {
+  const card = mapRowToCardData(row)
+  const tags = parseTags(row.tags)
+  const wordCount = calculateWordCount(row.content)
+
+  return {
+    ...card,
+    author: { ...card.author },
+    content: row.content,
+    contentType: "markdown",
+    readingTime: estimateReadingTime(wordCount),
+    wordCount,
+    tags,
+    keywords: tags,
+    seoDescription: card.excerpt,
+    updatedAt: row.updatedAt,
+    isPublished: true,
+  }
+}
+
+// 已发布或已到点的定时文章对外可见，定时任务尚未执行时前台也不会漏掉到点文章
+function publiclyVisible(): SQL {
+  const now = new Date().toISOString()
+  return sql`(${blogPosts.status} IN ('published', 'scheduled') AND COALESCE(${blogPosts.publishedAt}, ${blogPosts.createdAt}) <= ${now})`
+}
+
+// 文章没有独立分类字段，取第一个与博客分类同名的标签，其次取首个标签
+function resolveCategory(tags: string[]): string {
+  for (const tag of tags) {
+    const matched = BlogCategoryUtils.getSelectableCategories().find(
+      (category) => category.toLowerCase() === tag.toLowerCase()
+    )
+    if (matched) return matched
+  }
+  return tags[0] ?? "Uncategorized"
+}
+
+async function loadRelatedPosts(
+  db: D1Db,
+  postId: string,
+  tags: string[],
+  limit: number
+): Promise<BlogCardData[]> {
+  const normalized = Array.from(new Set(tags.map((tag) => tag.toLowerCase())))
+  if (!normalized.length || limit <= 0) return []
+
+  const tagList = sql.join(
+    normalized.map((tag) => sql`${tag}`),
+    sql`, `
+  )
+
+  const candidates = await db
+    .select()
+    .from(blogPosts)
+    .where(
+      and(
+        publiclyVisible(),
+        ne(blogPosts.id, postId),
+        sql`EXISTS (SELECT 1 FROM json_each(COALESCE(${blogPosts.tags}, '[]')) WHERE lower(json_each.value) IN (${tagList}))`
+      )
+    )
+    .orderBy(desc(blogPosts.publishedAt))
+    .limit(RELATED_CANDIDATE_LIMIT)
+
+  const wanted = new Set(normalized)
+
+  // 按共同标签数量排序，数量相同时保留发布时间倒序
+  return candidates
+    .map((row) => ({
+      row,
+      shared: parseTags(row.tags).filter((tag) => wanted.has(tag.toLowerCase())).length,
+    }))
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, Math.min(limit, 10))
+    .map((item) => mapRowToCardData(item.row))
+}
+
 function parseTags(raw: unknown): string[] {
   if (typeof raw !== "string" || !raw.trim()) return []
   try {
@@ -206,7 +546,7 @@ function serializeTags(tags: string[] | undefined): string | null {
 }
 
 function normalizeStatus(status: string | null | undefined): BlogPostStatus {
-  if (status === "published" || status === "archived") {
+  if (status === "scheduled" || status === "published" || status === "archived") {
     return status
   }
   return "draft"
@@ -220,6 +560,9 @@ function resolvePublishedAt(
   if (status === "published") {
     return provided ?? previous ?? new Date().toISOString()
   }
+  if (status === "scheduled") {
+    return provided ?? previous ?? null
+  }
   if (status === "archived") {
     return previous ?? provided ?? null
   }
@@ -227,7 +570,7 @@ function resolvePublishedAt(
 }
 
 async function ensureUniqueSlug(
-  db: ReturnType<typeof getD1Db>,
+  db: D1Db,
   desiredSlug: string,
   excludeId?: string
 ): Promise<string> {
@@ -4,6 +4,9 @@ import type { InferSelectModel } from "drizzle-orm"
 import { categories } from "@/lib/db/schema/categories"
 import { websites } from "@/lib/db/schema/websites"
 import { getD1Db } from "@/lib/db/adapters/d1"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import { syncWebsitesByCategory, syncWebsitesByIds } from "@/lib/services/websiteSearchIndex"
+import { invalidateActiveCategoryTree, loadSubcategoryIds } from "@/lib/services/categoryTree"
 
 import type { CategoryNode, CategoryStatsSummary, CategoryStatus } from "@/features/categories/types"
 
@@ -42,29 +45,29 @@ export interface CategoryUpdateInput {
   status?: CategoryStatus
 }
 
+export interface CategoryPathResolution {
+  /** 从顶级分类到当前分类的完整路径 */
+  path: CategoryNode[]
+  category: CategoryNode
+  /** 启用中的直接子分类，网站数包含其后代 */
+  children: CategoryNode[]
+  /** 请求路径是否与规范 slug 路径一致 */
+  isCanonical: boolean
+}
+
+interface MutationOptions {
+  actorId?: string
+}
+
+const AUDITED_CATEGORY_FIELDS = ["name", "slug", "description", "parentId", "displayOrder", "icon", "status"] as const
+
 /**
- * 递归获取指定分类及其所有子分类的ID列表
+ * 获取指定分类及其所有子分类（不限状态）的ID列表，一次递归查询完成
  * @param categoryId - 父分类ID
  * @returns 包含父分类及所有子分类的ID数组
  */
 export async function getAllSubcategoryIds(categoryId: string): Promise<string[]> {
-  const db = getD1Db()
-  const allIds = [categoryId]
-
-  const getChildren = async (parentId: string) => {
-    const children = await db
-      .select({ id: categories.id })
-      .from(categories)
-      .where(eq(categories.parentId, parentId))
-
-    for (const child of children) {
-      allIds.push(child.id)
-      await getChildren(child.id)
-    }
-  }
-
-  await getChildren(categoryId)
-  return allIds
+  return loadSubcategoryIds(getD1Db(), [categoryId])
 }
 
 export const categoriesService = {
@@ -88,27 +91,7 @@ export const categoriesService = {
 
       const rows = await db.select().from(categories).where(where)
 
-      // 计算每个分类的网站数量
-      const websiteCountConditions: SQL[] = []
-      if (countStatus === "published") {
-        websiteCountConditions.push(eq(websites.status, "published"))
-      }
-
-      const websiteCounts = await db
-        .select({
-          categoryId: websites.categoryId,
-          count: sql<number>`count(*)`.as('count'),
-        })
-        .from(websites)
-        .where(websiteCountConditions.length ? and(...websiteCountConditions) : undefined)
-        .groupBy(websites.categoryId)
-
-      const countMap = new Map<string, number>()
-      websiteCounts.forEach((item) => {
-        if (item.categoryId) {
-          countMap.set(item.categoryId, item.count)
-        }
-      })
+      const countMap = await loadWebsiteCountMap(db, countStatus)
 
       const tree = buildTree(rows, countMap)
       const stats = calculateStats(rows)
@@ -119,7 +102,53 @@ export const categoriesService = {
     }
   },
 
-  async create(input: CategoryCreateInput): Promise<CategoryNode> {
+  /**
+   * 按 slug 路径解析启用中的分类：末段按 slug（兼容旧链接的 ID）定位，再沿 parentId 回溯完整路径。
+   * 分类不存在或路径上任一分类未启用时返回 null
+   */
+  async resolvePath(segments: string[]): Promise<CategoryPathResolution | null> {
+    const requested = segments.map((segment) => segment.trim()).filter(Boolean)
+    const key = requested[requested.length - 1]
+    if (!key) return null
+
+    await ensureStatusColumn()
+    const db = getD1Db()
+    const rows = await db.select().from(categories)
+
+    const target = rows.find((row) => row.slug === key) ?? rows.find((row) => row.id === key)
+    if (!target) return null
+
+    const rowMap = new Map(rows.map((row) => [row.id, row]))
+    const chain: CategoryRow[] = []
+    const visited = new Set<string>()
+    let current: CategoryRow | undefined = target
+
+    // 防御 parentId 成环的脏数据
+    while (current && !visited.has(current.id)) {
+      if (normalizeStatus(current.status) !== "active") return null
+      visited.add(current.id)
+      chain.unshift(current)
+      current = current.parentId ? rowMap.get(current.parentId) : undefined
+    }
+
+    const activeRows = rows.filter((row) => normalizeStatus(row.status) === "active")
+    const countMap = await loadWebsiteCountMap(db, "published")
+    const tree = buildTree(activeRows, countMap)
+    const category = findNode(tree, target.id)
+    if (!category) return null
+
+    const path = chain.map((row) => findNode(tree, row.id) ?? mapRow(row, countMap.get(row.id) || 0))
+    const canonical = chain.map((row) => row.slug)
+
+    return {
+      path: path.map((node) => ({ ...node, children: [] })),
+      category,
+      children: category.children ?? [],
+      isCanonical: canonical.length === requested.length && canonical.every((slug, index) => slug === requested[index]),
+    }
+  },
+
+  async create(input: CategoryCreateInput, options: MutationOptions = {}): Promise<CategoryNode> {
     await ensureStatusColumn()
     const db = getD1Db()
     const now = new Date().toISOString()
@@ -145,10 +174,20 @@ export const categoriesService = {
     if (!inserted) {
       throw new Error("Category creation failed")
     }
+    await invalidateActiveCategoryTree()
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "category.create",
+      entityType: "category",
+      entityId: id,
+      changes: diffChanges(null, inserted, AUDITED_CATEGORY_FIELDS),
+    })
+
     return mapRow(inserted)
   },
 
-  async update(id: string, input: CategoryUpdateInput): Promise<CategoryNode> {
+  async update(id: string, input: CategoryUpdateInput, options: MutationOptions = {}): Promise<CategoryNode> {
     await ensureStatusColumn()
     const db = getD1Db()
 
@@ -183,10 +222,24 @@ export const categoriesService = {
     if (!updated) {
       throw new Error("分类更新失败")
     }
+    await invalidateActiveCategoryTree()
+
+    if (updated.name !== existing.name) {
+      await syncWebsitesByCategory(db, id)
+    }
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "category.update",
+      entityType: "category",
+      entityId: id,
+      changes: diffChanges(existing, updated, AUDITED_CATEGORY_FIELDS),
+    })
+
     return mapRow(updated)
   },
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, options: MutationOptions = {}): Promise<void> {
     await ensureStatusColumn()
     const db = getD1Db()
 
@@ -195,7 +248,23 @@ export const categoriesService = {
       throw new Error("存在子分类，无法删除。请先移动或删除其子分类。")
     }
 
+    const existing = await db.select().from(categories).where(eq(categories.id, id)).get()
+    // 删除后外键置空，需提前记下受影响的网站以便重建索引
+    const affected = await db.select({ id: websites.id }).from(websites).where(eq(websites.categoryId, id))
+
     await db.delete(categories).where(eq(categories.id, id))
+    await invalidateActiveCategoryTree()
+    await syncWebsitesByIds(db, affected.map((row) => row.id))
+
+    if (existing) {
+      await recordAuditLog(db, {
+        actorId: options.actorId,
+        action: "category.delete",
+        entityType: "category",
+        entityId: id,
+        changes: diffChanges(existing, null, AUDITED_CATEGORY_FIELDS),
+      })
+    }
   },
 }
 
@@ -263,6 +332,43 @@ function buildTree(rows: CategoryRow[], countMap: Map<string, number>): Category
   return roots
 }
 
+async function loadWebsiteCountMap(
+  db: ReturnType<typeof getD1Db>,
+  countStatus: NonNullable<CategoryListParams["countStatus"]>
+): Promise<Map<string, number>> {
+  // 计算每个分类的网站数量
+  const websiteCountConditions: SQL[] = []
+  if (countStatus === "published") {
+    websiteCountConditions.push(eq(websites.status, "published"))
+  }
+
+  const websiteCounts = await db
+    .select({
+      categoryId: websites.categoryId,
+      count: sql<number>`count(*)`.as('count'),
+    })
+    .from(websites)
+    .where(websiteCountConditions.length ? and(...websiteCountConditions) : undefined)
+    .groupBy(websites.categoryId)
+
+  const countMap = new Map<string, number>()
+  websiteCounts.forEach((item) => {
+    if (item.categoryId) {
+      countMap.set(item.categoryId, item.count)
+    }
+  })
+  return countMap
+}
+
+function findNode(nodes: CategoryNode[], id: string): CategoryNode | undefined {
+  for (const node of nodes) {
+    if (node.id === id) return node
+    const found = node.children?.length ? findNode(node.children, id) : undefined
+    if (found) return found
+  }
+  return undefined
+}
+
 function mapRow(row: CategoryRow, websiteCount: number = 0): CategoryNode {
   const status = normalizeStatus(row.status)
   return {
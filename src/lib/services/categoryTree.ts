@@ -0,0 +1,177 @@
+import { sql, type SQL } from "drizzle-orm"
+import { getRequestContext } from "@cloudflare/next-on-pages"
+
+import type { getD1Db } from "@/lib/db/adapters/d1"
+import type { CloudflareEnv } from "@/types/env"
+
+type D1Db = ReturnType<typeof getD1Db>
+type CacheKv = NonNullable<CloudflareEnv["KV"]>
+
+/** KV 中启用分类树的缓存键，缓存结构变化时提升版本号 */
+const ACTIVE_TREE_KV_KEY = "category-tree:active:v1"
+
+/** KV 缓存兜底过期时间（秒）；分类变更时主动删除，TTL 只防止删除失败后长期不一致 */
+const ACTIVE_TREE_KV_TTL = 600
+
+/**
+ * 启用分类树：从顶级启用分类沿启用子分类可达的全部节点
+ */
+export interface ActiveCategoryTree {
+  /** 分类 ID → 父分类 ID，顶级为 null */
+  parents: Record<string, string | null>
+  /** 父分类 ID → 子分类 ID 列表 */
+  children: Record<string, string[]>
+}
+
+/** 同一请求内复用已加载的分类树，按请求的 ExecutionContext 区分 */
+const requestTrees = new WeakMap<object, Promise<ActiveCategoryTree>>()
+
+/**
+ * 一次递归查询获取分类及其所有子分类的 ID，结果以传入的分类开头。
+ * activeOnly 时只沿启用的子分类展开，传入的分类本身不受状态限制
+ */
+export async function loadSubcategoryIds(
+  db: D1Db,
+  rootIds: string[],
+  options: { activeOnly?: boolean } = {}
+): Promise<string[]> {
+  const ids = uniqueIds(rootIds)
+  if (!ids.length) return []
+
+  const rows = await db.all<{ id: string }>(
+    subtreeQuery(sql`id IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)})`, options.activeOnly ?? false)
+  )
+
+  return uniqueIds([...ids, ...rows.map((row) => row.id)])
+}
+
+/**
+ * 获取分类及其所有启用子分类的 ID。优先使用缓存的启用分类树；
+ * 不在树中的分类（本身未启用或祖先已隐藏）退回递归查询
+ */
+export async function getActiveSubcategoryIds(db: D1Db, rootIds: string[]): Promise<string[]> {
+  const ids = uniqueIds(rootIds)
+  if (!ids.length) return []
+
+  const tree = await getActiveCategoryTree(db)
+  const result = new Set(ids)
+  const stack = ids.filter((id) => id in tree.parents)
+
+  while (stack.length) {
+    const id = stack.pop()!
+    for (const childId of tree.children[id] ?? []) {
+      if (result.has(childId)) continue
+      result.add(childId)
+      stack.push(childId)
+    }
+  }
+
+  const outside = ids.filter((id) => !(id in tree.parents))
+  if (outside.length) {
+    for (const id of await loadSubcategoryIds(db, outside, { activeOnly: true })) {
+      result.add(id)
+    }
+  }
+
+  return [...result]
+}
+
+/**
+ * 读取启用分类树：同一请求内只加载一次，配置了 KV 绑定时跨请求共享
+ */
+export function getActiveCategoryTree(db: D1Db): Promise<ActiveCategoryTree> {
+  const { scope, kv } = currentCacheScope()
+  const cached = scope ? requestTrees.get(scope) : undefined
+  if (cached) return cached
+
+  const pending = readActiveCategoryTree(db, kv)
+  if (scope) {
+    requestTrees.set(scope, pending)
+    pending.catch(() => requestTrees.delete(scope))
+  }
+  return pending
+}
+
+/**
+ * 分类新增、修改、删除后调用，清除当前请求和 KV 中的启用分类树。
+ * KV 为最终一致，其他节点最长约 60 秒后读到新树
+ */
+export async function invalidateActiveCategoryTree(): Promise<void> {
+  const { scope, kv } = currentCacheScope()
+  if (scope) requestTrees.delete(scope)
+
+  try {
+    await kv?.delete(ACTIVE_TREE_KV_KEY)
+  } catch (error) {
+    console.error("category tree cache invalidation failed", error)
+  }
+}
+
+async function readActiveCategoryTree(db: D1Db, kv?: CacheKv): Promise<ActiveCategoryTree> {
+  if (kv) {
+    try {
+      const cached = await kv.get<ActiveCategoryTree>(ACTIVE_TREE_KV_KEY, "json")
+      if (cached?.parents && cached.children) return cached
+    } catch (error) {
+      console.error("category tree cache read failed", error)
+    }
+  }
+
+  const tree = await loadActiveCategoryTree(db)
+
+  if (kv) {
+    try {
+      await kv.put(ACTIVE_TREE_KV_KEY, JSON.stringify(tree), { expirationTtl: ACTIVE_TREE_KV_TTL })
+    } catch (error) {
+      console.error("category tree cache write failed", error)
+    }
+  }
+
+  return tree
+}
+
+async function loadActiveCategoryTree(db: D1Db): Promise<ActiveCategoryTree> {
+  const rows = await db.all<{ id: string; parentId: string | null }>(
+    subtreeQuery(sql`parent_id IS NULL AND status = 'active'`, true)
+  )
+
+  const tree: ActiveCategoryTree = { parents: {}, children: {} }
+  for (const row of rows) {
+    if (row.id in tree.parents) continue
+    tree.parents[row.id] = row.parentId
+    if (row.parentId) {
+      tree.children[row.parentId] = [...(tree.children[row.parentId] ?? []), row.id]
+    }
+  }
+  return tree
+}
+
+/**
+ * 从种子分类沿 parent_id 向下展开的递归 CTE；path 记录本条路径上已访问的 ID，parent_id 成环时停止
+ */
+function subtreeQuery(seed: SQL, activeOnly: boolean): SQL {
+  const statusFilter = activeOnly ? sql` AND c.status = 'active'` : sql``
+  return sql`
+    WITH RECURSIVE subtree(id, parent_id, path) AS (
+      SELECT id, parent_id, ',' || id || ',' FROM categories WHERE ${seed}
+      UNION ALL
+      SELECT c.id, c.parent_id, subtree.path || c.id || ','
+      FROM categories c
+      JOIN subtree ON c.parent_id = subtree.id
+      WHERE instr(subtree.path, ',' || c.id || ',') = 0${statusFilter}
+    )
+    SELECT DISTINCT id, parent_id AS parentId FROM subtree`
+}
+
+function currentCacheScope(): { scope?: object; kv?: CacheKv } {
+  try {
+    const context = getRequestContext()
+    return { scope: context.ctx, kv: (context.env as CloudflareEnv).KV }
+  } catch {
+    return {}
+  }
+}
+
+function uniqueIds(ids: string[]): string[] {
+  return Array.from(new Set(ids.filter((id) => typeof id === "string" && id.length > 0)))
+}
@@ -1,11 +1,12 @@
-import { and, asc, desc, eq, inArray, ne, sql, type SQL } from "drizzle-orm"
+import { and, asc, eq, inArray, ne, sql, type SQL } from "drizzle-orm"
 import type { InferSelectModel } from "drizzle-orm"
 
 import { getD1Db } from "@/lib/db/adapters/d1"
-import { auditLogs } from "@/lib/db/schema/audit-logs"
 import { collectionItems } from "@/lib/db/schema/collection-items"
 import { collections } from "@/lib/db/schema/collections"
 import { websites } from "@/lib/db/schema/websites"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import { decodeCursor, keysetAfter, keysetOrderBy, sliceKeysetPage, type KeysetKey, type KeysetValue } from "@/lib/utils/keyset"
 
 import { generateCollectionSlug } from "@/features/collections/utils/slug"
 import type {
@@ -23,6 +24,8 @@ interface MutationOptions {
   actorId?: string
 }
 
+const AUDITED_COLLECTION_FIELDS = ["name", "slug", "description", "coverImage", "isFeatured", "displayOrder"] as const
+
 export const collectionsService = {
   async list(params: CollectionListParams = {}): Promise<CollectionListResult> {
     const db = getD1Db()
@@ -48,16 +51,35 @@ export const collectionsService = {
 
     const where = filters.length ? and(...filters) : undefined
 
-    const orderByClause = (() => {
+    // 以 id 兜底保证翻页时顺序稳定，ORDER BY 与游标条件共用
+    const sortKeys = ((): KeysetKey[] => {
       switch (params.orderBy) {
         case "name":
-          return [asc(collections.name), asc(collections.displayOrder)] as const
+          return [
+            { expression: collections.name, direction: "asc" },
+            { expression: collections.displayOrder, direction: "asc" },
+            { expression: collections.id, direction: "asc" },
+          ]
         case "order":
-          return [asc(collections.displayOrder), asc(collections.name)] as const
+          return [
+            { expression: collections.displayOrder, direction: "asc" },
+            { expression: collections.name, direction: "asc" },
+            { expression: collections.id, direction: "asc" },
+          ]
         default:
-          return [desc(collections.updatedAt), asc(collections.name)] as const
+          return [
+            { expression: collections.updatedAt, direction: "desc" },
+            { expression: collections.name, direction: "asc" },
+            { expression: collections.id, direction: "asc" },
+          ]
       }
     })()
+    const isCursorMode = params.cursor !== undefined
+    const cursorSignature = `collections:${params.orderBy ?? "recent"}`
+    const after = params.cursor
+      ? keysetAfter(sortKeys, decodeCursor(params.cursor, cursorSignature, sortKeys.length))
+      : undefined
+    const rowsWhere = after ? and(where, after) : where
 
     const listQuery = db
       .select({
@@ -71,22 +93,34 @@ export const collectionsService = {
         createdAt: collections.createdAt,
         updatedAt: collections.updatedAt,
         websiteCount: sql<number>`count(${collectionItems.id})`,
+        sortValues: Object.fromEntries(sortKeys.map((key, index) => [`k${index}`, sql<KeysetValue>`${key.expression}`])),
       })
       .from(collections)
       .leftJoin(collectionItems, eq(collectionItems.collectionId, collections.id))
       .groupBy(collections.id)
-      .orderBy(...orderByClause)
-      .limit(pageSize)
-      .offset(offset)
-
-    const rows = await (where ? listQuery.where(where) : listQuery)
-
-    const baseCountQuery = db.select({ value: sql<number>`count(*)` }).from(collections)
-    const totalRow = await (where ? baseCountQuery.where(where) : baseCountQuery).get()
+      .orderBy(...keysetOrderBy(sortKeys))
+      .$dynamic()
+
+    // 游标分页多取一行判断是否有下一页，且不使用 offset
+    const fetchedRows = await (rowsWhere ? listQuery.where(rowsWhere) : listQuery)
+      .limit(isCursorMode ? pageSize + 1 : pageSize)
+      .offset(isCursorMode ? 0 : offset)
+    const { rows, nextCursor } = isCursorMode
+      ? sliceKeysetPage(fetchedRows, pageSize, cursorSignature, (row) =>
+          sortKeys.map((_, index) => row.sortValues[`k${index}`])
+        )
+      : { rows: fetchedRows, nextCursor: null }
+
+    // 游标分页只在第一页统计总数
+    let total: number | null = null
+    if (!params.cursor) {
+      const baseCountQuery = db.select({ value: sql<number>`count(*)` }).from(collections)
+      const totalRow = await (where ? baseCountQuery.where(where) : baseCountQuery).get()
+      total = Number(totalRow?.value ?? 0)
+    }
 
-    const total = Number(totalRow?.value ?? 0)
     const items = rows.map(mapCollectionRecord)
-    const hasMore = page * pageSize < total
+    const hasMore = isCursorMode ? nextCursor !== null : page * pageSize < (total ?? 0)
 
     return {
       items,
@@ -94,6 +128,7 @@ export const collectionsService = {
       pageSize,
       total,
       hasMore,
+      nextCursor,
     }
   },
 
@@ -131,13 +166,20 @@ export const collectionsService = {
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "collection.create",
+      entityType: "collection",
       entityId: id,
-      changes: {
-        name: input.name,
-        slug,
-        isFeatured: Boolean(input.isFeatured),
-        displayOrder,
-      },
+      changes: diffChanges(
+        null,
+        {
+          name: input.name.trim(),
+          slug,
+          description: normalizeNullable(input.description),
+          coverImage: normalizeNullable(input.coverImage),
+          isFeatured: Boolean(input.isFeatured),
+          displayOrder,
+        },
+        AUDITED_COLLECTION_FIELDS
+      ),
     })
 
     const detail = await loadCollectionDetail(db, id)
@@ -187,13 +229,20 @@ export const collectionsService = {
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "collection.update",
+      entityType: "collection",
       entityId: id,
-      changes: {
-        name: nextName,
-        slug: nextSlug,
-        isFeatured: nextFeatured,
-        displayOrder: nextDisplayOrder,
-      },
+      changes: diffChanges(
+        { ...existing, isFeatured: Boolean(existing.isFeatured) },
+        {
+          name: nextName,
+          slug: nextSlug,
+          description: nextDescription,
+          coverImage: nextCover,
+          isFeatured: nextFeatured,
+          displayOrder: nextDisplayOrder,
+        },
+        AUDITED_COLLECTION_FIELDS
+      ),
     })
 
     const detail = await loadCollectionDetail(db, id)
@@ -206,7 +255,7 @@ export const collectionsService = {
   async delete(id: string, options: MutationOptions = {}): Promise<void> {
     const db = getD1Db()
 
-    const existing = await db.select({ id: collections.id }).from(collections).where(eq(collections.id, id)).get()
+    const existing = await db.select().from(collections).where(eq(collections.id, id)).get()
     if (!existing) {
       throw new Error("集合不存在")
     }
@@ -217,8 +266,9 @@ export const collectionsService = {
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "collection.delete",
+      entityType: "collection",
       entityId: id,
-      changes: null,
+      changes: diffChanges(existing, null, AUDITED_COLLECTION_FIELDS),
     })
   },
 
@@ -405,6 +455,12 @@ async function replaceCollectionItems(
     }
   }
 
+  const previousItems = await db
+    .select({ websiteId: collectionItems.websiteId })
+    .from(collectionItems)
+    .where(eq(collectionItems.collectionId, collectionId))
+    .orderBy(asc(collectionItems.position))
+
   await db.delete(collectionItems).where(eq(collectionItems.collectionId, collectionId))
 
   const now = new Date().toISOString()
@@ -430,8 +486,12 @@ async function replaceCollectionItems(
   await recordAuditLog(db, {
     actorId,
     action: "collection.items.replace",
+    entityType: "collection",
     entityId: collectionId,
-    changes: { count: normalized.length },
+    changes: diffChanges(
+      { websiteIds: previousItems.map((item) => item.websiteId) },
+      { websiteIds: normalized.map((item) => item.websiteId) }
+    ),
   })
 }
 
@@ -468,25 +528,6 @@ function normalizeItemsInput(items: CollectionItemInput[]): NormalizedItem[] {
     }))
 }
 
-async function recordAuditLog(
-  db: ReturnType<typeof getD1Db>,
-  payload: { actorId?: string | null; action: string; entityId: string; changes: unknown }
-) {
-  try {
-    await db.insert(auditLogs).values({
-      id: crypto.randomUUID(),
-      actorId: payload.actorId || "system",
-      action: payload.action,
-      entityType: "collection",
-      entityId: payload.entityId,
-      changes: payload.changes ? JSON.stringify(payload.changes) : null,
-      createdAt: new Date().toISOString(),
-    })
-  } catch {
-    // Silently fail for audit log
-  }
-}
-
 function normalizeNullable(value?: string | null): string | null {
   if (value === undefined) return null
   if (value === null) return null
@@ -0,0 +1,194 @@
+import { getRequestContext } from "@cloudflare/next-on-pages"
+import { and, asc, eq, isNull, lte, or, sql } from "drizzle-orm"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { websiteLinkHealth } from "@/lib/db/schema/website-link-health"
+import { websites } from "@/lib/db/schema/websites"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import {
+  parseLinkCheckThreshold,
+  probeLink,
+  shouldAutoUnpublish,
+  type LinkProbeFetcher,
+} from "@/lib/utils/link-probe"
+import type { CloudflareEnv } from "@/types/env"
+
+import type {
+  WebsiteLinkCheckBatchResult,
+  WebsiteLinkCheckResult,
+  WebsiteLinkHealth,
+} from "@/features/websites/types/admin"
+
+type D1Db = ReturnType<typeof getD1Db>
+
+/** 同一网站两次例行检测的最小间隔 */
+export const LINK_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+/** 单次 Cron 最多检测的网站数，每个网站最多两次子请求（HEAD + GET） */
+const LINK_CHECK_BATCH_SIZE = 20
+const LINK_CHECK_CONCURRENCY = 5
+
+export interface LinkCheckOptions {
+  db?: D1Db
+  now?: Date
+  fetcher?: LinkProbeFetcher
+  timeoutMs?: number
+  /** 未传入时读取 LINK_CHECK_FAILURE_THRESHOLD 环境变量 */
+  failureThreshold?: number
+  actorId?: string
+}
+
+export interface LinkCheckBatchOptions extends LinkCheckOptions {
+  limit?: number
+  intervalMs?: number
+}
+
+export const linkCheckService = {
+  async checkWebsite(id: string, options: LinkCheckOptions = {}): Promise<WebsiteLinkCheckResult> {
+    const db = options.db ?? getD1Db()
+    const website = await db
+      .select({ id: websites.id, url: websites.url, status: websites.status })
+      .from(websites)
+      .where(eq(websites.id, id))
+      .get()
+
+    if (!website) {
+      throw new Error("未找到网站")
+    }
+
+    return checkAndRecord(db, website, options)
+  },
+
+  /**
+   * 例行检测：优先未检测过的网站，其次按上次检测时间从早到晚
+   */
+  async runDueChecks(options: LinkCheckBatchOptions = {}): Promise<WebsiteLinkCheckBatchResult> {
+    const db = options.db ?? getD1Db()
+    const now = options.now ?? new Date()
+    const staleBefore = new Date(now.getTime() - (options.intervalMs ?? LINK_CHECK_INTERVAL_MS)).toISOString()
+
+    const due = await db
+      .select({ id: websites.id, url: websites.url, status: websites.status })
+      .from(websites)
+      .leftJoin(websiteLinkHealth, eq(websiteLinkHealth.websiteId, websites.id))
+      .where(or(isNull(websiteLinkHealth.checkedAt), lte(websiteLinkHealth.checkedAt, staleBefore)))
+      .orderBy(sql`${websiteLinkHealth.checkedAt} IS NOT NULL`, asc(websiteLinkHealth.checkedAt))
+      .limit(options.limit ?? LINK_CHECK_BATCH_SIZE)
+
+    const checkOptions = { ...options, now, failureThreshold: resolveFailureThreshold(options) }
+    const results: WebsiteLinkCheckResult[] = []
+    for (let index = 0; index < due.length; index += LINK_CHECK_CONCURRENCY) {
+      const chunk = due.slice(index, index + LINK_CHECK_CONCURRENCY)
+      results.push(...(await Promise.all(chunk.map((website) => checkAndRecord(db, website, checkOptions)))))
+    }
+
+    const healthy = results.filter((result) => result.health.isHealthy).length
+
+    return {
+      checked: results.length,
+      healthy,
+      broken: results.length - healthy,
+      unpublishedIds: results.filter((result) => result.unpublished).map((result) => result.websiteId),
+      checkedAt: now.toISOString(),
+    }
+  },
+}
+
+async function checkAndRecord(
+  db: D1Db,
+  website: { id: string; url: string; status: string },
+  options: LinkCheckOptions
+): Promise<WebsiteLinkCheckResult> {
+  const probe = await probeLink(website.url, { fetcher: options.fetcher, timeoutMs: options.timeoutMs })
+  const checkedAt = (options.now ?? new Date()).toISOString()
+
+  const values = {
+    checkedAt,
+    isHealthy: probe.ok,
+    statusCode: probe.statusCode,
+    finalUrl: probe.finalUrl,
+    responseTimeMs: probe.responseTimeMs,
+    error: probe.error,
+  }
+
+  const [row] = await db
+    .insert(websiteLinkHealth)
+    .values({ websiteId: website.id, ...values, consecutiveFailures: probe.ok ? 0 : 1 })
+    .onConflictDoUpdate({
+      target: websiteLinkHealth.websiteId,
+      set: {
+        ...values,
+        consecutiveFailures: probe.ok ? 0 : sql`${websiteLinkHealth.consecutiveFailures} + 1`,
+      },
+    })
+    .returning()
+
+  const health = mapHealthRow(row)
+  const threshold = resolveFailureThreshold(options)
+  const unpublished = shouldAutoUnpublish(health.consecutiveFailures, threshold, website.status)
+    ? await unpublishBrokenWebsite(db, website.id, health, options.actorId)
+    : false
+
+  return { websiteId: website.id, health, unpublished }
+}
+
+/**
+ * 自动下线阈值：调用方传入的优先，否则读取 Pages 环境变量（Worker 中无请求上下文，由调用方传入）
+ */
+function resolveFailureThreshold(options: LinkCheckOptions): number {
+  if (options.failureThreshold !== undefined) {
+    return options.failureThreshold
+  }
+  let configured: string | undefined
+  try {
+    configured = (getRequestContext().env as CloudflareEnv).LINK_CHECK_FAILURE_THRESHOLD
+  } catch {
+    configured = undefined
+  }
+  return parseLinkCheckThreshold(configured)
+}
+
+async function unpublishBrokenWebsite(
+  db: D1Db,
+  id: string,
+  health: WebsiteLinkHealth,
+  actorId?: string
+): Promise<boolean> {
+  const existing = await db.select().from(websites).where(eq(websites.id, id)).get()
+  if (!existing) return false
+
+  const claimed = await db
+    .update(websites)
+    .set({ status: "draft", updatedAt: health.checkedAt })
+    .where(and(eq(websites.id, id), eq(websites.status, "published")))
+    .returning()
+
+  const updated = claimed[0]
+  if (!updated) return false
+
+  await recordAuditLog(db, {
+    actorId,
+    action: "website.autoUnpublish",
+    entityType: "website",
+    entityId: id,
+    changes: {
+      ...diffChanges(existing, updated, ["status"]),
+      consecutiveFailures: { before: null, after: health.consecutiveFailures },
+      lastError: { before: null, after: health.error },
+    },
+  })
+
+  return true
+}
+
+export function mapHealthRow(row: typeof websiteLinkHealth.$inferSelect): WebsiteLinkHealth {
+  return {
+    checkedAt: row.checkedAt,
+    isHealthy: Boolean(row.isHealthy),
+    statusCode: row.statusCode ?? null,
+    finalUrl: row.finalUrl ?? null,
+    responseTimeMs: row.responseTimeMs ?? null,
+    error: row.error ?? null,
+    consecutiveFailures: Number(row.consecutiveFailures ?? 0),
+  }
+}
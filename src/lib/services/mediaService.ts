@@ -0,0 +1,311 @@
+import { getRequestContext } from "@cloudflare/next-on-pages"
+import { and, eq, sql, type InferSelectModel, type SQL } from "drizzle-orm"
+
+import { getAppUrl } from "@/lib/config/app"
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { mediaAssets } from "@/lib/db/schema/media-assets"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import { inspectImage, type ImageInfo } from "@/lib/utils/image-meta"
+import { decodeCursor, keysetAfter, keysetOrderBy, sliceKeysetPage, type KeysetKey } from "@/lib/utils/keyset"
+import type { CloudflareEnv } from "@/types/env"
+
+import {
+  MEDIA_MAX_BYTES,
+  MEDIA_THUMBNAIL_MAX_BYTES,
+  type MediaAsset,
+  type MediaContentType,
+  type MediaListParams,
+  type MediaListResult,
+  type MediaUploadResult,
+} from "@/features/media/types"
+
+type MediaBucket = NonNullable<CloudflareEnv["R2"]>
+
+type MediaAssetRow = InferSelectModel<typeof mediaAssets>
+
+export interface MediaUploadInput {
+  file: File
+  /** 浏览器生成的缩略图，可选 */
+  thumbnail?: File | null
+  altText?: string
+}
+
+interface MutationOptions {
+  actorId?: string
+}
+
+/**
+ * 上传内容不符合要求，field 对应表单字段
+ */
+export class MediaValidationError extends Error {
+  constructor(
+    public readonly field: "file" | "thumbnail",
+    message: string,
+    public readonly status: 413 | 422 = 422
+  ) {
+    super(message)
+    this.name = "MediaValidationError"
+  }
+}
+
+/**
+ * 未配置 R2 绑定
+ */
+export class MediaStorageUnavailableError extends Error {
+  constructor(message = "媒体存储未配置") {
+    super(message)
+    this.name = "MediaStorageUnavailableError"
+  }
+}
+
+const DEFAULT_LIMIT = 24
+const MAX_LIMIT = 100
+const CURSOR_SIGNATURE = "media"
+
+/** 对象键不含可变信息，内容变化即换键，可长期缓存 */
+const OBJECT_CACHE_CONTROL = "public, max-age=31536000, immutable"
+
+const AUDITED_MEDIA_FIELDS = ["filename", "contentType", "size", "width", "height", "altText"] as const
+
+const MEDIA_KEYS: KeysetKey[] = [
+  { expression: mediaAssets.createdAt, direction: "desc" },
+  { expression: mediaAssets.id, direction: "desc" },
+]
+
+export const mediaService = {
+  /**
+   * 媒体库列表，按上传时间倒序，支持按文件名与替代文本搜索
+   */
+  async list(params: MediaListParams = {}): Promise<MediaListResult> {
+    const db = getD1Db()
+    const limit = Math.max(1, Math.min(params.limit ?? DEFAULT_LIMIT, MAX_LIMIT))
+
+    const filters: SQL[] = []
+
+    if (params.search) {
+      const keyword = `%${escapeLike(params.search.trim().toLowerCase())}%`
+      filters.push(
+        sql`(lower(${mediaAssets.filename}) LIKE ${keyword} ESCAPE '\\' OR lower(COALESCE(${mediaAssets.altText}, '')) LIKE ${keyword} ESCAPE '\\')`
+      )
+    }
+
+    if (params.cursor) {
+      const after = keysetAfter(MEDIA_KEYS, decodeCursor(params.cursor, CURSOR_SIGNATURE, MEDIA_KEYS.length))
+      if (after) filters.push(after)
+    }
+
+    const rows = await db
+      .select()
+      .from(mediaAssets)
+      .where(filters.length ? and(...filters) : undefined)
+      .orderBy(...keysetOrderBy(MEDIA_KEYS))
+      .limit(limit + 1)
+
+    const page = sliceKeysetPage(rows, limit, CURSOR_SIGNATURE, (row) => [row.createdAt, row.id])
+    const baseUrl = resolvePublicBaseUrl()
+    return { items: page.rows.map((row) => mapRow(row, baseUrl)), nextCursor: page.nextCursor }
+  },
+
+  /**
+   * 校验并上传图片。格式以文件头为准；内容相同的文件只保存一份，直接返回已有记录
+   */
+  async upload(input: MediaUploadInput, options: MutationOptions = {}): Promise<MediaUploadResult> {
+    const bucket = currentBucket()
+    if (!bucket) {
+      throw new MediaStorageUnavailableError()
+    }
+
+    const bytes = await readLimited(input.file, MEDIA_MAX_BYTES, "file")
+    const info = inspectImage(bytes)
+    if (!info) {
+      throw new MediaValidationError("file", "仅支持 JPEG、PNG、WebP、GIF 或 AVIF 图片")
+    }
+
+    const db = getD1Db()
+    const baseUrl = resolvePublicBaseUrl()
+    const sha256 = await digestHex(bytes)
+
+    const existing = await findBySha(db, sha256)
+    if (existing) {
+      return { asset: mapRow(existing, baseUrl), reused: true }
+    }
+
+    const thumbnail = input.thumbnail ? await readThumbnail(input.thumbnail) : null
+
+    const id = crypto.randomUUID()
+    const now = new Date().toISOString()
+    const storageKey = buildStorageKey(id, info.extension, now)
+    const thumbnailKey = thumbnail ? buildStorageKey(`${id}.thumb`, thumbnail.info.extension, now) : null
+
+    await bucket.put(storageKey, bytes, {
+      httpMetadata: { contentType: info.contentType, cacheControl: OBJECT_CACHE_CONTROL },
+      customMetadata: { sha256 },
+    })
+    if (thumbnail && thumbnailKey) {
+      await bucket.put(thumbnailKey, thumbnail.bytes, {
+        httpMetadata: { contentType: thumbnail.info.contentType, cacheControl: OBJECT_CACHE_CONTROL },
+      })
+    }
+
+    const row: MediaAssetRow = {
+      id,
+      storageKey,
+      filename: normalizeFilename(input.file.name, info.extension),
+      contentType: info.contentType,
+      size: bytes.byteLength,
+      width: info.width,
+      height: info.height,
+      sha256,
+      altText: input.altText ?? null,
+      thumbnailKey,
+      thumbnailWidth: thumbnail?.info.width ?? null,
+      thumbnailHeight: thumbnail?.info.height ?? null,
+      uploadedBy: options.actorId ?? null,
+      createdAt: now,
+    }
+
+    try {
+      await db.insert(mediaAssets).values(row)
+    } catch (error) {
+      // 并发上传同一文件时由唯一索引兜底：删除本次写入的对象，返回先写入的记录
+      await bucket.delete(thumbnailKey ? [storageKey, thumbnailKey] : [storageKey])
+      const winner = await findBySha(db, sha256)
+      if (winner) {
+        return { asset: mapRow(winner, baseUrl), reused: true }
+      }
+      throw error
+    }
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "media.upload",
+      entityType: "media",
+      entityId: id,
+      changes: diffChanges(null, row, AUDITED_MEDIA_FIELDS),
+    })
+
+    return { asset: mapRow(row, baseUrl), reused: false }
+  },
+
+  /**
+   * 读取对象，供 /api/media 在未配置公开域名时转发
+   */
+  async getObject(key: string, requestHeaders?: Headers) {
+    const bucket = currentBucket()
+    if (!bucket) {
+      throw new MediaStorageUnavailableError()
+    }
+    const onlyIf = requestHeaders ? toConditional(requestHeaders) : null
+    return onlyIf ? bucket.get(key, { onlyIf }) : bucket.get(key)
+  },
+}
+
+/**
+ * 媒体文件是否可经 /api/media 公开读取：只开放本模块写入的键
+ */
+export function isMediaStorageKey(key: string): boolean {
+  return /^media\/\d{4}\/\d{2}\/[0-9a-f-]{36}(\.thumb)?\.[a-z0-9]+$/.test(key)
+}
+
+/**
+ * R2 绑定。本地开发时 next.config 中的 setupDevPlatform 会按 wrangler.toml 模拟该绑定，
+ * 对象写入 .wrangler/state 下的本地文件，无需连接真实存储桶
+ */
+function currentBucket(): MediaBucket | undefined {
+  try {
+    return (getRequestContext().env as CloudflareEnv).R2
+  } catch {
+    return undefined
+  }
+}
+
+function resolvePublicBaseUrl(): string {
+  let configured: string | undefined
+  try {
+    configured = (getRequestContext().env as CloudflareEnv).MEDIA_PUBLIC_BASE_URL
+  } catch {
+    configured = undefined
+  }
+  const base = configured?.trim() || `${getAppUrl()}/api/media`
+  return base.replace(/\/+$/, "")
+}
+
+/**
+ * 将 If-None-Match / If-Modified-Since 转为 R2Conditional。
+ * 不直接传 Headers：本地开发的绑定代理无法序列化 Headers 对象
+ */
+function toConditional(headers: Headers): { etagDoesNotMatch?: string; uploadedAfter?: Date } | null {
+  const ifNoneMatch = headers.get("if-none-match")
+  if (ifNoneMatch) {
+    return { etagDoesNotMatch: ifNoneMatch.replace(/^W\//, "").replace(/"/g, "").trim() }
+  }
+  const ifModifiedSince = headers.get("if-modified-since")
+  const since = ifModifiedSince ? new Date(ifModifiedSince) : null
+  if (since && !Number.isNaN(since.getTime())) {
+    return { uploadedAfter: since }
+  }
+  return null
+}
+
+async function readLimited(file: File, maxBytes: number, field: "file" | "thumbnail"): Promise<Uint8Array<ArrayBuffer>> {
+  if (file.size === 0) {
+    throw new MediaValidationError(field, "文件内容为空")
+  }
+  if (file.size > maxBytes) {
+    throw new MediaValidationError(field, `文件大小不能超过 ${formatBytes(maxBytes)}`, 413)
+  }
+  return new Uint8Array(await file.arrayBuffer())
+}
+
+async function readThumbnail(file: File): Promise<{ bytes: Uint8Array<ArrayBuffer>; info: ImageInfo }> {
+  const bytes = await readLimited(file, MEDIA_THUMBNAIL_MAX_BYTES, "thumbnail")
+  const info = inspectImage(bytes)
+  if (!info) {
+    throw new MediaValidationError("thumbnail", "缩略图格式不受支持")
+  }
+  return { bytes, info }
+}
+
+async function findBySha(db: ReturnType<typeof getD1Db>, sha256: string) {
+  return db.select().from(mediaAssets).where(eq(mediaAssets.sha256, sha256)).get()
+}
+
+async function digestHex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest), (value) => value.toString(16).padStart(2, "0")).join("")
+}
+
+function buildStorageKey(name: string, extension: string, createdAt: string): string {
+  return `media/${createdAt.slice(0, 4)}/${createdAt.slice(5, 7)}/${name}.${extension}`
+}
+
+function normalizeFilename(name: string, extension: string): string {
+  const trimmed = name.replace(/[\\/]/g, "_").trim().slice(0, 200)
+  return trimmed || `image.${extension}`
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${bytes / (1024 * 1024)} MB` : `${Math.round(bytes / 1024)} KB`
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`)
+}
+
+function mapRow(row: MediaAssetRow, baseUrl: string): MediaAsset {
+  return {
+    id: row.id,
+    url: `${baseUrl}/${row.storageKey}`,
+    filename: row.filename,
+    contentType: row.contentType as MediaContentType,
+    size: row.size,
+    width: row.width,
+    height: row.height,
+    altText: row.altText,
+    thumbnail: row.thumbnailKey
+      ? { url: `${baseUrl}/${row.thumbnailKey}`, width: row.thumbnailWidth, height: row.thumbnailHeight }
+      : null,
+    uploadedBy: row.uploadedBy,
+    createdAt: row.createdAt,
+  }
+}
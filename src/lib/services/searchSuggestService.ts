@@ -0,0 +1,356 @@
+import { and, desc, eq, gte, sql, type SQL, type SQLWrapper } from "drizzle-orm"
+import { getRequestContext } from "@cloudflare/next-on-pages"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { blogPosts } from "@/lib/db/schema/blog-posts"
+import { categories } from "@/lib/db/schema/categories"
+import { collectionItems } from "@/lib/db/schema/collection-items"
+import { collections } from "@/lib/db/schema/collections"
+import { searchQueryStats, searchQueryVisitors } from "@/lib/db/schema/search-query-stats"
+import { tags } from "@/lib/db/schema/tags"
+import { websiteTags } from "@/lib/db/schema/website-tags"
+import { websites } from "@/lib/db/schema/websites"
+import { hashValue } from "@/lib/utils/request"
+
+type D1Db = ReturnType<typeof getD1Db>
+
+export type SearchSuggestionType = "website" | "tag" | "category" | "collection" | "blog" | "query"
+
+export interface SearchSuggestion {
+  id: string
+  type: SearchSuggestionType
+  /** 展示文本；query 类型即建议的搜索词 */
+  text: string
+  /** 站内链接；query 类型为 null，由前端直接执行搜索 */
+  href: string | null
+  /** 访问量、网站数或搜索次数，仅用于展示 */
+  count?: number
+}
+
+export interface SuggestOptions {
+  limit?: number
+}
+
+export const SUGGEST_MIN_LENGTH = 1
+export const SUGGEST_MAX_LENGTH = 64
+const DEFAULT_LIMIT = 8
+const MAX_LIMIT = 20
+
+/** 每种类型最多取出的候选数，排序后再截断到 limit */
+const CANDIDATES_PER_TYPE = 5
+
+/** 同一类型在结果中最多占的条数，保证混合展示 */
+const MAX_PER_TYPE = 4
+
+/** 热门搜索词统计窗口 */
+const QUERY_WINDOW_DAYS = 30
+
+/**
+ * 统计窗口内至少有这么多独立访客搜索过，才作为建议返回，避免把个别用户的输入展示给他人。
+ * 按访客而不是搜索次数计：同一访客重复搜索或刷新页面不会让搜索词公开，也无法靠反复请求刷出建议
+ */
+const MIN_QUERY_VISITORS = 3
+
+const MAX_RECORDED_QUERY_LENGTH = 100
+
+/** 同等匹配程度下的类型偏好：具体网站优先，其次是聚合入口 */
+const TYPE_WEIGHTS: Record<SearchSuggestionType, number> = {
+  website: 1,
+  query: 0.9,
+  category: 0.8,
+  tag: 0.7,
+  collection: 0.6,
+  blog: 0.5,
+}
+
+interface Candidate {
+  suggestion: SearchSuggestion
+  /** 建议文本本身，用于计算匹配程度 */
+  label: string
+  popularity: number
+}
+
+export const searchSuggestService = {
+  /**
+   * 混合类型的搜索建议：标题/名称前缀或词首匹配，按匹配程度、类型和热度（访问量、网站数、近期搜索次数）排序
+   */
+  async suggest(input: string, options: SuggestOptions = {}): Promise<SearchSuggestion[]> {
+    const query = normalizeQuery(input)
+    if (query.length < SUGGEST_MIN_LENGTH) return []
+
+    const limit = Math.min(MAX_LIMIT, Math.max(1, options.limit ?? DEFAULT_LIMIT))
+    const db = getD1Db()
+
+    const groups = await Promise.all([
+      loadWebsiteCandidates(db, query),
+      loadTagCandidates(db, query),
+      loadCategoryCandidates(db, query),
+      loadCollectionCandidates(db, query),
+      loadBlogCandidates(db, query),
+      loadQueryCandidates(db, query),
+    ])
+
+    const ranked = groups
+      .flat()
+      .map((candidate) => ({ candidate, score: scoreCandidate(candidate, query) }))
+      .sort((a, b) => b.score - a.score)
+
+    // 与实体同名的搜索词没有额外信息，无论排序先后都去掉
+    const entityLabels = new Set(
+      ranked
+        .filter(({ candidate }) => candidate.suggestion.type !== "query")
+        .map(({ candidate }) => candidate.label.toLowerCase())
+    )
+
+    const perType = new Map<SearchSuggestionType, number>()
+    const seenText = new Set<string>()
+    const results: SearchSuggestion[] = []
+
+    for (const { candidate } of ranked) {
+      const { suggestion } = candidate
+      const label = candidate.label.toLowerCase()
+      const used = perType.get(suggestion.type) ?? 0
+      const textKey = `${suggestion.type}:${label}`
+      if (used >= MAX_PER_TYPE) continue
+      if (suggestion.type === "query" && entityLabels.has(label)) continue
+      if (seenText.has(textKey)) continue
+
+      perType.set(suggestion.type, used + 1)
+      seenText.add(textKey)
+      results.push(suggestion)
+      if (results.length >= limit) break
+    }
+
+    return results
+  },
+
+  /**
+   * 记录一次公开搜索，按天聚合；只记录第一页，翻页不重复计数。
+   * 无法识别客户端 IP 时只累计次数，不计入独立访客
+   */
+  async recordQuery(input: string, resultCount: number, clientIp?: string | null) {
+    const query = normalizeQuery(input)
+    if (!query || query.length > MAX_RECORDED_QUERY_LENGTH) return
+
+    const db = getD1Db()
+    const now = new Date().toISOString()
+    const day = now.slice(0, 10)
+
+    await db
+      .insert(searchQueryStats)
+      .values({ query, day, hits: 1, resultCount, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [searchQueryStats.query, searchQueryStats.day],
+        set: {
+          hits: sql`${searchQueryStats.hits} + 1`,
+          resultCount,
+          updatedAt: now,
+        },
+      })
+
+    if (clientIp) {
+      await db
+        .insert(searchQueryVisitors)
+        .values({ query, day, visitorHash: await hashValue(clientIp) })
+        .onConflictDoNothing()
+    }
+  },
+}
+
+/**
+ * 在响应返回后异步记录搜索词，失败不影响搜索本身；非 Cloudflare 环境下直接跳过
+ */
+export function scheduleSearchQueryRecord(query: string, resultCount: number, clientIp?: string | null) {
+  let ctx: { waitUntil(promise: Promise<unknown>): void } | undefined
+  try {
+    ctx = getRequestContext().ctx
+  } catch {
+    return
+  }
+  if (!ctx) return
+
+  ctx.waitUntil(
+    searchSuggestService
+      .recordQuery(query, resultCount, clientIp)
+      .catch((error) => console.error("search query record failed", error))
+  )
+}
+
+function normalizeQuery(input: string): string {
+  return input.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`)
+}
+
+/** 整体前缀或任一单词的前缀匹配 */
+function prefixMatch(column: SQLWrapper, query: string): SQL {
+  const escaped = escapeLike(query)
+  return sql`(lower(${column}) LIKE ${`${escaped}%`} ESCAPE '\\' OR lower(${column}) LIKE ${`% ${escaped}%`} ESCAPE '\\')`
+}
+
+function scoreCandidate(candidate: Candidate, query: string): number {
+  const label = candidate.label.toLowerCase()
+  const match = label === query ? 3 : label.startsWith(query) ? 2 : 1
+  // 热度取对数，避免高访问量网站压过匹配更精确的结果
+  const popularity = Math.log10(1 + Math.max(0, candidate.popularity))
+  return match * 2 + TYPE_WEIGHTS[candidate.suggestion.type] + popularity * 0.5
+}
+
+async function loadWebsiteCandidates(db: D1Db, query: string): Promise<Candidate[]> {
+  const rows = await db
+    .select({ id: websites.id, title: websites.title, visitCount: websites.visitCount })
+    .from(websites)
+    .where(and(eq(websites.status, "published"), prefixMatch(websites.title, query)))
+    .orderBy(desc(websites.visitCount))
+    .limit(CANDIDATES_PER_TYPE)
+
+  return rows.map((row) => ({
+    label: row.title,
+    popularity: row.visitCount,
+    suggestion: {
+      id: row.id,
+      type: "website",
+      text: row.title,
+      href: `/website/${encodeURIComponent(row.id)}`,
+      count: row.visitCount,
+    },
+  }))
+}
+
+async function loadTagCandidates(db: D1Db, query: string): Promise<Candidate[]> {
+  const websiteCount = sql<number>`count(${websites.id})`
+  const rows = await db
+    .select({ id: tags.id, name: tags.name, slug: tags.slug, websiteCount })
+    .from(tags)
+    .leftJoin(websiteTags, eq(websiteTags.tagId, tags.id))
+    .leftJoin(websites, and(eq(websites.id, websiteTags.websiteId), eq(websites.status, "published")))
+    .where(and(eq(tags.isActive, true), prefixMatch(tags.name, query)))
+    .groupBy(tags.id)
+    .orderBy(desc(websiteCount))
+    .limit(CANDIDATES_PER_TYPE)
+
+  return rows.map((row) => ({
+    label: row.name,
+    popularity: Number(row.websiteCount ?? 0),
+    suggestion: {
+      id: row.id,
+      type: "tag",
+      text: row.name,
+      href: `/tag/${encodeURIComponent(row.slug)}`,
+      count: Number(row.websiteCount ?? 0),
+    },
+  }))
+}
+
+async function loadCategoryCandidates(db: D1Db, query: string): Promise<Candidate[]> {
+  const websiteCount = sql<number>`count(${websites.id})`
+  const rows = await db
+    .select({ id: categories.id, name: categories.name, slug: categories.slug, websiteCount })
+    .from(categories)
+    .leftJoin(websites, and(eq(websites.categoryId, categories.id), eq(websites.status, "published")))
+    .where(and(eq(categories.status, "active"), prefixMatch(categories.name, query)))
+    .groupBy(categories.id)
+    .orderBy(desc(websiteCount))
+    .limit(CANDIDATES_PER_TYPE)
+
+  return rows.map((row) => ({
+    label: row.name,
+    popularity: Number(row.websiteCount ?? 0),
+    suggestion: {
+      id: row.id,
+      type: "category",
+      text: row.name,
+      href: `/category/${encodeURIComponent(row.slug)}`,
+      count: Number(row.websiteCount ?? 0),
+    },
+  }))
+}
+
+async function loadCollectionCandidates(db: D1Db, query: string): Promise<Candidate[]> {
+  const itemCount = sql<number>`count(${collectionItems.id})`
+  const rows = await db
+    .select({ id: collections.id, name: collections.name, slug: collections.slug, itemCount })
+    .from(collections)
+    .leftJoin(collectionItems, eq(collectionItems.collectionId, collections.id))
+    .where(prefixMatch(collections.name, query))
+    .groupBy(collections.id)
+    .orderBy(desc(collections.isFeatured), desc(itemCount))
+    .limit(CANDIDATES_PER_TYPE)
+
+  return rows.map((row) => ({
+    label: row.name,
+    popularity: Number(row.itemCount ?? 0),
+    suggestion: {
+      id: row.id,
+      type: "collection",
+      text: row.name,
+      href: `/collection/${encodeURIComponent(row.slug)}`,
+      count: Number(row.itemCount ?? 0),
+    },
+  }))
+}
+
+async function loadBlogCandidates(db: D1Db, query: string): Promise<Candidate[]> {
+  const rows = await db
+    .select({ id: blogPosts.id, title: blogPosts.title, slug: blogPosts.slug })
+    .from(blogPosts)
+    .where(and(eq(blogPosts.status, "published"), prefixMatch(blogPosts.title, query)))
+    .orderBy(desc(blogPosts.publishedAt))
+    .limit(CANDIDATES_PER_TYPE)
+
+  // 文章没有访问统计，按发布时间取最新的几篇
+  return rows.map((row) => ({
+    label: row.title,
+    popularity: 0,
+    suggestion: {
+      id: row.id,
+      type: "blog",
+      text: row.title,
+      href: `/blog/${encodeURIComponent(row.slug)}`,
+    },
+  }))
+}
+
+async function loadQueryCandidates(db: D1Db, query: string): Promise<Candidate[]> {
+  const since = new Date(Date.now() - QUERY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  const hits = sql<number>`sum(${searchQueryStats.hits})`
+  const visitors = sql<number>`(
+    SELECT count(DISTINCT ${searchQueryVisitors.visitorHash})
+    FROM ${searchQueryVisitors}
+    WHERE ${searchQueryVisitors.query} = ${searchQueryStats.query} AND ${searchQueryVisitors.day} >= ${since}
+  )`
+  // 越近的搜索权重越高：按距今天数衰减
+  const recentHits = sql<number>`sum(${searchQueryStats.hits} * 1.0 / (1 + julianday('now') - julianday(${searchQueryStats.day})))`
+
+  const rows = await db
+    .select({ query: searchQueryStats.query, hits, recentHits })
+    .from(searchQueryStats)
+    .where(
+      and(
+        gte(searchQueryStats.day, since),
+        sql`${searchQueryStats.resultCount} > 0`,
+        prefixMatch(searchQueryStats.query, query)
+      )
+    )
+    .groupBy(searchQueryStats.query)
+    .having(sql`${visitors} >= ${MIN_QUERY_VISITORS}`)
+    .orderBy(desc(recentHits))
+    .limit(CANDIDATES_PER_TYPE)
+
+  // 与输入完全相同的搜索词没有补全价值
+  return rows
+    .filter((row) => row.query !== query)
+    .map((row) => ({
+      label: row.query,
+      popularity: Number(row.recentHits ?? 0) * 10,
+      suggestion: {
+        id: row.query,
+        type: "query",
+        text: row.query,
+        href: null,
+        count: Number(row.hits ?? 0),
+      },
+    }))
+}
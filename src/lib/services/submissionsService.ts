@@ -0,0 +1,393 @@
+import { and, desc, eq, gte, sql, type InferSelectModel, type SQL } from "drizzle-orm"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { submissionRequests } from "@/lib/db/schema/submission-requests"
+import { websites } from "@/lib/db/schema/websites"
+import { recordAuditLog } from "@/lib/services/auditLogsService"
+import { websitesAdminService } from "@/lib/services/websitesAdminService"
+
+import type {
+  SubmissionApproveValues,
+  SubmissionCreateValues,
+  SubmissionMergeValues,
+  SubmissionRejectValues,
+} from "@/features/submissions/schemas"
+import {
+  SUBMISSION_STATUSES,
+  type SubmissionCreateResult,
+  type SubmissionDetail,
+  type SubmissionListItem,
+  type SubmissionListParams,
+  type SubmissionListResult,
+  type SubmissionMeta,
+  type SubmissionPayload,
+  type SubmissionStatus,
+} from "@/features/submissions/types"
+import { normalizeWebsiteUrl } from "@/features/submissions/utils/url"
+import type { WebsiteAdminDetail } from "@/features/websites/types/admin"
+import type { WebsiteAdminUpdateInput } from "@/features/websites/schemas"
+
+type SubmissionRow = InferSelectModel<typeof submissionRequests>
+
+interface MutationOptions {
+  actorId?: string
+}
+
+export const SUBMISSION_RATE_LIMIT = {
+  maxRequests: 3,
+  windowMs: 60 * 60 * 1000,
+}
+
+export const submissionsService = {
+  async list(params: SubmissionListParams = {}): Promise<SubmissionListResult> {
+    const db = getD1Db()
+
+    const page = Math.max(1, params.page ?? 1)
+    const pageSize = Math.max(1, Math.min(params.pageSize ?? 20, 100))
+    const offset = (page - 1) * pageSize
+
+    const filters: SQL[] = []
+
+    if (params.status && params.status !== "all") {
+      filters.push(eq(submissionRequests.status, params.status))
+    }
+
+    if (params.search?.trim()) {
+      const keyword = `%${escapeLike(params.search.trim())}%`
+      filters.push(
+        sql`(json_extract(${submissionRequests.payload}, '$.title') LIKE ${keyword} ESCAPE '\\' OR json_extract(${submissionRequests.payload}, '$.url') LIKE ${keyword} ESCAPE '\\' OR coalesce(${submissionRequests.submittedBy}, '') LIKE ${keyword} ESCAPE '\\')`
+      )
+    }
+
+    const where = filters.length ? and(...filters) : undefined
+
+    const [rows, totalRow] = await Promise.all([
+      db
+        .select()
+        .from(submissionRequests)
+        .where(where)
+        .orderBy(desc(submissionRequests.createdAt), desc(submissionRequests.id))
+        .limit(pageSize)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)` }).from(submissionRequests).where(where).get(),
+    ])
+
+    const total = Number(totalRow?.count ?? 0)
+
+    return {
+      items: rows.map(mapRow),
+      page,
+      pageSize,
+      total,
+      hasMore: offset + rows.length < total,
+    }
+  },
+
+  async getById(id: string): Promise<SubmissionDetail | null> {
+    if (!id) return null
+
+    const db = getD1Db()
+    const row = await db.select().from(submissionRequests).where(eq(submissionRequests.id, id)).get()
+    if (!row) return null
+
+    const item = mapRow(row)
+    const [existingWebsite, linkedWebsite] = await Promise.all([
+      findWebsiteByNormalizedUrl(db, item.payload.normalizedUrl || normalizeWebsiteUrl(item.payload.url)),
+      item.websiteId ? websitesAdminService.getById(item.websiteId) : Promise.resolve(null),
+    ])
+
+    return { ...item, existingWebsite, linkedWebsite }
+  },
+
+  async countByStatus(): Promise<Record<SubmissionStatus, number>> {
+    const db = getD1Db()
+    const rows = await db
+      .select({ status: submissionRequests.status, count: sql<number>`count(*)` })
+      .from(submissionRequests)
+      .groupBy(submissionRequests.status)
+
+    const counts = Object.fromEntries(SUBMISSION_STATUSES.map((status) => [status, 0])) as Record<SubmissionStatus, number>
+    for (const row of rows) {
+      const status = normalizeStatus(row.status)
+      counts[status] += Number(row.count ?? 0)
+    }
+    return counts
+  },
+
+  /**
+   * 审核通过：以提交内容创建网站，并由 websitesAdminService 负责关联提交记录
+   */
+  async approve(id: string, input: SubmissionApproveValues, options: MutationOptions = {}): Promise<SubmissionDetail> {
+    const db = getD1Db()
+    const row = await loadPending(db, id)
+    const payload = parsePayload(row.payload)
+
+    const duplicate = await findWebsiteByNormalizedUrl(db, payload.normalizedUrl || normalizeWebsiteUrl(payload.url))
+    if (duplicate) {
+      throw new Error("已存在相同网址的网站，请使用合并操作")
+    }
+
+    const website = await websitesAdminService.create(
+      {
+        title: input.title ?? payload.title,
+        url: payload.url,
+        slug: undefined,
+        description: input.description ?? payload.description,
+        categoryId: input.categoryId ?? payload.suggestedCategoryId ?? undefined,
+        tagIds: input.tagIds ?? payload.suggestedTagIds,
+        collectionIds: [],
+        isAd: false,
+        adType: undefined,
+        visitCount: 0,
+        status: input.status,
+        faviconUrl: undefined,
+        screenshotUrl: undefined,
+        notes: undefined,
+        submittedBy: payload.contactEmail,
+        submissionId: id,
+      },
+      options
+    )
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "submission.approve",
+      entityType: "submission",
+      entityId: id,
+      changes: {
+        status: { before: row.status, after: "approved" },
+        websiteId: { before: row.websiteId, after: website.id },
+      },
+    })
+
+    return requireDetail(await this.getById(id))
+  },
+
+  async reject(id: string, input: SubmissionRejectValues, options: MutationOptions = {}): Promise<SubmissionDetail> {
+    const db = getD1Db()
+    const row = await loadPending(db, id)
+    const payload = parsePayload(row.payload)
+
+    await db
+      .update(submissionRequests)
+      .set({
+        status: "rejected",
+        payload: JSON.stringify({ ...payload, review: { reason: input.reason } }),
+        reviewedBy: options.actorId ?? "system",
+        reviewedAt: new Date().toISOString(),
+      })
+      .where(eq(submissionRequests.id, id))
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "submission.reject",
+      entityType: "submission",
+      entityId: id,
+      changes: {
+        status: { before: row.status, after: "rejected" },
+        reason: { before: null, after: input.reason },
+      },
+    })
+
+    return requireDetail(await this.getById(id))
+  },
+
+  /**
+   * 合并到已有网站：按需把选中的字段覆盖到目标网站，并将提交标记为 merged
+   */
+  async merge(id: string, input: SubmissionMergeValues, options: MutationOptions = {}): Promise<SubmissionDetail> {
+    const db = getD1Db()
+    const row = await loadPending(db, id)
+    const payload = parsePayload(row.payload)
+
+    const target = await db.select({ id: websites.id }).from(websites).where(eq(websites.id, input.websiteId)).get()
+    if (!target) {
+      throw new Error("未找到网站")
+    }
+
+    const fields = Array.from(new Set(input.fields))
+    if (fields.length) {
+      const update: WebsiteAdminUpdateInput = {}
+      if (fields.includes("title")) update.title = payload.title
+      if (fields.includes("description")) update.description = payload.description
+      if (fields.includes("categoryId") && payload.suggestedCategoryId) update.categoryId = payload.suggestedCategoryId
+      if (fields.includes("tagIds")) update.tagIds = payload.suggestedTagIds
+
+      if (Object.keys(update).length) {
+        await websitesAdminService.update(input.websiteId, update, options)
+      }
+    }
+
+    await db
+      .update(submissionRequests)
+      .set({
+        websiteId: input.websiteId,
+        status: "merged",
+        payload: JSON.stringify({ ...payload, review: { mergedFields: fields } }),
+        reviewedBy: options.actorId ?? "system",
+        reviewedAt: new Date().toISOString(),
+      })
+      .where(eq(submissionRequests.id, id))
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "submission.merge",
+      entityType: "submission",
+      entityId: id,
+      changes: {
+        status: { before: row.status, after: "merged" },
+        websiteId: { before: row.websiteId, after: input.websiteId },
+        mergedFields: { before: null, after: fields },
+      },
+    })
+
+    return requireDetail(await this.getById(id))
+  },
+
+  async create(input: SubmissionCreateValues, meta: SubmissionMeta): Promise<SubmissionCreateResult> {
+    const db = getD1Db()
+    const id = crypto.randomUUID()
+    const now = new Date().toISOString()
+
+    const payload: SubmissionPayload = {
+      url: input.url.trim(),
+      normalizedUrl: normalizeWebsiteUrl(input.url),
+      title: input.title.trim(),
+      description: input.description.trim(),
+      suggestedCategoryId: input.categoryId ?? null,
+      suggestedTagIds: Array.from(new Set(input.tagIds)),
+      contactEmail: input.contactEmail.trim().toLowerCase(),
+      meta,
+    }
+
+    await db.insert(submissionRequests).values({
+      id,
+      websiteId: null,
+      payload: JSON.stringify(payload),
+      submittedBy: payload.contactEmail,
+      status: "pending",
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: now,
+    })
+
+    return { id, status: "pending", createdAt: now }
+  },
+
+  /**
+   * 统计同一 IP 指纹在时间窗口内的提交次数
+   */
+  async countRecentByIp(ipHash: string, windowMs = SUBMISSION_RATE_LIMIT.windowMs): Promise<number> {
+    const db = getD1Db()
+    const since = new Date(Date.now() - windowMs).toISOString()
+
+    const row = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(submissionRequests)
+      .where(
+        and(
+          gte(submissionRequests.createdAt, since),
+          sql`json_extract(${submissionRequests.payload}, '$.meta.ipHash') = ${ipHash}`
+        )
+      )
+      .get()
+
+    return Number(row?.count ?? 0)
+  },
+
+  async hasPendingForUrl(normalizedUrl: string): Promise<boolean> {
+    const db = getD1Db()
+    const row = await db
+      .select({ id: submissionRequests.id })
+      .from(submissionRequests)
+      .where(
+        and(
+          eq(submissionRequests.status, "pending"),
+          sql`json_extract(${submissionRequests.payload}, '$.normalizedUrl') = ${normalizedUrl}`
+        )
+      )
+      .get()
+
+    return Boolean(row)
+  },
+}
+
+async function loadPending(db: ReturnType<typeof getD1Db>, id: string): Promise<SubmissionRow> {
+  const row = await db.select().from(submissionRequests).where(eq(submissionRequests.id, id)).get()
+  if (!row) {
+    throw new Error("未找到提交记录")
+  }
+  if (row.status !== "pending") {
+    throw new Error("该提交已审核，无法重复处理")
+  }
+  return row
+}
+
+/**
+ * 按规范化网址查找已收录网站；先按域名粗筛，再在内存中精确比对
+ */
+async function findWebsiteByNormalizedUrl(
+  db: ReturnType<typeof getD1Db>,
+  normalizedUrl: string
+): Promise<WebsiteAdminDetail | null> {
+  if (!normalizedUrl) return null
+
+  const host = normalizedUrl.split(/[/?]/)[0]
+  const candidates = await db
+    .select({ id: websites.id, url: websites.url })
+    .from(websites)
+    .where(sql`instr(lower(${websites.url}), ${host}) > 0`)
+    .limit(50)
+
+  const match = candidates.find((candidate) => normalizeWebsiteUrl(candidate.url) === normalizedUrl)
+  return match ? websitesAdminService.getById(match.id) : null
+}
+
+function mapRow(row: SubmissionRow): SubmissionListItem {
+  return {
+    id: row.id,
+    status: normalizeStatus(row.status),
+    websiteId: row.websiteId ?? null,
+    submittedBy: row.submittedBy ?? null,
+    reviewedBy: row.reviewedBy ?? null,
+    reviewedAt: row.reviewedAt ?? null,
+    createdAt: row.createdAt,
+    payload: parsePayload(row.payload),
+  }
+}
+
+function parsePayload(value: string): SubmissionPayload {
+  let parsed: Partial<SubmissionPayload> = {}
+  try {
+    parsed = (JSON.parse(value) as Partial<SubmissionPayload>) ?? {}
+  } catch {
+    parsed = {}
+  }
+
+  const url = typeof parsed.url === "string" ? parsed.url : ""
+  return {
+    ...parsed,
+    url,
+    normalizedUrl: parsed.normalizedUrl || normalizeWebsiteUrl(url),
+    title: parsed.title ?? "",
+    description: parsed.description ?? "",
+    suggestedCategoryId: parsed.suggestedCategoryId ?? null,
+    suggestedTagIds: Array.isArray(parsed.suggestedTagIds) ? parsed.suggestedTagIds : [],
+    contactEmail: parsed.contactEmail ?? "",
+  }
+}
+
+function normalizeStatus(status?: string | null): SubmissionStatus {
+  return SUBMISSION_STATUSES.includes(status as SubmissionStatus) ? (status as SubmissionStatus) : "pending"
+}
+
+function requireDetail(detail: SubmissionDetail | null): SubmissionDetail {
+  if (!detail) {
+    throw new Error("未找到提交记录")
+  }
+  return detail
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`)
+}
@@ -1,9 +1,11 @@
-import { and, asc, desc, eq, inArray, like, ne, sql, type SQL } from "drizzle-orm"
+import { and, asc, desc, eq, inArray, like, ne, or, sql, type SQL } from "drizzle-orm"
 import type { InferSelectModel } from "drizzle-orm"
 
 import { tags } from "@/lib/db/schema/tags"
 import { websiteTags } from "@/lib/db/schema/website-tags"
 import { getD1Db } from "@/lib/db/adapters/d1"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import { syncWebsiteById, syncWebsitesByTag } from "@/lib/services/websiteSearchIndex"
 
 import { generateTagSlug } from "@/features/tags/utils/slug"
 import type {
@@ -19,6 +21,12 @@ export interface TagListParams extends TagFilters {
   orderBy?: "recent" | "name"
 }
 
+interface MutationOptions {
+  actorId?: string
+}
+
+const AUDITED_TAG_FIELDS = ["name", "slug", "description", "color", "isActive"] as const
+
 export const tagsService = {
   async list(params: TagListParams = {}): Promise<TagListPayload> {
     const db = getD1Db()
@@ -67,7 +75,7 @@ export const tagsService = {
     }
   },
 
-  async create(input: TagCreateInput): Promise<TagItem> {
+  async create(input: TagCreateInput, options: MutationOptions = {}): Promise<TagItem> {
     const db = getD1Db()
     const now = new Date().toISOString()
     const id = crypto.randomUUID()
@@ -97,10 +105,18 @@ export const tagsService = {
       throw new Error("标签创建失败")
     }
 
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "tag.create",
+      entityType: "tag",
+      entityId: id,
+      changes: diffChanges(null, created, AUDITED_TAG_FIELDS),
+    })
+
     return mapRow({ ...created, websiteCount: 0 })
   },
 
-  async update(id: string, input: TagUpdateInput): Promise<TagItem> {
+  async update(id: string, input: TagUpdateInput, options: MutationOptions = {}): Promise<TagItem> {
     const db = getD1Db()
 
     const existing = await db.select().from(tags).where(eq(tags.id, id)).get()
@@ -150,10 +166,22 @@ export const tagsService = {
       throw new Error("标签更新失败")
     }
 
+    if (updated.name !== existing.name) {
+      await syncWebsitesByTag(db, id)
+    }
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "tag.update",
+      entityType: "tag",
+      entityId: id,
+      changes: diffChanges(existing, updated, AUDITED_TAG_FIELDS),
+    })
+
     return mapRow(updated)
   },
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, options: MutationOptions = {}): Promise<void> {
     const db = getD1Db()
 
     const existing = await db.select().from(tags).where(eq(tags.id, id)).get()
@@ -173,6 +201,14 @@ export const tagsService = {
     }
 
     await db.delete(tags).where(eq(tags.id, id))
+
+    await recordAuditLog(db, {
+      actorId: options.actorId,
+      action: "tag.delete",
+      entityType: "tag",
+      entityId: id,
+      changes: diffChanges(existing, null, AUDITED_TAG_FIELDS),
+    })
   },
 
   async listByWebsite(websiteId: string): Promise<TagItem[]> {
@@ -198,7 +234,49 @@ export const tagsService = {
     return rows.map(mapRow)
   },
 
-  async updateWebsiteTags(websiteId: string, tagIds: string[]): Promise<void> {
+  /**
+   * 按 slug 或 ID 解析启用中的标签，结果顺序与输入一致；未找到或已停用的值放入 missing
+   */
+  async resolveActive(values: string[]): Promise<{ items: TagItem[]; missing: string[] }> {
+    const keys = Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)))
+    if (!keys.length) return { items: [], missing: [] }
+
+    const db = getD1Db()
+    const rows = await db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        slug: tags.slug,
+        description: tags.description,
+        color: tags.color,
+        isActive: tags.isActive,
+        createdAt: tags.createdAt,
+        updatedAt: tags.updatedAt,
+        websiteCount: sql<number>`(select count(*) from website_tags wt where wt.tag_id = ${tags.id})`,
+      })
+      .from(tags)
+      .where(and(eq(tags.isActive, true), or(inArray(tags.slug, keys), inArray(tags.id, keys))))
+
+    const items: TagItem[] = []
+    const missing: string[] = []
+    const seen = new Set<string>()
+
+    for (const key of keys) {
+      const row = rows.find((item) => item.slug === key) ?? rows.find((item) => item.id === key)
+      if (!row) {
+        missing.push(key)
+        continue
+      }
+      // 同一标签同时以 slug 和 ID 传入时只保留一次
+      if (seen.has(row.id)) continue
+      seen.add(row.id)
+      items.push(mapRow(row))
+    }
+
+    return { items, missing }
+  },
+
+  async updateWebsiteTags(websiteId: string, tagIds: string[], options: MutationOptions = {}): Promise<void> {
     if (!websiteId) {
       throw new Error("缺少网站 ID")
     }
@@ -224,20 +302,39 @@ export const tagsService = {
       }
     }
 
+    const previous = await db
+      .select({ tagId: websiteTags.tagId })
+      .from(websiteTags)
+      .where(eq(websiteTags.websiteId, websiteId))
+
     await db.delete(websiteTags).where(eq(websiteTags.websiteId, websiteId))
 
-    if (!uniqueTagIds.length) {
-      return
+    if (uniqueTagIds.length) {
+      const now = new Date().toISOString()
+      await db.insert(websiteTags).values(
+        uniqueTagIds.map((tagId) => ({
+          websiteId,
+          tagId,
+          assignedAt: now,
+        }))
+      )
     }
 
-    const now = new Date().toISOString()
-    await db.insert(websiteTags).values(
-      uniqueTagIds.map((tagId) => ({
-        websiteId,
-        tagId,
-        assignedAt: now,
-      }))
+    const changes = diffChanges(
+      { tagIds: previous.map((row) => row.tagId).sort() },
+      { tagIds: [...uniqueTagIds].sort() }
     )
+
+    if (changes) {
+      await syncWebsiteById(db, websiteId)
+      await recordAuditLog(db, {
+        actorId: options.actorId,
+        action: "website.tags.replace",
+        entityType: "website",
+        entityId: websiteId,
+        changes,
+      })
+    }
   },
 }
 
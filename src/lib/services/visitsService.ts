@@ -0,0 +1,195 @@
+import { and, eq, gt, lt, sql } from "drizzle-orm"
+import { getRequestContext } from "@cloudflare/next-on-pages"
+
+import { getD1Db } from "@/lib/db/adapters/d1"
+import { websites } from "@/lib/db/schema/websites"
+import { websiteVisitFingerprints, websiteVisitsDaily } from "@/lib/db/schema/website-visits"
+import { hashValue, isBotUserAgent } from "@/lib/utils/request"
+
+/** 同一 IP + UA 对同一网站在窗口期内只计一次 */
+export const VISIT_DEDUP_WINDOW_MS = 30 * 60 * 1000
+
+/** 未汇总的访问数达到该阈值，或存在前一天的未汇总数据时触发汇总 */
+export const VISIT_ROLLUP_THRESHOLD = 50
+
+export interface VisitClient {
+  ip: string | null
+  userAgent: string | null
+}
+
+export type VisitRecordResult = { counted: true } | { counted: false; reason: "bot" | "duplicate" }
+
+export interface VisitRollupResult {
+  websites: number
+  visits: number
+  purgedFingerprints: number
+}
+
+export const visitsService = {
+  /**
+   * 仅已发布的网站参与访问统计
+   */
+  async findTrackableWebsite(id: string): Promise<{ id: string; url: string } | null> {
+    if (!id) return null
+
+    const db = getD1Db()
+    const row = await db
+      .select({ id: websites.id, url: websites.url })
+      .from(websites)
+      .where(and(eq(websites.id, id), eq(websites.status, "published")))
+      .get()
+
+    return row ?? null
+  },
+
+  async record(websiteId: string, client: VisitClient): Promise<VisitRecordResult> {
+    if (isBotUserAgent(client.userAgent)) {
+      return { counted: false, reason: "bot" }
+    }
+
+    const db = getD1Db()
+    const now = new Date()
+    const nowIso = now.toISOString()
+    const fingerprint = await hashValue(`${websiteId}|${client.ip ?? "unknown"}|${client.userAgent}`)
+
+    const existing = await db
+      .select({ expiresAt: websiteVisitFingerprints.expiresAt })
+      .from(websiteVisitFingerprints)
+      .where(eq(websiteVisitFingerprints.fingerprint, fingerprint))
+      .get()
+
+    if (existing && existing.expiresAt > nowIso) {
+      return { counted: false, reason: "duplicate" }
+    }
+
+    const expiresAt = new Date(now.getTime() + VISIT_DEDUP_WINDOW_MS).toISOString()
+    await db
+      .insert(websiteVisitFingerprints)
+      .values({ fingerprint, websiteId, expiresAt })
+      .onConflictDoUpdate({ target: websiteVisitFingerprints.fingerprint, set: { expiresAt } })
+
+    await db
+      .insert(websiteVisitsDaily)
+      .values({ websiteId, day: toDay(now), visits: 1, rolledUp: 0, updatedAt: nowIso })
+      .onConflictDoUpdate({
+        target: [websiteVisitsDaily.websiteId, websiteVisitsDaily.day],
+        set: { visits: sql`${websiteVisitsDaily.visits} + 1`, updatedAt: nowIso },
+      })
+
+    scheduleRollupIfDue()
+
+    return { counted: true }
+  },
+
+  /**
+   * 当前访问次数：已汇总的 visit_count 加上日聚合表中尚未汇总的增量
+   */
+  async getVisitCount(websiteId: string): Promise<number> {
+    const db = getD1Db()
+    const [website, pending] = await Promise.all([
+      db.select({ visitCount: websites.visitCount }).from(websites).where(eq(websites.id, websiteId)).get(),
+      db
+        .select({ pending: sql<number>`coalesce(sum(${websiteVisitsDaily.visits} - ${websiteVisitsDaily.rolledUp}), 0)` })
+        .from(websiteVisitsDaily)
+        .where(eq(websiteVisitsDaily.websiteId, websiteId))
+        .get(),
+    ])
+
+    return Number(website?.visitCount ?? 0) + Number(pending?.pending ?? 0)
+  },
+
+  async isRollupDue(): Promise<boolean> {
+    const db = getD1Db()
+    const row = await db
+      .select({
+        pending: sql<number>`coalesce(sum(${websiteVisitsDaily.visits} - ${websiteVisitsDaily.rolledUp}), 0)`,
+        oldestDay: sql<string | null>`min(${websiteVisitsDaily.day})`,
+      })
+      .from(websiteVisitsDaily)
+      .where(gt(websiteVisitsDaily.visits, websiteVisitsDaily.rolledUp))
+      .get()
+
+    if (!row) return false
+    const pending = Number(row.pending ?? 0)
+    if (pending <= 0) return false
+    return pending >= VISIT_ROLLUP_THRESHOLD || Boolean(row.oldestDay && row.oldestDay < toDay(new Date()))
+  },
+
+  /**
+   * 把日聚合表中尚未汇总的增量累加到 websites.visit_count，并清理过期的去重指纹。
+   * rolled_up 采用乐观更新，汇总过程中新增的访问留到下一轮。
+   */
+  async rollup(): Promise<VisitRollupResult> {
+    const db = getD1Db()
+    const rows = await db
+      .select({
+        websiteId: websiteVisitsDaily.websiteId,
+        day: websiteVisitsDaily.day,
+        visits: websiteVisitsDaily.visits,
+        rolledUp: websiteVisitsDaily.rolledUp,
+      })
+      .from(websiteVisitsDaily)
+      .where(gt(websiteVisitsDaily.visits, websiteVisitsDaily.rolledUp))
+
+    const touched = new Set<string>()
+    let total = 0
+
+    for (const row of rows) {
+      const delta = row.visits - row.rolledUp
+      if (delta <= 0) continue
+
+      const claimed = await db
+        .update(websiteVisitsDaily)
+        .set({ rolledUp: row.visits })
+        .where(
+          and(
+            eq(websiteVisitsDaily.websiteId, row.websiteId),
+            eq(websiteVisitsDaily.day, row.day),
+            eq(websiteVisitsDaily.rolledUp, row.rolledUp)
+          )
+        )
+        .returning({ websiteId: websiteVisitsDaily.websiteId })
+
+      if (!claimed.length) continue
+
+      await db
+        .update(websites)
+        .set({ visitCount: sql`${websites.visitCount} + ${delta}` })
+        .where(eq(websites.id, row.websiteId))
+
+      touched.add(row.websiteId)
+      total += delta
+    }
+
+    const purged = await db
+      .delete(websiteVisitFingerprints)
+      .where(lt(websiteVisitFingerprints.expiresAt, new Date().toISOString()))
+      .returning({ fingerprint: websiteVisitFingerprints.fingerprint })
+
+    return { websites: touched.size, visits: total, purgedFingerprints: purged.length }
+  },
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * 在响应返回后异步汇总，避免阻塞访问请求；非 Cloudflare 环境下直接跳过
+ */
+function scheduleRollupIfDue() {
+  let ctx: { waitUntil(promise: Promise<unknown>): void } | undefined
+  try {
+    ctx = getRequestContext().ctx
+  } catch {
+    return
+  }
+  if (!ctx) return
+
+  ctx.waitUntil(
+    visitsService
+      .isRollupDue()
+      .then((due) => (due ? visitsService.rollup() : null))
+      .catch((error) => console.error("visit rollup failed", error))
+  )
+}
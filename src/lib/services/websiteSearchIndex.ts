@@ -0,0 +1,176 @@
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm"
+
+import type { getD1Db } from "@/lib/db/adapters/d1"
+import { websites } from "@/lib/db/schema/websites"
+import { websitesFts } from "@/lib/db/schema/websites-fts"
+import type { ParsedSearchQuery } from "@/lib/utils/search-query"
+import { SEARCH_HIGHLIGHT_CLOSE, SEARCH_HIGHLIGHT_OPEN, type WebsiteSearchScope } from "@/lib/validations/websites"
+
+type D1Db = ReturnType<typeof getD1Db>
+
+/** bm25 列权重，顺序与虚拟表列一致：website_id, title, description, host, tags, category */
+const BM25_WEIGHTS = sql.raw("0.0, 10.0, 3.0, 6.0, 4.0, 2.0")
+
+/** unicode61 不切分 CJK，连续汉字会被当作一个词，这类查询退回 LIKE 匹配 */
+const CJK_PATTERN = /[぀-ヿ㐀-鿿豈-﫿가-힯]/
+
+/** 搜索范围对应的 FTS 列；content 即网站描述 */
+const FTS_SCOPE_COLUMNS: Record<Exclude<WebsiteSearchScope, "all">, string> = {
+  title: "title",
+  description: "description",
+  content: "description",
+  url: "host",
+  tags: "tags",
+}
+
+/**
+ * 将解析后的搜索语法转换为 FTS5 查询：普通词前缀匹配、+词整词匹配、短语按顺序匹配，均为 AND；
+ * 排除词以 NOT 追加且不受搜索范围限制。没有正向关键词或含 CJK（需走 LIKE）时返回 null
+ */
+export function toFtsQuery(search: ParsedSearchQuery | null | undefined, scope: WebsiteSearchScope = "all"): string | null {
+  if (!search) return null
+
+  const texts = [...search.terms, ...search.required, ...search.phrases, ...search.excluded]
+  if (texts.some((text) => CJK_PATTERN.test(text))) return null
+
+  const positive = [
+    ...search.terms.flatMap((term) => ftsTokens(term).map((token) => `"${token}"*`)),
+    ...search.required.map(ftsPhrase),
+    ...search.phrases.map(ftsPhrase),
+  ].filter(Boolean)
+  if (!positive.length) return null
+
+  const column = scope === "all" ? null : FTS_SCOPE_COLUMNS[scope]
+  const matcher = column ? `{${column}} : (${positive.join(" ")})` : `(${positive.join(" ")})`
+  const excluded = search.excluded
+    .map(ftsPhrase)
+    .filter(Boolean)
+    .map((phrase) => ` NOT ${phrase}`)
+    .join("")
+
+  return `${matcher}${excluded}`
+}
+
+function ftsTokens(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/** 多个词按短语匹配，只保留字母数字，避免 FTS5 语法注入 */
+function ftsPhrase(text: string): string {
+  const tokens = ftsTokens(text)
+  return tokens.length ? `"${tokens.join(" ")}"` : ""
+}
+
+export interface SearchHighlight {
+  title?: string
+  description?: string
+}
+
+/**
+ * 命中的网站 ID 及 bm25 分数（越小越相关），供列表查询 JOIN
+ */
+export function buildFtsMatchSubquery(db: D1Db, ftsQuery: string) {
+  return db
+    .select({
+      websiteId: websitesFts.websiteId,
+      score: sql<number>`bm25(websites_fts, ${BM25_WEIGHTS})`.as("fts_score"),
+    })
+    .from(websitesFts)
+    .where(sql`websites_fts MATCH ${ftsQuery}`)
+    .as("fts")
+}
+
+/**
+ * 当前页网站的标题高亮与描述摘要，命中词以 SEARCH_HIGHLIGHT_OPEN / CLOSE 包裹，由前端渲染为 <mark>
+ */
+export async function loadSearchHighlights(
+  db: D1Db,
+  ftsQuery: string,
+  websiteIds: string[]
+): Promise<Map<string, SearchHighlight>> {
+  if (!websiteIds.length) return new Map()
+
+  const rows = await db
+    .select({
+      websiteId: websitesFts.websiteId,
+      title: sql<string>`highlight(websites_fts, 1, ${SEARCH_HIGHLIGHT_OPEN}, ${SEARCH_HIGHLIGHT_CLOSE})`,
+      description: sql<string>`snippet(websites_fts, 2, ${SEARCH_HIGHLIGHT_OPEN}, ${SEARCH_HIGHLIGHT_CLOSE}, '…', 24)`,
+    })
+    .from(websitesFts)
+    .where(and(sql`websites_fts MATCH ${ftsQuery}`, inArray(websitesFts.websiteId, websiteIds)))
+
+  const map = new Map<string, SearchHighlight>()
+  for (const row of rows) {
+    // 只命中 host、标签或分类时没有可展示的高亮
+    const title = row.title?.includes(SEARCH_HIGHLIGHT_OPEN) ? row.title : undefined
+    const description = row.description?.includes(SEARCH_HIGHLIGHT_OPEN) ? row.description : undefined
+    if (title || description) {
+      map.set(row.websiteId, { title, description })
+    }
+  }
+  return map
+}
+
+/**
+ * 重建指定网站的索引行。selector 为返回 website id 的子查询，便于按标签、分类批量重建
+ */
+export async function syncWebsiteSearchIndex(db: D1Db, selector: SQL) {
+  await db.run(sql`DELETE FROM websites_fts WHERE website_id IN (${selector})`)
+  await db.run(sql`
+    INSERT INTO websites_fts (website_id, title, description, host, tags, category)
+    SELECT
+      w.id,
+      w.title,
+      coalesce(w.description, ''),
+      CASE WHEN w.host LIKE 'www.%' THEN substr(w.host, 5) ELSE w.host END,
+      coalesce((
+        SELECT group_concat(t.name, ' ')
+        FROM website_tags wt
+        INNER JOIN tags t ON t.id = wt.tag_id
+        WHERE wt.website_id = w.id
+      ), ''),
+      coalesce(c.name, '')
+    FROM (
+      SELECT
+        id,
+        title,
+        description,
+        category_id,
+        lower(CASE WHEN instr(rest, '/') > 0 THEN substr(rest, 1, instr(rest, '/') - 1) ELSE rest END) AS host
+      FROM (
+        SELECT *, CASE WHEN instr(url, '://') > 0 THEN substr(url, instr(url, '://') + 3) ELSE url END AS rest
+        FROM websites
+        WHERE id IN (${selector})
+      )
+    ) w
+    LEFT JOIN categories c ON c.id = w.category_id
+  `)
+}
+
+export function syncWebsiteById(db: D1Db, websiteId: string) {
+  return syncWebsiteSearchIndex(db, sql`SELECT ${websiteId}`)
+}
+
+export async function removeWebsiteFromSearchIndex(db: D1Db, websiteId: string) {
+  await db.delete(websitesFts).where(eq(websitesFts.websiteId, websiteId))
+}
+
+/** 标签改名后重建其关联网站 */
+export function syncWebsitesByTag(db: D1Db, tagId: string) {
+  return syncWebsiteSearchIndex(db, sql`SELECT website_id FROM website_tags WHERE tag_id = ${tagId}`)
+}
+
+/** D1 单条语句的绑定参数有上限，按批重建 */
+const SYNC_BATCH_SIZE = 40
+
+export async function syncWebsitesByIds(db: D1Db, websiteIds: string[]) {
+  for (let index = 0; index < websiteIds.length; index += SYNC_BATCH_SIZE) {
+    const batch = websiteIds.slice(index, index + SYNC_BATCH_SIZE)
+    await syncWebsiteSearchIndex(db, sql`SELECT id FROM websites WHERE ${inArray(websites.id, batch)}`)
+  }
+}
+
+/** 分类改名后重建其下网站 */
+export function syncWebsitesByCategory(db: D1Db, categoryId: string) {
+  return syncWebsiteSearchIndex(db, sql`SELECT id FROM websites WHERE category_id = ${categoryId}`)
+}
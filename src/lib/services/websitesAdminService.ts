@@ -1,12 +1,12 @@
-import { and, asc, desc, eq, exists, gte, inArray, ne, sql, type InferSelectModel, type SQL } from "drizzle-orm"
+import { and, asc, desc, eq, exists, gte, inArray, isNull, ne, sql, type InferSelectModel, type SQL } from "drizzle-orm"
 
 import { getD1Db } from "@/lib/db/adapters/d1"
-import { auditLogs } from "@/lib/db/schema/audit-logs"
 import { categories } from "@/lib/db/schema/categories"
 import { collectionItems } from "@/lib/db/schema/collection-items"
 import { collections } from "@/lib/db/schema/collections"
 import { submissionRequests } from "@/lib/db/schema/submission-requests"
 import { tags } from "@/lib/db/schema/tags"
+import { websiteLinkHealth } from "@/lib/db/schema/website-link-health"
 import { websiteTags } from "@/lib/db/schema/website-tags"
 import { websites } from "@/lib/db/schema/websites"
 
@@ -24,7 +24,18 @@ import {
 } from "@/features/websites/schemas"
 import type { WebsiteStatus, AdType } from "@/features/websites/types"
 import { generateWebsiteSlug } from "@/features/websites/utils"
+import { diffChanges, recordAuditLog } from "@/lib/services/auditLogsService"
+import { mapHealthRow } from "@/lib/services/linkCheckService"
 import { tagsService } from "@/lib/services/tagsService"
+import { removeWebsiteFromSearchIndex, syncWebsiteById } from "@/lib/services/websiteSearchIndex"
+import {
+  decodeCursor,
+  keysetAfter,
+  keysetOrderBy,
+  sliceKeysetPage,
+  type KeysetKey,
+  type KeysetValue,
+} from "@/lib/utils/keyset"
 
 type WebsiteRow = InferSelectModel<typeof websites>
 
@@ -33,12 +44,28 @@ interface WebsiteJoinedRow extends WebsiteRow {
   categorySlug: string | null
   faviconUrl: string | null
   screenshotUrl: string | null
+  health: typeof websiteLinkHealth.$inferSelect | null
 }
 
 interface MutationOptions {
   actorId?: string
 }
 
+const AUDITED_WEBSITE_FIELDS = [
+  "title",
+  "url",
+  "slug",
+  "description",
+  "categoryId",
+  "isAd",
+  "adType",
+  "status",
+  "faviconUrl",
+  "screenshotUrl",
+  "notes",
+  "submittedBy",
+] as const
+
 export const websitesAdminService = {
   async list(params: WebsiteAdminListParams = {}): Promise<WebsiteAdminListResult> {
     const db = getD1Db()
@@ -88,6 +115,18 @@ export const websitesAdminService = {
       filters.push(eq(websites.submittedBy, params.submittedBy.trim()))
     }
 
+    if (params.linkStatus === "healthy") {
+      filters.push(eq(websiteLinkHealth.isHealthy, true))
+    } else if (params.linkStatus === "broken") {
+      filters.push(eq(websiteLinkHealth.isHealthy, false))
+    } else if (params.linkStatus === "unchecked") {
+      filters.push(isNull(websiteLinkHealth.websiteId))
+    }
+
+    if (typeof params.minFailures === "number" && params.minFailures > 0) {
+      filters.push(gte(websiteLinkHealth.consecutiveFailures, params.minFailures))
+    }
+
     if (params.tagId) {
       filters.push(
         exists(
@@ -101,7 +140,13 @@ export const websitesAdminService = {
 
     const where = filters.length ? and(...filters) : undefined
 
-    const orderBy = resolveOrder(params.orderBy, params.sortDir)
+    const sortKeys = resolveSortKeys(params.orderBy, params.sortDir)
+    const isCursorMode = params.cursor !== undefined
+    const cursorSignature = `admin-websites:${params.orderBy ?? "recent"}:${params.sortDir ?? "desc"}`
+    const after = params.cursor
+      ? keysetAfter(sortKeys, decodeCursor(params.cursor, cursorSignature, sortKeys.length))
+      : undefined
+    const rowsWhere = after ? and(where, after) : where
 
     const listQuery = db
       .select({
@@ -125,23 +170,40 @@ export const websitesAdminService = {
         screenshotUrl: websites.screenshotUrl,
         createdAt: websites.createdAt,
         updatedAt: websites.updatedAt,
+        health: websiteLinkHealth,
+        sortValues: Object.fromEntries(sortKeys.map((key, index) => [`k${index}`, sql<KeysetValue>`${key.expression}`])),
       })
       .from(websites)
       .leftJoin(categories, eq(websites.categoryId, categories.id))
-      .orderBy(...orderBy)
-      .limit(pageSize)
-      .offset(offset)
-
-    const rows = await (where ? listQuery.where(where) : listQuery)
+      .leftJoin(websiteLinkHealth, eq(websiteLinkHealth.websiteId, websites.id))
+      .orderBy(...keysetOrderBy(sortKeys))
+      .$dynamic()
+
+    // 游标分页多取一行判断是否有下一页，且不使用 offset
+    const fetchedRows = await (rowsWhere ? listQuery.where(rowsWhere) : listQuery)
+      .limit(isCursorMode ? pageSize + 1 : pageSize)
+      .offset(isCursorMode ? 0 : offset)
+    const { rows, nextCursor } = isCursorMode
+      ? sliceKeysetPage(fetchedRows, pageSize, cursorSignature, (row) =>
+          sortKeys.map((_, index) => row.sortValues[`k${index}`])
+        )
+      : { rows: fetchedRows, nextCursor: null }
 
-    const countQuery = db.select({ value: sql<number>`count(*)` }).from(websites)
-    const totalRow = await (where ? countQuery.where(where) : countQuery).get()
-    const total = Number(totalRow?.value ?? 0)
+    // 游标分页只在第一页统计总数
+    let total: number | null = null
+    if (!params.cursor) {
+      const countQuery = db
+        .select({ value: sql<number>`count(*)` })
+        .from(websites)
+        .leftJoin(websiteLinkHealth, eq(websiteLinkHealth.websiteId, websites.id))
+      const totalRow = await (where ? countQuery.where(where) : countQuery).get()
+      total = Number(totalRow?.value ?? 0)
+    }
 
     const tagMap = await loadTagSummaries(db, rows.map((row) => row.id))
 
     const items = rows.map((row) => mapToListItem(row, tagMap.get(row.id) ?? []))
-    const hasMore = page * pageSize < total
+    const hasMore = isCursorMode ? nextCursor !== null : page * pageSize < (total ?? 0)
 
     return {
       items,
@@ -149,6 +211,7 @@ export const websitesAdminService = {
       pageSize,
       total,
       hasMore,
+      nextCursor,
     }
   },
 
@@ -178,9 +241,11 @@ export const websitesAdminService = {
         screenshotUrl: websites.screenshotUrl,
         createdAt: websites.createdAt,
         updatedAt: websites.updatedAt,
+        health: websiteLinkHealth,
       })
       .from(websites)
       .leftJoin(categories, eq(websites.categoryId, categories.id))
+      .leftJoin(websiteLinkHealth, eq(websiteLinkHealth.websiteId, websites.id))
       .where(eq(websites.id, id))
       .get()
 
@@ -232,20 +297,24 @@ export const websitesAdminService = {
     })
 
     if (input.tagIds?.length) {
-      await tagsService.updateWebsiteTags(id, input.tagIds)
+      await tagsService.updateWebsiteTags(id, input.tagIds, options)
     }
 
     await updateWebsiteCollections(db, id, input.collectionIds ?? [])
+    await syncWebsiteById(db, id)
 
     if (input.submissionId) {
       await linkSubmission(db, input.submissionId, id, options.actorId)
     }
 
+    const created = await db.select().from(websites).where(eq(websites.id, id)).get()
+
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "website.create",
+      entityType: "website",
       entityId: id,
-      changes: { title: input.title, url: input.url },
+      changes: diffChanges(null, created, AUDITED_WEBSITE_FIELDS),
     })
 
     const detail = await this.getById(id)
@@ -331,22 +400,27 @@ export const websitesAdminService = {
     await db.update(websites).set(payload).where(eq(websites.id, id))
 
     if (input.tagIds !== undefined) {
-      await tagsService.updateWebsiteTags(id, input.tagIds ?? [])
+      await tagsService.updateWebsiteTags(id, input.tagIds ?? [], options)
     }
 
     if (input.collectionIds !== undefined) {
       await updateWebsiteCollections(db, id, input.collectionIds ?? [])
     }
 
+    await syncWebsiteById(db, id)
+
     if (input.submissionId) {
       await linkSubmission(db, input.submissionId, id, options.actorId)
     }
 
+    const updated = await db.select().from(websites).where(eq(websites.id, id)).get()
+
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "website.update",
+      entityType: "website",
       entityId: id,
-      changes: input,
+      changes: diffChanges(existing, updated, AUDITED_WEBSITE_FIELDS),
     })
 
     const detail = await this.getById(id)
@@ -388,47 +462,69 @@ export const websitesAdminService = {
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "website.updateStatus",
+      entityType: "website",
       entityId: id,
-      changes: input,
+      changes: diffChanges(existing, { ...existing, ...payload }, AUDITED_WEBSITE_FIELDS),
     })
   },
 
   async remove(id: string, options: MutationOptions = {}) {
     const db = getD1Db()
-    const existing = await db.select({ id: websites.id }).from(websites).where(eq(websites.id, id)).get()
+    const existing = await db.select().from(websites).where(eq(websites.id, id)).get()
     if (!existing) {
       throw new Error("未找到网站")
     }
 
     await db.delete(websites).where(eq(websites.id, id))
+    await removeWebsiteFromSearchIndex(db, id)
 
     await recordAuditLog(db, {
       actorId: options.actorId,
       action: "website.delete",
+      entityType: "website",
       entityId: id,
-      changes: null,
+      changes: diffChanges(existing, null, AUDITED_WEBSITE_FIELDS),
     })
   },
 }
 
-function resolveOrder(
+/**
+ * 列表排序键，ORDER BY 与游标条件共用；以 id 兜底保证翻页时顺序稳定
+ */
+function resolveSortKeys(
   orderBy: WebsiteAdminListParams["orderBy"],
   sortDir: WebsiteAdminListParams["sortDir"]
-): SQL<unknown>[] {
-  const direction = sortDir === "asc" ? asc : desc
+): KeysetKey[] {
+  const direction = sortDir === "asc" ? "asc" : "desc"
 
   switch (orderBy) {
     case "title":
-      return [direction(websites.title)]
+      return [{ expression: websites.title, direction }, { expression: websites.id, direction }]
     case "visits":
-      return [direction(websites.visitCount), desc(websites.updatedAt)]
+      return [
+        { expression: websites.visitCount, direction },
+        { expression: websites.updatedAt, direction: "desc" },
+        { expression: websites.id, direction: "desc" },
+      ]
     case "rating":
-      return [direction(websites.rating), desc(websites.updatedAt)]
+      return [
+        { expression: websites.rating, direction },
+        { expression: websites.updatedAt, direction: "desc" },
+        { expression: websites.id, direction: "desc" },
+      ]
     case "updated":
-      return [direction(websites.updatedAt), desc(websites.createdAt)]
+      return [
+        { expression: websites.updatedAt, direction },
+        { expression: websites.createdAt, direction: "desc" },
+        { expression: websites.id, direction: "desc" },
+      ]
     case "recent":
     default:
-      return [desc(websites.createdAt), desc(websites.updatedAt)]
+      return [
+        { expression: websites.createdAt, direction: "desc" },
+        { expression: websites.updatedAt, direction: "desc" },
+        { expression: websites.id, direction: "desc" },
+      ]
   }
 }
 
@@ -602,25 +698,6 @@ async function linkSubmission(
     .where(eq(submissionRequests.id, submissionId))
 }
 
-async function recordAuditLog(
-  db: ReturnType<typeof getD1Db>,
-  payload: { actorId?: string | null; action: string; entityId: string; changes: unknown }
-) {
-  try {
-    await db.insert(auditLogs).values({
-      id: crypto.randomUUID(),
-      actorId: payload.actorId || "system",
-      action: payload.action,
-      entityType: "website",
-      entityId: payload.entityId,
-      changes: payload.changes ? JSON.stringify(payload.changes) : null,
-      createdAt: new Date().toISOString(),
-    })
-  } catch {
-    // Silently fail for audit log
-  }
-}
-
 function mapToListItem(row: WebsiteJoinedRow, tagsSummary: WebsiteTagSummary[]): WebsiteAdminListItem {
   return {
     id: row.id,
@@ -646,6 +723,7 @@ function mapToListItem(row: WebsiteJoinedRow, tagsSummary: WebsiteTagSummary[]):
     notes: row.notes ?? null,
     faviconUrl: row.faviconUrl ?? null,
     screenshotUrl: row.screenshotUrl ?? null,
+    linkHealth: row.health ? mapHealthRow(row.health) : null,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
   }
@@ -1,33 +1,119 @@
-import { eq, inArray, type InferSelectModel } from 'drizzle-orm';
+import { and, asc, desc, eq, inArray, min, ne, or, sql, type InferSelectModel } from 'drizzle-orm';
 import { websites } from '@/lib/db/schema/websites';
 import { websiteTags } from '@/lib/db/schema/website-tags';
 import { tags as tagsTable } from '@/lib/db/schema/tags';
-import { WebsiteDTOSchema, type WebsiteDTO } from '@/lib/validations/websites';
+import { categories } from '@/lib/db/schema/categories';
+import { collections } from '@/lib/db/schema/collections';
+import { collectionItems } from '@/lib/db/schema/collection-items';
+import {
+  WebsiteDTOSchema,
+  type WebsiteDTO,
+  type WebsiteListSortField,
+  type WebsiteListFacet,
+  type WebsiteListFacets,
+  type WebsiteListSortOrder,
+  type WebsiteSearchScope,
+  type WebsiteTagMode,
+} from '@/lib/validations/websites';
+import {
+  applySearchFilters,
+  hasSearchText,
+  isEmptySearchQuery,
+  parseSearchQuery,
+  type ParsedSearchQuery,
+} from '@/lib/utils/search-query';
+import type { Category } from '@/features/websites/types/category';
+import type {
+  PublisherInfo,
+  WebsiteDetailCollection,
+  WebsiteDetailData,
+  WebsiteDetailTag,
+} from '@/features/websites/types/detail';
+import type { WebsiteCardData } from '@/features/websites/types/website';
 
 const DEFAULT_PAGE_SIZE = 12;
 const MAX_PAGE_SIZE = 48;
+const DEFAULT_RELATED_LIMIT = 6;
+const MAX_RELATED_LIMIT = 20;
+
+/** 投稿人没有公开昵称，详情页统一展示的发布者名称 */
+const COMMUNITY_PUBLISHER_NAME = '社区投稿';
 
 export interface ListParams {
   page?: number;
   pageSize?: number;
+  /** 支持高级搜索语法，见 parseSearchQuery */
   query?: string;
+  /** 搜索页的独立筛选项，与查询串中的语法合并执行 */
+  exactMatch?: boolean;
+  requiredTerms?: string[];
+  excludeTerms?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  searchScope?: WebsiteSearchScope;
   category?: string;
   tags?: string[];
+  /** 多个标签需同时满足（all，默认）或满足其一（any） */
+  tagMode?: WebsiteTagMode;
   includeAds?: boolean;
+  adTypes?: string[];
+  sortBy?: WebsiteListSortField;
+  /** 缺省时标题升序，其余字段降序 */
+  sortOrder?: WebsiteListSortOrder;
+  /** 需要返回计数的分面 */
+  facets?: WebsiteListFacet[];
+  /** 游标分页，空串表示第一页；传入时忽略 page，见 listWebsitesD1 */
+  cursor?: string;
+}
+
+export interface DetailOptions {
+  /** 相关网站候选数量 */
+  relatedLimit?: number;
 }
 
 export interface ListResult {
   items: WebsiteDTO[];
   page: number;
   pageSize: number;
-  total: number;
+  /** 游标分页的后续页不统计总数，为 null */
+  total: number | null;
+  /** 游标分页的下一页游标，没有更多数据时为 null；页码分页始终为 null */
+  nextCursor: string | null;
+  /** 实际生效的排序；没有关键词时 relevance 退化为 created_at */
+  sortBy: WebsiteListSortField;
+  sortOrder: WebsiteListSortOrder;
+  /** 实际执行的搜索条件；没有任何搜索条件时为 null */
+  parsedQuery: ParsedSearchQuery | null;
+  /** 仅在请求了 facets 时返回 */
+  facets?: WebsiteListFacets;
 }
 
 export const websitesService = {
   async list(params: ListParams = {}): Promise<ListResult> {
-    const { page = 1, pageSize = DEFAULT_PAGE_SIZE, query, category, tags, includeAds = true } = params;
+    const {
+      page = 1,
+      pageSize = DEFAULT_PAGE_SIZE,
+      query,
+      category,
+      tags,
+      tagMode,
+      includeAds = true,
+      adTypes,
+      searchScope,
+      facets,
+      cursor,
+    } = params;
     const normalizedPageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, pageSize));
     const normalizedPage = Math.max(1, page);
+    const search = applySearchFilters(parseSearchQuery(query), {
+      exactMatch: params.exactMatch,
+      requiredTerms: params.requiredTerms,
+      excludeTerms: params.excludeTerms,
+      after: params.dateFrom,
+      before: params.dateTo,
+    });
+    const parsedQuery = isEmptySearchQuery(search) ? null : search;
+    const { sortBy, sortOrder } = resolveListSort(params.sortBy, params.sortOrder, parsedQuery);
 
     const adapter = await tryImportD1Adapter();
 
@@ -36,18 +122,33 @@ export const websitesService = {
     }
 
     try {
-      const { rows, total, resolvedPage, pageSize: effectivePageSize } = await adapter.listWebsitesD1({
+      const {
+        rows,
+        total,
+        resolvedPage,
+        pageSize: effectivePageSize,
+        highlights,
+        facets: facetCounts,
+        nextCursor,
+      } = await adapter.listWebsitesD1({
         page: normalizedPage,
         pageSize: normalizedPageSize,
-        query,
+        search: parsedQuery ?? undefined,
+        searchScope,
         category,
         tags,
+        tagMode,
         includeAds,
+        adTypes,
+        sortBy,
+        sortOrder,
+        facets,
+        cursor,
       });
 
       const tagMap = await loadTagsForWebsites(adapter, rows.map((row) => String(row.id)));
       const dtoItems = rows
-        .map((row) => mapDbRowToDTO(row, tagMap.get(String(row.id))))
+        .map((row) => ({ ...mapDbRowToDTO(row, tagMap.get(String(row.id))), highlight: highlights.get(String(row.id)) }))
         .map(validateDTO);
 
       const effectivePage = typeof resolvedPage === 'number' ? resolvedPage : normalizedPage;
@@ -57,7 +158,12 @@ export const websitesService = {
         items: dtoItems,
         page: effectivePage,
         pageSize: finalPageSize,
-        total: Number(total ?? dtoItems.length)
+        total: total === null ? null : Number(total),
+        nextCursor,
+        sortBy,
+        sortOrder,
+        parsedQuery,
+        facets: facetCounts,
       };
     } catch (error) {
       throw error instanceof Error ? error : new Error('Failed to load websites from database');
@@ -84,8 +190,267 @@ export const websitesService = {
       throw error instanceof Error ? error : new Error('Failed to load website from database');
     }
   },
+
+  /**
+   * 网站详情：在 getById 基础上补充分类路径、带颜色的标签、所属收藏集、发布者与相关网站。
+   * 仅返回已发布的网站，草稿视为不存在。
+   */
+  async getDetail(id: string, options: DetailOptions = {}): Promise<WebsiteDetailData | null> {
+    const dto = await this.getById(id);
+    if (!dto || dto.status !== 'published') {
+      return null;
+    }
+
+    const adapter = await tryImportD1Adapter();
+    if (!adapter?.getD1Db) {
+      throw new Error('D1 database adapter not available');
+    }
+
+    const db = adapter.getD1Db();
+    const relatedLimit = Math.min(MAX_RELATED_LIMIT, Math.max(1, options.relatedLimit ?? DEFAULT_RELATED_LIMIT));
+
+    const [categoryPath, tagDetails, collectionList, submittedByRow] = await Promise.all([
+      loadCategoryPath(db, dto.category),
+      loadTagDetails(db, dto.id),
+      loadCollections(db, dto.id),
+      db.select({ submittedBy: websites.submittedBy }).from(websites).where(eq(websites.id, dto.id)).get(),
+    ]);
+
+    const [publisher, relatedWebsites] = await Promise.all([
+      loadPublisher(db, submittedByRow?.submittedBy ?? null),
+      loadRelatedWebsites(adapter, dto, tagDetails.map((tag) => tag.id), relatedLimit),
+    ]);
+
+    const category = categoryPath.length ? categoryPath[categoryPath.length - 1] : undefined;
+
+    return {
+      id: dto.id,
+      title: dto.title,
+      description: dto.description,
+      url: dto.url,
+      tags: dto.tags,
+      favicon_url: dto.favicon_url,
+      screenshot_url: dto.screenshot_url,
+      category_id: dto.category,
+      status: dto.status,
+      isAd: dto.isAd,
+      adType: dto.adType as WebsiteDetailData['adType'],
+      visitCount: dto.visit_count ?? 0,
+      created_at: dto.created_at,
+      updated_at: dto.updated_at,
+      content: dto.description || '',
+      language: 'zh-CN',
+      is_accessible: true,
+      meta_title: dto.title,
+      meta_description: dto.description || '',
+      category,
+      category_path: categoryPath,
+      tag_details: tagDetails,
+      collections: collectionList,
+      publisher,
+      related_websites: relatedWebsites,
+    };
+  },
 };
 
+type D1Db = ReturnType<D1AdapterModule['getD1Db']>;
+
+function resolveListSort(
+  sortBy: WebsiteListSortField = 'created_at',
+  sortOrder: WebsiteListSortOrder | undefined,
+  search: ParsedSearchQuery | null
+): { sortBy: WebsiteListSortField; sortOrder: WebsiteListSortOrder } {
+  if (sortBy === 'relevance' && !hasSearchText(search)) {
+    return { sortBy: 'created_at', sortOrder: 'desc' };
+  }
+  return { sortBy, sortOrder: sortOrder ?? (sortBy === 'title' ? 'asc' : 'desc') };
+}
+type CategoryDbRow = InferSelectModel<typeof categories>;
+
+async function loadCategoryPath(db: D1Db, categoryId?: string): Promise<Category[]> {
+  if (!categoryId) return [];
+
+  const rows = await db.select().from(categories);
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const path: Category[] = [];
+  const visited = new Set<string>();
+
+  let current = byId.get(categoryId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(mapCategoryRow(current));
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+function mapCategoryRow(row: CategoryDbRow): Category {
+  const status = row.status === 'inactive' || row.status === 'hidden' ? row.status : 'active';
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    slug: row.slug,
+    parentId: row.parentId ?? null,
+    children: [],
+    icon_url: row.icon ?? undefined,
+    status,
+    sort_order: row.displayOrder ?? 0,
+    website_count: 0,
+    is_expanded: false,
+    is_visible: status === 'active',
+    created_at: row.createdAt,
+    updated_at: row.updatedAt,
+  };
+}
+
+async function loadTagDetails(db: D1Db, websiteId: string): Promise<WebsiteDetailTag[]> {
+  const rows = await db
+    .select({ id: tagsTable.id, name: tagsTable.name, slug: tagsTable.slug, color: tagsTable.color })
+    .from(websiteTags)
+    .innerJoin(tagsTable, eq(tagsTable.id, websiteTags.tagId))
+    .where(and(eq(websiteTags.websiteId, websiteId), eq(tagsTable.isActive, true)))
+    .orderBy(asc(tagsTable.name));
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    color: row.color ?? undefined,
+  }));
+}
+
+async function loadCollections(db: D1Db, websiteId: string): Promise<WebsiteDetailCollection[]> {
+  const rows = await db
+    .select({
+      id: collections.id,
+      name: collections.name,
+      slug: collections.slug,
+      description: collections.description,
+      coverImage: collections.coverImage,
+    })
+    .from(collectionItems)
+    .innerJoin(collections, eq(collections.id, collectionItems.collectionId))
+    .where(eq(collectionItems.websiteId, websiteId))
+    .orderBy(asc(collections.displayOrder), asc(collections.name));
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    description: row.description ?? undefined,
+    cover_image: row.coverImage ?? undefined,
+  }));
+}
+
+/**
+ * 发布者信息。websites.submitted_by 保存的是投稿联系邮箱，仅用于统计同一投稿人的网站数；
+ * 提交表单没有公开昵称，对外统一显示为社区投稿，不返回任何由邮箱派生的名称或 ID
+ */
+async function loadPublisher(db: D1Db, submittedBy: string | null): Promise<PublisherInfo | undefined> {
+  const value = submittedBy?.trim();
+  if (!value) return undefined;
+
+  const row = await db
+    .select({ count: sql<number>`count(*)`, joinedAt: min(websites.createdAt) })
+    .from(websites)
+    .where(and(eq(websites.submittedBy, value), eq(websites.status, 'published')))
+    .get();
+
+  return {
+    name: COMMUNITY_PUBLISHER_NAME,
+    published_count: Number(row?.count ?? 0),
+    joined_at: row?.joinedAt ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * 相关网站候选：同分类或共享标签的已发布网站，同分类与共享标签越多越靠前
+ */
+async function loadRelatedWebsites(
+  adapter: D1AdapterModule,
+  current: WebsiteDTO,
+  tagIds: string[],
+  limit: number
+): Promise<WebsiteCardData[]> {
+  const db = adapter.getD1Db();
+  const matchers = [];
+
+  if (current.category) {
+    matchers.push(eq(websites.categoryId, current.category));
+  }
+  if (tagIds.length) {
+    matchers.push(
+      inArray(
+        websites.id,
+        db.select({ id: websiteTags.websiteId }).from(websiteTags).where(inArray(websiteTags.tagId, tagIds))
+      )
+    );
+  }
+  if (!matchers.length) return [];
+
+  const rows = await db
+    .select()
+    .from(websites)
+    .where(
+      and(
+        ne(websites.id, current.id),
+        eq(websites.status, 'published'),
+        eq(websites.isAd, false),
+        or(...matchers)
+      )
+    )
+    .orderBy(desc(websites.visitCount))
+    .limit(limit * 4);
+
+  if (!rows.length) return [];
+
+  const categoryIds = [...new Set(rows.map((row) => row.categoryId).filter((value): value is string => Boolean(value)))];
+
+  const [tagMap, categoryRows, sharedRows] = await Promise.all([
+    loadTagsForWebsites(adapter, rows.map((row) => row.id)),
+    categoryIds.length
+      ? db.select({ id: categories.id, name: categories.name }).from(categories).where(inArray(categories.id, categoryIds))
+      : Promise.resolve([] as Array<{ id: string; name: string }>),
+    tagIds.length
+      ? db
+          .select({ websiteId: websiteTags.websiteId, count: sql<number>`count(*)` })
+          .from(websiteTags)
+          .where(and(inArray(websiteTags.websiteId, rows.map((row) => row.id)), inArray(websiteTags.tagId, tagIds)))
+          .groupBy(websiteTags.websiteId)
+      : Promise.resolve([] as Array<{ websiteId: string; count: number }>),
+  ]);
+
+  const categoryNames = new Map(categoryRows.map((row) => [row.id, row.name]));
+  const sharedTagCounts = new Map(sharedRows.map((row) => [row.websiteId, Number(row.count)]));
+  const score = (row: WebsiteDbRow) =>
+    (current.category && row.categoryId === current.category ? 2 : 0) + (sharedTagCounts.get(row.id) ?? 0);
+
+  return rows
+    .map((row, index) => ({ row, index, score: score(row) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ row }) => {
+      const dto = mapDbRowToDTO(row, tagMap.get(row.id));
+      return {
+        id: dto.id,
+        title: dto.title,
+        description: dto.description,
+        url: dto.url,
+        favicon_url: dto.favicon_url,
+        image_url: dto.screenshot_url,
+        tags: dto.tags,
+        category: dto.category ? categoryNames.get(dto.category) : undefined,
+        isAd: dto.isAd,
+        adType: dto.adType as WebsiteCardData['adType'],
+        visit_count: dto.visit_count,
+        created_at: dto.created_at,
+        updated_at: dto.updated_at,
+      };
+    });
+}
+
 type WebsiteDbRow = InferSelectModel<typeof websites>;
 
 const STATUS_VALUES: WebsiteDTO['status'][] = ['draft', 'published'];
@@ -0,0 +1,158 @@
+// 根据文件头识别图片格式并读取尺寸，不依赖客户端声明的 Content-Type
+
+import type { MediaContentType } from "@/features/media/types"
+
+export interface ImageInfo {
+  contentType: MediaContentType
+  /** 常用扩展名，用于生成存储键 */
+  extension: string
+  width: number | null
+  height: number | null
+}
+
+/**
+ * 识别 JPEG / PNG / WebP / GIF / AVIF；不是受支持的图片时返回 null
+ */
+export function inspectImage(bytes: Uint8Array): ImageInfo | null {
+  if (isPng(bytes)) {
+    return withSize("image/png", "png", readPngSize(bytes))
+  }
+  if (isGif(bytes)) {
+    return withSize("image/gif", "gif", { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) })
+  }
+  if (isJpeg(bytes)) {
+    return withSize("image/jpeg", "jpg", readJpegSize(bytes))
+  }
+  if (isWebp(bytes)) {
+    return withSize("image/webp", "webp", readWebpSize(bytes))
+  }
+  if (isAvif(bytes)) {
+    return withSize("image/avif", "avif", readAvifSize(bytes))
+  }
+  return null
+}
+
+type Size = { width: number; height: number } | null
+
+function withSize(contentType: MediaContentType, extension: string, size: Size): ImageInfo {
+  return {
+    contentType,
+    extension,
+    width: size && size.width > 0 ? size.width : null,
+    height: size && size.height > 0 ? size.height : null,
+  }
+}
+
+function isPng(bytes: Uint8Array) {
+  return startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+}
+
+function isGif(bytes: Uint8Array) {
+  return bytes.length >= 10 && (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a")
+}
+
+function isJpeg(bytes: Uint8Array) {
+  return startsWith(bytes, [0xff, 0xd8, 0xff])
+}
+
+function isWebp(bytes: Uint8Array) {
+  return bytes.length >= 16 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP"
+}
+
+function isAvif(bytes: Uint8Array) {
+  if (bytes.length < 16 || ascii(bytes, 4, 4) !== "ftyp") return false
+  const boxSize = Math.min(readUint32BE(bytes, 0), bytes.length)
+  // major brand 与 compatible brands 中任一为 avif / avis 即可
+  for (let offset = 8; offset + 4 <= boxSize; offset += 4) {
+    if (offset === 12) continue // minor version
+    const brand = ascii(bytes, offset, 4)
+    if (brand === "avif" || brand === "avis") return true
+  }
+  return false
+}
+
+function readPngSize(bytes: Uint8Array): Size {
+  // 签名之后紧跟 IHDR 块：长度(4) 类型(4) 宽(4) 高(4)
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== "IHDR") return null
+  return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) }
+}
+
+function readJpegSize(bytes: Uint8Array): Size {
+  let offset = 2
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // 填充字节
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // 无长度字段的独立标记
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2
+      continue
+    }
+    const length = readUint16BE(bytes, offset + 2)
+    // SOF0–SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > bytes.length) return null
+      return { height: readUint16BE(bytes, offset + 5), width: readUint16BE(bytes, offset + 7) }
+    }
+    if (length < 2) return null
+    offset += 2 + length
+  }
+  return null
+}
+
+function readWebpSize(bytes: Uint8Array): Size {
+  const chunk = ascii(bytes, 12, 4)
+  if (chunk === "VP8X" && bytes.length >= 30) {
+    return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 }
+  }
+  if (chunk === "VP8L" && bytes.length >= 25 && bytes[20] === 0x2f) {
+    const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 }
+  }
+  if (chunk === "VP8 " && bytes.length >= 30 && startsWith(bytes.subarray(23), [0x9d, 0x01, 0x2a])) {
+    return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff }
+  }
+  return null
+}
+
+function readAvifSize(bytes: Uint8Array): Size {
+  // 尺寸记录在 meta/iprp/ipco 下的 ispe 属性中，直接扫描该属性即可，无需完整解析 box 树
+  const limit = Math.min(bytes.length, 64 * 1024)
+  for (let offset = 4; offset + 16 <= limit; offset++) {
+    if (bytes[offset] === 0x69 && ascii(bytes, offset, 4) === "ispe") {
+      // 类型(4) 版本与标志(4) 宽(4) 高(4)
+      return { width: readUint32BE(bytes, offset + 8), height: readUint32BE(bytes, offset + 12) }
+    }
+  }
+  return null
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]) {
+  if (bytes.length < signature.length) return false
+  return signature.every((value, index) => bytes[index] === value)
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+  if (offset + length > bytes.length) return ""
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number) {
+  return (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number) {
+  return bytes[offset] | (bytes[offset + 1] << 8)
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number) {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3]
+}
@@ -0,0 +1,94 @@
+// Keyset (cursor) pagination shared by the public and admin list endpoints
+
+import { and, asc, desc, or, sql, type AnyColumn, type SQL } from "drizzle-orm"
+
+export type KeysetDirection = "asc" | "desc"
+
+export interface KeysetKey {
+  /** 排序表达式，游标条件与 ORDER BY 使用同一表达式 */
+  expression: SQL | AnyColumn
+  direction: KeysetDirection
+}
+
+/** 排序键须为非空列或表达式，NULL 无法参与比较 */
+export type KeysetValue = string | number
+
+/**
+ * 游标无法解码、已损坏或与当前排序不匹配
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = "分页游标无效") {
+    super(message)
+    this.name = "InvalidCursorError"
+  }
+}
+
+export function keysetOrderBy(keys: KeysetKey[]): SQL[] {
+  return keys.map((key) => (key.direction === "asc" ? asc(key.expression) : desc(key.expression)))
+}
+
+/**
+ * 位于游标之后的行：(k1, k2, …) 按各自方向严格大于游标值。
+ * 展开为 k1 > v1 OR (k1 = v1 AND k2 > v2) OR …，各列方向不同时也成立。
+ * 游标值取自查询结果的原始值，直接作为参数绑定，不经过列的类型映射
+ */
+export function keysetAfter(keys: KeysetKey[], values: KeysetValue[]): SQL | undefined {
+  const branches = keys.map((key, index) => {
+    const prefix = keys.slice(0, index).map((prev, prevIndex) => sql`${prev.expression} = ${values[prevIndex]}`)
+    const compare =
+      key.direction === "asc" ? sql`${key.expression} > ${values[index]}` : sql`${key.expression} < ${values[index]}`
+    return and(...prefix, compare)
+  })
+  return or(...branches)
+}
+
+/**
+ * 游标为 base64url 编码的 JSON：{ s: 排序签名, v: 最后一行的排序键值 }。
+ * 签名用于拒绝在排序变化后继续使用的旧游标
+ */
+export function encodeCursor(signature: string, values: KeysetValue[]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ s: signature, v: values }))
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export function decodeCursor(cursor: string, signature: string, length: number): KeysetValue[] {
+  let payload: unknown
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/")
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+    payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))))
+  } catch {
+    throw new InvalidCursorError()
+  }
+
+  const { s, v } = (payload ?? {}) as { s?: unknown; v?: unknown }
+  if (s !== signature) {
+    throw new InvalidCursorError("分页游标与当前排序不匹配")
+  }
+  if (
+    !Array.isArray(v) ||
+    v.length !== length ||
+    !v.every((value) => typeof value === "string" || typeof value === "number")
+  ) {
+    throw new InvalidCursorError()
+  }
+  return v as KeysetValue[]
+}
+
+/**
+ * 按请求条数多取一行判断是否还有下一页，返回当前页与下一页游标
+ */
+export function sliceKeysetPage<T>(
+  rows: T[],
+  limit: number,
+  signature: string,
+  readValues: (row: T) => KeysetValue[]
+): { rows: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { rows, nextCursor: null }
+  }
+  const page = rows.slice(0, limit)
+  return { rows: page, nextCursor: encodeCursor(signature, readValues(page[page.length - 1])) }
+}
@@ -0,0 +1,164 @@
+// Line-based text diff (LCS) used by the blog revision history view
+
+export type DiffOpType = "equal" | "added" | "removed"
+
+export interface DiffOp {
+  type: DiffOpType
+  text: string
+  /** 旧文本中的行号（从 1 开始），新增行为空 */
+  oldLine?: number
+  /** 新文本中的行号（从 1 开始），删除行为空 */
+  newLine?: number
+}
+
+export interface DiffCell {
+  line: number
+  text: string
+}
+
+export interface SideBySideRow {
+  type: "equal" | "changed" | "added" | "removed"
+  left: DiffCell | null
+  right: DiffCell | null
+}
+
+/**
+ * 去掉首尾相同的行后，中间部分的 LCS 表超过该规模时不再逐行比对，
+ * 整段视为删除后新增，避免超长正文占满内存
+ */
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * 逐行比较两段文本，返回按顺序排列的相同、删除、新增行
+ */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const ops: DiffOp[] = []
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: i + 1 })
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix)
+  const middleB = b.slice(prefix, b.length - suffix)
+  for (const op of diffMiddle(middleA, middleB)) {
+    ops.push({
+      ...op,
+      oldLine: op.oldLine === undefined ? undefined : op.oldLine + prefix,
+      newLine: op.newLine === undefined ? undefined : op.newLine + prefix,
+    })
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    ops.push({
+      type: "equal",
+      text: a[a.length - k],
+      oldLine: a.length - k + 1,
+      newLine: b.length - k + 1,
+    })
+  }
+
+  return ops
+}
+
+/**
+ * 转为左右对照的行：连续的删除与新增逐行配对为修改，多出的一侧留空
+ */
+export function toSideBySide(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let removed: DiffOp[] = []
+  let added: DiffOp[] = []
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length)
+    for (let i = 0; i < count; i++) {
+      const left = removed[i]
+      const right = added[i]
+      rows.push({
+        type: left && right ? "changed" : left ? "removed" : "added",
+        left: left ? { line: left.oldLine ?? 0, text: left.text } : null,
+        right: right ? { line: right.newLine ?? 0, text: right.text } : null,
+      })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const op of ops) {
+    if (op.type === "removed") {
+      removed.push(op)
+    } else if (op.type === "added") {
+      added.push(op)
+    } else {
+      flush()
+      rows.push({
+        type: "equal",
+        left: { line: op.oldLine ?? 0, text: op.text },
+        right: { line: op.newLine ?? 0, text: op.text },
+      })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  return text.replace(/\r\n?/g, "\n").split("\n")
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  const n = a.length
+  const m = b.length
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text, i): DiffOp => ({ type: "removed", text, oldLine: i + 1 })),
+      ...b.map((text, j): DiffOp => ({ type: "added", text, newLine: j + 1 })),
+    ]
+  }
+
+  // lcs[i * (m + 1) + j]：a[i..] 与 b[j..] 的最长公共子序列长度
+  const width = m + 1
+  const lcs = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: j + 1 })
+      i++
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "removed", text: a[i], oldLine: i + 1 })
+      i++
+    } else {
+      ops.push({ type: "added", text: b[j], newLine: j + 1 })
+      j++
+    }
+  }
+  for (; i < n; i++) ops.push({ type: "removed", text: a[i], oldLine: i + 1 })
+  for (; j < m; j++) ops.push({ type: "added", text: b[j], newLine: j + 1 })
+
+  return ops
+}
@@ -0,0 +1,107 @@
+// 网站链接健康检查的探测与下线判定：不依赖数据库与运行时绑定，fetcher 可注入，便于对本地桩服务做检查
+
+export type LinkProbeFetcher = (url: string, init: RequestInit) => Promise<Response>
+
+export interface LinkProbeOptions {
+  fetcher?: LinkProbeFetcher
+  timeoutMs?: number
+}
+
+export interface LinkProbeResult {
+  ok: boolean
+  statusCode: number | null
+  finalUrl: string | null
+  responseTimeMs: number
+  method: "HEAD" | "GET"
+  error: string | null
+}
+
+export const LINK_PROBE_TIMEOUT_MS = 10_000
+
+/** 连续失败达到该次数后自动下线；0 表示只记录不下线 */
+export const LINK_CHECK_FAILURE_THRESHOLD = 3
+
+const LINK_PROBE_HEADERS = {
+  "user-agent": "Mozilla/5.0 (compatible; WebVaultLinkChecker/1.0)",
+  accept: "text/html,application/xhtml+xml,*/*;q=0.8",
+}
+
+/** 鉴权或限流说明站点仍在线，不应计为死链 */
+const REACHABLE_ERROR_STATUSES = new Set([401, 403, 429])
+
+/**
+ * 探测链接可用性：先发 HEAD，失败（非超时）或返回错误状态时回退到 GET；自动跟随重定向
+ */
+export async function probeLink(url: string, options: LinkProbeOptions = {}): Promise<LinkProbeResult> {
+  const fetcher = options.fetcher ?? ((input, init) => fetch(input, init))
+  const timeoutMs = options.timeoutMs ?? LINK_PROBE_TIMEOUT_MS
+
+  const head = await attempt(fetcher, url, "HEAD", timeoutMs)
+  if (head.ok || head.error === "timeout") {
+    return head
+  }
+
+  return attempt(fetcher, url, "GET", timeoutMs)
+}
+
+/**
+ * 解析 LINK_CHECK_FAILURE_THRESHOLD 环境变量，未设置或不是非负整数时使用默认值
+ */
+export function parseLinkCheckThreshold(value: string | undefined): number {
+  const parsed = Number(value)
+  return value !== undefined && value.trim() !== "" && Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : LINK_CHECK_FAILURE_THRESHOLD
+}
+
+/**
+ * 已发布的网站连续失败达到阈值时应自动下线；阈值为 0 时只记录
+ */
+export function shouldAutoUnpublish(consecutiveFailures: number, threshold: number, status: string): boolean {
+  return threshold > 0 && consecutiveFailures >= threshold && status === "published"
+}
+
+async function attempt(
+  fetcher: LinkProbeFetcher,
+  url: string,
+  method: "HEAD" | "GET",
+  timeoutMs: number
+): Promise<LinkProbeResult> {
+  const startedAt = Date.now()
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetcher(url, {
+      method,
+      redirect: "follow",
+      headers: LINK_PROBE_HEADERS,
+      signal: controller.signal,
+    })
+    // 只关心状态码，丢弃响应体以释放连接
+    await response.body?.cancel().catch(() => undefined)
+
+    const ok = isHealthy(response.status)
+    return {
+      ok,
+      statusCode: response.status,
+      finalUrl: response.url || url,
+      responseTimeMs: Date.now() - startedAt,
+      method,
+      error: ok ? null : `HTTP ${response.status}`,
+    }
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? "timeout"
+      : error instanceof Error
+        ? error.message || error.name
+        : "network_error"
+    return { ok: false, statusCode: null, finalUrl: null, responseTimeMs: Date.now() - startedAt, method, error: message }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function isHealthy(statusCode: number): boolean {
+  return (statusCode >= 200 && statusCode < 400) || REACHABLE_ERROR_STATUSES.has(statusCode)
+}
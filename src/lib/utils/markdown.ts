@@ -0,0 +1,174 @@
+// Markdown / HTML rendering for user-authored content: CommonMark + GFM, then allowlist sanitization
+
+import type { Element, ElementContent, Root, RootContent } from "hast"
+import rehypeParse from "rehype-parse"
+import rehypeRaw from "rehype-raw"
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from "rehype-sanitize"
+import rehypeStringify from "rehype-stringify"
+import remarkGfm from "remark-gfm"
+import remarkParse from "remark-parse"
+import remarkRehype from "remark-rehype"
+import { unified } from "unified"
+
+export type RenderableContentType = "markdown" | "html"
+
+/**
+ * 渲染管线版本，输出 HTML 的结构或净化规则变化时提升，缓存键随之失效
+ */
+export const CONTENT_RENDER_VERSION = 2
+
+/**
+ * 净化规则：沿用 GitHub 风格的白名单（表格、任务列表、脚注均在其中），
+ * 额外剥离 style 标签的内容，避免 CSS 文本残留在正文里
+ */
+const SANITIZE_SCHEMA: SanitizeSchema = {
+  ...defaultSchema,
+  strip: [...(defaultSchema.strip ?? []), "style"],
+}
+
+export interface ContentHeading {
+  /** 标题锚点 id，可直接用于 #hash 深链 */
+  id: string
+  text: string
+  /** 1–6，对应 h1–h6 */
+  level: number
+}
+
+export interface RenderedContent {
+  html: string
+  /** 按出现顺序排列的标题大纲 */
+  headings: ContentHeading[]
+}
+
+/** 净化时给 id 加的前缀，防止正文中的 id 覆盖页面全局变量（DOM clobbering） */
+const CLOBBER_PREFIX = defaultSchema.clobberPrefix ?? "user-content-"
+
+// Markdown 中的内联 HTML 先由 rehype-raw 解析为节点，再统一经过白名单净化。
+// 脚注 id 的前缀统一交给净化步骤添加，避免重复
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype, {
+    allowDangerousHtml: true,
+    clobberPrefix: "",
+    footnoteLabel: "脚注",
+    footnoteBackLabel: "返回正文",
+  })
+  .use(rehypeRaw)
+  .use(rehypeSanitize, SANITIZE_SCHEMA)
+  .use(rehypeStringify)
+
+const htmlProcessor = unified()
+  .use(rehypeParse, { fragment: true })
+  .use(rehypeSanitize, SANITIZE_SCHEMA)
+  .use(rehypeStringify)
+
+/**
+ * 将 Markdown 或 HTML 渲染为可直接输出的安全 HTML，同时给出标题大纲
+ */
+export async function renderContent(
+  content: string,
+  contentType: RenderableContentType = "markdown"
+): Promise<RenderedContent> {
+  if (!content.trim()) return { html: "", headings: [] }
+  const tree =
+    contentType === "html"
+      ? await htmlProcessor.run(htmlProcessor.parse(content))
+      : await markdownProcessor.run(markdownProcessor.parse(content))
+  const headings = assignHeadingIds(tree)
+  decorate(tree, new Set(headings.map((heading) => heading.id)))
+  // 两条管线的输出都是净化后的 hast，序列化方式相同
+  return { html: htmlProcessor.stringify(tree), headings }
+}
+
+/**
+ * 由标题文本生成锚点：保留各语言的字母与数字（含中日韩文字），空白转为连字符，去掉标点
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+    .replace(/\s+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+/**
+ * 净化之后给标题分配 id。标题 id 由服务端从文本生成，不加净化前缀，便于直接分享锚点；
+ * 重名依次追加 -1、-2…，并避开正文中已有的 id
+ */
+function assignHeadingIds(tree: Root): ContentHeading[] {
+  const used = new Set<string>()
+  walkElements(tree.children, (node) => {
+    if (!isHeading(node) && typeof node.properties.id === "string") used.add(node.properties.id)
+  })
+
+  const headings: ContentHeading[] = []
+  walkElements(tree.children, (node) => {
+    if (!isHeading(node)) return
+    const text = textContent(node.children).replace(/\s+/g, " ").trim()
+    const base = slugifyHeading(text) || "section"
+    let id = base
+    for (let suffix = 1; used.has(id); suffix++) id = `${base}-${suffix}`
+    used.add(id)
+    node.properties.id = id
+    headings.push({ id, text, level: Number(node.tagName.slice(1)) })
+  })
+  return headings
+}
+
+/**
+ * 展示属性：外链新窗口打开，页内锚点指向标题或加了前缀的 id，图片懒加载
+ */
+function decorate(tree: Root, headingIds: Set<string>) {
+  walkElements(tree.children, (node) => {
+    const href = node.tagName === "a" ? node.properties.href : undefined
+    if (isExternalHref(href)) {
+      node.properties.target = "_blank"
+      node.properties.rel = ["noopener", "noreferrer"]
+    } else if (typeof href === "string" && href.startsWith("#") && !href.startsWith(`#${CLOBBER_PREFIX}`)) {
+      const fragment = decodeFragment(href.slice(1))
+      node.properties.href = headingIds.has(fragment) ? `#${fragment}` : `#${CLOBBER_PREFIX}${href.slice(1)}`
+    }
+    if (node.tagName === "img") {
+      node.properties.loading = "lazy"
+      node.properties.decoding = "async"
+    }
+  })
+}
+
+function walkElements(nodes: RootContent[], visit: (node: Element) => void) {
+  for (const node of nodes) {
+    if (node.type !== "element") continue
+    visit(node)
+    walkElements(node.children, visit)
+  }
+}
+
+/** 参与大纲的标题；脚注区的 sr-only 标题保留原 id，供脚注引用的 aria-describedby 使用 */
+function isHeading(node: Element): boolean {
+  if (!/^h[1-6]$/.test(node.tagName)) return false
+  const className = node.properties.className
+  return !(Array.isArray(className) && className.includes("sr-only"))
+}
+
+function textContent(nodes: ElementContent[]): string {
+  return nodes
+    .map((node) => (node.type === "text" ? node.value : node.type === "element" ? textContent(node.children) : ""))
+    .join("")
+}
+
+/** Markdown 中的非 ASCII 锚点会被百分号编码，比较前先还原 */
+function decodeFragment(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment)
+  } catch {
+    return fragment
+  }
+}
+
+function isExternalHref(href: unknown): boolean {
+  return typeof href === "string" && /^https?:\/\//i.test(href)
+}
@@ -0,0 +1,40 @@
+// Request helpers shared by public route handlers (client identification for rate limiting / dedup)
+
+/**
+ * 读取客户端 IP：优先使用 Cloudflare 注入的 cf-connecting-ip
+ */
+export function getClientIp(request: Request): string | null {
+  const headers = request.headers
+  const direct = headers.get("cf-connecting-ip") ?? headers.get("x-real-ip")
+  if (direct) return direct.trim()
+
+  const forwarded = headers.get("x-forwarded-for")
+  if (forwarded) {
+    const [first] = forwarded.split(",")
+    if (first?.trim()) return first.trim()
+  }
+
+  return null
+}
+
+/**
+ * SHA-256 摘要（hex），用于存储不可逆的 IP / UA 指纹
+ */
+export async function hashValue(value: string, salt = process.env.REQUEST_HASH_SALT ?? ""): Promise<string> {
+  const data = new TextEncoder().encode(`${salt}:${value}`)
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+const BOT_USER_AGENT_PATTERN =
+  /bot|crawl|spider|slurp|bingpreview|facebookexternalhit|embedly|quora link preview|whatsapp|telegram|discord|curl|wget|python-requests|httpclient|axios|node-fetch|go-http-client|headless|phantomjs|lighthouse|pingdom|uptime/i
+
+/**
+ * 识别常见爬虫、预览抓取与脚本客户端；缺少 UA 的请求同样视为非真人访问
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent?.trim()) return true
+  return BOT_USER_AGENT_PATTERN.test(userAgent)
+}
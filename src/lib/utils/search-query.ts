@@ -0,0 +1,284 @@
+// Advanced search syntax shared by the public websites API (execution) and the search page (removable chips)
+
+export const SEARCH_QUERY_OPERATORS = ["site", "tag", "category", "before", "after"] as const
+
+export type SearchQueryOperator = (typeof SEARCH_QUERY_OPERATORS)[number]
+
+export type SearchClauseType = "phrase" | "required" | "excluded" | SearchQueryOperator
+
+export interface SearchQueryClause {
+  type: SearchClauseType
+  value: string
+  /** 查询串中的原文；来自筛选参数的条件为空串 */
+  raw: string
+  /** query：写在搜索框里的语法；filter：来自 exactMatch / requiredTerms 等独立参数 */
+  source: "query" | "filter"
+}
+
+export interface ParsedSearchQuery {
+  /** 普通关键词（前缀匹配） */
+  terms: string[]
+  phrases: string[]
+  required: string[]
+  excluded: string[]
+  sites: string[]
+  tags: string[]
+  categories: string[]
+  /** YYYY-MM-DD，收录时间 >= after */
+  after: string | null
+  /** YYYY-MM-DD，收录时间 < before */
+  before: string | null
+  clauses: SearchQueryClause[]
+}
+
+export interface SearchQueryFilters {
+  exactMatch?: boolean
+  requiredTerms?: string[]
+  excludeTerms?: string[]
+  after?: string | null
+  before?: string | null
+}
+
+/** 单次查询最多解析的片段数，避免生成过长的 SQL */
+const MAX_SEARCH_TOKENS = 24
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 解析搜索语法："exact phrase"、+required、-excluded、site:domain、tag:slug、category:slug、before:/after:YYYY-MM-DD。
+ * 无法识别的片段（如 before:abc）按普通关键词处理
+ */
+export function parseSearchQuery(input: string | null | undefined): ParsedSearchQuery {
+  const parsed = emptySearchQuery()
+
+  for (const token of tokenize(input ?? "").slice(0, MAX_SEARCH_TOKENS)) {
+    const clause = toClause(token)
+    if (clause) {
+      addClause(parsed, clause)
+      continue
+    }
+
+    const text = token.operator ? token.raw.replace(/"/g, "").trim() : token.value
+    if (text) parsed.terms.push(text)
+  }
+
+  return parsed
+}
+
+/**
+ * 合并搜索页的独立筛选参数；exactMatch 会把普通关键词合并为一个短语
+ */
+export function applySearchFilters(parsed: ParsedSearchQuery, filters: SearchQueryFilters): ParsedSearchQuery {
+  const next: ParsedSearchQuery = {
+    ...parsed,
+    terms: [...parsed.terms],
+    phrases: [...parsed.phrases],
+    required: [...parsed.required],
+    excluded: [...parsed.excluded],
+    clauses: [...parsed.clauses],
+  }
+
+  if (filters.exactMatch && next.terms.length) {
+    const phrase = next.terms.join(" ")
+    next.terms = []
+    addClause(next, { type: "phrase", value: phrase, raw: "", source: "filter" })
+  }
+
+  for (const term of filters.requiredTerms ?? []) {
+    const value = term.trim()
+    if (value && !next.required.includes(value)) {
+      addClause(next, { type: "required", value, raw: "", source: "filter" })
+    }
+  }
+
+  for (const term of filters.excludeTerms ?? []) {
+    const value = term.trim()
+    if (value && !next.excluded.includes(value)) {
+      addClause(next, { type: "excluded", value, raw: "", source: "filter" })
+    }
+  }
+
+  if (filters.after && isSearchDate(filters.after)) {
+    addClause(next, { type: "after", value: filters.after, raw: "", source: "filter" })
+  }
+
+  if (filters.before && isSearchDate(filters.before)) {
+    addClause(next, { type: "before", value: filters.before, raw: "", source: "filter" })
+  }
+
+  return next
+}
+
+/** 是否包含需要全文匹配的正向关键词 */
+export function hasSearchText(parsed: ParsedSearchQuery | null | undefined): boolean {
+  return Boolean(parsed && (parsed.terms.length || parsed.phrases.length || parsed.required.length))
+}
+
+export function isEmptySearchQuery(parsed: ParsedSearchQuery): boolean {
+  return !parsed.terms.length && !parsed.clauses.length
+}
+
+/**
+ * 从查询串中移除某个语法片段（按原文整词匹配），用于筛选标签的“移除”操作
+ */
+export function removeSearchClause(query: string, clause: Pick<SearchQueryClause, "raw">): string {
+  if (!clause.raw) return query.trim()
+
+  const tokens = tokenize(query)
+  const index = tokens.findIndex((token) => token.raw === clause.raw)
+  if (index === -1) return query.trim()
+
+  return tokens
+    .filter((_, tokenIndex) => tokenIndex !== index)
+    .map((token) => token.raw)
+    .join(" ")
+}
+
+export function isSearchDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+function emptySearchQuery(): ParsedSearchQuery {
+  return {
+    terms: [],
+    phrases: [],
+    required: [],
+    excluded: [],
+    sites: [],
+    tags: [],
+    categories: [],
+    after: null,
+    before: null,
+    clauses: [],
+  }
+}
+
+function addClause(parsed: ParsedSearchQuery, clause: SearchQueryClause) {
+  switch (clause.type) {
+    case "phrase":
+      parsed.phrases.push(clause.value)
+      break
+    case "required":
+      parsed.required.push(clause.value)
+      break
+    case "excluded":
+      parsed.excluded.push(clause.value)
+      break
+    case "site":
+      parsed.sites.push(clause.value)
+      break
+    case "tag":
+      parsed.tags.push(clause.value)
+      break
+    case "category":
+      parsed.categories.push(clause.value)
+      break
+    case "after":
+    case "before": {
+      // 日期条件只保留一个，后出现的覆盖先前的
+      parsed.clauses = parsed.clauses.filter((item) => item.type !== clause.type)
+      parsed[clause.type] = clause.value
+      break
+    }
+  }
+  parsed.clauses.push(clause)
+}
+
+interface SearchToken {
+  raw: string
+  /** 去掉前缀和引号后的内容 */
+  value: string
+  prefix: "" | "+" | "-"
+  quoted: boolean
+  operator: string | null
+}
+
+function tokenize(input: string): SearchToken[] {
+  const tokens: SearchToken[] = []
+  let index = 0
+
+  while (index < input.length) {
+    while (index < input.length && /\s/.test(input[index])) index += 1
+    if (index >= input.length) break
+
+    const start = index
+    let prefix: SearchToken["prefix"] = ""
+    if (input[index] === "+" || input[index] === "-") {
+      prefix = input[index] as SearchToken["prefix"]
+      index += 1
+    }
+
+    let operator: string | null = null
+    const operatorMatch = /^([a-z]+):/i.exec(input.slice(index))
+    if (operatorMatch && (SEARCH_QUERY_OPERATORS as readonly string[]).includes(operatorMatch[1].toLowerCase())) {
+      operator = operatorMatch[1].toLowerCase()
+      index += operatorMatch[0].length
+    }
+
+    let value: string
+    let quoted = false
+    if (input[index] === '"') {
+      const close = input.indexOf('"', index + 1)
+      const end = close === -1 ? input.length : close
+      value = input.slice(index + 1, end)
+      quoted = true
+      index = close === -1 ? input.length : close + 1
+      // 引号后紧跟的字符归入同一片段
+      while (index < input.length && !/\s/.test(input[index])) index += 1
+    } else {
+      const valueStart = index
+      while (index < input.length && !/\s/.test(input[index])) index += 1
+      value = input.slice(valueStart, index)
+    }
+
+    tokens.push({
+      raw: input.slice(start, index),
+      value: value.replace(/\s+/g, " ").trim(),
+      prefix,
+      quoted,
+      operator,
+    })
+  }
+
+  return tokens
+}
+
+function toClause(token: SearchToken): SearchQueryClause | null {
+  const { raw, value, prefix, quoted, operator } = token
+  if (!value) return null
+
+  if (operator) {
+    if (prefix) return null
+    const normalized = normalizeOperatorValue(operator as SearchQueryOperator, value)
+    return normalized ? { type: operator as SearchQueryOperator, value: normalized, raw, source: "query" } : null
+  }
+
+  if (prefix === "-") return { type: "excluded", value, raw, source: "query" }
+  if (prefix === "+") return { type: quoted ? "phrase" : "required", value, raw, source: "query" }
+  if (quoted) return { type: "phrase", value, raw, source: "query" }
+
+  return null
+}
+
+function normalizeOperatorValue(operator: SearchQueryOperator, value: string): string | null {
+  switch (operator) {
+    case "site": {
+      const host = value
+        .toLowerCase()
+        .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+        .split(/[/?#:]/)[0]
+        .replace(/^www\./, "")
+      return /^[a-z0-9.-]+$/.test(host) && host.includes(".") ? host : null
+    }
+    case "tag":
+    case "category": {
+      const slug = value.toLowerCase()
+      return /^[\p{L}\p{N}_-]+$/u.test(slug) ? slug : null
+    }
+    case "before":
+    case "after":
+      return isSearchDate(value) ? value : null
+  }
+}
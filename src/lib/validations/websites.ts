@@ -15,6 +15,13 @@ export const WebsiteDTOSchema = z.object({
   status: z.enum(['draft', 'published']).default('published'),
   created_at: z.string(),
   updated_at: z.string(),
+  /** 全文检索命中时的标题高亮与描述摘要，命中词以 SEARCH_HIGHLIGHT_OPEN / CLOSE 包裹 */
+  highlight: z
+    .object({
+      title: z.string().optional(),
+      description: z.string().optional(),
+    })
+    .optional(),
 });
 
 export type WebsiteDTO = z.infer<typeof WebsiteDTOSchema>;
@@ -28,3 +35,72 @@ export const WebsiteListResponseSchema = z.object({
 
 export type WebsiteListResponseDTO = z.infer<typeof WebsiteListResponseSchema>;
 
+
+/** 公开网站列表支持的排序字段（/api/websites 的 sortBy 白名单） */
+export const WEBSITE_LIST_SORT_FIELDS = ['created_at', 'updated_at', 'title', 'visit_count', 'relevance'] as const;
+
+export type WebsiteListSortField = (typeof WEBSITE_LIST_SORT_FIELDS)[number];
+
+export type WebsiteListSortOrder = 'asc' | 'desc';
+
+export function isWebsiteListSortField(value: unknown): value is WebsiteListSortField {
+  return typeof value === 'string' && (WEBSITE_LIST_SORT_FIELDS as readonly string[]).includes(value);
+}
+
+/** 搜索高亮标记：使用控制字符而非 HTML 标签，前端按标记切分后渲染为 <mark>，避免注入 */
+export const SEARCH_HIGHLIGHT_OPEN = '\u0002';
+export const SEARCH_HIGHLIGHT_CLOSE = '\u0003';
+
+/** 搜索范围（/api/websites 的 scope 参数），content 指网站描述 */
+export const WEBSITE_SEARCH_SCOPES = ['all', 'title', 'description', 'url', 'tags', 'content'] as const;
+
+export type WebsiteSearchScope = (typeof WEBSITE_SEARCH_SCOPES)[number];
+
+export function isWebsiteSearchScope(value: unknown): value is WebsiteSearchScope {
+  return typeof value === 'string' && (WEBSITE_SEARCH_SCOPES as readonly string[]).includes(value);
+}
+
+/** 多标签筛选方式：all 需同时包含所有标签，any 包含任一标签即可 */
+export const WEBSITE_TAG_MODES = ['all', 'any'] as const;
+
+export type WebsiteTagMode = (typeof WEBSITE_TAG_MODES)[number];
+
+export const DEFAULT_WEBSITE_TAG_MODE: WebsiteTagMode = 'all';
+
+export function isWebsiteTagMode(value: unknown): value is WebsiteTagMode {
+  return typeof value === 'string' && (WEBSITE_TAG_MODES as readonly string[]).includes(value);
+}
+
+/** 公开网站列表支持的分面统计（/api/websites 的 facets 参数） */
+export const WEBSITE_LIST_FACETS = ['category', 'tag', 'adType'] as const;
+
+export type WebsiteListFacet = (typeof WEBSITE_LIST_FACETS)[number];
+
+export function isWebsiteListFacet(value: unknown): value is WebsiteListFacet {
+  return typeof value === 'string' && (WEBSITE_LIST_FACETS as readonly string[]).includes(value);
+}
+
+/** adType 分面与筛选中表示非广告网站的取值 */
+export const WEBSITE_AD_TYPE_NONE = 'none';
+
+export interface WebsiteFacetBucket {
+  id: string;
+  name: string;
+  slug: string;
+  color?: string;
+  /** 当前筛选结果中的网站数；分类包含其子分类 */
+  website_count: number;
+}
+
+export interface WebsiteAdTypeFacetBucket {
+  /** 广告类型，非广告网站为 WEBSITE_AD_TYPE_NONE */
+  value: string;
+  website_count: number;
+}
+
+/** 只包含请求的分面；每个分面统计时忽略自身的筛选条件，便于多选 */
+export interface WebsiteListFacets {
+  category?: WebsiteFacetBucket[];
+  tag?: WebsiteFacetBucket[];
+  adType?: WebsiteAdTypeFacetBucket[];
+}
@@ -1,5 +1,7 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
-import { NextResponse } from 'next/server'
+import { NextResponse, type NextRequest } from 'next/server'
+import { buildCategoryPath } from '@/features/categories/utils/path'
+import { buildTagPath, parseTagModeParam } from '@/features/browsable-pages/utils/url-params'
 
 // Define protected routes that require authentication
 const isProtectedRoute = createRouteMatcher([
@@ -7,9 +9,54 @@ const isProtectedRoute = createRouteMatcher([
   '/dashboard(.*)',
 ])
 
+// Admin API routes answer with JSON instead of redirecting; role checks live in the handlers (see src/lib/auth)
+const isAdminApiRoute = createRouteMatcher(['/api/admin(.*)'])
+
+// Legacy /category?category=<slug|id> links move to the canonical /category/<slug> route with a 301;
+// the route page resolves parents and redirects again if the slug is nested
+function redirectLegacyCategoryUrl(req: NextRequest) {
+  const { pathname, searchParams } = req.nextUrl
+  const category = searchParams.get('category')?.trim()
+  if (pathname !== '/category' || !category || category === 'undefined') return null
+
+  const url = req.nextUrl.clone()
+  url.pathname = buildCategoryPath([category])
+  url.searchParams.delete('category')
+  return NextResponse.redirect(url, 301)
+}
+
+// Legacy /tag?tags=a,b links move to the canonical /tag/a+b route with a 301, same as legacy category links
+function redirectLegacyTagUrl(req: NextRequest) {
+  const { pathname, searchParams } = req.nextUrl
+  const tags = (searchParams.get('tags') ?? '').split(',').map((tag) => tag.trim()).filter(Boolean)
+  if (pathname !== '/tag' || tags.length === 0) return null
+
+  const target = new URL(buildTagPath(tags, parseTagModeParam(searchParams.get('tagMode'))), req.nextUrl)
+  const url = req.nextUrl.clone()
+  url.pathname = target.pathname
+  url.searchParams.delete('tags')
+  url.searchParams.delete('tagMode')
+  target.searchParams.forEach((value, key) => url.searchParams.set(key, value))
+  return NextResponse.redirect(url, 301)
+}
+
 export default clerkMiddleware(async (auth, req) => {
+  const legacyRedirect = redirectLegacyCategoryUrl(req) ?? redirectLegacyTagUrl(req)
+  if (legacyRedirect) return legacyRedirect
+
   const { userId } = await auth()
 
+  if (isAdminApiRoute(req) && !userId) {
+    return NextResponse.json(
+      {
+        code: 'unauthorized',
+        message: '未登录或会话已失效',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 401 }
+    )
+  }
+
   // If it's a protected route and user is not signed in, redirect to sign-in
   if (isProtectedRoute(req) && !userId) {
     const signInUrl = new URL('/sign-in', req.url)
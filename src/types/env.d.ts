@@ -8,6 +8,9 @@ declare global {
     // Environment variables
     NEXT_PUBLIC_APP_URL?: string;
     DATABASE_URL?: string;
+    LINK_CHECK_FAILURE_THRESHOLD?: string;
+    // 媒体文件的公开访问前缀（如 R2 自定义域名），未设置时经 /api/media 读取
+    MEDIA_PUBLIC_BASE_URL?: string;
 
     // Add other bindings and environment variables as needed
     KV?: KVNamespace;
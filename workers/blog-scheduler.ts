@@ -0,0 +1,61 @@
+/**
+ * Scheduler Worker
+ *
+ * Cloudflare Pages 不支持 Cron Triggers，定时任务以独立 Worker 部署，
+ * 与 Pages 共用同一个 D1 数据库（见 wrangler.scheduler.toml）。
+ *
+ * - 每 5 分钟：发布到期的定时博客文章
+ * - 每小时：检测一批网站链接健康状况，连续失败达到阈值自动下线
+ *
+ * - 部署：npm run deploy:scheduler
+ * - 本地执行一次：npm run cron:publish-scheduled / npm run cron:check-links
+ */
+
+import { drizzle } from 'drizzle-orm/d1';
+
+import { blogPostsService } from '@/lib/services/blogPostsService';
+import { linkCheckService } from '@/lib/services/linkCheckService';
+import { parseLinkCheckThreshold } from '@/lib/utils/link-probe';
+
+const LINK_CHECK_CRON = '0 * * * *';
+
+interface ScheduledEvent {
+  cron: string;
+  scheduledTime: number;
+}
+
+// 直接 await 任务而不是 ctx.waitUntil：本地经 /__scheduled 触发时，响应返回即代表任务已执行完毕
+const blogScheduler = {
+  async scheduled(event: ScheduledEvent, env: CloudflareEnv) {
+    const db = drizzle(env.DB);
+    const now = new Date(event.scheduledTime);
+
+    if (event.cron === LINK_CHECK_CRON) {
+      try {
+        const result = await linkCheckService.runDueChecks({
+          db,
+          now,
+          failureThreshold: parseLinkCheckThreshold(env.LINK_CHECK_FAILURE_THRESHOLD),
+        });
+        console.log(
+          `[${event.cron}] checked ${result.checked} link(s): ${result.healthy} healthy, ${result.broken} broken`,
+          result.unpublishedIds.length ? { unpublished: result.unpublishedIds } : ''
+        );
+      } catch (error) {
+        console.error(`[${event.cron}] link check failed`, error);
+      }
+      return;
+    }
+
+    try {
+      const result = await blogPostsService.publishDueScheduled({ db, now });
+      if (result.publishedIds.length) {
+        console.log(`[${event.cron}] published ${result.publishedIds.length} scheduled post(s)`, result.publishedIds);
+      }
+    } catch (error) {
+      console.error(`[${event.cron}] scheduled publish failed`, error);
+    }
+  },
+};
+
+export default blogScheduler;